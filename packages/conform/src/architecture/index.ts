@@ -0,0 +1,63 @@
+/**
+ * Core implementation of the conform code architecture command
+ */
+
+import { createArchitectureRunner } from "../code/index.js";
+import type { ModuleGraph } from "../code/tools/architecture-graph.js";
+import { getProjectRoot, loadConfigAsync } from "../core/index.js";
+import { formatArchitectureText, formatGraphDot, formatGraphJson } from "./output.js";
+import type { ArchitectureOptions, DependencyGraph, GraphEdge } from "./types.js";
+
+// Re-export types for library consumers
+export type { ArchitectureOptions } from "./types.js";
+
+/**
+ * Collapse the import graph to one edge per pair of project files
+ */
+function toDependencyGraph(
+  graph: ModuleGraph,
+  layerOf: (file: string) => string | undefined
+): DependencyGraph {
+  const edges = new Map<string, GraphEdge>();
+  for (const { from, to, line } of graph.edges) {
+    if (!to) {
+      continue;
+    }
+    const key = `${from}\0${to}`;
+    const edge = edges.get(key) ?? { from, to, lines: [] };
+    edge.lines.push(line);
+    edges.set(key, edge);
+  }
+
+  return {
+    nodes: graph.files.map((id) => {
+      const layer = layerOf(id);
+      return layer ? { id, layer } : { id };
+    }),
+    edges: [...edges.values()],
+  };
+}
+
+/**
+ * Run the architecture command (CLI entry point).
+ * Prints the dependency graph with --graph, otherwise checks the import rules.
+ * Returns whether the command succeeded.
+ */
+export async function runArchitecture(options: ArchitectureOptions): Promise<boolean> {
+  const { config, configPath } = await loadConfigAsync(options.config);
+  const projectRoot = getProjectRoot(configPath);
+  const runner = createArchitectureRunner(config);
+
+  if (options.graph) {
+    const graph = toDependencyGraph(await runner.buildGraph(projectRoot), (file) =>
+      runner.layerOf(file)
+    );
+    const output = options.graph === "dot" ? formatGraphDot(graph) : formatGraphJson(graph);
+    process.stdout.write(`${output}\n`);
+    return true;
+  }
+
+  const result = await runner.run(projectRoot);
+  process.stdout.write(`${formatArchitectureText(result)}\n`);
+  return result.passed;
+}
@@ -0,0 +1,56 @@
+/**
+ * Output formatters for the conform code architecture command
+ */
+
+import type { CheckResult } from "../core/index.js";
+import type { DependencyGraph } from "./types.js";
+
+/** Quote a DOT identifier */
+function quote(id: string): string {
+  return `"${id.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Format the dependency graph as Graphviz DOT, with a cluster per layer
+ */
+export function formatGraphDot(graph: DependencyGraph): string {
+  const lines = ["digraph modules {", "  rankdir=LR;", "  node [shape=box];"];
+
+  const layers = [...new Set(graph.nodes.map((node) => node.layer))];
+  for (const layer of layers) {
+    const members = graph.nodes.filter((node) => node.layer === layer);
+    if (layer === undefined) {
+      lines.push(...members.map((node) => `  ${quote(node.id)};`));
+      continue;
+    }
+    lines.push(`  subgraph ${quote(`cluster_${layer}`)} {`, `    label=${quote(layer)};`);
+    lines.push(...members.map((node) => `    ${quote(node.id)};`), "  }");
+  }
+
+  lines.push(...graph.edges.map((edge) => `  ${quote(edge.from)} -> ${quote(edge.to)};`));
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Format the dependency graph as JSON
+ */
+export function formatGraphJson(graph: DependencyGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+/**
+ * Format architecture check results as human-readable text
+ */
+export function formatArchitectureText(result: CheckResult): string {
+  if (result.violations.length === 0) {
+    return "No architecture violations found";
+  }
+
+  const lines = result.violations.map((v) => {
+    const location = v.file ? `${v.file}${v.line ? `:${v.line}` : ""}  ` : "";
+    return `${location}${v.message}`;
+  });
+  const noun = result.violations.length === 1 ? "violation" : "violations";
+  return [...lines, "", `${result.violations.length} architecture ${noun}`].join("\n");
+}
@@ -0,0 +1,33 @@
+/**
+ * Types for the conform code architecture command
+ */
+
+/** Options for the architecture command */
+export interface ArchitectureOptions {
+  /** Path to standards.toml config file */
+  config?: string;
+  /** Print the module dependency graph in this format instead of checking it */
+  graph?: "dot" | "json";
+}
+
+/** A project file in the dependency graph */
+export interface GraphNode {
+  /** File path relative to the project root */
+  id: string;
+  /** Layer from [code.architecture] */
+  layer?: string;
+}
+
+/** Imports of one file by another */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  /** Lines of the imports in the importing file */
+  lines: number[];
+}
+
+/** Module dependency graph between project files (external packages left out) */
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
@@ -0,0 +1,208 @@
+/**
+ * Violation baselines for ratcheting down pre-existing violations.
+ *
+ * A baseline records a fingerprint of every current violation. Later runs only
+ * report violations that are not in the baseline, and list baseline entries
+ * that no longer occur so they can be removed.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import {
+  type BaselineEntry,
+  type BaselineSummary,
+  type CheckResult,
+  ConfigError,
+  type DomainResult,
+  DomainResultBuilder,
+  type Violation,
+} from "../core/index.js";
+
+/** Default baseline file name, relative to the project root */
+export const DEFAULT_BASELINE_FILE = ".conform-baseline.json";
+
+/** Current baseline file format version */
+const BASELINE_VERSION = 1;
+
+/** On-disk baseline file format */
+interface BaselineFile {
+  version: number;
+  violations: BaselineEntry[];
+}
+
+/**
+ * Normalize a violation message so fingerprints survive line shifts.
+ * Strips embedded line/column references and collapses whitespace.
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b(line|col|column)\s+\d+/gi, "$1 #")
+    .replace(/:\d+(:\d+)?\b/g, ":#")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Compute a stable fingerprint for a violation.
+ * Line and column are deliberately excluded so unrelated edits don't invalidate the baseline.
+ */
+export function fingerprintViolation(v: Violation): string {
+  const parts = [v.tool, v.rule, v.code ?? "", v.file ?? "", normalizeMessage(v.message)];
+  return createHash("sha256").update(parts.join("\0")).digest("hex").slice(0, 16);
+}
+
+/** Collect all violations from domain results */
+function collectViolations(domains: Record<string, DomainResult>): Violation[] {
+  return Object.values(domains).flatMap((d) => d.checks.flatMap((c) => c.violations));
+}
+
+/** Sort entries for stable, reviewable diffs */
+function compareEntries(a: BaselineEntry, b: BaselineEntry): number {
+  return (
+    (a.file ?? "").localeCompare(b.file ?? "") ||
+    a.tool.localeCompare(b.tool) ||
+    a.fingerprint.localeCompare(b.fingerprint)
+  );
+}
+
+/**
+ * Create baseline entries from the violations in a set of domain results
+ */
+export function createBaseline(domains: Record<string, DomainResult>): BaselineEntry[] {
+  const entries = new Map<string, BaselineEntry>();
+
+  for (const v of collectViolations(domains)) {
+    const fingerprint = fingerprintViolation(v);
+    const existing = entries.get(fingerprint);
+    if (existing) {
+      existing.count++;
+      continue;
+    }
+    entries.set(fingerprint, {
+      fingerprint,
+      tool: v.tool,
+      rule: v.rule,
+      ...(v.code && { code: v.code }),
+      ...(v.file && { file: v.file }),
+      message: normalizeMessage(v.message),
+      count: 1,
+    });
+  }
+
+  return [...entries.values()].sort(compareEntries);
+}
+
+/**
+ * Write baseline entries to a file
+ */
+export function writeBaseline(baselinePath: string, entries: BaselineEntry[]): void {
+  const file: BaselineFile = { version: BASELINE_VERSION, violations: entries };
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+  fs.writeFileSync(baselinePath, `${JSON.stringify(file, null, 2)}\n`);
+}
+
+/**
+ * Read baseline entries from a file
+ */
+export function readBaseline(baselinePath: string): BaselineEntry[] {
+  if (!fs.existsSync(baselinePath)) {
+    throw new ConfigError(
+      `Baseline file not found: ${baselinePath}. Run with --update-baseline to create it.`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(baselinePath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new ConfigError(`Failed to parse baseline file ${baselinePath}: ${message}`);
+  }
+
+  const file = parsed as Partial<BaselineFile>;
+  if (file.version !== BASELINE_VERSION || !Array.isArray(file.violations)) {
+    throw new ConfigError(
+      `Invalid baseline file ${baselinePath}: ` +
+        `expected version ${BASELINE_VERSION} with a violations array`
+    );
+  }
+  return file.violations;
+}
+
+/** Remove baselined violations from a check, consuming the remaining budget per fingerprint */
+function filterCheck(check: CheckResult, budget: Map<string, number>): CheckResult {
+  if (check.skipped || check.violations.length === 0) {
+    return check;
+  }
+
+  const remaining = check.violations.filter((v) => {
+    const fingerprint = fingerprintViolation(v);
+    const left = budget.get(fingerprint) ?? 0;
+    if (left > 0) {
+      budget.set(fingerprint, left - 1);
+      return false;
+    }
+    return true;
+  });
+
+  if (remaining.length === check.violations.length) {
+    return check;
+  }
+  return { ...check, violations: remaining, passed: remaining.length === 0 };
+}
+
+/** Tools that ran (weren't skipped), by toolId and by the tool of their violations */
+function collectRanTools(domains: Record<string, DomainResult>): Set<string> {
+  const tools = new Set<string>();
+  for (const check of Object.values(domains).flatMap((d) => d.checks)) {
+    if (check.skipped) {
+      continue;
+    }
+    if (check.toolId) {
+      tools.add(check.toolId);
+    }
+    check.violations.forEach((v) => tools.add(v.tool));
+  }
+  return tools;
+}
+
+/**
+ * Apply a baseline to domain results.
+ * Returns the filtered domains and a summary of suppressed and fixed entries.
+ * Entries only count as fixed when their tool ran; in changed-files mode, also
+ * only when they are for one of the changed files.
+ */
+export function applyBaseline(
+  domains: Record<string, DomainResult>,
+  entries: BaselineEntry[],
+  baselinePath: string,
+  changedFiles?: string[]
+): { domains: Record<string, DomainResult>; summary: BaselineSummary } {
+  const budget = new Map(entries.map((e) => [e.fingerprint, e.count]));
+  const before = collectViolations(domains).length;
+
+  const filtered: Record<string, DomainResult> = {};
+  for (const [name, domain] of Object.entries(domains)) {
+    const checks = domain.checks.map((check) => filterCheck(check, budget));
+    filtered[name] = DomainResultBuilder.fromChecks(domain.domain, checks);
+  }
+
+  const ranTools = collectRanTools(domains);
+  const changed = changedFiles && new Set(changedFiles.map((f) => path.normalize(f)));
+  const fixed = entries
+    .filter((e) => (budget.get(e.fingerprint) ?? 0) > 0)
+    .filter((e) => ranTools.has(e.tool))
+    .filter((e) => !changed || (e.file !== undefined && changed.has(path.normalize(e.file))))
+    .map((e) => ({ ...e, count: budget.get(e.fingerprint) ?? 0 }));
+
+  return {
+    domains: filtered,
+    summary: {
+      path: baselinePath,
+      suppressed: before - collectViolations(filtered).length,
+      fixed,
+    },
+  };
+}
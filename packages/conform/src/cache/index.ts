@@ -0,0 +1,197 @@
+/**
+ * Persistent result cache for tool runs.
+ *
+ * A cached result is replayed when nothing that could change it has changed: the
+ * conform version, the tool's cacheKey (tool version and external state), its
+ * standards.toml settings, and the content of its config files, source files,
+ * lockfiles and any extra inputs it declares (e.g. tsconfig extends chains).
+ * Files the tool writes itself, such as coverage reports, are not inputs.
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { globSync } from "glob";
+
+import { type CacheSummary, type CheckResult, type IToolRunner } from "../core/index.js";
+
+/** Default cache directory, relative to the project root */
+export const DEFAULT_CACHE_DIR = ".conform-cache";
+
+/** Lockfiles that pin tool and plugin versions, hashed as inputs of every cached tool */
+const LOCKFILES = [
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "bun.lockb",
+  "uv.lock",
+  "poetry.lock",
+  "Pipfile.lock",
+];
+
+/** Directories never hashed as tool inputs */
+const IGNORED_DIRS = [
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "coverage",
+  "target",
+  "vendor",
+  "__pycache__",
+  ".pytest_cache",
+  ".venv",
+  "venv",
+  ".next",
+  ".nuxt",
+];
+
+/** On-disk cache entry, one per tool */
+interface CacheEntry {
+  key: string;
+  result: CheckResult;
+}
+
+/**
+ * Cache of tool results stored as one JSON file per tool in the cache directory.
+ * Cache I/O is best-effort: an unreadable or unwritable cache just means the tool runs.
+ */
+export class ResultCache {
+  private readonly fileHashes = new Map<string, string>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param projectRoot - Directory that source patterns are relative to
+   * @param dir - Cache directory (absolute, or relative to projectRoot)
+   * @param version - conform version, so upgrades never replay stale results
+   */
+  constructor(
+    private readonly projectRoot: string,
+    private readonly dir: string,
+    private readonly version: string
+  ) {}
+
+  /**
+   * Wrap a tool so its runs are served from the cache when its inputs are unchanged.
+   * Tools that don't implement cacheKey or declare source patterns are returned as-is.
+   *
+   * @param settings - The tool's section from standards.toml
+   */
+  wrap(tool: IToolRunner, settings: unknown): IToolRunner {
+    if (!tool.cacheKey || !tool.sourcePatterns) {
+      return tool;
+    }
+    return {
+      name: tool.name,
+      rule: tool.rule,
+      toolId: tool.toolId,
+      configFiles: tool.configFiles,
+      sourcePatterns: tool.sourcePatterns,
+      outputPatterns: tool.outputPatterns,
+      audit: (projectRoot) => tool.audit(projectRoot),
+      run: (projectRoot) => this.run(tool, settings, projectRoot),
+    };
+  }
+
+  /** Hits and misses so far */
+  getSummary(): CacheSummary {
+    return { dir: this.dir, hits: this.hits, misses: this.misses };
+  }
+
+  private async run(
+    tool: IToolRunner,
+    settings: unknown,
+    projectRoot: string
+  ): Promise<CheckResult> {
+    const key = await this.computeKey(tool, settings);
+    if (key === null) {
+      return tool.run(projectRoot);
+    }
+
+    const entryPath = path.resolve(this.projectRoot, this.dir, `${tool.toolId}.json`);
+    const cached = readEntry(entryPath);
+    if (cached?.key === key) {
+      this.hits++;
+      return cached.result;
+    }
+
+    this.misses++;
+    const result = await tool.run(projectRoot);
+    // Skips usually mean the tool isn't installed yet, so don't remember them
+    if (!result.skipped) {
+      writeEntry(entryPath, { key, result });
+    }
+    return result;
+  }
+
+  private async computeKey(tool: IToolRunner, settings: unknown): Promise<string | null> {
+    const toolKey = await tool.cacheKey?.(this.projectRoot);
+    if (toolKey === null || toolKey === undefined) {
+      return null;
+    }
+
+    const hash = createHash("sha256");
+    for (const part of [this.version, tool.toolId, toolKey, JSON.stringify(settings ?? null)]) {
+      hash.update(part).update("\0");
+    }
+    for (const file of await this.findInputs(tool)) {
+      hash.update(file).update("\0").update(this.hashFile(file)).update("\0");
+    }
+    return hash.digest("hex");
+  }
+
+  /** Config files, source files, lockfiles and extra inputs of a tool, sorted for a stable key */
+  private async findInputs(tool: IToolRunner): Promise<string[]> {
+    const patterns = [
+      ...(tool.sourcePatterns ?? []),
+      ...tool.configFiles.map((f) => `**/${f}`),
+      ...LOCKFILES,
+    ];
+    const cacheDir = path.relative(this.projectRoot, path.resolve(this.projectRoot, this.dir));
+    const ignore = [
+      ...IGNORED_DIRS.map((d) => `**/${d}/**`),
+      `${cacheDir}/**`,
+      ...(tool.outputPatterns ?? []),
+    ];
+    const files = globSync(patterns, { cwd: this.projectRoot, nodir: true, dot: true, ignore });
+    // Extra inputs inside the project are keyed by relative path, the rest stay absolute
+    const extra = ((await tool.cacheInputs?.(this.projectRoot)) ?? []).map((file) => {
+      const relative = path.relative(this.projectRoot, path.resolve(this.projectRoot, file));
+      return relative.startsWith("..") || path.isAbsolute(relative) ? file : relative;
+    });
+    return [...new Set([...files, ...extra].map((f) => f.split(path.sep).join("/")))].sort();
+  }
+
+  private hashFile(file: string): string {
+    let hash = this.fileHashes.get(file);
+    if (hash === undefined) {
+      try {
+        const content = fs.readFileSync(path.resolve(this.projectRoot, file));
+        hash = createHash("sha256").update(content).digest("hex");
+      } catch {
+        hash = "unreadable";
+      }
+      this.fileHashes.set(file, hash);
+    }
+    return hash;
+  }
+}
+
+function readEntry(entryPath: string): CacheEntry | null {
+  try {
+    return JSON.parse(fs.readFileSync(entryPath, "utf-8")) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+function writeEntry(entryPath: string, entry: CacheEntry): void {
+  try {
+    fs.mkdirSync(path.dirname(entryPath), { recursive: true });
+    fs.writeFileSync(entryPath, `${JSON.stringify(entry)}\n`);
+  } catch {
+    // Best-effort: a failed write only costs a re-run next time
+  }
+}
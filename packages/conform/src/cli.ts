@@ -7,9 +7,12 @@ import { fileURLToPath } from "node:url";
 import { Command, Option } from "commander";
 import { z } from "zod";
 
+import { type ArchitectureOptions, runArchitecture } from "./architecture/index.js";
 import { configSchema, ExitCode } from "./core/index.js";
 import { type DependenciesOptions, runDependencies } from "./dependencies/index.js";
+import { OUTPUT_FORMATS } from "./output/index.js";
 import { type DetectOptions, runDetect } from "./projects/index.js";
+import { runSuppressions, type SuppressionsOptions } from "./suppressions/index.js";
 import {
   configureExitOverride,
   createProcessCommand,
@@ -17,6 +20,7 @@ import {
   handleError,
   runAudit,
   runCheck,
+  runFix,
 } from "./cli/index.js";
 
 // Read version from package.json to avoid hardcoding
@@ -27,6 +31,16 @@ const VERSION = packageJson.version;
 
 const program = new Command();
 
+/** --watch option for check commands; watch mode prints its own incremental text output */
+function watchOption(): Option {
+  return new Option("--watch", "Re-run affected checks when files change").conflicts([
+    "baseline",
+    "updateBaseline",
+    "changed",
+    "since",
+  ]);
+}
+
 configureExitOverride(program)
   .name("conform")
   .description("Unified project health checks for code quality")
@@ -89,8 +103,15 @@ codeCommand
   .description("Run linting and type checking tools")
   .option("-c, --config <path>", "Path to standards.toml config file")
   .addOption(
-    new Option("-f, --format <format>", "Output format").choices(["text", "json"]).default("text")
+    new Option("-f, --format <format>", "Output format").choices(OUTPUT_FORMATS).default("text")
   )
+  .option("--baseline <file>", "Only report violations not in the baseline file")
+  .option("--update-baseline", "Write current violations to the baseline file")
+  .option("--changed", "Only check files with uncommitted changes")
+  .option("--since <ref>", "Only check files changed since the given git ref")
+  .option("--no-cache", "Run every tool instead of replaying cached results")
+  .option("--cache-dir <dir>", "Result cache directory (default: .conform-cache)")
+  .addOption(watchOption())
   .action((options) => runCheck(VERSION, options, "code"));
 
 // conform code audit
@@ -99,10 +120,27 @@ codeCommand
   .description("Verify linting and type checking configs exist")
   .option("-c, --config <path>", "Path to standards.toml config file")
   .addOption(
-    new Option("-f, --format <format>", "Output format").choices(["text", "json"]).default("text")
+    new Option("-f, --format <format>", "Output format").choices(OUTPUT_FORMATS).default("text")
   )
   .action((options) => runAudit(VERSION, options, "code"));
 
+// conform code architecture - check import boundaries or print the module dependency graph
+codeCommand
+  .command("architecture")
+  .description("Check [code.architecture] import rules, or print the module dependency graph")
+  .option("-c, --config <path>", "Path to standards.toml config file")
+  .addOption(
+    new Option("--graph <format>", "Print the dependency graph instead").choices(["dot", "json"])
+  )
+  .action(async (options: ArchitectureOptions) => {
+    try {
+      const passed = await runArchitecture(options);
+      process.exit(passed ? ExitCode.SUCCESS : ExitCode.VIOLATIONS_FOUND);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
 program.addCommand(codeCommand);
 
 // =============================================================================
@@ -136,6 +174,28 @@ program
     }
   );
 
+// =============================================================================
+// Suppressions command
+// =============================================================================
+
+// conform suppressions - list conform-allow comments, failing on expired or invalid ones
+program
+  .command("suppressions")
+  .description("List conform-allow suppression comments and their reasons, tickets and expiry")
+  .option("-c, --config <path>", "Path to standards.toml config file")
+  .addOption(
+    new Option("-f, --format <format>", "Output format").choices(["text", "json"]).default("text")
+  )
+  .action(async (options: SuppressionsOptions) => {
+    try {
+      const entries = await runSuppressions(options);
+      const hasProblems = entries.some((entry) => entry.status !== "active");
+      process.exit(hasProblems ? ExitCode.VIOLATIONS_FOUND : ExitCode.SUCCESS);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
 // =============================================================================
 // Projects subcommand
 // =============================================================================
@@ -233,9 +293,16 @@ program
   .description("Run all checks (code + process)")
   .option("-c, --config <path>", "Path to standards.toml config file")
   .addOption(
-    new Option("-f, --format <format>", "Output format").choices(["text", "json"]).default("text")
+    new Option("-f, --format <format>", "Output format").choices(OUTPUT_FORMATS).default("text")
   )
-  .action((options: { config?: string; format: string }) => runCheck(VERSION, options));
+  .option("--baseline <file>", "Only report violations not in the baseline file")
+  .option("--update-baseline", "Write current violations to the baseline file")
+  .option("--changed", "Only check files with uncommitted changes (code domain)")
+  .option("--since <ref>", "Only check files changed since the given git ref (code domain)")
+  .option("--no-cache", "Run every code tool instead of replaying cached results")
+  .option("--cache-dir <dir>", "Result cache directory (default: .conform-cache)")
+  .addOption(watchOption())
+  .action((options: Parameters<typeof runCheck>[1]) => runCheck(VERSION, options));
 
 // conform audit - run all domain audits
 program
@@ -243,10 +310,19 @@ program
   .description("Verify all configs exist (code + process)")
   .option("-c, --config <path>", "Path to standards.toml config file")
   .addOption(
-    new Option("-f, --format <format>", "Output format").choices(["text", "json"]).default("text")
+    new Option("-f, --format <format>", "Output format").choices(OUTPUT_FORMATS).default("text")
   )
   .action((options) => runAudit(VERSION, options));
 
+// conform fix - apply autofixes
+program
+  .command("fix")
+  .description("Apply automatic fixes for violations")
+  .option("-c, --config <path>", "Path to standards.toml config file")
+  .option("-d, --domain <domain>", "Only fix tools in this domain (code, process or a plugin domain)")
+  .option("--dry-run", "Print a diff of the fixes without writing them")
+  .action((options: Parameters<typeof runFix>[0]) => runFix(options));
+
 // =============================================================================
 // MCP Server
 // =============================================================================
@@ -5,4 +5,5 @@ export {
   handleError,
   runCheck,
   runAudit,
+  runFix,
 } from "./utils.js";
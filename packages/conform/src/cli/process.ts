@@ -1,5 +1,6 @@
 import { Command, Option } from "commander";
 
+import { OUTPUT_FORMATS } from "../output/index.js";
 import { checkBranchCommand, checkCommitCommand } from "../process/commands/index.js";
 import { configureExitOverride, handleError, runAudit, runCheck } from "./utils.js";
 
@@ -14,8 +15,10 @@ export function createProcessCommand(version: string): Command {
     .description("Run workflow validation (hooks, CI, etc.)")
     .option("-c, --config <path>", "Path to standards.toml config file")
     .addOption(
-      new Option("-f, --format <format>", "Output format").choices(["text", "json"]).default("text")
+      new Option("-f, --format <format>", "Output format").choices(OUTPUT_FORMATS).default("text")
     )
+    .option("--baseline <file>", "Only report violations not in the baseline file")
+    .option("--update-baseline", "Write current violations to the baseline file")
     .action((options) => runCheck(version, options, "process"));
 
   // conform process audit
@@ -24,7 +27,7 @@ export function createProcessCommand(version: string): Command {
     .description("Verify workflow configs exist")
     .option("-c, --config <path>", "Path to standards.toml config file")
     .addOption(
-      new Option("-f, --format <format>", "Output format").choices(["text", "json"]).default("text")
+      new Option("-f, --format <format>", "Output format").choices(OUTPUT_FORMATS).default("text")
     )
     .action((options) => runAudit(version, options, "process"));
 
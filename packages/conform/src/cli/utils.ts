@@ -1,15 +1,36 @@
+import * as path from "node:path";
+
 import chalk from "chalk";
 import { Command, type CommanderError } from "commander";
 
-import { auditCodeConfig, runCodeChecks } from "../code/index.js";
 import {
+  applyBaseline,
+  createBaseline,
+  DEFAULT_BASELINE_FILE,
+  readBaseline,
+  writeBaseline,
+} from "../baseline/index.js";
+import { DEFAULT_CACHE_DIR, ResultCache } from "../cache/index.js";
+import { auditCodeConfig, getChangedFiles, runCodeChecks } from "../code/index.js";
+import {
+  type Config,
   ConfigError,
   getProjectRoot,
   loadConfigAsync,
 } from "../core/index.js";
-import { formatOutput, type OutputFormat } from "../output/index.js";
+import { fixProject, formatFixText } from "../fix/index.js";
+import { formatOutput, type OutputFormat, writeStepSummary } from "../output/index.js";
+import { auditPluginConfig, runPluginChecks } from "../plugins/index.js";
 import { auditProcessConfig, runProcessChecks } from "../process/index.js";
-import { type DomainResult, ExitCode, type FullResult } from "../core/index.js";
+import { watchProject, WatchSession } from "../watch/index.js";
+import {
+  type BaselineSummary,
+  type CacheSummary,
+  type DomainResult,
+  DomainResultBuilder,
+  ExitCode,
+  type FullResult,
+} from "../core/index.js";
 
 /**
  * Configure exitOverride for a Command to return proper exit codes.
@@ -21,7 +42,8 @@ export function configureExitOverride(cmd: Command): Command {
     // We want to use exit code 2 (CONFIG_ERROR) for argument/option errors
     if (
       err.code === "commander.invalidArgument" ||
-      err.code === "commander.optionMissingArgument"
+      err.code === "commander.optionMissingArgument" ||
+      err.code === "commander.conflictingOption"
     ) {
       process.exit(ExitCode.CONFIG_ERROR);
     }
@@ -36,16 +58,33 @@ function shouldRunDomain(filter: DomainFilter, domain: "code" | "process"): bool
   return !filter || filter === domain;
 }
 
+/** Add plugin domain results, combining checks with built-in domains of the same name */
+function addPluginDomains(
+  domains: Record<string, DomainResult>,
+  pluginDomains: Record<string, DomainResult>
+): void {
+  for (const [name, result] of Object.entries(pluginDomains)) {
+    const existing = domains[name];
+    domains[name] = existing
+      ? DomainResultBuilder.fromChecks(name, [...existing.checks, ...result.checks])
+      : result;
+  }
+}
+
 function buildResult(
   version: string,
   configPath: string,
-  domains: Record<string, DomainResult>
+  domains: Record<string, DomainResult>,
+  baseline?: BaselineSummary,
+  cache?: CacheSummary
 ): FullResult {
   const totalViolations = Object.values(domains).reduce((sum, d) => sum + d.violationCount, 0);
   return {
     version,
     configPath,
     domains,
+    ...(baseline && { baseline }),
+    ...(cache && { cache }),
     summary: {
       totalViolations,
       exitCode: totalViolations > 0 ? ExitCode.VIOLATIONS_FOUND : ExitCode.SUCCESS,
@@ -53,6 +92,14 @@ function buildResult(
   };
 }
 
+/** Write the formatted result to stdout (and the job summary for GitHub Actions) */
+function writeResult(result: FullResult, format: OutputFormat): void {
+  process.stdout.write(`${formatOutput(result, format)}\n`);
+  if (format === "github") {
+    writeStepSummary(result);
+  }
+}
+
 export function handleError(error: unknown): never {
   if (error instanceof ConfigError) {
     console.error(chalk.red(`Config error: ${error.message}`));
@@ -63,25 +110,142 @@ export function handleError(error: unknown): never {
   process.exit(ExitCode.RUNTIME_ERROR);
 }
 
+interface BaselineOptions {
+  baseline?: string;
+  updateBaseline?: boolean;
+}
+
+/** Resolve the baseline file path (relative to cwd, defaulting to the project root) */
+function resolveBaselinePath(projectRoot: string, options: BaselineOptions): string {
+  return options.baseline
+    ? path.resolve(options.baseline)
+    : path.join(projectRoot, DEFAULT_BASELINE_FILE);
+}
+
+/**
+ * Apply (or first rewrite) the baseline when --baseline or --update-baseline is given.
+ * Without either option, domains are returned unchanged.
+ */
+function processBaseline(
+  projectRoot: string,
+  domains: Record<string, DomainResult>,
+  options: BaselineOptions,
+  changedFiles: string[] | undefined
+): { domains: Record<string, DomainResult>; summary?: BaselineSummary } {
+  if (!options.baseline && !options.updateBaseline) {
+    return { domains };
+  }
+
+  const baselinePath = resolveBaselinePath(projectRoot, options);
+  if (options.updateBaseline) {
+    writeBaseline(baselinePath, createBaseline(domains));
+  }
+  return applyBaseline(domains, readBaseline(baselinePath), baselinePath, changedFiles);
+}
+
+interface ChangedFilesOptions {
+  changed?: boolean;
+  since?: string;
+}
+
+/** Get changed files when --changed or --since is given, otherwise undefined */
+async function resolveChangedFiles(
+  projectRoot: string,
+  options: ChangedFilesOptions
+): Promise<string[] | undefined> {
+  if (!options.changed && !options.since) {
+    return undefined;
+  }
+  return getChangedFiles(projectRoot, options.since);
+}
+
+interface CacheOptions {
+  /** False when --no-cache is given */
+  cache?: boolean;
+  cacheDir?: string;
+}
+
+/**
+ * Create the result cache unless it is disabled by --no-cache or [cache] enabled = false.
+ * --cache-dir is relative to cwd, [cache] dir to the project root.
+ */
+function createResultCache(
+  version: string,
+  projectRoot: string,
+  config: Config,
+  options: CacheOptions
+): ResultCache | undefined {
+  if (options.cache === false || config.cache?.enabled === false) {
+    return undefined;
+  }
+  const dir = options.cacheDir
+    ? path.resolve(options.cacheDir)
+    : path.resolve(projectRoot, config.cache?.dir ?? DEFAULT_CACHE_DIR);
+  return new ResultCache(projectRoot, dir, version);
+}
+
+/**
+ * Run an initial check, then re-run affected tools whenever files change.
+ * Keeps the process running until interrupted.
+ */
+async function runWatch(configOption: string | undefined, domain: DomainFilter): Promise<void> {
+  const { configPath } = await loadConfigAsync(configOption);
+  const projectRoot = getProjectRoot(configPath);
+  const write = (output: string): void => {
+    process.stdout.write(`${output}\n`);
+  };
+
+  const session = new WatchSession(projectRoot, configPath, domain);
+  write(await session.start());
+  const watcher = watchProject(session, projectRoot, write);
+  process.once("SIGINT", () => {
+    watcher.close();
+    process.exit(ExitCode.SUCCESS);
+  });
+}
+
 export async function runCheck(
   version: string,
-  options: { config?: string; format: string },
+  options: { config?: string; format: string; watch?: boolean } & BaselineOptions &
+    ChangedFilesOptions &
+    CacheOptions,
   domain?: DomainFilter
 ): Promise<void> {
   try {
+    if (options.watch) {
+      await runWatch(options.config, domain);
+      return;
+    }
+
     const { config, configPath } = await loadConfigAsync(options.config);
     const projectRoot = getProjectRoot(configPath);
 
+    const changedFiles = await resolveChangedFiles(projectRoot, options);
+
+    // Changed-files results only cover part of the project, so they bypass the cache
+    const cache =
+      shouldRunDomain(domain, "code") && !changedFiles
+        ? createResultCache(version, projectRoot, config, options)
+        : undefined;
+
     const domains: Record<string, DomainResult> = {};
     if (shouldRunDomain(domain, "code")) {
-      domains.code = await runCodeChecks(projectRoot, config);
+      domains.code = await runCodeChecks(projectRoot, config, { changedFiles, cache });
     }
     if (shouldRunDomain(domain, "process")) {
       domains.process = await runProcessChecks(projectRoot, config);
     }
+    addPluginDomains(domains, await runPluginChecks(projectRoot, config, { domain, changedFiles }));
 
-    const result = buildResult(version, configPath, domains);
-    process.stdout.write(`${formatOutput(result, options.format as OutputFormat)}\n`);
+    const baselined = processBaseline(projectRoot, domains, options, changedFiles);
+    const result = buildResult(
+      version,
+      configPath,
+      baselined.domains,
+      baselined.summary,
+      cache?.getSummary()
+    );
+    writeResult(result, options.format as OutputFormat);
     process.exit(result.summary.exitCode);
   } catch (error) {
     handleError(error);
@@ -104,11 +268,38 @@ export async function runAudit(
     if (shouldRunDomain(domain, "process")) {
       domains.process = await auditProcessConfig(projectRoot, config);
     }
+    addPluginDomains(domains, await auditPluginConfig(projectRoot, config, { domain }));
 
     const result = buildResult(version, configPath, domains);
-    process.stdout.write(`${formatOutput(result, options.format as OutputFormat)}\n`);
+    writeResult(result, options.format as OutputFormat);
     process.exit(result.summary.exitCode);
   } catch (error) {
     handleError(error);
   }
 }
+
+interface FixCommandOptions {
+  config?: string;
+  domain?: string;
+  dryRun?: boolean;
+}
+
+export async function runFix(options: FixCommandOptions): Promise<void> {
+  try {
+    const { config, configPath } = await loadConfigAsync(options.config);
+    const projectRoot = getProjectRoot(configPath);
+
+    const report = await fixProject(projectRoot, config, {
+      domain: options.domain,
+      dryRun: options.dryRun,
+    });
+    process.stdout.write(`${formatFixText(report)}\n`);
+
+    const remaining = Object.values(report.domains)
+      .flat()
+      .some((result) => result.remaining.length > 0);
+    process.exit(remaining ? ExitCode.VIOLATIONS_FOUND : ExitCode.SUCCESS);
+  } catch (error) {
+    handleError(error);
+  }
+}
@@ -0,0 +1,71 @@
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../constants.js";
+import { ConfigError } from "../core/index.js";
+
+/** Run a git command in the project root and return non-empty output lines */
+async function gitLines(projectRoot: string, args: string[]): Promise<string[]> {
+  const result = await execa("git", args, { cwd: projectRoot, timeout: TIMEOUTS.git });
+  return result.stdout.split("\n").filter(Boolean);
+}
+
+/** Whether HEAD points at a commit (false in a repository without commits yet) */
+async function hasHead(projectRoot: string): Promise<boolean> {
+  try {
+    await gitLines(projectRoot, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the commit to diff against: the merge base with `since`, or HEAD.
+ * Returns null when HEAD is unborn and there is nothing to diff against.
+ */
+async function resolveBase(projectRoot: string, since?: string): Promise<string | null> {
+  if (!since) {
+    return (await hasHead(projectRoot)) ? "HEAD" : null;
+  }
+  try {
+    const [mergeBase] = await gitLines(projectRoot, ["merge-base", since, "HEAD"]);
+    return mergeBase;
+  } catch {
+    throw new ConfigError(`Cannot resolve git ref "${since}" for --since`);
+  }
+}
+
+/** Files in the index that still exist in the working tree */
+async function getIndexedFiles(projectRoot: string): Promise<string[]> {
+  const [cached, deleted] = await Promise.all([
+    gitLines(projectRoot, ["ls-files", "--cached"]),
+    gitLines(projectRoot, ["ls-files", "--deleted"]),
+  ]);
+  const removed = new Set(deleted);
+  return cached.filter((file) => !removed.has(file));
+}
+
+/**
+ * Get files changed in the working tree, relative to projectRoot.
+ *
+ * Without `since`, returns uncommitted changes (staged, unstaged and untracked).
+ * With `since`, also includes changes committed since the merge base with that ref.
+ * In a repository without commits, every indexed and untracked file counts as changed.
+ * Deleted files are excluded; paths outside projectRoot are ignored.
+ */
+export async function getChangedFiles(projectRoot: string, since?: string): Promise<string[]> {
+  const base = await resolveBase(projectRoot, since);
+
+  try {
+    const [changed, untracked] = await Promise.all([
+      base
+        ? gitLines(projectRoot, ["diff", "--name-only", "--relative", "--diff-filter=d", base])
+        : getIndexedFiles(projectRoot),
+      gitLines(projectRoot, ["ls-files", "--others", "--exclude-standard"]),
+    ]);
+    return [...new Set([...changed, ...untracked])].sort();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Failed to determine changed files: ${message}`);
+  }
+}
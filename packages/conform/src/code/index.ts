@@ -1,23 +1,57 @@
+import * as path from "node:path";
+
 import { type Config } from "../core/index.js";
-import { type CheckResult, type DomainResult, DomainResultBuilder, type IToolRunner } from "../core/index.js";
 import {
+  type DomainResult,
+  DomainResultBuilder,
+  type FixResult,
+  type IToolRunner,
+} from "../core/index.js";
+import { type ResultCache } from "../cache/index.js";
+import { runTools } from "../core/runner.js";
+import { runFixers } from "../fix/runner.js";
+import {
+  ArchitectureRunner,
+  BiomeFormatRunner,
+  BiomeRunner,
+  CargoAuditRunner,
+  CargoCheckRunner,
+  ClippyRunner,
+  ComplexityRunner,
   CoverageRunRunner,
+  CustomToolRunner,
   DisableCommentsRunner,
   ESLintRunner,
   GitleaksRunner,
+  GolangciLintRunner,
+  GoVetRunner,
+  GovulncheckRunner,
   KnipRunner,
+  LicensesRunner,
   NamingRunner,
+  NpmAuditRunner,
+  OxlintRunner,
   PipAuditRunner,
   PnpmAuditRunner,
+  PrettierRunner,
+  RuffFormatRunner,
   RuffRunner,
   TscRunner,
   TyRunner,
   VultureRunner,
+  YarnAuditRunner,
 } from "./tools/index.js";
+import { type BaseFormatterRunner, type FormatterConfig } from "./tools/formatter.js";
+import { type BaseJsAuditRunner, type JsAuditConfig } from "./tools/js-audit.js";
 
 // Tool runner instances (singletons for tools that don't need per-run config)
+const cargoAudit = new CargoAuditRunner();
+const cargoCheck = new CargoCheckRunner();
+const clippy = new ClippyRunner();
+const golangciLint = new GolangciLintRunner();
+const govet = new GoVetRunner();
+const govulncheck = new GovulncheckRunner();
 const knip = new KnipRunner();
-const pipaudit = new PipAuditRunner();
 const ty = new TyRunner();
 const vulture = new VultureRunner();
 
@@ -25,20 +59,47 @@ const vulture = new VultureRunner();
 
 // Export tool runners for direct access
 export {
+  BaseFormatterRunner,
   BaseToolRunner,
+  BiomeFormatRunner,
+  BiomeRunner,
+  CargoAuditRunner,
+  CargoCheckRunner,
+  ClippyRunner,
+  CustomToolRunner,
   ESLintRunner,
+  GolangciLintRunner,
+  GoVetRunner,
+  GovulncheckRunner,
   KnipRunner,
+  LicensesRunner,
   NamingRunner,
+  OxlintRunner,
+  PrettierRunner,
+  RuffFormatRunner,
   RuffRunner,
   TscRunner,
   TyRunner,
   VultureRunner,
 } from "./tools/index.js";
 
+export { getChangedFiles } from "./changed-files.js";
+
+/** Options for running code checks */
+export interface CodeCheckOptions {
+  /** Only check these files, relative to the project root (changed-files mode) */
+  changedFiles?: string[];
+  /** Replay unchanged results from this cache (ignored in changed-files mode) */
+  cache?: ResultCache;
+}
+
 /** Tool configuration entry mapping config getter to runner or runner factory */
 interface ToolEntry {
-  isEnabled: (config: Config) => boolean;
+  /** The tool's section in standards.toml */
+  section: (config: Config) => { enabled?: boolean } | undefined;
   runner: IToolRunner | ((config: Config) => IToolRunner);
+  /** Whole-project tool whose violations are filtered to changed files in changed-files mode */
+  filterChanged?: boolean;
 }
 
 /** Check if a tool is enabled in config */
@@ -72,6 +133,11 @@ function createCoverageRunRunner(config: Config): CoverageRunRunner {
       min_threshold: coverageConfig.min_threshold,
       runner: coverageConfig.runner,
       command: coverageConfig.command,
+      report_path: coverageConfig.report_path,
+      thresholds: coverageConfig.thresholds,
+      paths: coverageConfig.paths,
+      per_file_min: coverageConfig.per_file_min,
+      baseline: coverageConfig.baseline,
     });
   }
   return runner;
@@ -91,10 +157,55 @@ function createRuffRunner(config: Config): RuffRunner {
   return runner;
 }
 
+/** Create a configured BiomeRunner */
+function createBiomeRunner(config: Config): BiomeRunner {
+  const runner = new BiomeRunner();
+  const biomeConfig = config.code?.linting?.biome;
+  if (biomeConfig) {
+    runner.setConfig({ enabled: biomeConfig.enabled, rules: biomeConfig.rules });
+  }
+  return runner;
+}
+
+/** Create a configured OxlintRunner */
+function createOxlintRunner(config: Config): OxlintRunner {
+  const runner = new OxlintRunner();
+  const oxlintConfig = config.code?.linting?.oxlint;
+  if (oxlintConfig) {
+    runner.setConfig({
+      enabled: oxlintConfig.enabled,
+      ignore: oxlintConfig.ignore,
+      rules: oxlintConfig.rules,
+    });
+  }
+  return runner;
+}
+
+/** Registry entry for a formatter configured from its [code.formatting.<name>] section */
+function formatterEntry(
+  RunnerClass: new () => BaseFormatterRunner,
+  section: (config: Config) => FormatterConfig | undefined
+): ToolEntry {
+  return {
+    section,
+    runner: (config) => {
+      const runner = new RunnerClass();
+      const formatterConfig = section(config);
+      if (formatterConfig) {
+        runner.setConfig({ enabled: formatterConfig.enabled, require: formatterConfig.require });
+      }
+      return runner;
+    },
+  };
+}
+
 /** Create a configured TscRunner */
 function createTscRunner(config: Config): TscRunner {
   const runner = new TscRunner();
   const tscConfig = config.code?.types?.tsc;
+  if (tscConfig) {
+    runner.setConfig({ projects: tscConfig.projects, build: tscConfig.build });
+  }
   if (tscConfig?.require) {
     runner.setRequiredOptions(tscConfig.require);
   }
@@ -109,6 +220,9 @@ function createNamingRunner(config: Config): NamingRunner {
     runner.setConfig({
       enabled: namingConfig.enabled,
       rules: namingConfig.rules,
+      identifier_rules: namingConfig.identifier_rules,
+      component_file_matches_export: namingConfig.component_file_matches_export,
+      ticket_pattern: config.process?.tickets?.pattern,
     });
   }
   return runner;
@@ -124,19 +238,99 @@ function createDisableCommentsRunner(config: Config): DisableCommentsRunner {
       patterns: disableCommentsConfig.patterns,
       extensions: disableCommentsConfig.extensions,
       exclude: disableCommentsConfig.exclude,
+      ticket_pattern: config.process?.tickets?.pattern,
+    });
+  }
+  return runner;
+}
+
+/** Registry entry for a JavaScript package manager audit (pnpm, npm, yarn) */
+function jsAuditEntry(
+  RunnerClass: new () => BaseJsAuditRunner,
+  section: (config: Config) => JsAuditConfig | undefined
+): ToolEntry {
+  return {
+    section,
+    runner: (config) => {
+      const runner = new RunnerClass();
+      const auditConfig = section(config);
+      if (auditConfig) {
+        runner.setConfig({
+          enabled: auditConfig.enabled,
+          exclude_dev: auditConfig.exclude_dev,
+          min_severity: auditConfig.min_severity,
+          ignore: auditConfig.ignore,
+          allow_unfixable: auditConfig.allow_unfixable,
+        });
+      }
+      return runner;
+    },
+  };
+}
+
+/** Create a configured ArchitectureRunner */
+export function createArchitectureRunner(config: Config): ArchitectureRunner {
+  const runner = new ArchitectureRunner();
+  const architectureConfig = config.code?.architecture;
+  if (architectureConfig) {
+    runner.setConfig({
+      enabled: architectureConfig.enabled,
+      files: architectureConfig.files,
+      exclude: architectureConfig.exclude,
+      tsconfig: architectureConfig.tsconfig,
+      python_roots: architectureConfig.python_roots,
+      layers: architectureConfig.layers,
+      forbidden: architectureConfig.forbidden,
+      no_cycles: architectureConfig.no_cycles,
+      packages: architectureConfig.packages,
+      entrypoints: architectureConfig.entrypoints,
+    });
+  }
+  return runner;
+}
+
+/** Create a configured ComplexityRunner */
+function createComplexityRunner(config: Config): ComplexityRunner {
+  const runner = new ComplexityRunner();
+  const complexityConfig = config.code?.quality?.complexity;
+  if (complexityConfig) {
+    runner.setConfig({
+      enabled: complexityConfig.enabled,
+      max_complexity: complexityConfig.max_complexity,
+      max_function_lines: complexityConfig.max_function_lines,
+      max_file_lines: complexityConfig.max_file_lines,
+      max_params: complexityConfig.max_params,
+      exclude: complexityConfig.exclude,
+      overrides: complexityConfig.overrides,
+    });
+  }
+  return runner;
+}
+
+/** Create a configured PipAuditRunner */
+function createPipAuditRunner(config: Config): PipAuditRunner {
+  const runner = new PipAuditRunner();
+  const pipauditConfig = config.code?.security?.pipaudit;
+  if (pipauditConfig) {
+    runner.setConfig({
+      enabled: pipauditConfig.enabled,
+      ignore: pipauditConfig.ignore,
+      allow_unfixable: pipauditConfig.allow_unfixable,
     });
   }
   return runner;
 }
 
-/** Create a configured PnpmAuditRunner */
-function createPnpmAuditRunner(config: Config): PnpmAuditRunner {
-  const runner = new PnpmAuditRunner();
-  const pnpmauditConfig = config.code?.security?.pnpmaudit;
-  if (pnpmauditConfig) {
+/** Create a configured LicensesRunner */
+function createLicensesRunner(config: Config): LicensesRunner {
+  const runner = new LicensesRunner();
+  const licensesConfig = config.code?.security?.licenses;
+  if (licensesConfig) {
     runner.setConfig({
-      enabled: pnpmauditConfig.enabled,
-      exclude_dev: pnpmauditConfig.exclude_dev,
+      enabled: licensesConfig.enabled,
+      allow: licensesConfig.allow,
+      deny: licensesConfig.deny,
+      exceptions: licensesConfig.exceptions,
     });
   }
   return runner;
@@ -151,6 +345,7 @@ function createGitleaksRunner(config: Config): GitleaksRunner {
       enabled: secretsConfig.enabled,
       scan_mode: secretsConfig.scan_mode,
       base_branch: secretsConfig.base_branch,
+      engine: secretsConfig.engine,
     });
   }
   return runner;
@@ -158,37 +353,116 @@ function createGitleaksRunner(config: Config): GitleaksRunner {
 
 /** All available tools with their config predicates */
 const toolRegistry: ToolEntry[] = [
-  { isEnabled: (c) => isEnabled(c.code?.linting?.eslint), runner: createEslintRunner },
-  { isEnabled: (c) => isEnabled(c.code?.linting?.ruff), runner: createRuffRunner },
-  { isEnabled: (c) => isEnabled(c.code?.types?.tsc), runner: createTscRunner },
-  { isEnabled: (c) => isEnabled(c.code?.types?.ty), runner: ty },
-  { isEnabled: (c) => isEnabled(c.code?.unused?.knip), runner: knip },
-  { isEnabled: (c) => isEnabled(c.code?.unused?.vulture), runner: vulture },
-  { isEnabled: (c) => isEnabled(c.code?.security?.secrets), runner: createGitleaksRunner },
-  { isEnabled: (c) => isEnabled(c.code?.security?.pnpmaudit), runner: createPnpmAuditRunner },
-  { isEnabled: (c) => isEnabled(c.code?.security?.pipaudit), runner: pipaudit },
-  { isEnabled: (c) => isEnabled(c.code?.coverage_run), runner: createCoverageRunRunner },
-  { isEnabled: (c) => isEnabled(c.code?.naming), runner: createNamingRunner },
+  { section: (c) => c.code?.linting?.eslint, runner: createEslintRunner },
+  { section: (c) => c.code?.linting?.ruff, runner: createRuffRunner },
+  { section: (c) => c.code?.linting?.biome, runner: createBiomeRunner },
+  { section: (c) => c.code?.linting?.oxlint, runner: createOxlintRunner },
   {
-    isEnabled: (c) => isEnabled(c.code?.quality?.["disable-comments"]),
-    runner: createDisableCommentsRunner,
+    section: (c) => c.code?.linting?.["golangci-lint"],
+    runner: golangciLint,
+    filterChanged: true,
   },
+  { section: (c) => c.code?.linting?.clippy, runner: clippy, filterChanged: true },
+  formatterEntry(PrettierRunner, (c) => c.code?.formatting?.prettier),
+  formatterEntry(RuffFormatRunner, (c) => c.code?.formatting?.ruff),
+  formatterEntry(BiomeFormatRunner, (c) => c.code?.formatting?.biome),
+  { section: (c) => c.code?.types?.tsc, runner: createTscRunner, filterChanged: true },
+  { section: (c) => c.code?.types?.ty, runner: ty, filterChanged: true },
+  { section: (c) => c.code?.types?.govet, runner: govet, filterChanged: true },
+  { section: (c) => c.code?.types?.["cargo-check"], runner: cargoCheck, filterChanged: true },
+  { section: (c) => c.code?.unused?.knip, runner: knip, filterChanged: true },
+  { section: (c) => c.code?.unused?.vulture, runner: vulture, filterChanged: true },
+  { section: (c) => c.code?.security?.secrets, runner: createGitleaksRunner },
+  jsAuditEntry(PnpmAuditRunner, (c) => c.code?.security?.pnpmaudit),
+  jsAuditEntry(NpmAuditRunner, (c) => c.code?.security?.npmaudit),
+  jsAuditEntry(YarnAuditRunner, (c) => c.code?.security?.yarnaudit),
+  { section: (c) => c.code?.security?.pipaudit, runner: createPipAuditRunner },
+  { section: (c) => c.code?.security?.govulncheck, runner: govulncheck },
+  { section: (c) => c.code?.security?.["cargo-audit"], runner: cargoAudit },
+  { section: (c) => c.code?.security?.licenses, runner: createLicensesRunner },
+  { section: (c) => c.code?.coverage_run, runner: createCoverageRunRunner },
+  { section: (c) => c.code?.naming, runner: createNamingRunner },
+  {
+    section: (c) => c.code?.architecture,
+    runner: createArchitectureRunner,
+    filterChanged: true,
+  },
+  { section: (c) => c.code?.quality?.["disable-comments"], runner: createDisableCommentsRunner },
+  { section: (c) => c.code?.quality?.complexity, runner: createComplexityRunner },
 ];
 
+/** Create runners for enabled [code.custom.<name>] tools */
+function getCustomTools(config: Config): CustomToolRunner[] {
+  return Object.entries(config.code?.custom ?? {})
+    .filter(([, toolConfig]) => toolConfig.enabled)
+    .map(([name, toolConfig]) => new CustomToolRunner(name, toolConfig));
+}
+
 /**
- * Get enabled tools based on configuration
+ * Wrap a whole-project tool so its run only reports violations in the given files.
+ * Violations without a file (e.g. tool errors) are kept.
  */
-function getEnabledTools(config: Config): IToolRunner[] {
-  return toolRegistry
-    .filter((entry) => entry.isEnabled(config))
-    .map((entry) => (typeof entry.runner === "function" ? entry.runner(config) : entry.runner));
+function filterToChangedFiles(tool: IToolRunner, changedFiles: string[]): IToolRunner {
+  const changed = new Set(changedFiles.map((f) => path.normalize(f)));
+  return {
+    name: tool.name,
+    rule: tool.rule,
+    toolId: tool.toolId,
+    configFiles: tool.configFiles,
+    sourcePatterns: tool.sourcePatterns,
+    outputPatterns: tool.outputPatterns,
+    audit: (projectRoot) => tool.audit(projectRoot),
+    run: async (projectRoot) => {
+      const result = await tool.run(projectRoot);
+      if (result.skipped) {
+        return result;
+      }
+      const violations = result.violations.filter(
+        (v) => !v.file || changed.has(path.normalize(v.file))
+      );
+      return { ...result, violations, passed: violations.length === 0 };
+    },
+  };
+}
+
+/**
+ * Get enabled tools based on configuration.
+ * In changed-files mode, file-scoped tools only check the changed files and
+ * whole-project tools have their violations filtered to them. Otherwise tools
+ * are served from the result cache when one is given.
+ */
+function getEnabledTools(config: Config, options: CodeCheckOptions = {}): IToolRunner[] {
+  const { changedFiles, cache } = options;
+  const builtinTools = toolRegistry
+    .filter((entry) => isEnabled(entry.section(config)))
+    .map((entry) => {
+      const tool = typeof entry.runner === "function" ? entry.runner(config) : entry.runner;
+      if (!changedFiles) {
+        return cache ? cache.wrap(tool, entry.section(config)) : tool;
+      }
+      if (entry.filterChanged) {
+        return filterToChangedFiles(tool, changedFiles);
+      }
+      tool.setTargetFiles?.(changedFiles);
+      return tool;
+    });
+
+  const customTools = getCustomTools(config);
+  if (changedFiles) {
+    customTools.forEach((tool) => tool.setTargetFiles(changedFiles));
+  }
+  return [...builtinTools, ...customTools];
 }
 
 /**
  * Run all code checks based on configuration
  */
-export async function runCodeChecks(projectRoot: string, config: Config): Promise<DomainResult> {
-  const tools = getEnabledTools(config);
+export async function runCodeChecks(
+  projectRoot: string,
+  config: Config,
+  options: CodeCheckOptions = {}
+): Promise<DomainResult> {
+  const tools = getEnabledTools(config, options);
   const checks = await runTools(tools, projectRoot, "run");
   return DomainResultBuilder.fromChecks("code", checks);
 }
@@ -203,43 +477,15 @@ export async function auditCodeConfig(projectRoot: string, config: Config): Prom
 }
 
 /**
- * Run tools in parallel with error isolation
- * Uses Promise.allSettled to ensure one failing tool doesn't lose all results
+ * Get runners for enabled code tools (watch mode re-runs them individually)
  */
-async function runTools(
-  tools: IToolRunner[],
-  projectRoot: string,
-  mode: "run" | "audit"
-): Promise<CheckResult[]> {
-  const promises = tools.map((tool) =>
-    mode === "run" ? tool.run(projectRoot) : tool.audit(projectRoot)
-  );
-
-  const results = await Promise.allSettled(promises);
-
-  return results.map((result, index) => {
-    if (result.status === "fulfilled") {
-      return result.value;
-    }
-
-    // Handle rejected promise - create error result for the tool
-    const tool = tools[index];
-    const errorMessage = result.reason instanceof Error ? result.reason.message : "Unknown error";
-
-    return {
-      name: tool.name,
-      rule: tool.rule,
-      passed: false,
-      violations: [
-        {
-          rule: tool.rule,
-          tool: tool.toolId,
-          message: `Tool error: ${errorMessage}`,
-          severity: "error" as const,
-        },
-      ],
-      skipped: false,
-      duration: 0,
-    };
-  });
+export function getCodeTools(config: Config): IToolRunner[] {
+  return getEnabledTools(config);
+}
+
+/**
+ * Compute autofixes for enabled code tools that support them
+ */
+export async function fixCode(projectRoot: string, config: Config): Promise<FixResult[]> {
+  return runFixers(getEnabledTools(config), projectRoot);
 }
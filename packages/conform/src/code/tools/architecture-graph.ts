@@ -0,0 +1,448 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import ts from "typescript";
+
+import { readTsconfig } from "./tsconfig.js";
+
+/** One import statement, resolved to a project file or an external module */
+export interface ImportEdge {
+  /** Importing file, relative to the project root */
+  from: string;
+  /** 1-based line of the import */
+  line: number;
+  specifier: string;
+  /** Imported project file, relative to the project root */
+  to?: string;
+  /** Imported package or builtin module (react, node:fs, requests) */
+  external?: string;
+}
+
+/** Module dependency graph of a project */
+export interface ModuleGraph {
+  files: string[];
+  edges: ImportEdge[];
+}
+
+/** A workspace package whose internals other packages may not import */
+export interface WorkspacePackage {
+  /** Package directory, relative to the project root */
+  dir: string;
+  /** package.json name, for imports by package name */
+  name?: string;
+}
+
+/** A Python import, as reported by the ast helper */
+export interface PythonImport {
+  /** Dotted module, or null for "from . import x" */
+  module: string | null;
+  /** Number of leading dots of a relative import */
+  level: number;
+  /** Names imported with "from module import a, b" */
+  names: string[];
+  line: number;
+}
+
+/** Extensions parsed for imports with the TypeScript parser */
+const SCRIPT_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+/** Package name of a bare specifier: @scope/pkg for @scope/pkg/sub, lodash for lodash/fp */
+function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join("/");
+}
+
+// =============================================================================
+// TypeScript / JavaScript
+// =============================================================================
+
+/** Find the import, export-from, require() and import() specifiers of a file */
+export function findScriptImports(content: string): { specifier: string; line: number }[] {
+  const { importedFiles } = ts.preProcessFile(content, true, true);
+  return importedFiles.map((ref) => ({
+    specifier: ref.fileName,
+    line: content.slice(0, ref.pos).split("\n").length,
+  }));
+}
+
+/**
+ * Compiler options for resolving imports: the project's tsconfig (paths, baseUrl)
+ * with bundler resolution unless it sets one, and JavaScript files allowed.
+ */
+function loadCompilerOptions(projectRoot: string, tsconfig: string): ts.CompilerOptions {
+  const defaults: ts.CompilerOptions = {
+    allowJs: true,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+  };
+  const configPath = path.join(projectRoot, tsconfig);
+  if (!fs.existsSync(configPath)) {
+    return defaults;
+  }
+
+  const { error } = ts.readConfigFile(configPath, (file) => ts.sys.readFile(file));
+  if (error) {
+    const message = ts.flattenDiagnosticMessageText(error.messageText, "\n");
+    throw new Error(`Invalid ${tsconfig}: ${message}`);
+  }
+  const { options } = readTsconfig(configPath);
+  return {
+    ...options,
+    allowJs: true,
+    moduleResolution: options.moduleResolution ?? defaults.moduleResolution,
+  };
+}
+
+// =============================================================================
+// Python
+// =============================================================================
+
+/**
+ * Python helper that lists imports with the ast module.
+ * Reads a JSON list of file paths on stdin and prints { path: PythonImport[] | null },
+ * with null for files that can't be read or parsed. Imports under \`if TYPE_CHECKING:\`
+ * are left out, since they don't run.
+ */
+export const PYTHON_IMPORT_ANALYZER = `
+import ast, json, sys
+
+def is_type_checking(test):
+    return (isinstance(test, ast.Name) and test.id == "TYPE_CHECKING") or (
+        isinstance(test, ast.Attribute) and test.attr == "TYPE_CHECKING"
+    )
+
+def walk(tree):
+    # ast.walk without "if TYPE_CHECKING:" bodies, which never run
+    stack = [tree]
+    while stack:
+        node = stack.pop()
+        yield node
+        if isinstance(node, ast.If) and is_type_checking(node.test):
+            stack.extend(node.orelse)
+        else:
+            stack.extend(ast.iter_child_nodes(node))
+
+def imports(tree):
+    out = []
+    for node in walk(tree):
+        if isinstance(node, ast.Import):
+            for alias in node.names:
+                out.append({"module": alias.name, "level": 0, "names": [], "line": node.lineno})
+        elif isinstance(node, ast.ImportFrom):
+            names = [alias.name for alias in node.names if alias.name != "*"]
+            out.append({
+                "module": node.module, "level": node.level, "names": names, "line": node.lineno,
+            })
+    return sorted(out, key=lambda i: i["line"])
+
+result = {}
+for path in json.load(sys.stdin):
+    try:
+        with open(path, encoding="utf-8") as f:
+            result[path] = imports(ast.parse(f.read(), path))
+    except (OSError, SyntaxError, ValueError, UnicodeDecodeError):
+        result[path] = None
+print(json.dumps(result))
+`;
+
+/**
+ * Resolve a Python import to project files: submodules named by "from x import a"
+ * first, then the module itself. Absolute imports are looked up under each root.
+ */
+function resolvePythonImport(
+  from: string,
+  imp: PythonImport,
+  roots: string[],
+  files: Set<string>
+): string[] {
+  const parts = imp.module ? imp.module.split(".") : [];
+  const bases =
+    imp.level > 0
+      ? [path.posix.join(path.posix.dirname(from), ...Array<string>(imp.level - 1).fill(".."))]
+      : roots;
+
+  for (const base of bases) {
+    const modulePath = path.posix.join(base, ...parts);
+    const moduleFile = [`${modulePath}.py`, `${modulePath}/__init__.py`].find((f) => files.has(f));
+    const submodules = imp.names
+      .map((name) => path.posix.join(modulePath, name))
+      .map((sub) => [`${sub}.py`, `${sub}/__init__.py`].find((f) => files.has(f)));
+
+    const targets =
+      imp.names.length > 0 ? submodules.map((sub) => sub ?? moduleFile) : [moduleFile];
+    const resolved = [...new Set(targets.filter((t): t is string => !!t))];
+    if (resolved.length > 0) {
+      return resolved;
+    }
+  }
+  return [];
+}
+
+// =============================================================================
+// Graph
+// =============================================================================
+
+/** How imports are resolved */
+export interface GraphOptions {
+  /** tsconfig.json whose paths and baseUrl apply, relative to the project root */
+  tsconfig: string;
+  /** Directories absolute Python imports are resolved from, relative to the project root */
+  pythonRoots: string[];
+  packages: WorkspacePackage[];
+  /** Files a workspace package is imported through by name */
+  entrypoints: string[];
+}
+
+/**
+ * Resolves the imports of the project's files to other project files.
+ */
+class ImportResolver {
+  private readonly compilerOptions: ts.CompilerOptions;
+  private readonly fileSet: Set<string>;
+
+  constructor(
+    private readonly projectRoot: string,
+    files: string[],
+    private readonly options: GraphOptions
+  ) {
+    this.compilerOptions = loadCompilerOptions(projectRoot, options.tsconfig);
+    this.fileSet = new Set(files);
+  }
+
+  /** Resolve a script import; relative imports of missing files resolve to nothing */
+  resolveScript(from: string, specifier: string, line: number): ImportEdge {
+    const edge: ImportEdge = { from, line, specifier };
+    const isRelative = specifier.startsWith(".") || specifier.startsWith("/");
+
+    const workspace = isRelative ? undefined : this.resolveWorkspaceImport(specifier);
+    const to = workspace ?? this.resolveWithCompiler(specifier, path.join(this.projectRoot, from));
+    if (to) {
+      return { ...edge, to };
+    }
+    return isRelative ? edge : { ...edge, external: packageName(specifier) };
+  }
+
+  /** Resolve a Python import to one edge per imported project file */
+  resolvePython(from: string, imp: PythonImport): ImportEdge[] {
+    const specifier = ".".repeat(imp.level) + (imp.module ?? "");
+    const roots = [
+      ...this.options.pythonRoots,
+      ...this.options.packages.flatMap((pkg) => [pkg.dir, `${pkg.dir}/src`]),
+    ].map((root) => path.posix.normalize(root));
+
+    const targets = resolvePythonImport(from, imp, roots, this.fileSet);
+    if (targets.length > 0) {
+      return targets.map((to) => ({ from, line: imp.line, specifier, to }));
+    }
+    const external = imp.level === 0 && imp.module ? imp.module.split(".")[0] : undefined;
+    return [{ from, line: imp.line, specifier, ...(external ? { external } : {}) }];
+  }
+
+  /**
+   * Imports of a workspace package by name: the package itself maps to its first
+   * existing entrypoint, subpaths to the file they name.
+   */
+  private resolveWorkspaceImport(specifier: string): string | undefined {
+    const pkg = this.options.packages.find(
+      (p) => p.name && (specifier === p.name || specifier.startsWith(`${p.name}/`))
+    );
+    if (!pkg?.name) {
+      return undefined;
+    }
+    const subpath = specifier.slice(pkg.name.length + 1);
+    if (!subpath) {
+      return this.options.entrypoints
+        .map((entry) => path.posix.join(pkg.dir, entry))
+        .find((file) => this.fileSet.has(file));
+    }
+    const packageFile = path.join(this.projectRoot, pkg.dir, "package.json");
+    return this.resolveWithCompiler(`./${subpath}`, packageFile);
+  }
+
+  /** Resolve with the TypeScript module resolver, keeping only the project's own files */
+  private resolveWithCompiler(specifier: string, containingFile: string): string | undefined {
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      containingFile,
+      this.compilerOptions,
+      ts.sys
+    );
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+      return undefined;
+    }
+    const file = toPosix(path.relative(this.projectRoot, resolvedModule.resolvedFileName));
+    return this.fileSet.has(file) ? file : undefined;
+  }
+}
+
+/**
+ * Build the import graph of the given files. Python imports come from the ast
+ * helper's output, or are skipped when it's null (python3 not installed).
+ */
+export function buildModuleGraph(
+  projectRoot: string,
+  files: string[],
+  options: GraphOptions,
+  pythonImports: Record<string, PythonImport[] | null> | null
+): ModuleGraph {
+  const resolver = new ImportResolver(projectRoot, files, options);
+  const edges: ImportEdge[] = [];
+
+  for (const file of files) {
+    if (SCRIPT_FILE.test(file)) {
+      const content = fs.readFileSync(path.join(projectRoot, file), "utf-8");
+      for (const { specifier, line } of findScriptImports(content)) {
+        edges.push(resolver.resolveScript(file, specifier, line));
+      }
+    } else if (file.endsWith(".py")) {
+      for (const imp of pythonImports?.[file] ?? []) {
+        edges.push(...resolver.resolvePython(file, imp));
+      }
+    }
+  }
+
+  return { files, edges };
+}
+
+/**
+ * Find import cycles: one cycle per strongly connected component, starting at its
+ * first file, as the edges that make it up.
+ */
+export function findCycles(graph: ModuleGraph): ImportEdge[][] {
+  const outgoing = new Map<string, ImportEdge[]>();
+  for (const edge of graph.edges) {
+    if (!edge.to) {
+      continue;
+    }
+    const edges = outgoing.get(edge.from);
+    if (edges) {
+      edges.push(edge);
+    } else {
+      outgoing.set(edge.from, [edge]);
+    }
+  }
+
+  return stronglyConnectedComponents(graph.files, outgoing)
+    .map((component) => new Set(component))
+    .map((component) => shortestCycle([...component].sort()[0], component, outgoing))
+    .filter((cycle): cycle is ImportEdge[] => cycle !== null)
+    .sort((a, b) => a[0].from.localeCompare(b[0].from));
+}
+
+/** A file being visited by Tarjan's algorithm and the next outgoing edge to follow */
+interface TarjanFrame {
+  file: string;
+  edges: ImportEdge[];
+  next: number;
+}
+
+/**
+ * Tarjan's algorithm, iterating over files in order. Uses an explicit stack of frames
+ * instead of recursion, so long import chains can't overflow the call stack.
+ */
+function stronglyConnectedComponents(
+  files: string[],
+  outgoing: Map<string, ImportEdge[]>
+): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  const frames: TarjanFrame[] = [];
+
+  const visit = (file: string): void => {
+    lowLink.set(file, index.size);
+    index.set(file, index.size);
+    stack.push(file);
+    onStack.add(file);
+    frames.push({ file, edges: outgoing.get(file) ?? [], next: 0 });
+  };
+
+  const popComponent = (file: string): void => {
+    const component: string[] = [];
+    let member: string | undefined;
+    do {
+      member = stack.pop();
+      if (member !== undefined) {
+        onStack.delete(member);
+        component.push(member);
+      }
+    } while (member !== undefined && member !== file);
+    components.push(component);
+  };
+
+  for (const root of files) {
+    if (index.has(root)) {
+      continue;
+    }
+    visit(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      if (frame.next < frame.edges.length) {
+        const { to } = frame.edges[frame.next++];
+        if (to && !index.has(to)) {
+          visit(to);
+        } else if (to && onStack.has(to)) {
+          lowLink.set(frame.file, Math.min(lowLink.get(frame.file) ?? 0, index.get(to) ?? 0));
+        }
+        continue;
+      }
+
+      frames.pop();
+      if (lowLink.get(frame.file) === index.get(frame.file)) {
+        popComponent(frame.file);
+      }
+      const parent = frames[frames.length - 1] as TarjanFrame | undefined;
+      if (parent) {
+        lowLink.set(
+          parent.file,
+          Math.min(lowLink.get(parent.file) ?? 0, lowLink.get(frame.file) ?? 0)
+        );
+      }
+    }
+  }
+  return components;
+}
+
+/**
+ * Shortest path from a file back to itself within its component (breadth-first).
+ * Keeps the edge each file was reached by, so the path is only built once.
+ */
+function shortestCycle(
+  start: string,
+  component: Set<string>,
+  outgoing: Map<string, ImportEdge[]>
+): ImportEdge[] | null {
+  const reachedBy = new Map<string, ImportEdge | null>([[start, null]]);
+  const queue = [start];
+
+  for (let head = 0; head < queue.length; head++) {
+    const file = queue[head];
+    for (const edge of outgoing.get(file) ?? []) {
+      const to = edge.to as string;
+      if (to === start) {
+        return pathTo(edge, reachedBy);
+      }
+      if (component.has(to) && !reachedBy.has(to)) {
+        reachedBy.set(to, edge);
+        queue.push(to);
+      }
+    }
+  }
+  return null;
+}
+
+/** The edges leading from the search start to an edge, following reachedBy backwards */
+function pathTo(last: ImportEdge, reachedBy: Map<string, ImportEdge | null>): ImportEdge[] {
+  const edges = [last];
+  for (let edge = reachedBy.get(last.from); edge; edge = reachedBy.get(edge.from)) {
+    edges.push(edge);
+  }
+  return edges.reverse();
+}
@@ -0,0 +1,363 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { execa } from "execa";
+import { glob } from "glob";
+import { minimatch } from "minimatch";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, CheckResultBuilder, type Violation } from "../../core/index.js";
+import {
+  buildModuleGraph,
+  findCycles,
+  type ImportEdge,
+  type ModuleGraph,
+  PYTHON_IMPORT_ANALYZER,
+  type PythonImport,
+  type WorkspacePackage,
+} from "./architecture-graph.js";
+import { BaseToolRunner } from "./base.js";
+import { findTsconfigInputs } from "./tsconfig.js";
+
+/** A layer: the files matching its globs, and the layers they may import from */
+interface ArchitectureLayer {
+  name: string;
+  files: string[];
+  allow?: string[];
+}
+
+/** Imports of files or packages matching "to" are forbidden in files matching "from" */
+interface ForbiddenImport {
+  from: string[];
+  to: string[];
+  message?: string;
+}
+
+/** Configuration for architecture validation */
+interface ArchitectureConfig {
+  enabled?: boolean;
+  files?: string[];
+  exclude?: string[];
+  tsconfig?: string;
+  python_roots?: string[];
+  layers?: ArchitectureLayer[];
+  forbidden?: ForbiddenImport[];
+  no_cycles?: boolean;
+  /** Globs of workspace package directories, only importable through their entrypoints */
+  packages?: string[];
+  entrypoints?: string[];
+}
+
+const SOURCE_PATTERN = "**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs,py}";
+
+/** Default files to exclude */
+const DEFAULT_EXCLUDE = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/__pycache__/**",
+  "**/.venv/**",
+  "**/venv/**",
+  "**/coverage/**",
+  "**/*.d.ts",
+  "**/*.min.js",
+];
+
+/** Files other packages may import, relative to the package directory */
+const DEFAULT_ENTRYPOINTS = [
+  "index.ts",
+  "index.tsx",
+  "index.js",
+  "src/index.ts",
+  "src/index.tsx",
+  "src/index.js",
+  "__init__.py",
+];
+
+/**
+ * Architecture runner: checks imports between layers, forbidden imports, import
+ * cycles and imports into other workspace packages. TypeScript/JavaScript imports
+ * are resolved with the TypeScript module resolver (tsconfig paths apply) and Python
+ * imports are read with its ast module (via python3).
+ */
+export class ArchitectureRunner extends BaseToolRunner {
+  readonly name = "Architecture";
+  readonly rule = "code.architecture";
+  readonly toolId = "architecture";
+
+  private config: ArchitectureConfig = {};
+
+  setConfig(config: ArchitectureConfig): void {
+    this.config = config;
+  }
+
+  get configFiles(): string[] {
+    return [this.config.tsconfig ?? "tsconfig.json"];
+  }
+
+  get sourcePatterns(): string[] {
+    return this.config.files ?? [SOURCE_PATTERN];
+  }
+
+  /** Built-in check, so results only depend on the conform version and inputs */
+  async cacheKey(): Promise<string> {
+    return "builtin";
+  }
+
+  /** The tsconfig extends chain (for paths) and the package.json files naming workspace packages */
+  async cacheInputs(projectRoot: string): Promise<string[]> {
+    const tsconfig = findTsconfigInputs([path.resolve(projectRoot, this.configFiles[0])]);
+    const manifests = await glob(
+      (this.config.packages ?? []).map((pattern) => `${pattern}/package.json`),
+      { cwd: projectRoot, ignore: DEFAULT_EXCLUDE, posix: true }
+    );
+    return [...tsconfig, ...manifests];
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+
+    try {
+      const { graph, packages, pythonMissing } = await this.analyze(projectRoot);
+
+      const violations: Violation[] = [];
+      for (const edge of graph.edges) {
+        violations.push(...this.checkImport(edge, packages));
+      }
+      if (this.config.no_cycles) {
+        violations.push(...findCycles(graph).map((cycle) => this.createCycleViolation(cycle)));
+      }
+      if (pythonMissing && violations.length === 0) {
+        return CheckResultBuilder.skip(
+          this.name,
+          this.rule,
+          "python3 not installed, so Python imports were not checked",
+          Date.now() - startTime
+        );
+      }
+
+      return this.fromViolations(violations, Date.now() - startTime);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail(
+        [this.createErrorViolation(`Architecture check error: ${message}`)],
+        Date.now() - startTime
+      );
+    }
+  }
+
+  /**
+   * Build the module dependency graph of the project
+   */
+  async buildGraph(projectRoot: string): Promise<ModuleGraph> {
+    return (await this.analyze(projectRoot)).graph;
+  }
+
+  private async analyze(
+    projectRoot: string
+  ): Promise<{ graph: ModuleGraph; packages: WorkspacePackage[]; pythonMissing: boolean }> {
+    const files = await glob(this.sourcePatterns, {
+      cwd: projectRoot,
+      ignore: [...DEFAULT_EXCLUDE, ...(this.config.exclude ?? [])],
+      nodir: true,
+      posix: true,
+    });
+    files.sort();
+
+    const pythonFiles = files.filter((file) => file.endsWith(".py"));
+    const pythonImports =
+      pythonFiles.length > 0 ? await this.analyzePython(projectRoot, pythonFiles) : {};
+
+    const packages = await this.findPackages(projectRoot);
+    const graph = buildModuleGraph(
+      projectRoot,
+      files,
+      {
+        tsconfig: this.config.tsconfig ?? "tsconfig.json",
+        pythonRoots: this.config.python_roots ?? [".", "src"],
+        packages,
+        entrypoints: this.getEntrypoints(),
+      },
+      pythonImports
+    );
+    return { graph, packages, pythonMissing: pythonImports === null };
+  }
+
+  /**
+   * Read imports from Python files with the ast helper.
+   * Files that don't parse map to null; returns null if python3 isn't installed.
+   */
+  private async analyzePython(
+    projectRoot: string,
+    files: string[]
+  ): Promise<Record<string, PythonImport[] | null> | null> {
+    try {
+      const result = await execa("python3", ["-c", PYTHON_IMPORT_ANALYZER], {
+        cwd: projectRoot,
+        input: JSON.stringify(files),
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+      if (result.exitCode !== 0) {
+        throw new Error(`python3 error: ${String(result.stderr || result.stdout).trim()}`);
+      }
+      return JSON.parse(String(result.stdout)) as Record<string, PythonImport[] | null>;
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Workspace package directories, with their package.json names */
+  private async findPackages(projectRoot: string): Promise<WorkspacePackage[]> {
+    if (!this.config.packages?.length) {
+      return [];
+    }
+    const dirs = await glob(this.config.packages, {
+      cwd: projectRoot,
+      ignore: DEFAULT_EXCLUDE,
+      posix: true,
+    });
+
+    return dirs
+      .filter((dir) => fs.statSync(path.join(projectRoot, dir)).isDirectory())
+      .sort()
+      .map((dir) => ({ dir, name: this.readPackageName(projectRoot, dir) }));
+  }
+
+  private readPackageName(projectRoot: string, dir: string): string | undefined {
+    try {
+      const content = fs.readFileSync(path.join(projectRoot, dir, "package.json"), "utf-8");
+      const { name } = JSON.parse(content) as { name?: unknown };
+      return typeof name === "string" ? name : undefined;
+    } catch {
+      return undefined; // Not a JavaScript package, or no name
+    }
+  }
+
+  private getEntrypoints(): string[] {
+    return this.config.entrypoints ?? DEFAULT_ENTRYPOINTS;
+  }
+
+  /** Name of the layer a file belongs to */
+  layerOf(file: string): string | undefined {
+    return this.findLayer(file)?.name;
+  }
+
+  private findLayer(file: string): ArchitectureLayer | undefined {
+    return this.config.layers?.find((layer) =>
+      layer.files.some((pattern) => minimatch(file, pattern, { dot: true }))
+    );
+  }
+
+  /** The innermost workspace package containing a file */
+  private findPackage(file: string, packages: WorkspacePackage[]): WorkspacePackage | undefined {
+    return packages
+      .filter((pkg) => file.startsWith(`${pkg.dir}/`))
+      .sort((a, b) => b.dir.length - a.dir.length)[0];
+  }
+
+  private checkImport(edge: ImportEdge, packages: WorkspacePackage[]): Violation[] {
+    const violations: Violation[] = [];
+    const target = edge.to ?? edge.external;
+
+    if (edge.to) {
+      const layerViolation = this.checkLayers(edge, edge.to);
+      if (layerViolation) {
+        violations.push(layerViolation);
+      }
+      const entrypointViolation = this.checkEntrypoint(edge, edge.to, packages);
+      if (entrypointViolation) {
+        violations.push(entrypointViolation);
+      }
+    }
+
+    for (const rule of this.config.forbidden ?? []) {
+      const applies = rule.from.some((pattern) => minimatch(edge.from, pattern, { dot: true }));
+      if (
+        target &&
+        applies &&
+        rule.to.some((pattern) => minimatch(target, pattern, { dot: true }))
+      ) {
+        const reason = rule.message ? `: ${rule.message}` : "";
+        violations.push(
+          this.createViolation(edge, "forbidden", `Forbidden import of ${target}${reason}`)
+        );
+      }
+    }
+
+    return violations;
+  }
+
+  /** Imports between layers must go in an allowed direction */
+  private checkLayers(edge: ImportEdge, to: string): Violation | null {
+    const fromLayer = this.findLayer(edge.from);
+    const toLayer = this.findLayer(to);
+    if (!fromLayer || !toLayer || fromLayer === toLayer) {
+      return null;
+    }
+    if (fromLayer.allow?.includes(toLayer.name)) {
+      return null;
+    }
+    return this.createViolation(
+      edge,
+      "layer",
+      `Layer "${fromLayer.name}" may not import from layer "${toLayer.name}" (${to})`
+    );
+  }
+
+  /** Imports into another workspace package must target one of its entrypoints */
+  private checkEntrypoint(
+    edge: ImportEdge,
+    to: string,
+    packages: WorkspacePackage[]
+  ): Violation | null {
+    const toPackage = this.findPackage(to, packages);
+    if (!toPackage || toPackage === this.findPackage(edge.from, packages)) {
+      return null;
+    }
+    const entrypoints = this.getEntrypoints().map((entry) => `${toPackage.dir}/${entry}`);
+    if (entrypoints.includes(to)) {
+      return null;
+    }
+    return this.createViolation(
+      edge,
+      "public-entrypoint",
+      `Import of ${to} bypasses the public entrypoint of ${toPackage.name ?? toPackage.dir}`
+    );
+  }
+
+  private createViolation(edge: ImportEdge, code: string, message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: edge.from,
+      line: edge.line,
+      message,
+      code,
+      severity: "error",
+    };
+  }
+
+  private createCycleViolation(cycle: ImportEdge[]): Violation {
+    const files = [...cycle.map((edge) => edge.from), cycle[0].from];
+    return this.createViolation(cycle[0], "cycle", `Import cycle: ${files.join(" -> ")}`);
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+
+  /** Nothing to audit: layers and rules are validated with the rest of standards.toml */
+  override async audit(_projectRoot: string): Promise<CheckResult> {
+    return CheckResultBuilder.pass(`${this.name} Config`, this.rule, 0);
+  }
+}
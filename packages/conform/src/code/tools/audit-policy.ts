@@ -0,0 +1,77 @@
+/** Advisory severities, lowest first */
+const SEVERITIES = ["info", "low", "moderate", "high", "critical"] as const;
+
+export type AuditSeverity = (typeof SEVERITIES)[number];
+
+/** An accepted advisory, ignored until it expires */
+export interface AuditIgnore {
+  id: string;
+  reason: string;
+  /** Last day the ignore applies, as YYYY-MM-DD */
+  expires: string;
+}
+
+/** Policy settings shared by the dependency audit runners */
+export interface AuditPolicyConfig {
+  /** Only report advisories at or above this severity */
+  min_severity?: AuditSeverity;
+  ignore?: AuditIgnore[];
+  /** Don't report advisories that have no patched version */
+  allow_unfixable?: boolean;
+}
+
+/** An advisory reported by an audit tool, reduced to what the policy needs */
+export interface AuditFinding {
+  /** Advisory ID and aliases (CVE, GHSA, PYSEC, ...) */
+  ids: string[];
+  /** Undefined when the tool doesn't report severities */
+  severity?: AuditSeverity;
+  /** Undefined when the tool doesn't report patched versions */
+  fixable?: boolean;
+}
+
+/** Today's date as YYYY-MM-DD, in local time (the format of expiry dates) */
+export function today(): string {
+  const now = new Date();
+  const pad = (n: number): string => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Ignore entries whose expiry date has passed and that still match one of the
+ * reported findings. Entries for advisories that no longer appear are left alone.
+ */
+export function getExpiredIgnores(
+  config: AuditPolicyConfig,
+  findings: AuditFinding[]
+): AuditIgnore[] {
+  const date = today();
+  const ids = new Set(findings.flatMap((finding) => finding.ids.map((id) => id.toUpperCase())));
+  return (config.ignore ?? []).filter(
+    (entry) => entry.expires < date && ids.has(entry.id.toUpperCase())
+  );
+}
+
+/**
+ * Check whether the policy hides a finding: it is below min_severity, known to be
+ * unfixable with allow_unfixable set, or matches an unexpired ignore entry.
+ */
+export function isSuppressed(finding: AuditFinding, config: AuditPolicyConfig): boolean {
+  const { min_severity: minSeverity } = config;
+  if (
+    minSeverity &&
+    finding.severity &&
+    SEVERITIES.indexOf(finding.severity) < SEVERITIES.indexOf(minSeverity)
+  ) {
+    return true;
+  }
+  if (config.allow_unfixable && finding.fixable === false) {
+    return true;
+  }
+
+  const date = today();
+  const ids = new Set(finding.ids.map((id) => id.toUpperCase()));
+  return (config.ignore ?? []).some(
+    (entry) => entry.expires >= date && ids.has(entry.id.toUpperCase())
+  );
+}
@@ -1,6 +1,9 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
 import { CheckResultBuilder, type CheckResult, type IToolRunner, type Violation } from "../../core/index.js";
 
 /**
@@ -13,6 +16,17 @@ export abstract class BaseToolRunner implements IToolRunner {
   abstract readonly toolId: string;
   abstract readonly configFiles: string[];
 
+  /** Files to restrict the run to (changed-files mode), or null for the whole project */
+  protected targetFiles: string[] | null = null;
+
+  /**
+   * Restrict the next run to these files (changed-files mode). Runners that check the
+   * whole project ignore them; they are registered with filterChanged instead.
+   */
+  setTargetFiles(files: string[]): void {
+    this.targetFiles = files;
+  }
+
   /**
    * Check if any of the config files exist in projectRoot or parent directories.
    * Most tools (ESLint, TSC, etc.) walk up directories to find configs.
@@ -41,6 +55,62 @@ export abstract class BaseToolRunner implements IToolRunner {
     return null;
   }
 
+  /**
+   * Find the version of an npm package installed in projectRoot or a parent node_modules.
+   * Returns null if the package isn't installed.
+   */
+  protected findPackageVersion(projectRoot: string, packageName: string): string | null {
+    let dir = path.resolve(projectRoot);
+    const root = path.parse(dir).root;
+
+    while (true) {
+      const packageJsonPath = path.join(dir, "node_modules", packageName, "package.json");
+      if (fs.existsSync(packageJsonPath)) {
+        try {
+          const content = fs.readFileSync(packageJsonPath, "utf-8");
+          return (JSON.parse(content) as { version?: string }).version ?? null;
+        } catch {
+          return null;
+        }
+      }
+      if (dir === root) break;
+      dir = path.dirname(dir);
+    }
+    return null;
+  }
+
+  /**
+   * Get the version output of a command-line tool, or null if it can't be run
+   */
+  protected async getCommandVersion(
+    projectRoot: string,
+    command: string,
+    args: string[] = ["--version"]
+  ): Promise<string | null> {
+    try {
+      const result = await execa(command, args, {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.versionCheck,
+      });
+      return result.exitCode === 0 ? String(result.stdout).trim() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Narrow a list of project-relative files to the target files.
+   * Returns the list unchanged when no target files are set.
+   */
+  protected filterTargetFiles(files: string[]): string[] {
+    if (this.targetFiles === null) {
+      return files;
+    }
+    const targets = new Set(this.targetFiles.map((f) => path.normalize(f)));
+    return files.filter((f) => targets.has(path.normalize(f)));
+  }
+
   /**
    * Check if an error indicates the tool is not installed
    */
@@ -0,0 +1,101 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { BaseFormatterRunner, type FormatterOptions, type FormatterOutput } from "./formatter.js";
+import { stripJsonComments } from "./jsonc.js";
+
+/** Formatter settings in biome.json */
+interface BiomeFormatterSettings {
+  lineWidth?: number;
+  indentStyle?: string;
+  indentWidth?: number;
+  lineEnding?: string;
+  quoteStyle?: string;
+  trailingCommas?: string;
+  /** Biome 1.x name for trailingCommas */
+  trailingComma?: string;
+  semicolons?: string;
+}
+
+/** The parts of biome.json that affect formatting */
+interface BiomeConfig {
+  formatter?: BiomeFormatterSettings;
+  javascript?: { formatter?: BiomeFormatterSettings };
+}
+
+/** Diagnostic header Biome prints for each unformatted file, e.g. "src/a.ts format ━━━" */
+const FORMAT_DIAGNOSTIC = /^(\S.*?) format\s+━/;
+
+/**
+ * Biome formatter (biome format) tool runner
+ */
+export class BiomeFormatRunner extends BaseFormatterRunner {
+  readonly name = "Biome Format";
+  readonly toolId = "biome-format";
+  readonly configFiles = ["biome.json", "biome.jsonc"];
+  readonly sourcePatterns = ["**/*.{js,mjs,cjs,jsx,ts,mts,cts,tsx,json,jsonc,css,graphql}"];
+
+  protected readonly formatCommand = "biome format --write";
+
+  /** Biome defaults */
+  protected readonly defaultOptions = {
+    lineWidth: 80,
+    indentStyle: "tab",
+    indentWidth: 2,
+    lineEnding: "lf",
+    quoteStyle: "double",
+    trailingCommas: "all",
+    semicolons: "always",
+  };
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.findPackageVersion(projectRoot, "@biomejs/biome");
+  }
+
+  protected buildCommand(targets: string[] | null): [string, string[]] {
+    const args = ["format", "--colors=off", "--max-diagnostics=none"];
+    if (targets) {
+      args.push("--no-errors-on-unmatched", ...targets);
+    } else {
+      args.push(".");
+    }
+    return ["npx", ["biome", ...args]];
+  }
+
+  /** Biome exits 1 with a diagnostic per unformatted file; other failures have none */
+  protected parseUnformatted(output: FormatterOutput): string[] | null {
+    if (output.exitCode === 0) {
+      return [];
+    }
+    const files = `${output.stdout}\n${output.stderr}`
+      .split("\n")
+      .map((line) => FORMAT_DIAGNOSTIC.exec(line.trim())?.[1])
+      .filter((file): file is string => file !== undefined);
+    return files.length > 0 ? files : null;
+  }
+
+  protected readOptions(projectRoot: string): FormatterOptions {
+    const configFile = this.findConfig(projectRoot);
+    if (configFile === null) {
+      return { error: "Biome config not found" };
+    }
+
+    let config: BiomeConfig;
+    try {
+      const content = fs.readFileSync(path.resolve(projectRoot, configFile), "utf-8");
+      config = JSON.parse(stripJsonComments(content)) as BiomeConfig;
+    } catch {
+      return { file: configFile, error: `Failed to parse ${path.basename(configFile)}` };
+    }
+
+    // JavaScript-specific settings override the general formatter settings
+    const general = config.formatter ?? {};
+    const javascript = config.javascript?.formatter ?? {};
+    const { trailingComma, ...settings } = { ...general, ...javascript };
+    const options: Record<string, unknown> = { ...settings };
+    if (options.trailingCommas === undefined && trailingComma !== undefined) {
+      options.trailingCommas = trailingComma;
+    }
+    return { file: configFile, options };
+  }
+}
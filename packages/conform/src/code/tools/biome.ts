@@ -0,0 +1,307 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { CheckResultBuilder, type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+import { stripJsonComments } from "./jsonc.js";
+import { compareRules, type RuleValue } from "./rule-audit.js";
+
+/** Biome JSON reporter diagnostic format */
+interface BiomeDiagnostic {
+  /** e.g. "lint/suspicious/noDebugger" */
+  category?: string;
+  severity?: string;
+  description?: string;
+  location?: {
+    path?: { file?: string };
+    /** Byte offsets [start, end] into the file */
+    span?: [number, number] | null;
+  };
+}
+
+/** Biome JSON reporter output format */
+interface BiomeReport {
+  diagnostics?: BiomeDiagnostic[];
+}
+
+/** Rule value in biome.json: a level or { level, options } */
+type BiomeRuleConfig = string | { level?: string; options?: Record<string, unknown> };
+
+/** The parts of biome.json that configure linting */
+interface BiomeJson {
+  linter?: {
+    rules?: Record<string, boolean | Record<string, BiomeRuleConfig> | undefined>;
+  };
+}
+
+/** Biome linter configuration options */
+interface BiomeConfig {
+  enabled?: boolean;
+  rules?: Record<string, RuleValue>;
+}
+
+/** File extensions Biome lints */
+const BIOME_EXTENSIONS = [
+  ".js",
+  ".mjs",
+  ".cjs",
+  ".jsx",
+  ".ts",
+  ".mts",
+  ".cts",
+  ".tsx",
+  ".json",
+  ".jsonc",
+  ".css",
+  ".graphql",
+];
+
+/**
+ * Biome linter (biome lint) tool runner
+ */
+export class BiomeRunner extends BaseToolRunner {
+  readonly name = "Biome";
+  readonly rule = "code.linting";
+  readonly toolId = "biome";
+  readonly configFiles = ["biome.json", "biome.jsonc"];
+  readonly sourcePatterns = [`**/*{${BIOME_EXTENSIONS.join(",")}}`];
+
+  private config: BiomeConfig = {};
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.findPackageVersion(projectRoot, "@biomejs/biome");
+  }
+
+  /**
+   * Set Biome configuration options
+   */
+  setConfig(config: BiomeConfig): void {
+    this.config = config;
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+
+    if (!this.hasConfig(projectRoot)) {
+      return this.failNoConfig(Date.now() - startTime);
+    }
+
+    const targets = this.getLintTargets();
+    if (targets?.length === 0) {
+      return this.pass(Date.now() - startTime);
+    }
+
+    try {
+      const result = await execa("npx", ["biome", ...this.buildArgs(targets)], {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+
+      const violations = this.parseOutput(result.stdout, projectRoot);
+
+      // Handle parse failure with non-zero exit
+      if (violations === null && result.exitCode !== 0) {
+        const output = String(result.stderr || result.stdout || "Unknown error").trim();
+        return this.fail(
+          [this.createErrorViolation(`Biome error: ${output}`)],
+          Date.now() - startTime
+        );
+      }
+
+      return this.fromViolations(violations ?? [], Date.now() - startTime);
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(Date.now() - startTime);
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail(
+        [this.createErrorViolation(`Biome error: ${message}`)],
+        Date.now() - startTime
+      );
+    }
+  }
+
+  /**
+   * Audit Biome config - verify config exists and required rules are configured
+   */
+  async audit(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    const configFile = this.findConfig(projectRoot);
+    if (configFile === null) {
+      return this.fail(
+        [
+          this.createAuditViolation(
+            `${this.name} config not found. Expected one of: ${this.configFiles.join(", ")}`
+          ),
+        ],
+        elapsed()
+      );
+    }
+
+    const required = this.config.rules ?? {};
+    if (Object.keys(required).length === 0) {
+      return CheckResultBuilder.pass(`${this.name} Config`, this.rule, elapsed());
+    }
+
+    const configured = this.readConfiguredRules(projectRoot, configFile);
+    const violations =
+      "error" in configured
+        ? [this.createAuditViolation(configured.error, configFile)]
+        : compareRules(required, this.toEffectiveRules(required, configured.rules)).map(
+            (message) => this.createAuditViolation(message, configFile)
+          );
+
+    return CheckResultBuilder.fromViolations(
+      `${this.name} Config`,
+      this.rule,
+      violations,
+      elapsed()
+    );
+  }
+
+  /**
+   * Read linter.rules from biome.json as "group/rule" -> [level, options?].
+   * Rules enabled only through "recommended" or a shared config are not listed.
+   */
+  private readConfiguredRules(
+    projectRoot: string,
+    configFile: string
+  ): { rules: Record<string, unknown[]> } | { error: string } {
+    let config: BiomeJson;
+    try {
+      const content = fs.readFileSync(path.resolve(projectRoot, configFile), "utf-8");
+      config = JSON.parse(stripJsonComments(content)) as BiomeJson;
+    } catch {
+      return { error: `Failed to parse ${path.basename(configFile)}` };
+    }
+
+    const rules: Record<string, unknown[]> = {};
+    for (const [group, groupRules] of Object.entries(config.linter?.rules ?? {})) {
+      if (typeof groupRules !== "object") {
+        continue; // "recommended" flag
+      }
+      for (const [ruleName, value] of Object.entries(groupRules)) {
+        if (typeof value === "string") {
+          rules[`${group}/${ruleName}`] = [value];
+        } else if (typeof value === "object" && value !== null) {
+          const level = value.level ?? "error";
+          rules[`${group}/${ruleName}`] = value.options ? [level, value.options] : [level];
+        }
+      }
+    }
+    return { rules };
+  }
+
+  /**
+   * Match required rules to configured ones. Required rules may be written as
+   * "group/rule" (e.g. "suspicious/noDebugger") or just the rule name.
+   */
+  private toEffectiveRules(
+    required: Record<string, RuleValue>,
+    configured: Record<string, unknown[]>
+  ): Record<string, unknown[]> {
+    const effective: Record<string, unknown[]> = {};
+    for (const ruleName of Object.keys(required)) {
+      const match = Object.entries(configured).find(
+        ([name]) => name === ruleName || name.split("/")[1] === ruleName
+      );
+      if (match) {
+        effective[ruleName] = match[1];
+      }
+    }
+    return effective;
+  }
+
+  /** Changed files Biome can lint, or null when linting the whole project */
+  private getLintTargets(): string[] | null {
+    if (this.targetFiles === null) {
+      return null;
+    }
+    return this.targetFiles.filter((file) => BIOME_EXTENSIONS.includes(path.extname(file)));
+  }
+
+  private buildArgs(targets: string[] | null): string[] {
+    const args = ["lint", "--reporter=json", "--colors=off", "--max-diagnostics=none"];
+    if (targets) {
+      args.push("--no-errors-on-unmatched", ...targets);
+    } else {
+      args.push(".");
+    }
+    return args;
+  }
+
+  private parseOutput(stdout: string, projectRoot: string): Violation[] | null {
+    let report: BiomeReport;
+    try {
+      report = JSON.parse(stdout) as BiomeReport;
+    } catch {
+      return null;
+    }
+
+    return (report.diagnostics ?? [])
+      .filter((d) => d.category?.startsWith("lint/"))
+      .map((d) => this.toViolation(d, projectRoot));
+  }
+
+  private toViolation(diagnostic: BiomeDiagnostic, projectRoot: string): Violation {
+    const file = diagnostic.location?.path?.file;
+    const position = file ? this.getPosition(projectRoot, file, diagnostic.location?.span) : null;
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: file ? path.relative(projectRoot, path.resolve(projectRoot, file)) : undefined,
+      line: position?.line,
+      column: position?.column,
+      message: diagnostic.description ?? "",
+      code: diagnostic.category?.slice("lint/".length),
+      severity:
+        diagnostic.severity === "error" || diagnostic.severity === "fatal" ? "error" : "warning",
+    };
+  }
+
+  /**
+   * Convert a diagnostic's byte offset into a 1-based line and column
+   */
+  private getPosition(
+    projectRoot: string,
+    file: string,
+    span: [number, number] | null | undefined
+  ): { line: number; column: number } | null {
+    if (!span) {
+      return null;
+    }
+    try {
+      const content = fs.readFileSync(path.resolve(projectRoot, file));
+      const lines = content.subarray(0, span[0]).toString("utf-8").split("\n");
+      return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+    } catch {
+      return null;
+    }
+  }
+
+  private createAuditViolation(message: string, file?: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: "audit",
+      ...(file && { file }),
+      message,
+      severity: "error",
+    };
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
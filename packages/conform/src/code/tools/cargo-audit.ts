@@ -0,0 +1,139 @@
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+
+/** A crate from Cargo.lock */
+interface CargoAuditPackage {
+  name: string;
+  version: string;
+}
+
+/** A RustSec advisory */
+interface CargoAuditAdvisory {
+  id: string;
+  title: string;
+}
+
+/** cargo audit vulnerability entry */
+interface CargoAuditVulnerability {
+  advisory: CargoAuditAdvisory;
+  versions: { patched: string[] };
+  package: CargoAuditPackage;
+}
+
+/** cargo audit informational warning (unmaintained, unsound or yanked crate) */
+interface CargoAuditWarning {
+  kind: string;
+  advisory: CargoAuditAdvisory | null;
+  package: CargoAuditPackage;
+}
+
+/** cargo audit --json output format */
+interface CargoAuditOutput {
+  vulnerabilities: { list: CargoAuditVulnerability[] };
+  warnings?: Record<string, CargoAuditWarning[]>;
+}
+
+/**
+ * cargo audit tool runner for detecting vulnerable Rust dependencies.
+ * Vulnerabilities are errors when a patched version exists; unmaintained,
+ * unsound and yanked crates are reported as warnings.
+ */
+export class CargoAuditRunner extends BaseToolRunner {
+  readonly name = "cargo audit";
+  readonly rule = "code.security";
+  readonly toolId = "cargo-audit";
+  readonly configFiles = ["Cargo.toml"];
+  readonly sourcePatterns: string[] = [];
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    if (!this.hasConfig(projectRoot)) {
+      return this.failNoConfig(elapsed());
+    }
+
+    try {
+      const result = await execa("cargo", ["audit", "--json"], {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+
+      const violations = this.parseOutput(String(result.stdout ?? ""));
+      if (violations === null) {
+        const output = String(result.stderr || result.stdout || "Unknown error").trim();
+        return this.fail([this.createErrorViolation(`cargo audit error: ${output}`)], elapsed());
+      }
+
+      return this.fromViolations(violations, elapsed());
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(elapsed());
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`cargo audit error: ${message}`)], elapsed());
+    }
+  }
+
+  private parseOutput(output: string): Violation[] | null {
+    let parsed: CargoAuditOutput;
+    try {
+      parsed = JSON.parse(output) as CargoAuditOutput;
+    } catch {
+      return null;
+    }
+    if (!Array.isArray(parsed.vulnerabilities?.list)) {
+      return null;
+    }
+
+    const violations = parsed.vulnerabilities.list.map((vuln) => {
+      const patched = vuln.versions.patched;
+      const fixInfo = patched.length > 0 ? ` (fix: ${patched[0]})` : " (no fix available)";
+      return this.createViolation(
+        vuln.package,
+        `${vuln.advisory.id} ${vuln.advisory.title}${fixInfo}`,
+        vuln.advisory.id,
+        patched.length > 0 ? "error" : "warning"
+      );
+    });
+
+    for (const warning of Object.values(parsed.warnings ?? {}).flat()) {
+      const { advisory, kind } = warning;
+      const title = advisory ? `${advisory.id} ${advisory.title}` : `crate is ${kind}`;
+      const code = advisory?.id ?? kind;
+      violations.push(this.createViolation(warning.package, title, code, "warning"));
+    }
+
+    return violations;
+  }
+
+  private createViolation(
+    pkg: CargoAuditPackage,
+    title: string,
+    code: string,
+    severity: "error" | "warning"
+  ): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: "Cargo.lock",
+      message: `${pkg.name}@${pkg.version}: ${title}`,
+      code,
+      severity,
+    };
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
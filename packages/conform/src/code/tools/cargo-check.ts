@@ -0,0 +1,16 @@
+import { BaseCargoRunner } from "./cargo.js";
+
+/**
+ * cargo check tool runner.
+ * Reports compile and type errors of every target of every workspace member.
+ */
+export class CargoCheckRunner extends BaseCargoRunner {
+  readonly name = "cargo check";
+  readonly rule = "code.types";
+  readonly toolId = "cargo-check";
+  protected readonly subcommand = ["check", "--workspace", "--all-targets"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "cargo", ["--version"]);
+  }
+}
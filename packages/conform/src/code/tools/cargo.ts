@@ -0,0 +1,149 @@
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+
+/** A source span of a rustc diagnostic */
+interface RustcSpan {
+  file_name: string;
+  line_start: number;
+  column_start: number;
+  is_primary: boolean;
+}
+
+/** A rustc diagnostic, as embedded in cargo's JSON messages */
+interface RustcDiagnostic {
+  message: string;
+  /** e.g. { code: "clippy::needless_return" } or { code: "E0308" } */
+  code: { code: string } | null;
+  level: string;
+  spans: RustcSpan[];
+}
+
+/** A line of cargo --message-format=json output */
+interface CargoMessage {
+  reason: string;
+  message?: RustcDiagnostic;
+}
+
+/**
+ * Base class for runners that report rustc diagnostics from
+ * `cargo <subcommand> --message-format=json` (clippy, cargo check).
+ */
+export abstract class BaseCargoRunner extends BaseToolRunner {
+  readonly configFiles = ["Cargo.toml"];
+  readonly sourcePatterns = ["**/*.rs", "**/Cargo.toml", "Cargo.lock"];
+
+  /** cargo subcommand and its arguments, e.g. ["clippy", "--all-targets"] */
+  protected abstract readonly subcommand: string[];
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    if (!this.hasConfig(projectRoot)) {
+      return this.failNoConfig(elapsed());
+    }
+
+    try {
+      const result = await execa(
+        "cargo",
+        [...this.subcommand, "--message-format=json", "--quiet"],
+        { cwd: projectRoot, reject: false, timeout: TIMEOUTS.codeToolExtended }
+      );
+
+      const workspaceRoot = await this.findWorkspaceRoot(projectRoot);
+      const violations = this.parseOutput(String(result.stdout ?? ""), workspaceRoot, projectRoot);
+
+      // Cargo failed before compiling (bad manifest, missing subcommand, ...)
+      if (violations.length === 0 && result.exitCode !== 0) {
+        const output = String(result.stderr || result.stdout || "Unknown error").trim();
+        return this.fail([this.createErrorViolation(`${this.name} error: ${output}`)], elapsed());
+      }
+
+      return this.fromViolations(violations, elapsed());
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(elapsed());
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`${this.name} error: ${message}`)], elapsed());
+    }
+  }
+
+  /**
+   * The root of the cargo workspace, which span file names are relative to.
+   * Falls back to the project root when cargo metadata fails.
+   */
+  private async findWorkspaceRoot(projectRoot: string): Promise<string> {
+    try {
+      const result = await execa("cargo", ["metadata", "--format-version", "1", "--no-deps"], {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+      const metadata = JSON.parse(String(result.stdout)) as { workspace_root?: unknown };
+      if (result.exitCode === 0 && typeof metadata.workspace_root === "string") {
+        return metadata.workspace_root;
+      }
+    } catch {
+      // Not JSON, or cargo disappeared
+    }
+    return projectRoot;
+  }
+
+  /**
+   * Parse compiler messages into violations, with file paths relative to the project root.
+   * Summary messages without a source span ("aborting due to ...") are skipped, and
+   * diagnostics reported for several targets of the same crate are kept once.
+   */
+  private parseOutput(stdout: string, workspaceRoot: string, projectRoot: string): Violation[] {
+    const violations = new Map<string, Violation>();
+
+    for (const line of stdout.split("\n")) {
+      let parsed: CargoMessage;
+      try {
+        parsed = JSON.parse(line) as CargoMessage;
+      } catch {
+        continue;
+      }
+
+      const diagnostic = parsed.message;
+      if (parsed.reason !== "compiler-message" || !diagnostic) {
+        continue;
+      }
+      const span = diagnostic.spans.find((s) => s.is_primary);
+      if (!span || (diagnostic.level !== "error" && diagnostic.level !== "warning")) {
+        continue;
+      }
+
+      const file = path.relative(projectRoot, path.resolve(workspaceRoot, span.file_name));
+      const key = `${file}:${span.line_start}:${span.column_start}:${diagnostic.message}`;
+      violations.set(key, {
+        rule: `${this.rule}.${this.toolId}`,
+        tool: this.toolId,
+        file,
+        line: span.line_start,
+        column: span.column_start,
+        message: diagnostic.message,
+        code: diagnostic.code?.code,
+        severity: diagnostic.level,
+      });
+    }
+
+    return [...violations.values()];
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { BaseCargoRunner } from "./cargo.js";
+
+/**
+ * Clippy tool runner for linting Rust crates.
+ * Lints every target (tests, examples, benches) of every workspace member.
+ */
+export class ClippyRunner extends BaseCargoRunner {
+  readonly name = "Clippy";
+  readonly rule = "code.linting";
+  readonly toolId = "clippy";
+  protected readonly subcommand = ["clippy", "--workspace", "--all-targets"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "cargo", ["clippy", "--version"]);
+  }
+}
@@ -0,0 +1,226 @@
+import ts from "typescript";
+
+import { scriptKind } from "./script-files.js";
+
+/** Size and complexity of one function */
+export interface FunctionMetrics {
+  name: string;
+  /** 1-based line the function starts on */
+  line: number;
+  /** Number of lines the function spans */
+  lines: number;
+  params: number;
+  /** Cyclomatic complexity: 1 + the number of decision points */
+  complexity: number;
+}
+
+/** Size and functions of one source file */
+export interface FileMetrics {
+  lines: number;
+  functions: FunctionMetrics[];
+}
+
+/** Count lines, ignoring the empty string after a trailing newline */
+export function countLines(content: string): number {
+  if (content === "") {
+    return 0;
+  }
+  const lines = content.split("\n").length;
+  return content.endsWith("\n") ? lines - 1 : lines;
+}
+
+// =============================================================================
+// TypeScript / JavaScript
+// =============================================================================
+
+type FunctionNode =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration;
+
+/** Function-like nodes with a body (overload and abstract signatures have none) */
+function isFunctionWithBody(node: ts.Node): node is FunctionNode {
+  return (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isConstructorDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)) &&
+    node.body !== undefined
+  );
+}
+
+const LOGICAL_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+/** Whether a node adds a path through the function, as ESLint's complexity rule counts them */
+function isDecisionPoint(node: ts.Node): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.CatchClause:
+      return true;
+    case ts.SyntaxKind.BinaryExpression:
+      return LOGICAL_OPERATORS.has((node as ts.BinaryExpression).operatorToken.kind);
+    default:
+      return false;
+  }
+}
+
+/** Complexity of a function body, excluding nested functions (they're measured separately) */
+function measureComplexity(fn: FunctionNode): number {
+  let complexity = 1;
+  const visit = (node: ts.Node): void => {
+    if (isFunctionWithBody(node)) {
+      return;
+    }
+    if (isDecisionPoint(node)) {
+      complexity++;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(fn, visit);
+  return complexity;
+}
+
+/** A readable name: the declared name, or what an anonymous function is assigned to */
+function functionName(fn: FunctionNode, sourceFile: ts.SourceFile): string {
+  if (ts.isConstructorDeclaration(fn)) {
+    return "constructor";
+  }
+  if (fn.name) {
+    return fn.name.getText(sourceFile);
+  }
+  const parent = fn.parent;
+  if (
+    (ts.isVariableDeclaration(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent)) &&
+    parent.name
+  ) {
+    return parent.name.getText(sourceFile);
+  }
+  return "<anonymous>";
+}
+
+/**
+ * Measure the functions of a TypeScript or JavaScript file with the TypeScript parser.
+ */
+export function analyzeTypeScript(fileName: string, content: string): FileMetrics {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind(fileName)
+  );
+  const lineOf = (pos: number): number => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+
+  const functions: FunctionMetrics[] = [];
+  const visit = (node: ts.Node): void => {
+    if (isFunctionWithBody(node)) {
+      const line = lineOf(node.getStart(sourceFile));
+      functions.push({
+        name: functionName(node, sourceFile),
+        line,
+        lines: lineOf(node.getEnd()) - line + 1,
+        params: node.parameters.filter((p) => p.name.getText(sourceFile) !== "this").length,
+        complexity: measureComplexity(node),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { lines: countLines(content), functions };
+}
+
+// =============================================================================
+// Python
+// =============================================================================
+
+/**
+ * Python helper that measures functions with the ast module.
+ * Reads a JSON list of file paths on stdin and prints { path: FileMetrics | null },
+ * with null for files that can't be read or parsed.
+ */
+export const PYTHON_ANALYZER = `
+import ast, json, sys
+
+DECISIONS = (ast.If, ast.IfExp, ast.For, ast.AsyncFor, ast.While, ast.ExceptHandler, ast.Assert)
+FUNCTIONS = (ast.FunctionDef, ast.AsyncFunctionDef, ast.Lambda)
+
+def complexity(fn):
+    total = 1
+    stack = list(ast.iter_child_nodes(fn))
+    while stack:
+        node = stack.pop()
+        if isinstance(node, FUNCTIONS) or isinstance(node, ast.ClassDef):
+            continue
+        if isinstance(node, DECISIONS):
+            total += 1
+        elif isinstance(node, ast.BoolOp):
+            total += len(node.values) - 1
+        elif isinstance(node, ast.comprehension):
+            total += 1 + len(node.ifs)
+        elif type(node).__name__ == "match_case":
+            total += 1
+        stack.extend(ast.iter_child_nodes(node))
+    return total
+
+def params(fn, in_class):
+    args = fn.args
+    names = [a.arg for a in args.posonlyargs + args.args + args.kwonlyargs]
+    names += [a.arg for a in (args.vararg, args.kwarg) if a]
+    if in_class and names and names[0] in ("self", "cls"):
+        names = names[1:]
+    return len(names)
+
+def visit(node, prefix, in_class, out):
+    for child in ast.iter_child_nodes(node):
+        if isinstance(child, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            line = min([child.lineno] + [d.lineno for d in child.decorator_list])
+            out.append({
+                "name": prefix + child.name,
+                "line": line,
+                "lines": child.end_lineno - line + 1,
+                "params": params(child, in_class),
+                "complexity": complexity(child),
+            })
+            visit(child, prefix + child.name + ".", False, out)
+        elif isinstance(child, ast.ClassDef):
+            visit(child, prefix + child.name + ".", True, out)
+        else:
+            visit(child, prefix, in_class, out)
+
+result = {}
+for path in json.load(sys.stdin):
+    try:
+        with open(path, encoding="utf-8") as f:
+            source = f.read()
+        functions = []
+        visit(ast.parse(source, path), "", False, functions)
+        lines = source.count("\\n") + (0 if source.endswith("\\n") or not source else 1)
+        result[path] = {"lines": lines, "functions": functions}
+    except (OSError, SyntaxError, ValueError, UnicodeDecodeError):
+        result[path] = None
+print(json.dumps(result))
+`;
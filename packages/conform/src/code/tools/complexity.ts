@@ -0,0 +1,309 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { execa } from "execa";
+import { glob } from "glob";
+import { minimatch } from "minimatch";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, CheckResultBuilder, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+import {
+  analyzeTypeScript,
+  type FileMetrics,
+  type FunctionMetrics,
+  PYTHON_ANALYZER,
+} from "./complexity-analyzers.js";
+import { SCRIPT_EXTENSIONS } from "./script-files.js";
+
+/** Size and complexity limits; 0 turns a limit off */
+interface ComplexityLimits {
+  max_complexity?: number;
+  max_function_lines?: number;
+  max_file_lines?: number;
+  max_params?: number;
+}
+
+/** Limits for the files matching any of the globs */
+interface ComplexityOverride extends ComplexityLimits {
+  files: string[];
+}
+
+/** Configuration for complexity validation */
+interface ComplexityConfig extends ComplexityLimits {
+  enabled?: boolean;
+  exclude?: string[];
+  /** Applied in order, so later overrides win */
+  overrides?: ComplexityOverride[];
+}
+
+const LIMIT_KEYS = [
+  "max_complexity",
+  "max_function_lines",
+  "max_file_lines",
+  "max_params",
+] as const;
+
+/** Limits used when the config doesn't set them */
+const DEFAULT_LIMITS: Required<ComplexityLimits> = {
+  max_complexity: 10,
+  max_function_lines: 50,
+  max_file_lines: 500,
+  max_params: 5,
+};
+
+const SOURCE_PATTERN = `**/*.{${[...SCRIPT_EXTENSIONS, "py"].join(",")}}`;
+
+/** Default files to exclude */
+const DEFAULT_EXCLUDE = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/__pycache__/**",
+  "**/.venv/**",
+  "**/venv/**",
+  "**/coverage/**",
+  "**/*.d.ts",
+  "**/*.min.js",
+];
+
+/** The limits set in a config section, without unset keys */
+function pickLimits(source: ComplexityLimits): ComplexityLimits {
+  const limits: ComplexityLimits = {};
+  for (const key of LIMIT_KEYS) {
+    if (source[key] !== undefined) {
+      limits[key] = source[key];
+    }
+  }
+  return limits;
+}
+
+/** Whether a value exceeds a limit (0 = no limit) */
+function exceeds(value: number, limit: number): boolean {
+  return limit > 0 && value > limit;
+}
+
+/**
+ * Complexity runner: checks the cyclomatic complexity, length and parameter count of
+ * functions and the length of files. TypeScript/JavaScript is parsed with the TypeScript
+ * compiler API and Python with its ast module (via python3).
+ */
+export class ComplexityRunner extends BaseToolRunner {
+  readonly name = "Complexity";
+  readonly rule = "code.quality";
+  readonly toolId = "complexity";
+  readonly configFiles: string[] = []; // No config file needed
+  readonly sourcePatterns = [SOURCE_PATTERN];
+
+  private config: ComplexityConfig = {};
+
+  setConfig(config: ComplexityConfig): void {
+    this.config = config;
+  }
+
+  /** Built-in check, so results only depend on the conform version and inputs */
+  async cacheKey(): Promise<string> {
+    return "builtin";
+  }
+
+  private getExcludePatterns(): string[] {
+    return [...DEFAULT_EXCLUDE, ...(this.config.exclude ?? [])];
+  }
+
+  /** Limits for a file: defaults, then the top-level config, then matching overrides */
+  private getLimits(file: string): Required<ComplexityLimits> {
+    let limits = { ...DEFAULT_LIMITS, ...pickLimits(this.config) };
+    for (const override of this.config.overrides ?? []) {
+      if (override.files.some((pattern) => minimatch(file, pattern, { dot: true }))) {
+        limits = { ...limits, ...pickLimits(override) };
+      }
+    }
+    return limits;
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+
+    try {
+      const allFiles = await glob(SOURCE_PATTERN, {
+        cwd: projectRoot,
+        ignore: this.getExcludePatterns(),
+        nodir: true,
+      });
+      const files = this.filterTargetFiles(allFiles).sort();
+      const pythonFiles = files.filter((file) => file.endsWith(".py"));
+      const scriptFiles = files.filter((file) => !file.endsWith(".py"));
+
+      const violations: Violation[] = [];
+      for (const file of scriptFiles) {
+        const content = fs.readFileSync(path.join(projectRoot, file), "utf-8");
+        violations.push(...this.checkFile(file, analyzeTypeScript(file, content)));
+      }
+
+      if (pythonFiles.length > 0) {
+        const metrics = await this.analyzePython(projectRoot, pythonFiles);
+        if (!metrics) {
+          // Script file violations still count; otherwise there is nothing to report
+          return violations.length > 0
+            ? this.fail(violations, Date.now() - startTime)
+            : CheckResultBuilder.skip(
+                this.name,
+                this.rule,
+                "python3 not installed, so Python files were not checked",
+                Date.now() - startTime
+              );
+        }
+        for (const file of pythonFiles) {
+          const fileMetrics = metrics[file];
+          violations.push(
+            ...(fileMetrics ? this.checkFile(file, fileMetrics) : [this.parseErrorViolation(file)])
+          );
+        }
+      }
+
+      return this.fromViolations(violations, Date.now() - startTime);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail(
+        [this.createErrorViolation(`Complexity check error: ${message}`)],
+        Date.now() - startTime
+      );
+    }
+  }
+
+  /**
+   * Measure Python files with the ast helper.
+   * Files that don't parse map to null; returns null if python3 isn't installed.
+   */
+  private async analyzePython(
+    projectRoot: string,
+    files: string[]
+  ): Promise<Record<string, FileMetrics | null> | null> {
+    try {
+      const result = await execa("python3", ["-c", PYTHON_ANALYZER], {
+        cwd: projectRoot,
+        input: JSON.stringify(files),
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+      if (result.exitCode !== 0) {
+        throw new Error(`python3 error: ${String(result.stderr || result.stdout).trim()}`);
+      }
+      return JSON.parse(String(result.stdout)) as Record<string, FileMetrics | null>;
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private checkFile(file: string, metrics: FileMetrics): Violation[] {
+    const limits = this.getLimits(file);
+    const violations: Violation[] = [];
+
+    if (exceeds(metrics.lines, limits.max_file_lines)) {
+      violations.push(
+        this.createViolation(
+          file,
+          undefined,
+          "max-file-lines",
+          `File has ${metrics.lines} lines (max ${limits.max_file_lines})`
+        )
+      );
+    }
+
+    for (const fn of metrics.functions) {
+      violations.push(...this.checkFunction(file, fn, limits));
+    }
+
+    return violations;
+  }
+
+  private checkFunction(
+    file: string,
+    fn: FunctionMetrics,
+    limits: Required<ComplexityLimits>
+  ): Violation[] {
+    const violations: Violation[] = [];
+    const name = `Function "${fn.name}"`;
+
+    if (exceeds(fn.complexity, limits.max_complexity)) {
+      violations.push(
+        this.createViolation(
+          file,
+          fn.line,
+          "max-complexity",
+          `${name} has a cyclomatic complexity of ${fn.complexity} (max ${limits.max_complexity})`
+        )
+      );
+    }
+    if (exceeds(fn.lines, limits.max_function_lines)) {
+      violations.push(
+        this.createViolation(
+          file,
+          fn.line,
+          "max-function-lines",
+          `${name} has ${fn.lines} lines (max ${limits.max_function_lines})`
+        )
+      );
+    }
+    if (exceeds(fn.params, limits.max_params)) {
+      violations.push(
+        this.createViolation(
+          file,
+          fn.line,
+          "max-params",
+          `${name} has ${fn.params} parameters (max ${limits.max_params})`
+        )
+      );
+    }
+
+    return violations;
+  }
+
+  /** A Python file that doesn't parse, so its complexity is unknown */
+  private parseErrorViolation(file: string): Violation {
+    return {
+      ...this.createViolation(
+        file,
+        undefined,
+        "parse-error",
+        "Could not parse file to measure complexity"
+      ),
+      severity: "warning",
+    };
+  }
+
+  private createViolation(
+    file: string,
+    line: number | undefined,
+    code: string,
+    message: string
+  ): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file,
+      line,
+      message,
+      code,
+      severity: "error",
+    };
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+
+  /** Nothing to audit: limits are validated with the rest of standards.toml */
+  override async audit(_projectRoot: string): Promise<CheckResult> {
+    return CheckResultBuilder.pass(`${this.name} Config`, this.rule, 0);
+  }
+}
@@ -0,0 +1,287 @@
+import * as path from "node:path";
+
+import {
+  computePercentage,
+  type CoverageCounts,
+  type CoverageData,
+  type FileCoverage,
+  METRICS,
+} from "./coverage-thresholds.js";
+
+/** Count the entries of a hit map that were hit */
+function countHits(hits: Map<string, number>): CoverageCounts {
+  let covered = 0;
+  for (const count of hits.values()) {
+    if (count > 0) {
+      covered++;
+    }
+  }
+  return { total: hits.size, covered };
+}
+
+/** Sum per-file counts into overall percentages */
+function totalsFromFiles(files: Record<string, FileCoverage>): CoverageData {
+  const data: CoverageData = { files };
+  for (const metric of METRICS) {
+    let total = 0;
+    let covered = 0;
+    let measured = false;
+    for (const coverage of Object.values(files)) {
+      const counts = coverage[metric];
+      if (counts) {
+        measured = true;
+        total += counts.total;
+        covered += counts.covered;
+      }
+    }
+    if (measured) {
+      data[metric] = computePercentage(total, covered);
+    }
+  }
+  return data;
+}
+
+// =============================================================================
+// LCOV
+// =============================================================================
+
+/** Hits of one source file, merged across the records that mention it */
+interface LcovFile {
+  lines: Map<string, number>;
+  functions: Map<string, number>;
+  branches: Map<string, number>;
+  /** LF/LH, FNF/FNH and BRF/BRH summaries, used when a record has no detail lines */
+  summary: Record<string, number>;
+}
+
+/** Parse one LCOV line into a file's hit maps */
+function addLcovLine(file: LcovFile, key: string, value: string): void {
+  const fields = value.split(",");
+  switch (key) {
+    case "DA": {
+      const hits = Number(fields[1]);
+      file.lines.set(fields[0], Math.max(file.lines.get(fields[0]) ?? 0, hits));
+      break;
+    }
+    case "FN": {
+      // FN:<line>,<name> declares a function; its hits come from FNDA
+      const name = fields.slice(1).join(",");
+      file.functions.set(name, file.functions.get(name) ?? 0);
+      break;
+    }
+    case "FNDA": {
+      const name = fields.slice(1).join(",");
+      file.functions.set(name, (file.functions.get(name) ?? 0) + Number(fields[0]));
+      break;
+    }
+    case "BRDA": {
+      // BRDA:<line>,<block>,<branch>,<taken>; "-" means the block never ran
+      const branch = fields.slice(0, 3).join(",");
+      const taken = fields[3] === "-" ? 0 : Number(fields[3]);
+      file.branches.set(branch, (file.branches.get(branch) ?? 0) + taken);
+      break;
+    }
+    case "LF":
+    case "LH":
+    case "FNF":
+    case "FNH":
+    case "BRF":
+    case "BRH":
+      file.summary[key] = Number(value);
+      break;
+    default:
+      break;
+  }
+}
+
+/** Counts of one metric, from the detail lines or else the summary lines */
+function lcovCounts(
+  hits: Map<string, number>,
+  summary: Record<string, number>,
+  [foundKey, hitKey]: [string, string]
+): CoverageCounts | undefined {
+  if (hits.size > 0) {
+    return countHits(hits);
+  }
+  const total = summary[foundKey];
+  return total === undefined ? undefined : { total, covered: summary[hitKey] ?? 0 };
+}
+
+/**
+ * Parse an LCOV tracefile (lcov.info), as written by c8, bun, genhtml tooling,
+ * cargo-llvm-cov --lcov and others. Returns null when there are no SF records.
+ */
+export function parseLcov(content: string): CoverageData | null {
+  const records = new Map<string, LcovFile>();
+  let current: LcovFile | undefined;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(":");
+    if (line === "end_of_record") {
+      current = undefined;
+      continue;
+    }
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator);
+    const value = line.slice(separator + 1);
+    if (key === "SF") {
+      current = records.get(value) ?? {
+        lines: new Map(),
+        functions: new Map(),
+        branches: new Map(),
+        summary: {},
+      };
+      records.set(value, current);
+    } else if (current) {
+      addLcovLine(current, key, value);
+    }
+  }
+
+  if (records.size === 0) {
+    return null;
+  }
+
+  const files: Record<string, FileCoverage> = {};
+  for (const [file, record] of records) {
+    const coverage: FileCoverage = {};
+    const lines = lcovCounts(record.lines, record.summary, ["LF", "LH"]);
+    const functions = lcovCounts(record.functions, record.summary, ["FNF", "FNH"]);
+    const branches = lcovCounts(record.branches, record.summary, ["BRF", "BRH"]);
+    if (lines) {
+      coverage.lines = lines;
+    }
+    if (functions) {
+      coverage.functions = functions;
+    }
+    if (branches) {
+      coverage.branches = branches;
+    }
+    files[file] = coverage;
+  }
+  return totalsFromFiles(files);
+}
+
+// =============================================================================
+// Cobertura
+// =============================================================================
+
+/** Hits of one source file, merged across the classes in it */
+interface CoberturaFile {
+  lines: Map<string, number>;
+  branches: Map<string, number>;
+  /** Whether each method was called */
+  methods: boolean[];
+}
+
+/** Decode the XML entities that can appear in attribute values */
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Read the attributes of an XML start tag */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/** Add a class's <line> elements to its file's line and branch hit maps */
+function addCoberturaLines(
+  body: string,
+  lines: Map<string, number>,
+  branches: Map<string, number>
+): void {
+  for (const match of body.matchAll(/<line\s([^>]*?)\/?>/g)) {
+    const attributes = parseAttributes(match[1]);
+    const number = attributes.number;
+    if (!number) {
+      continue;
+    }
+    lines.set(number, Math.max(lines.get(number) ?? 0, Number(attributes.hits ?? 0)));
+
+    // condition-coverage="50% (1/2)"
+    const conditions = /\((\d+)\/(\d+)\)/.exec(attributes["condition-coverage"] ?? "");
+    if (attributes.branch === "true" && conditions) {
+      const [covered, total] = [Number(conditions[1]), Number(conditions[2])];
+      for (let i = 0; i < total; i++) {
+        const key = `${number}:${i}`;
+        branches.set(key, Math.max(branches.get(key) ?? 0, i < covered ? 1 : 0));
+      }
+    }
+  }
+}
+
+/** Root line-rate and branch-rate, for reports without any classes */
+function parseCoberturaRates(content: string): CoverageData | null {
+  const root = /<coverage\s([^>]*)>/.exec(content);
+  const attributes = parseAttributes(root?.[1] ?? "");
+  if (attributes["line-rate"] === undefined) {
+    return null;
+  }
+  const rate = (value: string | undefined): number | undefined =>
+    value === undefined ? undefined : Number(value) * 100;
+  return { lines: rate(attributes["line-rate"]), branches: rate(attributes["branch-rate"]) };
+}
+
+/**
+ * Parse a Cobertura coverage.xml, as written by coverage.py, istanbul, gocover-cobertura,
+ * JaCoCo converters and others. File names are resolved against the first <source>.
+ * Returns null when the content isn't a Cobertura report.
+ */
+export function parseCobertura(content: string): CoverageData | null {
+  if (!/<coverage[\s>]/.test(content)) {
+    return null;
+  }
+
+  const source = /<source>([^<]*)<\/source>/.exec(content)?.[1]?.trim() ?? "";
+  const hits = new Map<string, CoberturaFile>();
+
+  for (const match of content.matchAll(/<class\s([^>]*?)>([\s\S]*?)<\/class>/g)) {
+    const filename = parseAttributes(match[1]).filename;
+    if (!filename) {
+      continue;
+    }
+    const file = path.join(decodeXml(source), filename);
+    const entry: CoberturaFile = hits.get(file) ?? {
+      lines: new Map(),
+      branches: new Map(),
+      methods: [],
+    };
+    hits.set(file, entry);
+
+    addCoberturaLines(match[2], entry.lines, entry.branches);
+    for (const method of match[2].matchAll(/<method\s[^>]*>([\s\S]*?)<\/method>/g)) {
+      const called = [...method[1].matchAll(/\shits="(\d+)"/g)].some((h) => Number(h[1]) > 0);
+      entry.methods.push(called);
+    }
+  }
+
+  if (hits.size === 0) {
+    return parseCoberturaRates(content);
+  }
+
+  const files: Record<string, FileCoverage> = {};
+  for (const [file, entry] of hits) {
+    const coverage: FileCoverage = { lines: countHits(entry.lines) };
+    if (entry.branches.size > 0) {
+      coverage.branches = countHits(entry.branches);
+    }
+    if (entry.methods.length > 0) {
+      const covered = entry.methods.filter(Boolean).length;
+      coverage.functions = { total: entry.methods.length, covered };
+    }
+    files[file] = coverage;
+  }
+  return totalsFromFiles(files);
+}
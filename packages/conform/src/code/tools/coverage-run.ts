@@ -6,21 +6,31 @@ import { execa } from "execa";
 import { TIMEOUTS } from "../../constants.js";
 import { CheckResultBuilder, type CheckResult, type Violation } from "../../core/index.js";
 import { BaseToolRunner } from "./base.js";
+import { parseCobertura, parseLcov } from "./coverage-formats.js";
+import {
+  checkBaseline,
+  checkThresholds,
+  computePercentage,
+  type CoverageCounts,
+  type CoverageData,
+  type CoverageThresholds,
+  type FileCoverage,
+  METRICS,
+  type ThresholdFailure,
+} from "./coverage-thresholds.js";
+
+/** Test runners with built-in coverage commands */
+type TestRunner = "vitest" | "jest" | "pytest" | "go" | "llvm-cov" | "tarpaulin";
 
 /** Coverage run configuration from standards.toml */
-interface CoverageRunConfig {
+interface CoverageRunConfig extends CoverageThresholds {
   enabled?: boolean;
-  min_threshold?: number;
-  runner?: "vitest" | "jest" | "pytest" | "auto";
+  runner?: TestRunner | "auto";
   command?: string;
-}
-
-/** Parsed coverage data */
-interface CoverageData {
-  lines?: number;
-  statements?: number;
-  branches?: number;
-  functions?: number;
+  /** Coverage report to read instead of the runners' default locations */
+  report_path?: string;
+  /** Stored coverage report that coverage must not drop below */
+  baseline?: string;
 }
 
 /** File coverage data from coverage-final.json */
@@ -30,6 +40,28 @@ interface FileCoverageData {
   b?: Record<string, number[]>;
 }
 
+/** Cover profile written by the go test runner */
+const GO_COVER_PROFILE = "coverage.out";
+
+/** JSON reports written by the Rust coverage runners */
+const LLVM_COV_REPORT = "coverage/llvm-cov.json";
+const TARPAULIN_REPORT = "coverage/tarpaulin-report.json";
+
+/** Reports looked for when report_path isn't set, in order */
+const DEFAULT_REPORTS = [
+  "coverage/coverage-final.json",
+  "coverage/coverage-summary.json",
+  LLVM_COV_REPORT,
+  TARPAULIN_REPORT,
+  ".coverage.json",
+  "coverage.json",
+  "coverage/lcov.info",
+  "lcov.info",
+  "coverage/cobertura-coverage.xml",
+  "coverage.xml",
+  GO_COVER_PROFILE,
+];
+
 /** Check if a config file exists */
 function configExists(projectRoot: string, configFile: string): boolean {
   return fs.existsSync(path.join(projectRoot, configFile));
@@ -59,6 +91,33 @@ function getPct(entry: { pct?: number } | undefined): number | undefined {
   return entry?.pct;
 }
 
+/** A metric of a coverage-summary.json entry */
+interface SummaryMetric {
+  total?: number;
+  covered?: number;
+  pct?: number;
+}
+
+/** Read the per-file entries of coverage-summary.json */
+function parseSummaryFiles(data: Record<string, unknown>): Record<string, FileCoverage> {
+  const files: Record<string, FileCoverage> = {};
+  for (const [file, entry] of Object.entries(data)) {
+    if (file === "total" || !entry || typeof entry !== "object") {
+      continue;
+    }
+    const metrics = entry as Record<string, SummaryMetric | undefined>;
+    const coverage: FileCoverage = {};
+    for (const metric of METRICS) {
+      const { total, covered } = metrics[metric] ?? {};
+      if (total !== undefined) {
+        coverage[metric] = { total, covered: covered ?? 0 };
+      }
+    }
+    files[file] = coverage;
+  }
+  return files;
+}
+
 /** Parse coverage-summary.json format */
 function parseSummaryFormat(data: Record<string, unknown>): CoverageData | null {
   if (!data.total || typeof data.total !== "object") {
@@ -70,9 +129,43 @@ function parseSummaryFormat(data: Record<string, unknown>): CoverageData | null
     statements: getPct(total.statements),
     branches: getPct(total.branches),
     functions: getPct(total.functions),
+    files: parseSummaryFiles(data),
   };
 }
 
+/** A file summary from a pytest-cov JSON report */
+interface PytestFileSummary {
+  covered_lines: number;
+  num_statements: number;
+  /** Only present with branch coverage enabled */
+  covered_branches?: number;
+  num_branches?: number;
+}
+
+/** Read the per-file summaries of a pytest-cov JSON report */
+function parsePytestFiles(data: Record<string, unknown>): Record<string, FileCoverage> | undefined {
+  if (!data.files || typeof data.files !== "object") {
+    return undefined;
+  }
+  const files: Record<string, FileCoverage> = {};
+  for (const [file, entry] of Object.entries(
+    data.files as Record<string, { summary?: PytestFileSummary }>
+  )) {
+    const summary = entry.summary;
+    if (!summary) {
+      continue;
+    }
+    const coverage: FileCoverage = {
+      lines: { total: summary.num_statements, covered: summary.covered_lines },
+    };
+    if (summary.num_branches !== undefined) {
+      coverage.branches = { total: summary.num_branches, covered: summary.covered_branches ?? 0 };
+    }
+    files[file] = coverage;
+  }
+  return files;
+}
+
 /** Parse pytest-cov format */
 function parsePytestFormat(data: Record<string, unknown>): CoverageData | null {
   if (!data.totals || typeof data.totals !== "object") {
@@ -82,11 +175,79 @@ function parsePytestFormat(data: Record<string, unknown>): CoverageData | null {
   if (totals.percent_covered === undefined) {
     return null;
   }
-  return { lines: totals.percent_covered };
+  return { lines: totals.percent_covered, files: parsePytestFiles(data) };
+}
+
+/** A coverage metric from an llvm-cov JSON export */
+interface LlvmCovSummary {
+  count?: number;
+  percent?: number;
+}
+
+/** Parse a cargo llvm-cov JSON export; metrics without any items are left out */
+function parseLlvmCovFormat(data: Record<string, unknown>): CoverageData | null {
+  if (data.type !== "llvm.coverage.json.export" || !Array.isArray(data.data)) {
+    return null;
+  }
+  const totals = (data.data[0] as { totals?: Record<string, LlvmCovSummary> } | undefined)
+    ?.totals;
+  if (!totals) {
+    return null;
+  }
+  const pct = (entry: LlvmCovSummary | undefined): number | undefined =>
+    entry?.count ? entry.percent : undefined;
+  return {
+    lines: pct(totals.lines),
+    branches: pct(totals.branches),
+    functions: pct(totals.functions),
+  };
+}
+
+/** Parse a cargo tarpaulin JSON report (line coverage only) */
+function parseTarpaulinFormat(data: Record<string, unknown>): CoverageData | null {
+  if (
+    !Array.isArray(data.files) ||
+    typeof data.coverable !== "number" ||
+    typeof data.covered !== "number"
+  ) {
+    return null;
+  }
+  return { lines: computePercentage(data.coverable, data.covered) };
+}
+
+/**
+ * Parse a Go cover profile (go test -coverprofile) into statement coverage.
+ * Each block line is "file:startLine.startCol,endLine.endCol numStatements count".
+ */
+function parseGoCoverProfile(content: string): CoverageData | null {
+  const lines = content.split("\n");
+  if (!lines[0]?.startsWith("mode:")) {
+    return null;
+  }
+
+  // Blocks can repeat when packages share files, so count each block once
+  const blocks = new Map<string, { statements: number; covered: boolean }>();
+  for (const line of lines.slice(1)) {
+    const match = /^(.+:\d+\.\d+,\d+\.\d+) (\d+) (\d+)$/.exec(line.trim());
+    if (!match) {
+      continue;
+    }
+    const [, block, statements, count] = match;
+    const covered = Number(count) > 0 || blocks.get(block)?.covered === true;
+    blocks.set(block, { statements: Number(statements), covered });
+  }
+
+  let total = 0;
+  let covered = 0;
+  for (const block of blocks.values()) {
+    total += block.statements;
+    covered += block.covered ? block.statements : 0;
+  }
+  return { statements: computePercentage(total, covered) };
 }
 
 /** Count covered items in a record */
-function countCovered(items: Record<string, number>): { total: number; covered: number } {
+function countCovered(items: Record<string, number>): CoverageCounts {
   let total = 0;
   let covered = 0;
   for (const count of Object.values(items)) {
@@ -99,10 +260,7 @@ function countCovered(items: Record<string, number>): { total: number; covered:
 }
 
 /** Count covered branches */
-function countCoveredBranches(branches: Record<string, number[]>): {
-  total: number;
-  covered: number;
-} {
+function countCoveredBranches(branches: Record<string, number[]>): CoverageCounts {
   let total = 0;
   let covered = 0;
   for (const counts of Object.values(branches)) {
@@ -116,20 +274,18 @@ function countCoveredBranches(branches: Record<string, number[]>): {
   return { total, covered };
 }
 
-/** Compute percentage from totals */
-function computePercentage(total: number, covered: number): number {
-  return total > 0 ? (covered / total) * 100 : 100;
-}
-
 /** Default coverage counts */
 const zeroCounts = { total: 0, covered: 0 };
 
+/** Accumulate coverage totals from multiple files */
+interface CoverageTotals {
+  statements: CoverageCounts;
+  functions: CoverageCounts;
+  branches: CoverageCounts;
+}
+
 /** Process a single file's coverage data */
-function processFileCoverage(fileData: FileCoverageData): {
-  statements: { total: number; covered: number };
-  functions: { total: number; covered: number };
-  branches: { total: number; covered: number };
-} {
+function processFileCoverage(fileData: FileCoverageData): CoverageTotals {
   return {
     statements: fileData.s ? countCovered(fileData.s) : zeroCounts,
     functions: fileData.f ? countCovered(fileData.f) : zeroCounts,
@@ -137,13 +293,6 @@ function processFileCoverage(fileData: FileCoverageData): {
   };
 }
 
-/** Accumulate coverage totals from multiple files */
-interface CoverageTotals {
-  statements: { total: number; covered: number };
-  functions: { total: number; covered: number };
-  branches: { total: number; covered: number };
-}
-
 /** Create empty coverage totals */
 function createEmptyTotals(): CoverageTotals {
   return {
@@ -154,10 +303,7 @@ function createEmptyTotals(): CoverageTotals {
 }
 
 /** Add file coverage to totals */
-function addFileCoverage(
-  totals: CoverageTotals,
-  fileCov: ReturnType<typeof processFileCoverage>
-): void {
+function addFileCoverage(totals: CoverageTotals, fileCov: CoverageTotals): void {
   totals.statements.total += fileCov.statements.total;
   totals.statements.covered += fileCov.statements.covered;
   totals.functions.total += fileCov.functions.total;
@@ -189,15 +335,31 @@ function isCoverageFinalFormat(data: Record<string, unknown>): boolean {
   return Boolean(fileData.s ?? fileData.f ?? fileData.b);
 }
 
+/** Make report file paths (often absolute) relative to the project root */
+function relativizeFiles(data: CoverageData, projectRoot: string): CoverageData {
+  if (!data.files) {
+    return data;
+  }
+  const files: Record<string, FileCoverage> = {};
+  for (const [file, coverage] of Object.entries(data.files)) {
+    const relative = path.isAbsolute(file) ? path.relative(projectRoot, file) : file;
+    files[relative.split(path.sep).join("/")] = coverage;
+  }
+  return { ...data, files };
+}
+
 /**
  * Coverage verification runner.
- * Runs tests with coverage and verifies the result meets a minimum threshold.
+ * Runs tests with coverage and verifies the result meets the configured minimums
+ * (overall, per metric, per glob and per file) and doesn't drop below a baseline.
  */
 export class CoverageRunRunner extends BaseToolRunner {
   readonly name = "Coverage Run";
   readonly rule = "code.coverage";
   readonly toolId = "coverage-run";
   readonly configFiles: string[] = [];
+  readonly sourcePatterns = ["**/*"]; // Tests can depend on any file
+  readonly outputPatterns = [...DEFAULT_REPORTS, ".coverage", ".coverage.*"];
 
   private config: CoverageRunConfig = {
     enabled: false,
@@ -209,7 +371,39 @@ export class CoverageRunRunner extends BaseToolRunner {
     this.config = { ...this.config, ...config };
   }
 
-  private detectRunner(projectRoot: string): "vitest" | "jest" | "pytest" | null {
+  /**
+   * Cache key: the test command and the version of the detected test runner.
+   * Custom commands aren't cached since their tool version is unknown, and existing
+   * reports aren't cached since they can change without any source change.
+   */
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    if (this.config.command || this.readsExistingReport()) {
+      return null;
+    }
+    const runner =
+      this.config.runner === "auto" ? this.detectRunner(projectRoot) : this.config.runner;
+    if (!runner) {
+      return null;
+    }
+    const version = await this.getRunnerVersion(projectRoot, runner);
+    return version === null ? null : `${runner}@${version}`;
+  }
+
+  private async getRunnerVersion(projectRoot: string, runner: TestRunner): Promise<string | null> {
+    switch (runner) {
+      case "pytest":
+        return this.getCommandVersion(projectRoot, "pytest");
+      case "go":
+        return this.getCommandVersion(projectRoot, "go", ["version"]);
+      case "llvm-cov":
+      case "tarpaulin":
+        return this.getCommandVersion(projectRoot, "cargo", [runner, "--version"]);
+      default:
+        return this.findPackageVersion(projectRoot, runner);
+    }
+  }
+
+  private detectRunner(projectRoot: string): TestRunner | null {
     const vitestConfigs = [
       "vitest.config.ts",
       "vitest.config.js",
@@ -230,18 +424,51 @@ export class CoverageRunRunner extends BaseToolRunner {
       return "pytest";
     }
 
+    if (configExists(projectRoot, "go.mod")) {
+      return "go";
+    }
+
+    if (configExists(projectRoot, "Cargo.toml")) {
+      return "llvm-cov";
+    }
+
     return null;
   }
 
-  private getRunnerCommand(runner: "vitest" | "jest" | "pytest"): { cmd: string; args: string[] } {
-    const commands: Record<"vitest" | "jest" | "pytest", { cmd: string; args: string[] }> = {
+  private getRunnerCommand(runner: TestRunner): { cmd: string; args: string[] } {
+    const commands: Record<TestRunner, { cmd: string; args: string[] }> = {
       vitest: { cmd: "npx", args: ["vitest", "run", "--coverage", "--coverage.reporter=json"] },
       jest: { cmd: "npx", args: ["jest", "--coverage", "--coverageReporters=json"] },
       pytest: { cmd: "pytest", args: ["--cov", "--cov-report=json"] },
+      go: { cmd: "go", args: ["test", `-coverprofile=${GO_COVER_PROFILE}`, "./..."] },
+      "llvm-cov": {
+        cmd: "cargo",
+        args: [
+          "llvm-cov",
+          "--workspace",
+          "--json",
+          "--summary-only",
+          "--output-path",
+          LLVM_COV_REPORT,
+        ],
+      },
+      tarpaulin: {
+        cmd: "cargo",
+        args: ["tarpaulin", "--workspace", "--out", "Json", "--output-dir", "coverage"],
+      },
     };
     return commands[runner];
   }
 
+  /**
+   * With report_path set and no explicit runner or command, the report produced
+   * elsewhere (e.g. an earlier CI step) is checked without running the tests.
+   */
+  private readsExistingReport(): boolean {
+    const { report_path: reportPath, command, runner = "auto" } = this.config;
+    return Boolean(reportPath) && !command && runner === "auto";
+  }
+
   private getTestCommand(projectRoot: string): { cmd: string; args: string[] } | null {
     if (this.config.command) {
       const parts = this.config.command.split(" ");
@@ -258,34 +485,45 @@ export class CoverageRunRunner extends BaseToolRunner {
   }
 
   private parseCoverageReport(projectRoot: string): CoverageData | null {
-    const possiblePaths = [
-      "coverage/coverage-final.json",
-      "coverage/coverage-summary.json",
-      ".coverage.json",
-      "coverage.json",
-    ];
-
-    for (const relativePath of possiblePaths) {
-      const fullPath = path.join(projectRoot, relativePath);
-      if (!fs.existsSync(fullPath)) {
-        continue;
-      }
+    const reports = this.config.report_path ? [this.config.report_path] : DEFAULT_REPORTS;
 
-      try {
-        const content = fs.readFileSync(fullPath, "utf-8");
-        const data = JSON.parse(content) as Record<string, unknown>;
-        const result = this.extractCoverageData(data);
-        if (result) {
-          return result;
-        }
-      } catch {
-        // Try next path
+    for (const relativePath of reports) {
+      const result = this.readCoverageReport(path.join(projectRoot, relativePath));
+      if (result) {
+        return relativizeFiles(result, projectRoot);
       }
     }
 
     return null;
   }
 
+  /** Read a coverage report in any supported format, or null if missing or unparseable */
+  private readCoverageReport(fullPath: string): CoverageData | null {
+    if (!fs.existsSync(fullPath)) {
+      return null;
+    }
+    try {
+      return this.parseReportContent(fs.readFileSync(fullPath, "utf-8"));
+    } catch {
+      return null;
+    }
+  }
+
+  /** Detect the report format from its content */
+  private parseReportContent(content: string): CoverageData | null {
+    const trimmed = content.trimStart();
+    if (trimmed.startsWith("{")) {
+      return this.extractCoverageData(JSON.parse(trimmed) as Record<string, unknown>);
+    }
+    if (trimmed.startsWith("mode:")) {
+      return parseGoCoverProfile(trimmed);
+    }
+    if (trimmed.startsWith("<")) {
+      return parseCobertura(trimmed);
+    }
+    return parseLcov(trimmed);
+  }
+
   private extractCoverageData(data: Record<string, unknown>): CoverageData | null {
     // Try summary format first
     const summaryResult = parseSummaryFormat(data);
@@ -299,6 +537,12 @@ export class CoverageRunRunner extends BaseToolRunner {
       return pytestResult;
     }
 
+    // Try Rust formats
+    const rustResult = parseLlvmCovFormat(data) ?? parseTarpaulinFormat(data);
+    if (rustResult) {
+      return rustResult;
+    }
+
     // Try coverage-final.json format
     return this.computeCoverageFromFinal(data);
   }
@@ -309,29 +553,16 @@ export class CoverageRunRunner extends BaseToolRunner {
     }
 
     const totals = createEmptyTotals();
+    const files: Record<string, FileCoverage> = {};
     for (const [filePath, fd] of Object.entries(data)) {
       if (filePath !== "total" && fd && typeof fd === "object") {
-        addFileCoverage(totals, processFileCoverage(fd as FileCoverageData));
+        const fileCov = processFileCoverage(fd as FileCoverageData);
+        addFileCoverage(totals, fileCov);
+        files[filePath] = fileCov;
       }
     }
 
-    return totalsToPercentages(totals);
-  }
-
-  private getOverallCoverage(data: CoverageData): number {
-    if (data.lines !== undefined) {
-      return data.lines;
-    }
-    if (data.statements !== undefined) {
-      return data.statements;
-    }
-
-    const values = [data.branches, data.functions].filter((v): v is number => v !== undefined);
-    if (values.length > 0) {
-      return values.reduce((a, b) => a + b, 0) / values.length;
-    }
-
-    return 0;
+    return { ...totalsToPercentages(totals), files };
   }
 
   private async executeTests(
@@ -350,37 +581,52 @@ export class CoverageRunRunner extends BaseToolRunner {
   private checkCoverageThreshold(projectRoot: string): CheckResult | null {
     const coverageData = this.parseCoverageReport(projectRoot);
     if (!coverageData) {
-      return this.fail(
-        [
-          this.createViolation(
-            "Could not find or parse coverage report. Ensure coverage reporter outputs JSON."
-          ),
-        ],
-        0
-      );
+      const message = this.config.report_path
+        ? `Could not find or parse coverage report ${this.config.report_path}`
+        : "Could not find or parse coverage report. " +
+          "Ensure the coverage reporter writes JSON, LCOV or Cobertura XML.";
+      return this.fail([this.createViolation(message)], 0);
     }
 
-    const coverage = this.getOverallCoverage(coverageData);
-    const threshold = this.config.min_threshold ?? 80;
+    const violations = [
+      ...checkThresholds(coverageData, this.config),
+      ...this.checkCoverageBaseline(projectRoot, coverageData),
+    ].map((failure) => ({ ...this.createViolation(failure.message), file: failure.file }));
 
-    if (coverage < threshold) {
-      return this.fail(
-        [
-          this.createViolation(
-            `Coverage ${coverage.toFixed(1)}% is below minimum threshold ${threshold}%`
-          ),
-        ],
-        0
-      );
+    return violations.length > 0 ? this.fail(violations, 0) : null;
+  }
+
+  /** Compare coverage against the stored baseline report, if configured */
+  private checkCoverageBaseline(
+    projectRoot: string,
+    coverageData: CoverageData
+  ): ThresholdFailure[] {
+    const { baseline } = this.config;
+    if (!baseline) {
+      return [];
     }
 
-    return null;
+    const baselinePath = path.join(projectRoot, baseline);
+    if (!fs.existsSync(baselinePath)) {
+      return [{ message: `Coverage baseline ${baseline} not found` }];
+    }
+
+    const baselineData = this.readCoverageReport(baselinePath);
+    if (!baselineData) {
+      return [{ message: `Could not parse coverage baseline ${baseline}` }];
+    }
+
+    return checkBaseline(coverageData, baselineData);
   }
 
   async run(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
     const elapsed = (): number => Date.now() - startTime;
 
+    if (this.readsExistingReport()) {
+      return this.checkReport(projectRoot, elapsed);
+    }
+
     const testCommand = this.getTestCommand(projectRoot);
     if (!testCommand) {
       return this.fail(
@@ -396,17 +642,20 @@ export class CoverageRunRunner extends BaseToolRunner {
         return exitError;
       }
 
-      const thresholdResult = this.checkCoverageThreshold(projectRoot);
-      if (thresholdResult) {
-        return { ...thresholdResult, duration: elapsed() };
-      }
-
-      return this.pass(elapsed());
+      return this.checkReport(projectRoot, elapsed);
     } catch (error) {
       return this.handleRunError(error, elapsed);
     }
   }
 
+  private checkReport(projectRoot: string, elapsed: () => number): CheckResult {
+    const thresholdResult = this.checkCoverageThreshold(projectRoot);
+    if (thresholdResult) {
+      return { ...thresholdResult, duration: elapsed() };
+    }
+    return this.pass(elapsed());
+  }
+
   /** Validate test command exit code and return error result if invalid */
   private validateExitCode(
     result: { exitCode?: number; stdout: string; stderr: string },
@@ -446,8 +695,7 @@ export class CoverageRunRunner extends BaseToolRunner {
   override async audit(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
 
-    const testCommand = this.getTestCommand(projectRoot);
-    if (!testCommand) {
+    if (!this.readsExistingReport() && !this.getTestCommand(projectRoot)) {
       return CheckResultBuilder.fail(
         `${this.name} Config`,
         this.rule,
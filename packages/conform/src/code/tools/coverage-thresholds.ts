@@ -0,0 +1,231 @@
+import { minimatch } from "minimatch";
+
+/** Coverage metrics, in the order they're checked */
+export const METRICS = ["lines", "statements", "branches", "functions"] as const;
+
+export type CoverageMetric = (typeof METRICS)[number];
+
+const METRIC_LABELS: Record<CoverageMetric, string> = {
+  lines: "Line",
+  statements: "Statement",
+  branches: "Branch",
+  functions: "Function",
+};
+
+/** Covered and total items of one metric */
+export interface CoverageCounts {
+  total: number;
+  covered: number;
+}
+
+/** Per-file coverage counts */
+export type FileCoverage = Partial<Record<CoverageMetric, CoverageCounts>>;
+
+/** Parsed coverage data */
+export interface CoverageData {
+  lines?: number;
+  statements?: number;
+  branches?: number;
+  functions?: number;
+  /** Per-file counts keyed by path relative to the project root, when the report has them */
+  files?: Record<string, FileCoverage>;
+}
+
+/** Coverage minimums from [code.coverage_run] */
+export interface CoverageThresholds {
+  /** Minimum overall coverage (lines, falling back to statements) */
+  min_threshold?: number;
+  /** Minimum per metric, e.g. { branches: 70 } */
+  thresholds?: Partial<Record<CoverageMetric, number>>;
+  /** Minimum overall coverage of the files matching each glob, e.g. { "src/core/**": 90 } */
+  paths?: Record<string, number>;
+  /** Minimum overall coverage of every file */
+  per_file_min?: number;
+}
+
+/** A failed coverage check, optionally for a single file */
+export interface ThresholdFailure {
+  message: string;
+  file?: string;
+}
+
+/** Compute percentage from totals */
+export function computePercentage(total: number, covered: number): number {
+  return total > 0 ? (covered / total) * 100 : 100;
+}
+
+/**
+ * Headline coverage: lines, then statements, then the mean of branches and functions.
+ */
+function getOverallCoverage(data: CoverageData): number {
+  if (data.lines !== undefined) {
+    return data.lines;
+  }
+  if (data.statements !== undefined) {
+    return data.statements;
+  }
+
+  const values = [data.branches, data.functions].filter((v): v is number => v !== undefined);
+  if (values.length > 0) {
+    return values.reduce((a, b) => a + b, 0) / values.length;
+  }
+
+  return 0;
+}
+
+/** Convert per-file counts to percentages */
+function toPercentages(coverage: FileCoverage): CoverageData {
+  const data: CoverageData = {};
+  for (const metric of METRICS) {
+    const counts = coverage[metric];
+    if (counts) {
+      data[metric] = computePercentage(counts.total, counts.covered);
+    }
+  }
+  return data;
+}
+
+/** Add up the counts of several files */
+function sumCounts(files: FileCoverage[]): FileCoverage {
+  const sum: FileCoverage = {};
+  for (const file of files) {
+    for (const metric of METRICS) {
+      const counts = file[metric];
+      if (counts) {
+        const current = sum[metric] ?? { total: 0, covered: 0 };
+        sum[metric] = {
+          total: current.total + counts.total,
+          covered: current.covered + counts.covered,
+        };
+      }
+    }
+  }
+  return sum;
+}
+
+function formatPct(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function checkTotals(data: CoverageData, config: CoverageThresholds): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+
+  const coverage = getOverallCoverage(data);
+  const threshold = config.min_threshold ?? 80;
+  if (coverage < threshold) {
+    failures.push({
+      message: `Coverage ${formatPct(coverage)} is below minimum threshold ${threshold}%`,
+    });
+  }
+
+  // Metrics the report doesn't measure (e.g. functions for pytest-cov) can't be checked
+  for (const metric of METRICS) {
+    const minimum = config.thresholds?.[metric];
+    const value = data[metric];
+    if (minimum !== undefined && value !== undefined && value < minimum) {
+      const label = METRIC_LABELS[metric];
+      failures.push({
+        message: `${label} coverage ${formatPct(value)} is below minimum ${minimum}%`,
+      });
+    }
+  }
+
+  return failures;
+}
+
+function checkPaths(
+  files: Record<string, FileCoverage>,
+  paths: Record<string, number>
+): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+
+  for (const [pattern, minimum] of Object.entries(paths)) {
+    const matching = Object.keys(files).filter((file) => minimatch(file, pattern, { dot: true }));
+    if (matching.length === 0) {
+      failures.push({ message: `No files in the coverage report match "${pattern}"` });
+      continue;
+    }
+
+    const coverage = getOverallCoverage(toPercentages(sumCounts(matching.map((f) => files[f]))));
+    if (coverage < minimum) {
+      failures.push({
+        message: `Coverage of ${pattern} is ${formatPct(coverage)}, below minimum ${minimum}%`,
+      });
+    }
+  }
+
+  return failures;
+}
+
+function checkFiles(files: Record<string, FileCoverage>, minimum: number): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+
+  for (const file of Object.keys(files).sort()) {
+    const data = toPercentages(files[file]);
+    // Files without measurable items (e.g. type-only modules) have nothing to cover
+    if (Object.keys(data).length === 0) {
+      continue;
+    }
+    const coverage = getOverallCoverage(data);
+    if (coverage < minimum) {
+      failures.push({
+        file,
+        message: `Coverage ${formatPct(coverage)} is below per-file minimum ${minimum}%`,
+      });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Check coverage against the overall, per-metric, per-glob and per-file minimums.
+ */
+export function checkThresholds(
+  data: CoverageData,
+  config: CoverageThresholds
+): ThresholdFailure[] {
+  const failures = checkTotals(data, config);
+
+  if (!config.paths && config.per_file_min === undefined) {
+    return failures;
+  }
+  if (!data.files) {
+    failures.push({
+      message:
+        "Coverage report has no per-file data, which paths and per_file_min need. " +
+        "Use an istanbul or pytest-cov JSON, LCOV or Cobertura report.",
+    });
+    return failures;
+  }
+
+  if (config.paths) {
+    failures.push(...checkPaths(data.files, config.paths));
+  }
+  if (config.per_file_min !== undefined) {
+    failures.push(...checkFiles(data.files, config.per_file_min));
+  }
+  return failures;
+}
+
+/**
+ * Report metrics that dropped below the baseline.
+ * Differences under 0.01% are ignored since istanbul rounds percentages to two decimals.
+ */
+export function checkBaseline(data: CoverageData, baseline: CoverageData): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+
+  for (const metric of METRICS) {
+    const value = data[metric];
+    const previous = baseline[metric];
+    if (value !== undefined && previous !== undefined && value < previous - 0.005) {
+      failures.push({
+        message:
+          `${METRIC_LABELS[metric]} coverage decreased from ` +
+          `${previous.toFixed(2)}% to ${value.toFixed(2)}%`,
+      });
+    }
+  }
+
+  return failures;
+}
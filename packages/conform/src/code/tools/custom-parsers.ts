@@ -0,0 +1,179 @@
+/**
+ * Output parsers for custom command tools.
+ * Each parser turns raw tool output into issues that the runner maps to violations.
+ */
+
+/** Dotted paths to violation fields within a JSON result item */
+interface JsonFieldMap {
+  file?: string;
+  line?: string;
+  column?: string;
+  message: string;
+  code?: string;
+  severity?: string;
+}
+
+/** Parser configuration from [code.custom.<name>.parser] */
+export type CustomParserConfig =
+  | { type: "regex"; pattern: string }
+  | { type: "json"; path?: string; fields: JsonFieldMap }
+  | { type: "sarif" };
+
+/** A single issue reported by a custom tool */
+export interface ParsedIssue {
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+  code?: string;
+  severity?: string;
+}
+
+/** Convert a value to a positive line/column number, or undefined */
+function toPosition(value: unknown): number | undefined {
+  const num = typeof value === "number" ? value : parseInt(String(value), 10);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+/** Convert a value to a non-empty string, or undefined. Arrays are joined with "/". */
+function toText(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const text = Array.isArray(value) ? value.map(String).join("/") : String(value);
+  return text.length > 0 ? text : undefined;
+}
+
+/** Read a dotted path (e.g. "Pos.Filename") from a JSON value */
+function getPath(value: unknown, dottedPath: string | undefined): unknown {
+  if (!dottedPath) {
+    return value;
+  }
+  let current = value;
+  for (const key of dottedPath.split(".")) {
+    if (typeof current !== "object" || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Parse output line by line with a regex.
+ * Named groups file, line, column, message, code and severity map to issue fields.
+ */
+function parseRegex(output: string, pattern: string): ParsedIssue[] {
+  const issues: ParsedIssue[] = [];
+  for (const match of output.matchAll(new RegExp(pattern, "gm"))) {
+    const groups = match.groups ?? {};
+    const message = toText(groups.message?.trim());
+    if (!message) {
+      continue;
+    }
+    issues.push({
+      file: toText(groups.file),
+      line: toPosition(groups.line),
+      column: toPosition(groups.column),
+      message,
+      code: toText(groups.code),
+      severity: toText(groups.severity),
+    });
+  }
+  return issues;
+}
+
+/** Parse JSON output, mapping fields of each item in the results array */
+function parseJson(
+  output: string,
+  resultsPath: string | undefined,
+  fields: JsonFieldMap
+): ParsedIssue[] {
+  if (!output.trim()) {
+    return [];
+  }
+  const items = getPath(JSON.parse(output), resultsPath);
+  if (items === undefined || items === null) {
+    return [];
+  }
+  if (!Array.isArray(items)) {
+    throw new Error(`Expected an array at "${resultsPath ?? "(root)"}"`);
+  }
+
+  return items.flatMap((item: unknown) => {
+    const message = toText(getPath(item, fields.message));
+    if (!message) {
+      return [];
+    }
+    return [
+      {
+        file: toText(getPath(item, fields.file)),
+        line: toPosition(getPath(item, fields.line)),
+        column: toPosition(getPath(item, fields.column)),
+        message,
+        code: toText(getPath(item, fields.code)),
+        severity: toText(getPath(item, fields.severity)),
+      },
+    ];
+  });
+}
+
+/** SARIF result entry (subset of SARIF 2.1.0) */
+interface SarifResult {
+  ruleId?: string;
+  level?: string;
+  message?: { text?: string };
+  locations?: {
+    physicalLocation?: {
+      artifactLocation?: { uri?: string };
+      region?: { startLine?: number; startColumn?: number };
+    };
+  }[];
+}
+
+/** SARIF log (subset of SARIF 2.1.0) */
+interface SarifLog {
+  runs?: { results?: SarifResult[] }[];
+}
+
+/** Parse a SARIF log into issues */
+function parseSarif(output: string): ParsedIssue[] {
+  if (!output.trim()) {
+    return [];
+  }
+  const log = JSON.parse(output) as SarifLog;
+  const results = (log.runs ?? []).flatMap((run) => run.results ?? []);
+
+  return results.flatMap((result) => {
+    const message = toText(result.message?.text);
+    if (!message) {
+      return [];
+    }
+    const location = result.locations?.[0]?.physicalLocation;
+    return [
+      {
+        file: toText(location?.artifactLocation?.uri),
+        line: toPosition(location?.region?.startLine),
+        column: toPosition(location?.region?.startColumn),
+        message,
+        code: toText(result.ruleId),
+        severity: result.level ?? "warning",
+      },
+    ];
+  });
+}
+
+/**
+ * Parse tool output with the configured parser.
+ * Throws if the output cannot be parsed (e.g. invalid JSON).
+ */
+export function parseCustomOutput(output: string, parser: CustomParserConfig): ParsedIssue[] {
+  switch (parser.type) {
+    case "regex":
+      return parseRegex(output, parser.pattern);
+    case "json":
+      return parseJson(output, parser.path, parser.fields);
+    case "sarif":
+      return parseSarif(output);
+  }
+}
@@ -0,0 +1,177 @@
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, type Severity, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+import { type CustomParserConfig, type ParsedIssue, parseCustomOutput } from "./custom-parsers.js";
+
+/** Custom command tool configuration from [code.custom.<name>] */
+interface CustomToolConfig {
+  command: string;
+  args?: string[];
+  pass_exit_codes?: number[];
+  fail_exit_codes?: number[];
+  output?: "stdout" | "stderr";
+  parser: CustomParserConfig;
+  config_files?: string[];
+}
+
+/** Tool severity levels reported as warnings; anything else is an error */
+const WARNING_LEVELS = new Set(["warning", "warn", "info", "note", "style", "suggestion", "none"]);
+
+function toSeverity(level: string | undefined): Severity {
+  return level && WARNING_LEVELS.has(level.toLowerCase()) ? "warning" : "error";
+}
+
+/**
+ * Runs an arbitrary linter declared in [code.custom.<name>] and parses its
+ * output into violations with a regex, JSON or SARIF parser
+ */
+export class CustomToolRunner extends BaseToolRunner {
+  readonly name: string;
+  readonly rule = "code.custom";
+  readonly toolId: string;
+  readonly configFiles: string[];
+
+  private readonly config: CustomToolConfig;
+
+  constructor(name: string, config: CustomToolConfig) {
+    super();
+    this.name = name;
+    this.toolId = name;
+    this.configFiles = config.config_files ?? [];
+    this.config = config;
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    try {
+      const result = await execa(this.config.command, this.config.args ?? [], {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+      return this.processResult(result, projectRoot, elapsed);
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(elapsed());
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`${this.name} error: ${message}`)], elapsed());
+    }
+  }
+
+  private isBinaryNotFound(result: Awaited<ReturnType<typeof execa>>): boolean {
+    const execaResult = result as Awaited<ReturnType<typeof execa>> & {
+      code?: string;
+      message?: string;
+    };
+    return (
+      execaResult.code === "ENOENT" ||
+      (execaResult.failed && String(execaResult.message ?? "").includes("ENOENT"))
+    );
+  }
+
+  private processResult(
+    result: Awaited<ReturnType<typeof execa>>,
+    projectRoot: string,
+    elapsed: () => number
+  ): CheckResult {
+    if (this.isBinaryNotFound(result)) {
+      return this.skipNotInstalled(elapsed());
+    }
+
+    const exitCode = result.exitCode ?? -1;
+    const passCodes = this.config.pass_exit_codes ?? [0];
+    const failCodes = this.config.fail_exit_codes ?? [1];
+    const stdout = String(result.stdout ?? "");
+    const stderr = String(result.stderr ?? "");
+
+    if (!passCodes.includes(exitCode) && !failCodes.includes(exitCode)) {
+      const errorMsg = (stderr || stdout).trim() || "no output";
+      return this.fail(
+        [this.createErrorViolation(`${this.name} exited with code ${exitCode}: ${errorMsg}`)],
+        elapsed()
+      );
+    }
+
+    const output = this.config.output === "stderr" ? stderr : stdout;
+    let issues: ParsedIssue[];
+    try {
+      issues = parseCustomOutput(output, this.config.parser);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail(
+        [this.createErrorViolation(`Failed to parse ${this.name} output: ${message}`)],
+        elapsed()
+      );
+    }
+
+    // A failing exit code with no parseable issues still fails the check
+    if (issues.length === 0 && failCodes.includes(exitCode)) {
+      return this.fail(
+        [this.createErrorViolation(`${this.name} exited with code ${exitCode}`)],
+        elapsed()
+      );
+    }
+
+    const violations = issues.map((issue) => this.toViolation(issue, projectRoot));
+    return this.fromViolations(this.filterTargetViolations(violations), elapsed());
+  }
+
+  private toViolation(issue: ParsedIssue, projectRoot: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: issue.file ? this.toRelativePath(issue.file, projectRoot) : undefined,
+      line: issue.line,
+      column: issue.column,
+      message: issue.message,
+      code: issue.code,
+      severity: toSeverity(issue.severity),
+    };
+  }
+
+  /** Normalize file paths and file:// URIs to paths relative to the project root */
+  private toRelativePath(file: string, projectRoot: string): string {
+    const filePath = file.startsWith("file://") ? fileURLToPath(file) : file;
+    if (!path.isAbsolute(filePath)) {
+      return path.normalize(filePath);
+    }
+    const relative = path.relative(projectRoot, filePath);
+    return relative.startsWith("..") ? filePath : relative;
+  }
+
+  /** Drop issues outside the target files (changed-files mode); file-less issues are kept */
+  private filterTargetViolations(violations: Violation[]): Violation[] {
+    if (this.targetFiles === null) {
+      return violations;
+    }
+    const files = new Set(this.filterTargetFiles(violations.flatMap((v) => v.file ?? [])));
+    return violations.filter((v) => !v.file || files.has(v.file));
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+
+  /**
+   * Audit - check declared config files exist; tools without config files pass
+   */
+  async audit(projectRoot: string): Promise<CheckResult> {
+    if (this.configFiles.length === 0) {
+      return this.pass(0);
+    }
+    return super.audit(projectRoot);
+  }
+}
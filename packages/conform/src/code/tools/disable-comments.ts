@@ -4,6 +4,8 @@ import * as path from "node:path";
 import { glob } from "glob";
 
 import { type CheckResult, type Violation } from "../../core/index.js";
+import { suppressViolations } from "../../suppressions/index.js";
+import { today } from "./audit-policy.js";
 import { BaseToolRunner } from "./base.js";
 import {
   findBlockEnd,
@@ -50,6 +52,8 @@ interface DisableCommentsConfig {
   patterns?: string[];
   extensions?: string[];
   exclude?: string[];
+  /** process.tickets.pattern, which conform-allow tickets must match */
+  ticket_pattern?: string;
 }
 
 /** Context for scanning a file */
@@ -81,7 +85,8 @@ interface LineScanParams {
 }
 
 /**
- * Disable comments runner for detecting linter/type-checker disable comments
+ * Disable comments runner for detecting linter/type-checker disable comments.
+ * Comments accepted with a conform-allow comment (see suppressions/) aren't reported.
  */
 export class DisableCommentsRunner extends BaseToolRunner {
   readonly name = "Disable Comments";
@@ -95,6 +100,18 @@ export class DisableCommentsRunner extends BaseToolRunner {
     this.config = config;
   }
 
+  get sourcePatterns(): string[] {
+    return [this.buildGlobPattern()];
+  }
+
+  /**
+   * Built-in check, but conform-allow expiry depends on today's date and ticket IDs
+   * on process.tickets.pattern, which isn't part of this tool's settings
+   */
+  async cacheKey(): Promise<string> {
+    return ["builtin", today(), this.config.ticket_pattern ?? ""].join("\n");
+  }
+
   private getPatterns(): string[] {
     return this.config.patterns ?? DEFAULT_PATTERNS;
   }
@@ -120,17 +137,23 @@ export class DisableCommentsRunner extends BaseToolRunner {
     const startTime = Date.now();
 
     try {
-      const files = await glob(this.buildGlobPattern(), {
+      const allFiles = await glob(this.buildGlobPattern(), {
         cwd: projectRoot,
         ignore: this.getExcludePatterns(),
         nodir: true,
       });
+      const files = this.filterTargetFiles(allFiles);
 
       if (files.length === 0) {
         return this.pass(Date.now() - startTime);
       }
 
-      const violations = this.scanAllFiles(projectRoot, files);
+      const violations = suppressViolations(
+        projectRoot,
+        this.scanAllFiles(projectRoot, files),
+        { tool: this.toolId, rule: `${this.rule}.${this.toolId}` },
+        { ticketPattern: this.config.ticket_pattern }
+      );
       return this.fromViolations(violations, Date.now() - startTime);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
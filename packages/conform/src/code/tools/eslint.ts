@@ -1,11 +1,21 @@
+import * as fs from "node:fs";
 import * as path from "node:path";
 
 import { execa } from "execa";
 import { globSync } from "glob";
+import { minimatch } from "minimatch";
 
 import { TIMEOUTS } from "../../constants.js";
-import { CheckResultBuilder, type CheckResult, type Violation } from "../../core/index.js";
+import {
+  CheckResultBuilder,
+  type CheckResult,
+  type FileChange,
+  type FixResult,
+  FixResultBuilder,
+  type Violation,
+} from "../../core/index.js";
 import { BaseToolRunner } from "./base.js";
+import { compareRules, type RuleValue } from "./rule-audit.js";
 
 /** ESLint JSON output message format */
 interface ESLintMessage {
@@ -20,29 +30,22 @@ interface ESLintMessage {
 interface ESLintFileResult {
   filePath: string;
   messages: ESLintMessage[];
+  /** Fixed source, present with --fix-dry-run when fixes apply */
+  output?: string;
 }
 
-/**
- * ESLint rule with options in TOML-friendly object format.
- * Example: { severity: "error", max: 10 }
- */
-interface ESLintRuleWithOptions {
-  severity: "off" | "warn" | "error";
-  [key: string]: unknown;
-}
-
-/** ESLint rule value - severity string or object with options */
-type ESLintRuleValue = "off" | "warn" | "error" | ESLintRuleWithOptions;
-
 /** ESLint configuration options */
 interface ESLintConfig {
   enabled?: boolean;
   files?: string[];
   ignore?: string[];
   "max-warnings"?: number;
-  rules?: Record<string, ESLintRuleValue>;
+  rules?: Record<string, RuleValue>;
 }
 
+/** File extensions ESLint lints by default */
+const DEFAULT_EXTENSIONS = [".js", ".mjs", ".cjs", ".jsx", ".ts", ".mts", ".cts", ".tsx"];
+
 /** ESLint --print-config output format */
 interface ESLintPrintConfig {
   rules?: Record<string, unknown[]>;
@@ -67,6 +70,14 @@ export class ESLintRunner extends BaseToolRunner {
 
   private config: ESLintConfig = {};
 
+  get sourcePatterns(): string[] {
+    return this.config.files ?? [`**/*{${DEFAULT_EXTENSIONS.join(",")}}`];
+  }
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.findPackageVersion(projectRoot, "eslint");
+  }
+
   /**
    * Set ESLint configuration options
    */
@@ -81,8 +92,13 @@ export class ESLintRunner extends BaseToolRunner {
       return this.failNoConfig(Date.now() - startTime);
     }
 
+    const lintTargets = this.getLintTargets();
+    if (lintTargets.length === 0) {
+      return this.pass(Date.now() - startTime);
+    }
+
     try {
-      const args = this.buildArgs();
+      const args = this.buildArgs(lintTargets);
       const result = await execa("npx", ["eslint", ...args], {
         cwd: projectRoot,
         reject: false,
@@ -113,6 +129,48 @@ export class ESLintRunner extends BaseToolRunner {
     }
   }
 
+  /**
+   * Compute ESLint fixes with --fix-dry-run; messages left after fixing need manual work
+   */
+  async fix(projectRoot: string): Promise<FixResult> {
+    if (!this.hasConfig(projectRoot)) {
+      return FixResultBuilder.skip(this.name, this.rule, "ESLint config not found");
+    }
+
+    const lintTargets = this.getLintTargets();
+    if (lintTargets.length === 0) {
+      return FixResultBuilder.create(this.name, this.rule, [], []);
+    }
+
+    const args = [...this.buildArgs(lintTargets), "--fix-dry-run"];
+    const result = await execa("npx", ["eslint", ...args], {
+      cwd: projectRoot,
+      reject: false,
+      timeout: TIMEOUTS.codeTool,
+    });
+
+    const fileResults = this.parseResults(result.stdout);
+    if (fileResults === null) {
+      throw new Error(`ESLint error: ${result.stderr || "failed to parse output"}`);
+    }
+
+    const changes: FileChange[] = fileResults
+      .filter((r) => r.output !== undefined)
+      .map((r) => ({
+        file: path.relative(projectRoot, r.filePath),
+        before: fs.readFileSync(r.filePath, "utf-8"),
+        after: r.output ?? "",
+        description: "Apply ESLint fixes",
+      }));
+
+    return FixResultBuilder.create(
+      this.name,
+      this.rule,
+      changes,
+      this.toViolations(fileResults, projectRoot)
+    );
+  }
+
   /**
    * Audit ESLint config - verify config exists and required rules are present
    */
@@ -178,7 +236,10 @@ export class ESLintRunner extends BaseToolRunner {
       return [this.createAuditViolation(effectiveRules.error, "error")];
     }
 
-    return this.compareRules(projectRoot, this.config.rules ?? {}, effectiveRules.rules);
+    const configFile = this.findConfig(projectRoot) ?? undefined;
+    return compareRules(this.config.rules ?? {}, effectiveRules.rules).map((message) =>
+      this.createAuditViolation(message, "error", configFile)
+    );
   }
 
   /**
@@ -207,169 +268,6 @@ export class ESLintRunner extends BaseToolRunner {
     }
   }
 
-  /**
-   * Extract options from a rule value (excludes severity)
-   */
-  private extractRuleOptions(value: ESLintRuleValue): unknown[] | null {
-    if (typeof value === "string") {
-      return null; // No options for severity-only rules
-    }
-    if (this.isRuleWithOptions(value)) {
-      // For object format, convert to array format for comparison
-      const { severity: _, ...options } = value;
-      return Object.keys(options).length > 0 ? [options] : null;
-    }
-    return null;
-  }
-
-  /**
-   * Get effective option value, handling both object and primitive formats.
-   * ESLint normalizes some rules like max-depth from ["error", { max: 4 }] to [2, 4].
-   */
-  private getEffectiveOptionValue(effectiveOptions: unknown, optionName: string): unknown {
-    // If effectiveOptions is an object, look up the key
-    if (typeof effectiveOptions === "object" && effectiveOptions !== null) {
-      return (effectiveOptions as Record<string, unknown>)[optionName];
-    }
-    // If effectiveOptions is a primitive and we're looking for "max", return the primitive
-    // This handles rules like max-depth, max-params, complexity where ESLint uses [severity, number]
-    if (
-      optionName === "max" &&
-      (typeof effectiveOptions === "number" || typeof effectiveOptions === "string")
-    ) {
-      return effectiveOptions;
-    }
-    return undefined;
-  }
-
-  /**
-   * Compare rule options between required and effective config.
-   */
-  private compareRuleOptions(
-    ruleName: string,
-    requiredOptions: unknown[],
-    effectiveRule: unknown[],
-    configFile: string | undefined
-  ): Violation[] {
-    const effectiveOptions = effectiveRule.slice(1);
-    if (this.deepEqual(requiredOptions, effectiveOptions)) {
-      return [];
-    }
-    // For single-object rules, try detailed comparison
-    if (requiredOptions.length === 1 && typeof requiredOptions[0] === "object") {
-      return this.compareObjectOptions(ruleName, requiredOptions[0], effectiveOptions, configFile);
-    }
-    // For complex rules, show full mismatch
-    const msg = `Rule "${ruleName}": options mismatch`;
-    return [this.createAuditViolation(msg, "error", configFile)];
-  }
-
-  /** Compare single-object rule options for detailed error messages */
-  private compareObjectOptions(
-    ruleName: string,
-    reqObj: unknown,
-    effectiveOptions: unknown[],
-    configFile: string | undefined
-  ): Violation[] {
-    const violations: Violation[] = [];
-    const required = reqObj as Record<string, unknown>;
-    const effective = typeof effectiveOptions[0] === "object" ? effectiveOptions[0] : {};
-    for (const [key, reqVal] of Object.entries(required)) {
-      const effVal = this.getEffectiveOptionValue(effective, key);
-      if (effVal === undefined) {
-        violations.push(
-          this.createAuditViolation(`Rule "${ruleName}": "${key}" required`, "error", configFile)
-        );
-      } else if (!this.deepEqual(reqVal, effVal)) {
-        violations.push(
-          this.createAuditViolation(`Rule "${ruleName}": "${key}" mismatch`, "error", configFile)
-        );
-      }
-    }
-    return violations;
-  }
-
-  /**
-   * Deep equality check for comparing option values
-   */
-  private deepEqual(a: unknown, b: unknown): boolean {
-    if (a === b) {
-      return true;
-    }
-    if (typeof a !== typeof b) {
-      return false;
-    }
-    if (typeof a !== "object" || a === null || b === null) {
-      return false;
-    }
-    const keysA = Object.keys(a as object);
-    const keysB = Object.keys(b as object);
-    if (keysA.length !== keysB.length) {
-      return false;
-    }
-    for (const key of keysA) {
-      if (
-        !this.deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
-      ) {
-        return false;
-      }
-    }
-    return true;
-  }
-
-  /**
-   * Compare a single rule against effective config
-   */
-  private compareSingleRule(
-    ruleName: string,
-    requiredValue: ESLintRuleValue,
-    effectiveRule: unknown[] | undefined,
-    configFile: string | undefined
-  ): Violation[] {
-    if (!effectiveRule) {
-      return [
-        this.createAuditViolation(
-          `Rule "${ruleName}" is required but not configured`,
-          "error",
-          configFile
-        ),
-      ];
-    }
-
-    const violations: Violation[] = [];
-    const requiredSeverity = this.normalizeSeverity(requiredValue);
-    const effectiveSeverity = this.normalizeSeverity(effectiveRule[0]);
-
-    if (requiredSeverity !== effectiveSeverity) {
-      const msg = `Rule "${ruleName}": expected "${this.severityToString(requiredSeverity)}", got "${this.severityToString(effectiveSeverity)}"`;
-      violations.push(this.createAuditViolation(msg, "error", configFile));
-    }
-
-    const requiredOptions = this.extractRuleOptions(requiredValue);
-    if (requiredOptions) {
-      violations.push(
-        ...this.compareRuleOptions(ruleName, requiredOptions, effectiveRule, configFile)
-      );
-    }
-
-    return violations;
-  }
-
-  /**
-   * Compare required rules against effective rules
-   */
-  private compareRules(
-    projectRoot: string,
-    requiredRules: Record<string, ESLintRuleValue>,
-    effectiveRules: Record<string, unknown[]>
-  ): Violation[] {
-    const configFile = this.findConfig(projectRoot) ?? undefined;
-
-    return Object.entries(requiredRules).flatMap(([ruleName, requiredValue]) =>
-      this.compareSingleRule(ruleName, requiredValue, effectiveRules[ruleName], configFile)
-    );
-  }
-
   /**
    * Create an audit violation
    */
@@ -408,65 +306,31 @@ export class ESLintRunner extends BaseToolRunner {
   }
 
   /**
-   * Check if a value is an ESLint rule with options object
+   * Get the files or patterns to lint.
+   * In changed-files mode, only target files matching the configured patterns
+   * (or ESLint's default extensions) are linted.
    */
-  private isRuleWithOptions(value: unknown): value is ESLintRuleWithOptions {
-    return typeof value === "object" && value !== null && "severity" in value;
-  }
-
-  /**
-   * Normalize rule severity to number (0, 1, 2)
-   */
-  private normalizeSeverity(value: unknown): number {
-    if (typeof value === "number") {
-      return value;
-    }
-    if (typeof value === "string") {
-      switch (value) {
-        case "off":
-          return 0;
-        case "warn":
-          return 1;
-        case "error":
-          return 2;
-        default:
-          return parseInt(value, 10) || 0;
-      }
-    }
-    if (Array.isArray(value)) {
-      return this.normalizeSeverity(value[0]);
-    }
-    if (this.isRuleWithOptions(value)) {
-      return this.normalizeSeverity(value.severity);
+  private getLintTargets(): string[] {
+    const patterns = this.config.files ?? [];
+
+    if (this.targetFiles !== null) {
+      const ignore = this.config.ignore ?? [];
+      return this.targetFiles.filter((file) => {
+        if (ignore.some((pattern) => minimatch(file, pattern))) {
+          return false;
+        }
+        return patterns.length > 0
+          ? patterns.some((pattern) => minimatch(file, pattern))
+          : DEFAULT_EXTENSIONS.includes(path.extname(file));
+      });
     }
-    return 0;
-  }
 
-  /**
-   * Convert severity number to string
-   */
-  private severityToString(severity: number): string {
-    switch (severity) {
-      case 0:
-        return "off";
-      case 1:
-        return "warn";
-      case 2:
-        return "error";
-      default:
-        return String(severity);
-    }
+    // Files to lint (default to ".")
+    return patterns.length > 0 ? patterns : ["."];
   }
 
-  private buildArgs(): string[] {
-    const args: string[] = [];
-
-    // Files to lint (default to ".")
-    if (this.config.files && this.config.files.length > 0) {
-      args.push(...this.config.files);
-    } else {
-      args.push(".");
-    }
+  private buildArgs(lintTargets: string[]): string[] {
+    const args = [...lintTargets];
 
     // Output format
     args.push("--format", "json");
@@ -486,32 +350,34 @@ export class ESLintRunner extends BaseToolRunner {
     return args;
   }
 
-  private parseOutput(stdout: string, projectRoot: string): Violation[] | null {
+  private parseResults(stdout: string): ESLintFileResult[] | null {
     try {
-      const results = JSON.parse(stdout) as ESLintFileResult[];
-      const violations: Violation[] = [];
-
-      for (const fileResult of results) {
-        for (const msg of fileResult.messages) {
-          violations.push({
-            rule: `${this.rule}.${this.toolId}`,
-            tool: this.toolId,
-            file: path.relative(projectRoot, fileResult.filePath),
-            line: msg.line,
-            column: msg.column,
-            message: msg.message,
-            code: msg.ruleId ?? undefined,
-            severity: msg.severity === 2 ? "error" : "warning",
-          });
-        }
-      }
-
-      return violations;
+      return JSON.parse(stdout) as ESLintFileResult[];
     } catch {
       return null;
     }
   }
 
+  private parseOutput(stdout: string, projectRoot: string): Violation[] | null {
+    const results = this.parseResults(stdout);
+    return results === null ? null : this.toViolations(results, projectRoot);
+  }
+
+  private toViolations(results: ESLintFileResult[], projectRoot: string): Violation[] {
+    return results.flatMap((fileResult) =>
+      fileResult.messages.map((msg) => ({
+        rule: `${this.rule}.${this.toolId}`,
+        tool: this.toolId,
+        file: path.relative(projectRoot, fileResult.filePath),
+        line: msg.line,
+        column: msg.column,
+        message: msg.message,
+        code: msg.ruleId ?? undefined,
+        severity: msg.severity === 2 ? ("error" as const) : ("warning" as const),
+      }))
+    );
+  }
+
   private createErrorViolation(message: string): Violation {
     return {
       rule: `${this.rule}.${this.toolId}`,
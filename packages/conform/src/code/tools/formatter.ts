@@ -0,0 +1,206 @@
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { CheckResultBuilder, type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+
+/** Formatter configuration options from standards.toml */
+export interface FormatterConfig {
+  enabled?: boolean;
+  /** Options the formatter config must set, keyed by the formatter's own option names */
+  require?: Record<string, string | number | boolean | undefined>;
+}
+
+/** Formatter options read from its config file, or why they couldn't be read */
+export type FormatterOptions =
+  | { file: string; options: Record<string, unknown> }
+  | { file?: string; error: string };
+
+/** Output of a formatter check-mode run */
+export interface FormatterOutput {
+  exitCode?: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Base class for formatter runners (Prettier, Ruff format, Biome).
+ * Runs the formatter in check mode, reports each unformatted file as a violation,
+ * and audits that the formatter config exists and sets the required options.
+ */
+export abstract class BaseFormatterRunner extends BaseToolRunner {
+  readonly rule = "code.formatting";
+
+  /** Command that formats files, shown in violation messages */
+  protected abstract readonly formatCommand: string;
+
+  /** The formatter's defaults for options its config doesn't set */
+  protected abstract readonly defaultOptions: Record<string, unknown>;
+
+  protected config: FormatterConfig = {};
+
+  /**
+   * Set the formatter configuration from standards.toml
+   */
+  setConfig(config: FormatterConfig): void {
+    this.config = config;
+  }
+
+  /** Command and arguments that check formatting; targets are null for the whole project */
+  protected abstract buildCommand(targets: string[] | null): [string, string[]];
+
+  /** Parse the files reported as unformatted, or null if the run failed */
+  protected abstract parseUnformatted(output: FormatterOutput): string[] | null;
+
+  /** Read the options set in the formatter's config */
+  protected abstract readOptions(projectRoot: string): FormatterOptions;
+
+  /** Files to check in changed-files mode, or null for the whole project */
+  protected getTargets(): string[] | null {
+    return this.targetFiles;
+  }
+
+  /** Config locations listed when the config is missing */
+  protected get expectedConfigs(): string[] {
+    return this.configFiles;
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    const targets = this.getTargets();
+    if (targets?.length === 0) {
+      return this.pass(elapsed());
+    }
+
+    try {
+      const [command, args] = this.buildCommand(targets);
+      const result = await execa(command, args, {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+      if (this.isBinaryNotFound(result)) {
+        return this.skipNotInstalled(elapsed());
+      }
+
+      const files = this.parseUnformatted({
+        exitCode: result.exitCode,
+        stdout: String(result.stdout ?? ""),
+        stderr: String(result.stderr ?? ""),
+      });
+      if (files === null) {
+        const output = String(result.stderr || result.stdout || "Unknown error").trim();
+        return this.fail([this.createErrorViolation(`${this.name} error: ${output}`)], elapsed());
+      }
+
+      return this.fromViolations(this.toViolations(files, projectRoot), elapsed());
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(elapsed());
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`${this.name} error: ${message}`)], elapsed());
+    }
+  }
+
+  private isBinaryNotFound(result: Awaited<ReturnType<typeof execa>>): boolean {
+    const execaResult = result as Awaited<ReturnType<typeof execa>> & {
+      code?: string;
+      message?: string;
+    };
+    return (
+      execaResult.code === "ENOENT" ||
+      (execaResult.failed && String(execaResult.message ?? "").includes("ENOENT"))
+    );
+  }
+
+  private toViolations(files: string[], projectRoot: string): Violation[] {
+    return [...new Set(files)].map((file) => ({
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: path.relative(projectRoot, path.resolve(projectRoot, file)),
+      message: `File is not formatted (run ${this.formatCommand})`,
+      severity: "error",
+    }));
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+
+  /**
+   * Audit formatter config - verify config exists and sets the required options
+   */
+  async audit(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    if (!this.hasConfig(projectRoot)) {
+      const expected = this.expectedConfigs.join(", ");
+      return CheckResultBuilder.fail(
+        `${this.name} Config`,
+        this.rule,
+        [this.createAuditViolation(`${this.name} config not found. Expected one of: ${expected}`)],
+        elapsed()
+      );
+    }
+
+    const violations = this.auditOptions(projectRoot);
+    return CheckResultBuilder.fromViolations(
+      `${this.name} Config`,
+      this.rule,
+      violations,
+      elapsed()
+    );
+  }
+
+  /**
+   * Audit that the formatter config sets the required options.
+   * Options the config doesn't set are compared using the formatter's defaults.
+   */
+  private auditOptions(projectRoot: string): Violation[] {
+    const required = Object.entries(this.config.require ?? {}).filter(
+      ([, value]) => value !== undefined
+    );
+    if (required.length === 0) {
+      return [];
+    }
+
+    const result = this.readOptions(projectRoot);
+    if ("error" in result) {
+      return [this.createAuditViolation(result.error, result.file)];
+    }
+
+    const violations: Violation[] = [];
+    for (const [option, expected] of required) {
+      const actual = result.options[option] ?? this.defaultOptions[option];
+      if (actual === undefined) {
+        const message = `${option}: expected ${String(expected)}, got missing`;
+        violations.push(this.createAuditViolation(message, result.file));
+      } else if (actual !== expected) {
+        const message = `${option}: expected ${String(expected)}, got ${String(actual)}`;
+        violations.push(this.createAuditViolation(message, result.file));
+      }
+    }
+    return violations;
+  }
+
+  private createAuditViolation(message: string, file?: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: "audit",
+      ...(file && { file }),
+      message,
+      severity: "error",
+    };
+  }
+}
@@ -6,6 +6,7 @@ import { execa } from "execa";
 import { TIMEOUTS } from "../../constants.js";
 import { type CheckResult, type Violation } from "../../core/index.js";
 import { BaseToolRunner } from "./base.js";
+import { type ScanMode, scanSecrets } from "./secret-scanner.js";
 
 /** Gitleaks finding entry from JSON output */
 interface GitleaksFinding {
@@ -28,18 +29,20 @@ interface GitleaksFinding {
   Fingerprint: string;
 }
 
-/** Scan mode options */
-type ScanMode = "branch" | "files" | "staged" | "full";
+/** auto: gitleaks when installed, else the built-in scanner */
+type SecretsEngine = "auto" | "gitleaks" | "builtin";
 
 /** Gitleaks configuration */
 interface GitleaksConfig {
   enabled?: boolean;
   scan_mode?: ScanMode;
   base_branch?: string;
+  engine?: SecretsEngine;
 }
 
 /**
- * Gitleaks tool runner for detecting hardcoded secrets
+ * Gitleaks tool runner for detecting hardcoded secrets.
+ * Falls back to the built-in scanner (secret-scanner.ts) when gitleaks isn't installed.
  */
 export class GitleaksRunner extends BaseToolRunner {
   readonly name = "gitleaks";
@@ -50,12 +53,53 @@ export class GitleaksRunner extends BaseToolRunner {
   private config: GitleaksConfig = {
     scan_mode: "branch",
     base_branch: "main",
+    engine: "auto",
   };
 
   setConfig(config: GitleaksConfig): void {
     this.config = { ...this.config, ...config };
   }
 
+  /** Files mode scans the working tree; other modes scan git history or the index */
+  get sourcePatterns(): string[] | undefined {
+    switch (this.config.scan_mode) {
+      case "files":
+        return ["**/*"];
+      case "staged":
+        return undefined;
+      default:
+        return [];
+    }
+  }
+
+  /** gitleaks version, or "builtin" when the built-in scanner runs instead */
+  private async getEngineVersion(projectRoot: string): Promise<string | null> {
+    if (this.config.engine === "builtin") {
+      return "builtin";
+    }
+    const version = await this.getCommandVersion(projectRoot, "gitleaks", ["version"]);
+    return version === null && this.config.engine !== "gitleaks" ? "builtin" : version;
+  }
+
+  /**
+   * Cache key: scanner version plus the commits scanned.
+   * Staged mode isn't cached since the index isn't tracked as an input.
+   */
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    const scanMode = this.config.scan_mode ?? "branch";
+    if (scanMode === "staged") {
+      return null;
+    }
+    const version = await this.getEngineVersion(projectRoot);
+    if (version === null || scanMode === "files") {
+      return version;
+    }
+
+    const refs = scanMode === "branch" ? [this.config.base_branch ?? "main", "HEAD"] : ["HEAD"];
+    const commits = await this.getCommandVersion(projectRoot, "git", ["rev-parse", ...refs]);
+    return commits === null ? null : `${version}\n${commits}`;
+  }
+
   /**
    * Find gitleaks config file if it exists
    * Returns just the filename (relative to projectRoot) since gitleaks runs with cwd=projectRoot
@@ -110,6 +154,11 @@ export class GitleaksRunner extends BaseToolRunner {
   async run(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
     const elapsed = (): number => Date.now() - startTime;
+    const engine = this.config.engine ?? "auto";
+
+    if (engine === "builtin") {
+      return this.runBuiltin(projectRoot, elapsed);
+    }
 
     try {
       const args = this.buildArgs(projectRoot);
@@ -120,12 +169,48 @@ export class GitleaksRunner extends BaseToolRunner {
         timeout: TIMEOUTS.codeTool,
       });
 
+      if (engine === "auto" && this.isBinaryNotFound(result)) {
+        return this.runBuiltin(projectRoot, elapsed);
+      }
       return this.processResult(result, elapsed);
     } catch (error) {
+      if (engine === "auto" && this.isNotInstalledError(error)) {
+        return this.runBuiltin(projectRoot, elapsed);
+      }
       return this.handleRunError(error, elapsed);
     }
   }
 
+  /** Scan with the built-in rule pack, honouring the allowlists in .gitleaks.toml */
+  private async runBuiltin(projectRoot: string, elapsed: () => number): Promise<CheckResult> {
+    const configFile = this.findGitleaksConfig(projectRoot);
+
+    try {
+      const findings = await scanSecrets(projectRoot, {
+        scanMode: this.config.scan_mode ?? "branch",
+        baseBranch: this.config.base_branch ?? "main",
+        configPath: configFile ? path.join(projectRoot, configFile) : undefined,
+      });
+
+      const violations = findings.map(
+        (finding): Violation => ({
+          rule: `${this.rule}.${this.toolId}`,
+          tool: this.toolId,
+          file: finding.file,
+          line: finding.line,
+          column: finding.column,
+          message: `${finding.ruleId}: ${finding.description}`,
+          code: finding.ruleId,
+          severity: "error",
+        })
+      );
+      return this.fromViolations(this.filterTargetViolations(violations), elapsed());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`Secret scan error: ${message}`)], elapsed());
+    }
+  }
+
   private isBinaryNotFound(result: Awaited<ReturnType<typeof execa>>): boolean {
     const execaResult = result as Awaited<ReturnType<typeof execa>> & {
       code?: string;
@@ -170,7 +255,7 @@ export class GitleaksRunner extends BaseToolRunner {
       return this.fail([this.createErrorViolation(`Failed to parse gitleaks output`)], elapsed());
     }
 
-    return this.fromViolations(violations, elapsed());
+    return this.fromViolations(this.filterTargetViolations(violations), elapsed());
   }
 
   private handleRunError(error: unknown, elapsed: () => number): CheckResult {
@@ -210,6 +295,15 @@ export class GitleaksRunner extends BaseToolRunner {
     }
   }
 
+  /** Drop findings outside the target files (changed-files mode) */
+  private filterTargetViolations(violations: Violation[]): Violation[] {
+    if (this.targetFiles === null) {
+      return violations;
+    }
+    const files = new Set(this.filterTargetFiles(violations.map((v) => v.file ?? "")));
+    return violations.filter((v) => files.has(v.file ?? ""));
+  }
+
   private createErrorViolation(message: string): Violation {
     return {
       rule: `${this.rule}.${this.toolId}`,
@@ -221,9 +315,15 @@ export class GitleaksRunner extends BaseToolRunner {
 
   /**
    * Audit - gitleaks doesn't require config, just check if installed
+   * (or that the built-in scanner can stand in for it)
    */
   async audit(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
+    const engine = this.config.engine ?? "auto";
+
+    if (engine === "builtin") {
+      return this.pass(Date.now() - startTime);
+    }
 
     try {
       await execa("gitleaks", ["version"], {
@@ -235,7 +335,9 @@ export class GitleaksRunner extends BaseToolRunner {
       return this.pass(Date.now() - startTime);
     } catch (error) {
       if (this.isNotInstalledError(error)) {
-        return this.skipNotInstalled(Date.now() - startTime);
+        return engine === "auto"
+          ? this.pass(Date.now() - startTime)
+          : this.skipNotInstalled(Date.now() - startTime);
       }
 
       const message = error instanceof Error ? error.message : "Unknown error";
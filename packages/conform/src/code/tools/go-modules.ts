@@ -0,0 +1,51 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/** Strip the quotes go.work allows around a path */
+function unquote(value: string): string {
+  return value.replace(/^(["`])(.*)\1$/, "$2");
+}
+
+/**
+ * Module directories listed by the use directives of a go.work file, either
+ * one per line (use ./api) or in a block (use ( ./api ./web ))
+ */
+export function parseGoWorkUses(content: string): string[] {
+  const dirs: string[] = [];
+  let inBlock = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/\/\/.*$/, "").trim();
+    if (inBlock) {
+      if (line === ")") {
+        inBlock = false;
+      } else if (line) {
+        dirs.push(unquote(line));
+      }
+      continue;
+    }
+    if (/^use\s*\($/.test(line)) {
+      inBlock = true;
+      continue;
+    }
+    const match = /^use\s+(.+)$/.exec(line);
+    if (match) {
+      dirs.push(unquote(match[1].trim()));
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Module directories of a Go project, relative to the project root: the modules
+ * a go.work workspace uses, or "." for a single module
+ */
+export function findGoModules(projectRoot: string): string[] {
+  const goWork = path.join(projectRoot, "go.work");
+  if (!fs.existsSync(goWork)) {
+    return ["."];
+  }
+  return parseGoWorkUses(fs.readFileSync(goWork, "utf-8")).map(
+    (dir) => path.relative(projectRoot, path.resolve(projectRoot, dir)) || "."
+  );
+}
@@ -0,0 +1,118 @@
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+
+/** golangci-lint JSON output issue format */
+interface GolangciIssue {
+  FromLinter: string;
+  Text: string;
+  /** Empty unless the config sets severity rules */
+  Severity?: string;
+  Pos: {
+    Filename: string;
+    Line: number;
+    Column: number;
+  };
+}
+
+/** golangci-lint JSON output format */
+interface GolangciOutput {
+  Issues: GolangciIssue[] | null;
+}
+
+/** Major version in "golangci-lint has version 1.64.8 built with go1.24.1 ..." */
+const MAJOR_VERSION = /version v?(\d+)\./;
+
+/**
+ * golangci-lint (Go linter aggregator) tool runner.
+ * Supports v1 and v2, which take different flags for JSON output.
+ */
+export class GolangciLintRunner extends BaseToolRunner {
+  readonly name = "golangci-lint";
+  readonly rule = "code.linting";
+  readonly toolId = "golangci-lint";
+  readonly configFiles = [".golangci.yml", ".golangci.yaml", ".golangci.toml", ".golangci.json"];
+  readonly sourcePatterns = ["**/*.go", "go.mod", "go.sum"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "golangci-lint");
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    if (!this.hasConfig(projectRoot)) {
+      return this.failNoConfig(elapsed());
+    }
+
+    try {
+      const outputArgs = await this.getOutputArgs(projectRoot);
+      const result = await execa("golangci-lint", ["run", ...outputArgs, "./..."], {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+
+      const violations = this.parseOutput(String(result.stdout ?? ""), projectRoot);
+
+      // Handle parse failure with non-zero exit
+      if (violations === null && result.exitCode !== 0) {
+        const output = String(result.stderr || result.stdout || "Unknown error").trim();
+        return this.fail([this.createErrorViolation(`golangci-lint error: ${output}`)], elapsed());
+      }
+
+      return this.fromViolations(violations ?? [], elapsed());
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(elapsed());
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`golangci-lint error: ${message}`)], elapsed());
+    }
+  }
+
+  /** JSON output flags: v2 replaced --out-format with --output.json.path */
+  private async getOutputArgs(projectRoot: string): Promise<string[]> {
+    const version = await this.getCommandVersion(projectRoot, "golangci-lint");
+    const major = MAJOR_VERSION.exec(version ?? "")?.[1];
+    if (major === "1") {
+      return ["--out-format=json"];
+    }
+    return ["--output.json.path=stdout", "--show-stats=false"];
+  }
+
+  private parseOutput(stdout: string, projectRoot: string): Violation[] | null {
+    let output: GolangciOutput;
+    try {
+      output = JSON.parse(stdout) as GolangciOutput;
+    } catch {
+      return null;
+    }
+
+    return (output.Issues ?? []).map((issue) => ({
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: path.relative(projectRoot, path.resolve(projectRoot, issue.Pos.Filename)),
+      line: issue.Pos.Line,
+      column: issue.Pos.Column,
+      message: issue.Text,
+      code: issue.FromLinter,
+      severity: issue.Severity === "warning" ? ("warning" as const) : ("error" as const),
+    }));
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
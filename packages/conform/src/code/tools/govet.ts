@@ -0,0 +1,109 @@
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+import { findGoModules } from "./go-modules.js";
+
+/** A go vet or compiler diagnostic, e.g. "./main.go:8:2: fmt.Printf format %d has arg ..." */
+const DIAGNOSTIC_LINE = /^(.+?\.go):(\d+):(\d+):\s*(.+)$/;
+
+/**
+ * go vet tool runner.
+ * Reports suspicious constructs and type errors in the module's packages, or in
+ * every module a go.work workspace uses.
+ */
+export class GoVetRunner extends BaseToolRunner {
+  readonly name = "go vet";
+  readonly rule = "code.types";
+  readonly toolId = "govet";
+  readonly configFiles = ["go.mod", "go.work"];
+  readonly sourcePatterns = ["**/*.go", "**/go.mod", "**/go.sum", "go.work", "go.work.sum"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "go", ["version"]);
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    if (!this.hasConfig(projectRoot)) {
+      return this.failNoConfig(elapsed());
+    }
+
+    try {
+      const modules = findGoModules(projectRoot);
+      if (modules.length === 0) {
+        return this.pass(elapsed());
+      }
+
+      // "./..." at a go.work root outside every module matches no packages
+      const patterns = modules.map((dir) => (dir === "." ? "./..." : `./${dir}/...`));
+      const result = await execa("go", ["vet", ...patterns], {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+
+      if (result.exitCode === 0) {
+        return this.pass(elapsed());
+      }
+
+      // go vet writes diagnostics to stderr
+      const output = String(result.stderr ?? "");
+      const violations = this.parseOutput(output, projectRoot);
+      if (violations.length === 0) {
+        const message = (output || String(result.stdout ?? "") || "Unknown error").trim();
+        return this.fail(
+          [this.createErrorViolation(`go vet error: ${message.slice(0, 500)}`)],
+          elapsed()
+        );
+      }
+      return this.fail(violations, elapsed());
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(elapsed());
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`go vet error: ${message}`)], elapsed());
+    }
+  }
+
+  /**
+   * Parse go vet output into violations.
+   * Package headers ("# example.com/pkg") and other lines are ignored.
+   */
+  private parseOutput(output: string, projectRoot: string): Violation[] {
+    const violations: Violation[] = [];
+    for (const line of output.split("\n")) {
+      const match = DIAGNOSTIC_LINE.exec(line.trim());
+      if (!match) {
+        continue;
+      }
+      const [, file, lineNum, colNum, message] = match;
+      violations.push({
+        rule: `${this.rule}.${this.toolId}`,
+        tool: this.toolId,
+        file: path.relative(projectRoot, path.resolve(projectRoot, file)),
+        line: parseInt(lineNum, 10),
+        column: parseInt(colNum, 10),
+        message: message.trim(),
+        severity: "error",
+      });
+    }
+    return violations;
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+import { findGoModules } from "./go-modules.js";
+
+/** A frame of a govulncheck finding's call trace, vulnerable symbol first */
+interface GovulncheckFrame {
+  module: string;
+  version?: string;
+  package?: string;
+  /** Set when the vulnerable symbol is reachable from the module's code */
+  function?: string;
+}
+
+/** govulncheck JSON message; the stream has one message per object */
+interface GovulncheckMessage {
+  osv?: { id: string; summary?: string; aliases?: string[] };
+  finding?: {
+    osv: string;
+    fixed_version?: string;
+    trace: GovulncheckFrame[];
+  };
+}
+
+/**
+ * Parse a stream of concatenated JSON objects, as printed by govulncheck -format json.
+ * Returns null if the output contains no objects or one fails to parse.
+ */
+function parseJsonStream(output: string): unknown[] | null {
+  const values: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < output.length; i++) {
+    const char = output[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      if (depth === 0) {
+        start = i;
+      }
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        try {
+          values.push(JSON.parse(output.slice(start, i + 1)));
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+
+  return values.length > 0 ? values : null;
+}
+
+/**
+ * govulncheck tool runner for detecting vulnerabilities in Go dependencies.
+ * Only vulnerabilities whose code is reachable from the module are reported,
+ * matching govulncheck's own exit status. In a go.work workspace each module
+ * is scanned on its own.
+ */
+export class GovulncheckRunner extends BaseToolRunner {
+  readonly name = "govulncheck";
+  readonly rule = "code.security";
+  readonly toolId = "govulncheck";
+  readonly configFiles = ["go.mod", "go.work"];
+  readonly sourcePatterns: string[] = [];
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    if (!this.hasConfig(projectRoot)) {
+      return this.failNoConfig(elapsed());
+    }
+
+    try {
+      const results = await Promise.all(
+        findGoModules(projectRoot).map((dir) => this.scanModule(projectRoot, dir))
+      );
+      const violations: Violation[] = [];
+      for (const result of results) {
+        if ("error" in result) {
+          return this.fail(
+            [this.createErrorViolation(`govulncheck error: ${result.error}`)],
+            elapsed()
+          );
+        }
+        violations.push(...result.violations);
+      }
+      return this.fromViolations(violations, elapsed());
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(elapsed());
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`govulncheck error: ${message}`)], elapsed());
+    }
+  }
+
+  /** Scan one module directory, relative to the project root */
+  private async scanModule(
+    projectRoot: string,
+    dir: string
+  ): Promise<{ violations: Violation[] } | { error: string }> {
+    const result = await execa("govulncheck", ["-format", "json", "./..."], {
+      cwd: path.join(projectRoot, dir),
+      reject: false,
+      timeout: TIMEOUTS.codeTool,
+    });
+
+    const messages = parseJsonStream(String(result.stdout ?? ""));
+    if (messages === null) {
+      return { error: String(result.stderr || result.stdout || "Unknown error").trim() };
+    }
+    return {
+      violations: this.toViolations(messages as GovulncheckMessage[], path.join(dir, "go.mod")),
+    };
+  }
+
+  private toViolations(messages: GovulncheckMessage[], goMod: string): Violation[] {
+    const summaries = new Map<string, string | undefined>();
+    for (const { osv } of messages) {
+      if (osv) {
+        summaries.set(osv.id, osv.summary);
+      }
+    }
+
+    const seen = new Set<string>();
+    const violations: Violation[] = [];
+    for (const { finding } of messages) {
+      const frame = finding?.trace[0];
+      if (!finding || !frame?.function) {
+        continue; // Imported but not called
+      }
+      const key = `${finding.osv}:${frame.module}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const summary = summaries.get(finding.osv);
+      const title = summary ? `${finding.osv} ${summary}` : finding.osv;
+      const fixInfo = finding.fixed_version
+        ? ` (fix: ${finding.fixed_version})`
+        : " (no fix available)";
+      violations.push({
+        rule: `${this.rule}.${this.toolId}`,
+        tool: this.toolId,
+        file: goMod,
+        message: `${frame.module}@${frame.version ?? "unknown"}: ${title}${fixInfo}`,
+        code: finding.osv,
+        severity: finding.fixed_version ? "error" : "warning",
+      });
+    }
+    return violations;
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
@@ -1,13 +1,31 @@
+export { ArchitectureRunner } from "./architecture.js";
 export { BaseToolRunner } from "./base.js";
+export { BiomeRunner } from "./biome.js";
+export { BiomeFormatRunner } from "./biome-format.js";
+export { CargoAuditRunner } from "./cargo-audit.js";
+export { CargoCheckRunner } from "./cargo-check.js";
+export { ClippyRunner } from "./clippy.js";
+export { ComplexityRunner } from "./complexity.js";
 export { CoverageRunRunner } from "./coverage-run.js";
+export { CustomToolRunner } from "./custom.js";
 export { DisableCommentsRunner } from "./disable-comments.js";
 export { ESLintRunner } from "./eslint.js";
+export { BaseFormatterRunner } from "./formatter.js";
 export { GitleaksRunner } from "./gitleaks.js";
+export { GolangciLintRunner } from "./golangci-lint.js";
+export { GoVetRunner } from "./govet.js";
+export { GovulncheckRunner } from "./govulncheck.js";
 export { KnipRunner } from "./knip.js";
+export { LicensesRunner } from "./licenses.js";
 export { NamingRunner } from "./naming.js";
+export { NpmAuditRunner } from "./npmaudit.js";
+export { OxlintRunner } from "./oxlint.js";
 export { PipAuditRunner } from "./pipaudit.js";
 export { PnpmAuditRunner } from "./pnpmaudit.js";
+export { PrettierRunner } from "./prettier.js";
 export { RuffRunner } from "./ruff.js";
+export { RuffFormatRunner } from "./ruff-format.js";
 export { TscRunner } from "./tsc.js";
 export { TyRunner } from "./ty.js";
 export { VultureRunner } from "./vulture.js";
+export { YarnAuditRunner } from "./yarnaudit.js";
@@ -0,0 +1,237 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { type CheckResult, type Violation } from "../../core/index.js";
+import {
+  type AuditFinding,
+  type AuditPolicyConfig,
+  type AuditSeverity,
+  getExpiredIgnores,
+  isSuppressed,
+} from "./audit-policy.js";
+import { BaseToolRunner } from "./base.js";
+
+/** pnpm / npm / yarn audit configuration */
+export interface JsAuditConfig extends AuditPolicyConfig {
+  enabled?: boolean;
+  exclude_dev?: boolean;
+}
+
+/** An advisory from a package manager's audit report */
+export interface JsAdvisory {
+  /** Preferred advisory ID (GHSA when known) */
+  id: string;
+  /** Other IDs ignore entries may use (numeric advisory ID, CVEs) */
+  aliases: string[];
+  module: string;
+  /** Installed version, when the report includes it */
+  version?: string;
+  title: string;
+  severity: AuditSeverity;
+  /** Dependency paths to the vulnerable package */
+  paths: string[];
+  /** Undefined when the report doesn't include patched versions */
+  fixable?: boolean;
+  /** How to fix it, e.g. "patched: >=4.17.19" */
+  remediation: string;
+}
+
+/** Extract a GHSA ID from a GitHub advisory URL */
+export function ghsaFromUrl(url: string | undefined): string | undefined {
+  return /\/(GHSA-[\w-]+)$/i.exec(url ?? "")?.[1];
+}
+
+/**
+ * Base class for JavaScript package manager audits (pnpm, npm, yarn).
+ * Only checks production dependencies by default (exclude_dev: true).
+ * Advisories can be filtered by severity, fixability and expiring ignore entries.
+ */
+export abstract class BaseJsAuditRunner extends BaseToolRunner {
+  readonly rule = "code.security";
+  readonly sourcePatterns: string[] = [];
+
+  /** Package manager command, e.g. "pnpm" */
+  protected abstract readonly command: string;
+
+  protected config: JsAuditConfig = {
+    enabled: false,
+    exclude_dev: true,
+  };
+
+  /**
+   * Set configuration for the runner
+   */
+  setConfig(config: JsAuditConfig): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /** Audit command arguments */
+  protected abstract buildArgs(excludeDev: boolean): string[];
+
+  /** Parse the audit output, or return null if it isn't an audit report */
+  protected abstract parseAdvisories(output: string): JsAdvisory[] | null;
+
+  /**
+   * Find the lockfile in projectRoot
+   */
+  private findLockFile(projectRoot: string): string | undefined {
+    return this.configFiles.find((file) => fs.existsSync(path.join(projectRoot, file)));
+  }
+
+  private get missingLockFileMessage(): string {
+    return `No ${this.configFiles.join(" or ")} found`;
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    const lockFile = this.findLockFile(projectRoot);
+    if (!lockFile) {
+      return this.fail([this.createErrorViolation(this.missingLockFileMessage)], elapsed());
+    }
+
+    try {
+      const result = await execa(this.command, this.buildArgs(this.config.exclude_dev !== false), {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+
+      return this.processAuditResult(result, lockFile, elapsed);
+    } catch (error) {
+      return this.handleRunError(error, elapsed);
+    }
+  }
+
+  private processAuditResult(
+    result: Awaited<ReturnType<typeof execa>>,
+    lockFile: string,
+    elapsed: () => number
+  ): CheckResult {
+    const output = String(result.stdout || result.stderr || "");
+    const advisories = this.parseAdvisories(output);
+
+    if (advisories === null) {
+      if (result.exitCode !== 0) {
+        const error = String(result.stderr || result.stdout || "Unknown error").trim();
+        const message = `${this.command} audit error: ${error}`;
+        return this.fail([this.createErrorViolation(message)], elapsed());
+      }
+      return this.pass(elapsed());
+    }
+
+    return this.fromViolations(this.toViolations(advisories, lockFile), elapsed());
+  }
+
+  private handleRunError(error: unknown, elapsed: () => number): CheckResult {
+    if (this.isNotInstalledError(error)) {
+      return this.skipNotInstalled(elapsed());
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return this.fail(
+      [this.createErrorViolation(`${this.command} audit error: ${message}`)],
+      elapsed()
+    );
+  }
+
+  private toViolations(advisories: JsAdvisory[], lockFile: string): Violation[] {
+    const violations: Violation[] = [];
+    const reported: AuditFinding[] = [];
+
+    for (const advisory of advisories) {
+      const { severity, fixable } = advisory;
+      const finding = { ids: [advisory.id, ...advisory.aliases], severity, fixable };
+      if (isSuppressed(finding, this.config)) {
+        continue;
+      }
+      reported.push(finding);
+
+      violations.push({
+        rule: `${this.rule}.${this.toolId}`,
+        tool: this.toolId,
+        file: lockFile,
+        message: this.formatMessage(advisory),
+        code: advisory.id,
+        severity: this.mapSeverity(advisory.severity),
+      });
+    }
+
+    for (const entry of getExpiredIgnores(this.config, reported)) {
+      violations.push({
+        rule: `${this.rule}.${this.toolId}`,
+        tool: this.toolId,
+        file: lockFile,
+        message: `Ignore for ${entry.id} expired on ${entry.expires} (${entry.reason})`,
+        code: entry.id,
+        severity: "error",
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Format an advisory as "module@version: title [id] via path (remediation)".
+   * Only the first dependency path is shown; audits list one per install location.
+   */
+  private formatMessage(advisory: JsAdvisory): string {
+    const version = advisory.version ? `@${advisory.version}` : "";
+    const { paths } = advisory;
+    const via =
+      paths.length > 0
+        ? ` via ${paths[0]}${paths.length > 1 ? ` (+${paths.length - 1} more)` : ""}`
+        : "";
+    const title = `${advisory.title} [${advisory.id}]`;
+    return `${advisory.module}${version}: ${title}${via} (${advisory.remediation})`;
+  }
+
+  private mapSeverity(auditSeverity: string): "error" | "warning" {
+    switch (auditSeverity) {
+      case "critical":
+      case "high":
+        return "error";
+      case "moderate":
+      case "low":
+      case "info":
+      default:
+        return "warning";
+    }
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+
+  /**
+   * Audit - check if the lockfile exists
+   */
+  async audit(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+
+    if (!this.findLockFile(projectRoot)) {
+      return this.fail(
+        [
+          {
+            rule: `${this.rule}.${this.toolId}`,
+            tool: "audit",
+            message: this.missingLockFileMessage,
+            severity: "error",
+          },
+        ],
+        Date.now() - startTime
+      );
+    }
+
+    return this.pass(Date.now() - startTime);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Strip comments from JSONC content (JSON with Comments).
+ * Uses regex replacement to handle single-line and multi-line comments.
+ * Note: This is a simplified approach that works for typical tsconfig.json and biome.json files.
+ */
+export function stripJsonComments(content: string): string {
+  // Remove single-line comments (// ...) not inside strings
+  // Remove multi-line comments (/* ... */)
+  // This regex-based approach handles most real-world config files
+  return content
+    .replace(/\\"|"(?:\\"|[^"])*"|\/\/[^\n]*/g, (match) => {
+      // Keep strings, remove single-line comments
+      return match.startsWith("//") ? "" : match;
+    })
+    .replace(/\\"|"(?:\\"|[^"])*"|\/\*[\s\S]*?\*\//g, (match) => {
+      // Keep strings, remove multi-line comments
+      return match.startsWith("/*") ? "" : match;
+    });
+}
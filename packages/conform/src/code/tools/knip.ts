@@ -59,6 +59,11 @@ export class KnipRunner extends BaseToolRunner {
     "knip.config.js",
     "knip.config.ts",
   ];
+  readonly sourcePatterns = ["**/*.{js,mjs,cjs,jsx,ts,mts,cts,tsx}", "package.json"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.findPackageVersion(projectRoot, "knip");
+  }
 
   async run(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
@@ -0,0 +1,384 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import TOML from "@iarna/toml";
+import { glob } from "glob";
+import { minimatch } from "minimatch";
+
+import { type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+
+/** License check configuration */
+export interface LicensesConfig {
+  enabled?: boolean;
+  /** SPDX ids (or globs like "BSD-*") a dependency may use; empty allows anything not denied */
+  allow?: string[];
+  /** SPDX ids (or globs like "GPL-*") no dependency may use */
+  deny?: string[];
+  /** Packages exempt from the check, as "name" or "name@version" */
+  exceptions?: string[];
+}
+
+/** An installed dependency and its declared license */
+interface InstalledPackage {
+  name: string;
+  version: string;
+  /** SPDX expression, or null if the license couldn't be determined */
+  license: string | null;
+  /** Manifest or lockfile to report violations against */
+  file: string;
+}
+
+/** A parsed SPDX license expression */
+type LicenseExpression =
+  | { license: string; exception?: string }
+  | { op: "AND" | "OR"; left: LicenseExpression; right: LicenseExpression };
+
+/** Trove classifiers that name a single SPDX license */
+const CLASSIFIER_LICENSES: Record<string, string> = {
+  "License :: OSI Approved :: MIT License": "MIT",
+  "License :: OSI Approved :: Apache Software License": "Apache-2.0",
+  "License :: OSI Approved :: ISC License (ISCL)": "ISC",
+  "License :: OSI Approved :: Mozilla Public License 2.0 (MPL 2.0)": "MPL-2.0",
+  "License :: OSI Approved :: Python Software Foundation License": "PSF-2.0",
+  "License :: OSI Approved :: The Unlicense (Unlicense)": "Unlicense",
+  "License :: OSI Approved :: GNU General Public License v2 (GPLv2)": "GPL-2.0",
+  "License :: OSI Approved :: GNU General Public License v3 (GPLv3)": "GPL-3.0",
+  "License :: OSI Approved :: GNU Lesser General Public License v2 (LGPLv2)": "LGPL-2.0",
+  "License :: OSI Approved :: GNU Lesser General Public License v3 (LGPLv3)": "LGPL-3.0",
+  "License :: OSI Approved :: GNU Affero General Public License v3": "AGPL-3.0",
+};
+
+/** Installed npm package manifests, including pnpm's virtual store and nested installs */
+const NODE_MANIFEST_PATTERNS = [
+  "node_modules/{*,@*/*}/package.json",
+  "node_modules/**/node_modules/{*,@*/*}/package.json",
+];
+
+/** Installed Python distribution metadata in a project virtualenv */
+const PYTHON_METADATA_PATTERN =
+  "{.venv,venv}/{lib/python*/,Lib/}site-packages/*.dist-info/METADATA";
+
+/** SPDX expression operators */
+const OPERATORS = ["AND", "OR", "WITH"];
+
+/**
+ * Parse an SPDX license expression such as "(MIT OR GPL-3.0) AND BSD-3-Clause".
+ * Operators are matched case-insensitively; returns null if the expression is malformed.
+ */
+function parseLicenseExpression(expression: string): LicenseExpression | null {
+  const tokens = expression.match(/[()]|[^\s()]+/g) ?? [];
+  let pos = 0;
+  const peek = (): string | undefined => tokens[pos]?.toUpperCase();
+
+  function parseAtom(): LicenseExpression | null {
+    const token = tokens[pos++];
+    if (token === undefined || token === ")" || OPERATORS.includes(token.toUpperCase())) {
+      return null;
+    }
+    if (token === "(") {
+      const inner = parseBinary("OR");
+      return tokens[pos++] === ")" ? inner : null;
+    }
+    if (peek() === "WITH") {
+      pos++;
+      const exception = tokens[pos++];
+      return exception && exception !== "(" && exception !== ")"
+        ? { license: token, exception }
+        : null;
+    }
+    return { license: token };
+  }
+
+  function parseBinary(op: "AND" | "OR"): LicenseExpression | null {
+    const parseOperand = (): LicenseExpression | null =>
+      op === "OR" ? parseBinary("AND") : parseAtom();
+    let left = parseOperand();
+    while (left && peek() === op) {
+      pos++;
+      const right = parseOperand();
+      left = right ? { op, left, right } : null;
+    }
+    return left;
+  }
+
+  const result = parseBinary("OR");
+  return result && pos === tokens.length ? result : null;
+}
+
+/** List the license ids of an expression, for reporting */
+function licenseIds(expression: LicenseExpression): string[] {
+  return "op" in expression
+    ? [...licenseIds(expression.left), ...licenseIds(expression.right)]
+    : [expression.license];
+}
+
+/** Check if a license id matches any SPDX id or glob in a list */
+function matchesAny(license: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => minimatch(license, pattern, { nocase: true }));
+}
+
+/** Read the license of an installed npm package, including the legacy "licenses" array */
+function readNodeLicense(pkg: Record<string, unknown>): string | null {
+  const { license, licenses } = pkg;
+  if (typeof license === "string") {
+    return license;
+  }
+  if (license && typeof license === "object" && "type" in license) {
+    return String(license.type);
+  }
+  if (Array.isArray(licenses) && licenses.length > 0) {
+    return licenses.map((l: { type?: string }) => `(${l.type})`).join(" OR ");
+  }
+  return null;
+}
+
+/**
+ * Read the license of an installed Python distribution from its METADATA.
+ * Prefers License-Expression (PEP 639), then a License field that is a valid
+ * SPDX expression (it often holds the full license text), then Trove classifiers.
+ */
+function readPythonLicense(headers: Map<string, string[]>): string | null {
+  const expression = headers.get("license-expression")?.[0];
+  if (expression) {
+    return expression;
+  }
+  const license = headers.get("license")?.[0]?.trim();
+  if (license && !license.includes("\n") && parseLicenseExpression(license)) {
+    return license;
+  }
+  const fromClassifiers = (headers.get("classifier") ?? [])
+    .map((classifier) => CLASSIFIER_LICENSES[classifier.trim()])
+    .filter((id): id is string => id !== undefined);
+  return fromClassifiers.length > 0 ? fromClassifiers.join(" OR ") : null;
+}
+
+/** Parse the RFC 822 style headers of a METADATA file (the body is ignored) */
+function parseMetadataHeaders(content: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  for (const line of content.split(/\r?\n/)) {
+    if (line === "") {
+      break;
+    }
+    const match = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (match) {
+      const key = match[1].toLowerCase();
+      headers.set(key, [...(headers.get(key) ?? []), match[2]]);
+    }
+  }
+  return headers;
+}
+
+/** Normalize a Python distribution name (PEP 503) */
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Dependency license compliance runner.
+ * Reads licenses from installed package metadata only (node_modules, the project
+ * virtualenv and uv.lock), so it works offline.
+ */
+export class LicensesRunner extends BaseToolRunner {
+  readonly name = "Licenses";
+  readonly rule = "code.security";
+  readonly toolId = "licenses";
+  readonly configFiles = ["package.json", "pyproject.toml", "requirements.txt", "setup.py"];
+  readonly sourcePatterns: string[] = [];
+
+  private config: LicensesConfig = {
+    enabled: false,
+    allow: [],
+    deny: [],
+    exceptions: [],
+  };
+
+  setConfig(config: LicensesConfig): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    if (!this.hasConfig(projectRoot)) {
+      return this.failNoConfig(elapsed());
+    }
+
+    try {
+      const nodePackages = await this.collectNodePackages(projectRoot);
+      const pythonPackages = await this.collectPythonPackages(projectRoot);
+      if (nodePackages === null && pythonPackages === null) {
+        return this.fail(
+          [
+            this.createErrorViolation(
+              "No installed dependencies found. Install dependencies before checking licenses"
+            ),
+          ],
+          elapsed()
+        );
+      }
+
+      const violations = [...(nodePackages ?? []), ...(pythonPackages ?? [])]
+        .filter((pkg) => !this.isException(pkg))
+        .map((pkg) => this.checkPackage(pkg))
+        .filter((v): v is Violation => v !== null);
+      return this.fromViolations(violations, elapsed());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail([this.createErrorViolation(`License check error: ${message}`)], elapsed());
+    }
+  }
+
+  /** Collect installed npm packages, or null if node_modules doesn't exist */
+  private async collectNodePackages(projectRoot: string): Promise<InstalledPackage[] | null> {
+    if (!fs.existsSync(path.join(projectRoot, "node_modules"))) {
+      return null;
+    }
+
+    const manifests = await glob(NODE_MANIFEST_PATTERNS, { cwd: projectRoot, dot: true });
+    const packages = new Map<string, InstalledPackage>();
+    for (const manifest of manifests.sort()) {
+      let pkg: Record<string, unknown>;
+      try {
+        const content = fs.readFileSync(path.join(projectRoot, manifest), "utf-8");
+        pkg = JSON.parse(content) as Record<string, unknown>;
+      } catch {
+        continue;
+      }
+      if (typeof pkg.name !== "string") {
+        continue;
+      }
+      const version = typeof pkg.version === "string" ? pkg.version : "unknown";
+      packages.set(`${pkg.name}@${version}`, {
+        name: pkg.name,
+        version,
+        license: readNodeLicense(pkg),
+        file: "package.json",
+      });
+    }
+    return [...packages.values()];
+  }
+
+  /**
+   * Collect Python dependencies from the project virtualenv.
+   * When uv.lock exists it defines the dependency set, so locked packages that
+   * aren't installed are reported as unknown and unrelated venv tools are skipped.
+   * Returns null if there is neither an installed virtualenv nor a uv.lock.
+   */
+  private async collectPythonPackages(projectRoot: string): Promise<InstalledPackage[] | null> {
+    const file = ["uv.lock", "pyproject.toml", "requirements.txt", "setup.py"].find((f) =>
+      fs.existsSync(path.join(projectRoot, f))
+    );
+    if (!file) {
+      return null;
+    }
+
+    const metadataFiles = await glob(PYTHON_METADATA_PATTERN, { cwd: projectRoot });
+    const locked = this.readUvLock(projectRoot);
+    if (metadataFiles.length === 0 && !locked) {
+      return null;
+    }
+
+    const installed = new Map<string, InstalledPackage>();
+    for (const metadataFile of metadataFiles) {
+      const headers = parseMetadataHeaders(
+        fs.readFileSync(path.join(projectRoot, metadataFile), "utf-8")
+      );
+      const name = headers.get("name")?.[0];
+      if (name) {
+        installed.set(normalizePythonName(name), {
+          name,
+          version: headers.get("version")?.[0] ?? "unknown",
+          license: readPythonLicense(headers),
+          file,
+        });
+      }
+    }
+
+    if (!locked) {
+      return [...installed.values()];
+    }
+    return locked.map(
+      (pkg) =>
+        installed.get(normalizePythonName(pkg.name)) ?? { ...pkg, license: null, file: "uv.lock" }
+    );
+  }
+
+  /** Read the third-party packages locked in uv.lock, or null if there is none */
+  private readUvLock(projectRoot: string): { name: string; version: string }[] | null {
+    const lockPath = path.join(projectRoot, "uv.lock");
+    if (!fs.existsSync(lockPath)) {
+      return null;
+    }
+    const lock = TOML.parse(fs.readFileSync(lockPath, "utf-8")) as {
+      package?: { name: string; version?: string; source?: Record<string, unknown> }[];
+    };
+    return (lock.package ?? [])
+      .filter((pkg) => !pkg.source?.editable && !pkg.source?.virtual) // The project itself
+      .map((pkg) => ({ name: pkg.name, version: pkg.version ?? "unknown" }));
+  }
+
+  private isException(pkg: InstalledPackage): boolean {
+    const exceptions = this.config.exceptions ?? [];
+    return exceptions.includes(pkg.name) || exceptions.includes(`${pkg.name}@${pkg.version}`);
+  }
+
+  private checkPackage(pkg: InstalledPackage): Violation | null {
+    const allow = this.config.allow ?? [];
+    const deny = this.config.deny ?? [];
+    const id = `${pkg.name}@${pkg.version}`;
+
+    const expression = pkg.license ? parseLicenseExpression(pkg.license) : null;
+    if (!expression) {
+      // Only an allow list requires every license to be known
+      if (allow.length === 0) {
+        return null;
+      }
+      const detail = pkg.license ? `unrecognized license "${pkg.license}"` : "no license found";
+      return this.createViolation(pkg, `${id}: ${detail}`, "warning");
+    }
+
+    const isAllowed = (leaf: { license: string; exception?: string }): boolean =>
+      !matchesAny(leaf.license, deny) && (allow.length === 0 || matchesAny(leaf.license, allow));
+    const satisfies = (expr: LicenseExpression): boolean => {
+      if (!("op" in expr)) {
+        return isAllowed(expr);
+      }
+      return expr.op === "OR"
+        ? satisfies(expr.left) || satisfies(expr.right)
+        : satisfies(expr.left) && satisfies(expr.right);
+    };
+    if (satisfies(expression)) {
+      return null;
+    }
+
+    const denied = licenseIds(expression).filter((license) => matchesAny(license, deny));
+    const reason = denied.length > 0 ? `denied: ${denied.join(", ")}` : "not in the allow list";
+    return this.createViolation(pkg, `${id}: license "${pkg.license}" (${reason})`, "error");
+  }
+
+  private createViolation(
+    pkg: InstalledPackage,
+    message: string,
+    severity: "error" | "warning"
+  ): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: pkg.file,
+      message,
+      code: pkg.license ?? undefined,
+      severity,
+    };
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
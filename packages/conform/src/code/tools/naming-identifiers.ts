@@ -0,0 +1,296 @@
+import ts from "typescript";
+
+import { scriptKind } from "./script-files.js";
+
+/** Kinds of exported declarations identifier rules apply to */
+export type IdentifierKind =
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "function"
+  | "component"
+  | "hook"
+  | "constant"
+  | "variable";
+
+/** An exported declaration */
+export interface Identifier {
+  name: string;
+  kind: IdentifierKind;
+  /** 1-based line of the name */
+  line: number;
+}
+
+/** Exported declarations of one source file */
+export interface FileIdentifiers {
+  identifiers: Identifier[];
+  /** The default export, when it's a named React component */
+  defaultComponent?: { name: string; line: number };
+}
+
+// =============================================================================
+// TypeScript / JavaScript
+// =============================================================================
+
+const HOOK_NAME = /^use[A-Z0-9]/;
+
+/** Base classes of React class components */
+const COMPONENT_BASES = new Set(["Component", "PureComponent"]);
+
+/** Wrappers whose function argument is a component, e.g. memo(function Card() {}) */
+const COMPONENT_WRAPPERS = new Set(["memo", "forwardRef"]);
+
+type FunctionLike = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some((m) => m.kind === kind);
+}
+
+/** Whether any node under this one matches */
+function contains(node: ts.Node, predicate: (child: ts.Node) => boolean): boolean {
+  return !!ts.forEachChild(node, (child) => predicate(child) || contains(child, predicate));
+}
+
+function isJsx(node: ts.Node): boolean {
+  return ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node);
+}
+
+/** Calls like useState() and React.useState() */
+function isHookCall(node: ts.Node): boolean {
+  if (!ts.isCallExpression(node)) {
+    return false;
+  }
+  const callee = node.expression;
+  const name = ts.isPropertyAccessExpression(callee) ? callee.name : callee;
+  return ts.isIdentifier(name) && HOOK_NAME.test(name.text);
+}
+
+/** Name of a called function: memo for memo() and React.memo() */
+function calleeName(call: ts.CallExpression): string | undefined {
+  const callee = call.expression;
+  const name = ts.isPropertyAccessExpression(callee) ? callee.name : callee;
+  return ts.isIdentifier(name) ? name.text : undefined;
+}
+
+/** Functions rendering JSX are components, functions named use* or calling hooks are hooks */
+function functionKind(name: string, fn: FunctionLike): IdentifierKind {
+  if (contains(fn, isJsx)) {
+    return "component";
+  }
+  return HOOK_NAME.test(name) || contains(fn, isHookCall) ? "hook" : "function";
+}
+
+function classKind(node: ts.ClassDeclaration): IdentifierKind {
+  const extendsClause = node.heritageClauses?.find(
+    (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword
+  );
+  const base = extendsClause?.types[0]?.expression;
+  const baseName = base && ts.isPropertyAccessExpression(base) ? base.name : base;
+  return baseName && ts.isIdentifier(baseName) && COMPONENT_BASES.has(baseName.text)
+    ? "component"
+    : "class";
+}
+
+/** Strip parentheses, type assertions and satisfies, remembering an "as const" */
+function unwrap(expression: ts.Expression): { expression: ts.Expression; asConst: boolean } {
+  let asConst = false;
+  let current = expression;
+  for (;;) {
+    if (ts.isAsExpression(current) || ts.isTypeAssertionExpression(current)) {
+      asConst ||= ts.isConstTypeReference(current.type);
+      current = current.expression;
+    } else if (
+      ts.isParenthesizedExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      current = current.expression;
+    } else {
+      return { expression: current, asConst };
+    }
+  }
+}
+
+/** Literal values: strings, numbers, booleans, null and regexes */
+function isLiteral(expression: ts.Expression): boolean {
+  if (ts.isPrefixUnaryExpression(expression)) {
+    return isLiteral(expression.operand);
+  }
+  return (
+    ts.isLiteralExpression(expression) ||
+    ts.isNoSubstitutionTemplateLiteral(expression) ||
+    expression.kind === ts.SyntaxKind.TrueKeyword ||
+    expression.kind === ts.SyntaxKind.FalseKeyword ||
+    expression.kind === ts.SyntaxKind.NullKeyword
+  );
+}
+
+/**
+ * Classify a variable: functions by what they do, consts holding a literal or
+ * "as const" value are constants, everything else is a variable.
+ */
+function variableKind(
+  name: string,
+  declaration: ts.VariableDeclaration,
+  isConst: boolean
+): IdentifierKind {
+  if (!declaration.initializer) {
+    return "variable";
+  }
+  const { expression, asConst } = unwrap(declaration.initializer);
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+    return functionKind(name, expression);
+  }
+  if (ts.isCallExpression(expression) && COMPONENT_WRAPPERS.has(calleeName(expression) ?? "")) {
+    return "component";
+  }
+  return isConst && (asConst || isLiteral(expression)) ? "constant" : "variable";
+}
+
+/** Top-level declarations of a file, exported or not */
+function collectDeclarations(
+  sourceFile: ts.SourceFile,
+  lineOf: (node: ts.Node) => number
+): { declarations: (Identifier & { exported: boolean })[]; defaultName?: string } {
+  const declarations: (Identifier & { exported: boolean })[] = [];
+  let defaultName: string | undefined;
+
+  const add = (name: ts.Identifier, kind: IdentifierKind, statement: ts.Node): void => {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    declarations.push({ name: name.text, kind, line: lineOf(name), exported });
+    if (exported && hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+      defaultName = name.text;
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+      add(statement.name, functionKind(statement.name.text, statement), statement);
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      add(statement.name, classKind(statement), statement);
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      add(statement.name, "interface", statement);
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      add(statement.name, "type", statement);
+    } else if (ts.isEnumDeclaration(statement)) {
+      add(statement.name, "enum", statement);
+    } else if (ts.isVariableStatement(statement)) {
+      const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          const name = declaration.name;
+          add(name, variableKind(name.text, declaration, isConst), statement);
+        }
+      }
+    }
+  }
+
+  return { declarations, defaultName };
+}
+
+/** Local names exported with export { a, b as c } and export default a */
+function collectExportedNames(sourceFile: ts.SourceFile): { names: Set<string>; default?: string } {
+  const names = new Set<string>();
+  let defaultName: string | undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const { expression } = unwrap(statement.expression);
+      if (ts.isIdentifier(expression)) {
+        defaultName = expression.text;
+      }
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const element of statement.exportClause.elements) {
+        const local = (element.propertyName ?? element.name).text;
+        names.add(local);
+        if (element.name.text === "default") {
+          defaultName = local;
+        }
+      }
+    }
+  }
+
+  return { names, default: defaultName };
+}
+
+/**
+ * Find the exported declarations of a TypeScript or JavaScript file with the TypeScript parser.
+ */
+export function analyzeTypeScriptIdentifiers(fileName: string, content: string): FileIdentifiers {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind(fileName)
+  );
+  const lineOf = (node: ts.Node): number =>
+    sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  const { declarations, defaultName } = collectDeclarations(sourceFile, lineOf);
+  const exports = collectExportedNames(sourceFile);
+
+  const identifiers = declarations
+    .filter((d) => d.exported || exports.names.has(d.name))
+    .map(({ name, kind, line }) => ({ name, kind, line }));
+
+  const defaultExport = declarations.find((d) => d.name === (defaultName ?? exports.default));
+  if (defaultExport?.kind === "component") {
+    return {
+      identifiers,
+      defaultComponent: { name: defaultExport.name, line: defaultExport.line },
+    };
+  }
+  return { identifiers };
+}
+
+// =============================================================================
+// Python
+// =============================================================================
+
+/**
+ * Python helper that finds module-level declarations with the ast module.
+ * Names starting with an underscore are private and skipped. Reads a JSON list of
+ * file paths on stdin and prints { path: Identifier[] | null }, with null for files
+ * that can't be read or parsed.
+ */
+export const PYTHON_IDENTIFIER_ANALYZER = `
+import ast, json, sys
+
+def value_kind(value):
+    if isinstance(value, ast.UnaryOp):
+        value = value.operand
+    return "constant" if isinstance(value, ast.Constant) else "variable"
+
+def identifiers(tree):
+    out = []
+    for node in tree.body:
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            out.append({"name": node.name, "kind": "function", "line": node.lineno})
+        elif isinstance(node, ast.ClassDef):
+            out.append({"name": node.name, "kind": "class", "line": node.lineno})
+        elif isinstance(node, ast.Assign):
+            for target in node.targets:
+                if isinstance(target, ast.Name):
+                    kind = value_kind(node.value)
+                    out.append({"name": target.id, "kind": kind, "line": target.lineno})
+        elif isinstance(node, ast.AnnAssign) and isinstance(node.target, ast.Name):
+            kind = value_kind(node.value) if node.value else "variable"
+            out.append({"name": node.target.id, "kind": kind, "line": node.lineno})
+    return [i for i in out if not i["name"].startswith("_")]
+
+result = {}
+for path in json.load(sys.stdin):
+    try:
+        with open(path, encoding="utf-8") as f:
+            result[path] = identifiers(ast.parse(f.read(), path))
+    except (OSError, SyntaxError, ValueError, UnicodeDecodeError):
+        result[path] = None
+print(json.dumps(result))
+`;
@@ -1,12 +1,32 @@
+import * as fs from "node:fs";
 import * as path from "node:path";
 
+import { execa } from "execa";
 import { glob } from "glob";
 
-import { type CheckResult, type Violation } from "../../core/index.js";
+import { TIMEOUTS } from "../../constants.js";
+import {
+  type CheckResult,
+  CheckResultBuilder,
+  type FileChange,
+  type FixResult,
+  FixResultBuilder,
+  type Violation,
+} from "../../core/index.js";
+import { suppressViolations } from "../../suppressions/index.js";
+import { today } from "./audit-policy.js";
 import { BaseToolRunner } from "./base.js";
-
-/** Supported case types */
-type CaseType = "kebab-case" | "snake_case" | "camelCase" | "PascalCase";
+import {
+  analyzeTypeScriptIdentifiers,
+  type FileIdentifiers,
+  type Identifier,
+  type IdentifierKind,
+  PYTHON_IDENTIFIER_ANALYZER,
+} from "./naming-identifiers.js";
+import { SCRIPT_EXTENSIONS } from "./script-files.js";
+
+/** Supported case types; SCREAMING_SNAKE_CASE is only used for identifiers */
+type CaseType = "kebab-case" | "snake_case" | "camelCase" | "PascalCase" | "SCREAMING_SNAKE_CASE";
 
 /** Single naming rule configuration */
 interface NamingRule {
@@ -17,10 +37,24 @@ interface NamingRule {
   allow_dynamic_routes?: boolean;
 }
 
+/** Naming rule for exported declarations, checked against a case, a regex or both */
+interface IdentifierRule {
+  extensions: string[];
+  kinds: IdentifierKind[];
+  case?: CaseType;
+  pattern?: string;
+  exclude?: string[];
+}
+
 /** Configuration for naming validation */
 interface NamingConfig {
   enabled?: boolean;
   rules?: NamingRule[];
+  identifier_rules?: IdentifierRule[];
+  /** Require .tsx/.jsx files to be named after the component they export by default */
+  component_file_matches_export?: boolean;
+  /** process.tickets.pattern, which conform-allow tickets must match */
+  ticket_pattern?: string;
 }
 
 /** Default directories to exclude */
@@ -37,6 +71,12 @@ const DEFAULT_EXCLUDE = [
   "coverage",
 ];
 
+/** Extensions of files that can default-export a React component */
+const COMPONENT_EXTENSIONS = ["tsx", "jsx"];
+
+/** Extensions analyzed with the Python ast helper */
+const PYTHON_EXTENSIONS = ["py", "pyi"];
+
 /**
  * Check if a string matches kebab-case (lowercase with hyphens)
  * Also allows pure numeric names like "404" for Next.js pages
@@ -85,6 +125,13 @@ function isPascalCase(str: string): boolean {
   return /^[A-Z][a-zA-Z0-9]*$/.test(str);
 }
 
+/**
+ * Check if a string matches SCREAMING_SNAKE_CASE (uppercase with underscores)
+ */
+function isScreamingSnakeCase(str: string): boolean {
+  return /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/.test(str);
+}
+
 /**
  * Check if a string matches the specified case type
  */
@@ -98,6 +145,8 @@ function matchesCase(str: string, caseType: CaseType): boolean {
       return isCamelCase(str);
     case "PascalCase":
       return isPascalCase(str);
+    case "SCREAMING_SNAKE_CASE":
+      return isScreamingSnakeCase(str);
     default: {
       const exhaustiveCheck: never = caseType;
       throw new Error(`Unknown case type: ${exhaustiveCheck}`);
@@ -105,6 +154,46 @@ function matchesCase(str: string, caseType: CaseType): boolean {
   }
 }
 
+/** Split a name into lowercase words at separators and case boundaries */
+function splitWords(str: string): string[] {
+  return str
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Convert a name to the given case, or null if the result still doesn't match
+ */
+function convertCase(str: string, caseType: CaseType): string | null {
+  const words = splitWords(str);
+  let converted: string;
+  switch (caseType) {
+    case "kebab-case":
+      converted = words.join("-");
+      break;
+    case "snake_case":
+      converted = words.join("_");
+      break;
+    case "camelCase":
+      converted = words.map((w, i) => (i === 0 ? w : capitalize(w))).join("");
+      break;
+    case "PascalCase":
+      converted = words.map(capitalize).join("");
+      break;
+    case "SCREAMING_SNAKE_CASE":
+      converted = words.join("_").toUpperCase();
+      break;
+  }
+  return converted && matchesCase(converted, caseType) ? converted : null;
+}
+
 /**
  * Get the base name of a file without extension
  * Handles multiple extensions like .test.ts, .spec.js
@@ -116,6 +205,11 @@ function getBaseName(filePath: string): string {
   return parts[0];
 }
 
+/** Lowercase words of a name joined together, to compare names across cases */
+function normalizeName(str: string): string {
+  return splitWords(str).join("");
+}
+
 /**
  * Check if a file should be skipped (special files like __init__.py)
  */
@@ -167,7 +261,9 @@ function extractDynamicRouteContent(folderName: string): string | null {
 }
 
 /**
- * Naming conventions runner for checking file and folder names
+ * Naming conventions runner for checking file and folder names, and the names of
+ * exported declarations (TypeScript compiler API, Python ast via python3).
+ * A file can keep its name with a conform-allow: naming comment anywhere in it.
  */
 export class NamingRunner extends BaseToolRunner {
   readonly name = "Naming";
@@ -184,20 +280,54 @@ export class NamingRunner extends BaseToolRunner {
     this.config = config;
   }
 
+  get sourcePatterns(): string[] {
+    const extensionLists = [
+      ...(this.config.rules ?? []).map((rule) => rule.extensions),
+      ...(this.config.identifier_rules ?? []).map((rule) => rule.extensions),
+    ];
+    if (this.config.component_file_matches_export) {
+      extensionLists.push(COMPONENT_EXTENSIONS);
+    }
+    return extensionLists.map((extensions) => this.buildGlobPattern(extensions));
+  }
+
+  /** Built-in check; conform-allow comments add the date (expiry) and the ticket pattern */
+  async cacheKey(): Promise<string> {
+    return ["builtin", today(), this.config.ticket_pattern ?? ""].join("\n");
+  }
+
   async run(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
 
     const rules = this.config.rules ?? [];
-    if (rules.length === 0) {
+    const identifierRules = this.config.identifier_rules ?? [];
+    if (
+      rules.length === 0 &&
+      identifierRules.length === 0 &&
+      !this.config.component_file_matches_export
+    ) {
       return this.pass(Date.now() - startTime);
     }
 
     try {
       const ruleResults = await Promise.all(rules.map((rule) => this.checkRule(projectRoot, rule)));
-      const violations = ruleResults.flat();
+      const identifiers = await this.checkIdentifiers(projectRoot);
+      const violations = suppressViolations(
+        projectRoot,
+        [...ruleResults.flat(), ...identifiers.violations],
+        { tool: this.toolId, rule: `${this.rule}.${this.toolId}` },
+        { ticketPattern: this.config.ticket_pattern }
+      );
 
       if (violations.length === 0) {
-        return this.pass(Date.now() - startTime);
+        return identifiers.pythonMissing
+          ? CheckResultBuilder.skip(
+              this.name,
+              this.rule,
+              "python3 not installed, so Python identifiers were not checked",
+              Date.now() - startTime
+            )
+          : this.pass(Date.now() - startTime);
       }
 
       return this.fail(violations, Date.now() - startTime);
@@ -211,9 +341,12 @@ export class NamingRunner extends BaseToolRunner {
   }
 
   /**
-   * Check a single naming rule against the project
+   * Find the files a naming or identifier rule applies to
    */
-  private async checkRule(projectRoot: string, rule: NamingRule): Promise<Violation[]> {
+  private async findRuleFiles(
+    projectRoot: string,
+    rule: Pick<NamingRule, "extensions" | "exclude">
+  ): Promise<string[]> {
     const pattern = this.buildGlobPattern(rule.extensions);
 
     // Combine default excludes with rule-specific excludes
@@ -227,6 +360,14 @@ export class NamingRunner extends BaseToolRunner {
       ignore: ignorePatterns,
       nodir: true,
     });
+    return this.filterTargetFiles(files);
+  }
+
+  /**
+   * Check a single naming rule against the project
+   */
+  private async checkRule(projectRoot: string, rule: NamingRule): Promise<Violation[]> {
+    const files = await this.findRuleFiles(projectRoot, rule);
 
     const { violations: fileViolations, folders } = this.checkFiles(files, rule);
     const folderViolations = this.checkFolders(
@@ -238,6 +379,186 @@ export class NamingRunner extends BaseToolRunner {
     return [...fileViolations, ...folderViolations];
   }
 
+  /**
+   * Check exported declarations against the identifier rules, and component file names.
+   * pythonMissing is set when Python files couldn't be checked without python3.
+   */
+  private async checkIdentifiers(
+    projectRoot: string
+  ): Promise<{ violations: Violation[]; pythonMissing: boolean }> {
+    const identifierRules = this.config.identifier_rules ?? [];
+    const ruleFiles = await Promise.all(
+      identifierRules.map((rule) => this.findRuleFiles(projectRoot, rule))
+    );
+    const componentFiles = this.config.component_file_matches_export
+      ? await this.findRuleFiles(projectRoot, { extensions: COMPONENT_EXTENSIONS })
+      : [];
+    const files = [...new Set([...ruleFiles.flat(), ...componentFiles])].sort();
+    if (files.length === 0) {
+      return { violations: [], pythonMissing: false };
+    }
+
+    const { results, pythonMissing } = await this.analyzeFiles(projectRoot, files);
+    const violations: Violation[] = [];
+
+    identifierRules.forEach((rule, i) => {
+      for (const file of ruleFiles[i]) {
+        for (const identifier of results.get(file)?.identifiers ?? []) {
+          if (
+            rule.kinds.includes(identifier.kind) &&
+            !this.matchesIdentifierRule(identifier, rule)
+          ) {
+            violations.push(this.createIdentifierViolation(file, identifier, rule));
+          }
+        }
+      }
+    });
+
+    for (const file of componentFiles) {
+      const component = results.get(file)?.defaultComponent;
+      const baseName = getBaseName(file);
+      if (
+        component &&
+        baseName !== "index" &&
+        !isSpecialFile(baseName) &&
+        normalizeName(baseName) !== normalizeName(component.name)
+      ) {
+        violations.push(this.createComponentFileViolation(file, baseName, component));
+      }
+    }
+
+    return { violations, pythonMissing };
+  }
+
+  private matchesIdentifierRule(identifier: Identifier, rule: IdentifierRule): boolean {
+    return (
+      (!rule.case || matchesCase(identifier.name, rule.case)) &&
+      (!rule.pattern || new RegExp(rule.pattern).test(identifier.name))
+    );
+  }
+
+  /**
+   * Find the exported declarations of each file.
+   * Python files are left out when python3 isn't installed.
+   */
+  private async analyzeFiles(
+    projectRoot: string,
+    files: string[]
+  ): Promise<{ results: Map<string, FileIdentifiers>; pythonMissing: boolean }> {
+    const results = new Map<string, FileIdentifiers>();
+    const extensionOf = (file: string): string => path.extname(file).slice(1);
+
+    for (const file of files.filter((f) => SCRIPT_EXTENSIONS.includes(extensionOf(f)))) {
+      const content = fs.readFileSync(path.join(projectRoot, file), "utf-8");
+      results.set(file, analyzeTypeScriptIdentifiers(file, content));
+    }
+
+    const pythonFiles = files.filter((f) => PYTHON_EXTENSIONS.includes(extensionOf(f)));
+    if (pythonFiles.length === 0) {
+      return { results, pythonMissing: false };
+    }
+    const pythonResults = await this.analyzePython(projectRoot, pythonFiles);
+    for (const [file, identifiers] of Object.entries(pythonResults ?? {})) {
+      if (identifiers) {
+        results.set(file, { identifiers });
+      }
+    }
+    return { results, pythonMissing: pythonResults === null };
+  }
+
+  /**
+   * Find module-level declarations in Python files with the ast helper.
+   * Files that don't parse map to null; returns null if python3 isn't installed.
+   */
+  private async analyzePython(
+    projectRoot: string,
+    files: string[]
+  ): Promise<Record<string, Identifier[] | null> | null> {
+    try {
+      const result = await execa("python3", ["-c", PYTHON_IDENTIFIER_ANALYZER], {
+        cwd: projectRoot,
+        input: JSON.stringify(files),
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+      if (result.exitCode !== 0) {
+        throw new Error(`python3 error: ${String(result.stderr || result.stdout).trim()}`);
+      }
+      return JSON.parse(String(result.stdout)) as Record<string, Identifier[] | null>;
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compute file renames for file names in the wrong case.
+   * Only files still reported by run() are renamed, so conform-allow comments are honored.
+   * Folder renames and renames that would overwrite a file need manual work.
+   */
+  async fix(projectRoot: string): Promise<FixResult> {
+    const result = await this.run(projectRoot);
+    const reported = new Set(
+      result.violations.filter((v) => v.code === "file-case" && v.file).map((v) => v.file)
+    );
+    const renames = new Map<string, string>();
+
+    for (const rule of this.config.rules ?? []) {
+      for (const file of await this.findRuleFiles(projectRoot, rule)) {
+        const target = reported.has(file) ? this.getRenameTarget(file, rule.file_case) : null;
+        if (target && !renames.has(file) && this.canRename(projectRoot, file, target, renames)) {
+          renames.set(file, target);
+        }
+      }
+    }
+
+    const changes: FileChange[] = [...renames].map(([file, renameTo]) => {
+      const content = fs.readFileSync(path.join(projectRoot, file), "utf-8");
+      return {
+        file,
+        before: content,
+        after: content,
+        renameTo,
+        description: `Rename to ${path.basename(renameTo)} (update imports that reference it)`,
+      };
+    });
+    const remaining = result.violations.filter(
+      (v) => !(v.code === "file-case" && v.file && renames.has(v.file))
+    );
+    return FixResultBuilder.create(this.name, this.rule, changes, remaining);
+  }
+
+  /** Get the renamed path for a file in the wrong case, or null */
+  private getRenameTarget(file: string, fileCase: CaseType): string | null {
+    const baseName = getBaseName(file);
+    if (!baseName || isSpecialFile(baseName) || matchesCase(baseName, fileCase)) {
+      return null;
+    }
+    const converted = convertCase(baseName, fileCase);
+    if (!converted) {
+      return null;
+    }
+    const fileName = path.basename(file);
+    return path.join(path.dirname(file), converted + fileName.slice(baseName.length));
+  }
+
+  /** Check that a rename doesn't overwrite an existing or already-planned file */
+  private canRename(
+    projectRoot: string,
+    file: string,
+    target: string,
+    renames: Map<string, string>
+  ): boolean {
+    if ([...renames.values()].includes(target)) {
+      return false;
+    }
+    // A case-only rename targets the same file on case-insensitive file systems
+    const caseOnly = file.toLowerCase() === target.toLowerCase();
+    return caseOnly || !fs.existsSync(path.join(projectRoot, target));
+  }
+
   /**
    * Check file names and collect folders containing matching files
    */
@@ -371,6 +692,41 @@ export class NamingRunner extends BaseToolRunner {
     };
   }
 
+  private createIdentifierViolation(
+    file: string,
+    identifier: Identifier,
+    rule: IdentifierRule
+  ): Violation {
+    const expected = [rule.case && `be ${rule.case}`, rule.pattern && `match ${rule.pattern}`]
+      .filter(Boolean)
+      .join(" and ");
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file,
+      line: identifier.line,
+      message: `${capitalize(identifier.kind)} "${identifier.name}" should ${expected}`,
+      code: "identifier-case",
+      severity: "error",
+    };
+  }
+
+  private createComponentFileViolation(
+    file: string,
+    baseName: string,
+    component: { name: string; line: number }
+  ): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file,
+      line: component.line,
+      message: `File "${baseName}" should be named after its default export "${component.name}"`,
+      code: "component-file-name",
+      severity: "error",
+    };
+  }
+
   private createErrorViolation(message: string): Violation {
     return {
       rule: `${this.rule}.${this.toolId}`,
@@ -0,0 +1,82 @@
+import { type AuditSeverity } from "./audit-policy.js";
+import { BaseJsAuditRunner, ghsaFromUrl, type JsAdvisory } from "./js-audit.js";
+
+/** An advisory in npm audit's "via" list (strings refer to other vulnerable packages) */
+interface NpmVia {
+  source: number;
+  name: string;
+  title: string;
+  url: string;
+  severity: AuditSeverity;
+  /** Vulnerable version range */
+  range: string;
+}
+
+/** npm audit (v7+) vulnerability entry, keyed by package name */
+interface NpmVulnerability {
+  name: string;
+  via: (NpmVia | string)[];
+  /** Install locations, e.g. "node_modules/express/node_modules/qs" */
+  nodes: string[];
+  fixAvailable: boolean | { name: string; version: string; isSemVerMajor: boolean };
+}
+
+/** npm audit --json output format */
+interface NpmAuditOutput {
+  vulnerabilities?: Record<string, NpmVulnerability>;
+}
+
+/**
+ * npm dependency audit tool runner for detecting vulnerabilities.
+ * Reads the npm 7+ audit report format.
+ */
+export class NpmAuditRunner extends BaseJsAuditRunner {
+  readonly name = "npmaudit";
+  readonly toolId = "npmaudit";
+  readonly configFiles = ["package-lock.json", "npm-shrinkwrap.json"];
+  protected readonly command = "npm";
+
+  protected buildArgs(excludeDev: boolean): string[] {
+    return excludeDev ? ["audit", "--json", "--omit=dev"] : ["audit", "--json"];
+  }
+
+  protected parseAdvisories(output: string): JsAdvisory[] | null {
+    let result: NpmAuditOutput;
+    try {
+      result = JSON.parse(output) as NpmAuditOutput;
+    } catch {
+      return null;
+    }
+    // Errors (e.g. ENOLOCK) are printed as { error: {...} }
+    if (!result.vulnerabilities) {
+      return null;
+    }
+
+    return Object.values(result.vulnerabilities).flatMap((vulnerability) =>
+      vulnerability.via
+        .filter((via): via is NpmVia => typeof via === "object")
+        .map((via) => ({
+          id: ghsaFromUrl(via.url) ?? String(via.source),
+          aliases: [String(via.source)],
+          module: via.name,
+          title: via.title,
+          severity: via.severity,
+          paths: vulnerability.nodes,
+          fixable: vulnerability.fixAvailable !== false,
+          remediation: this.formatRemediation(vulnerability, via),
+        }))
+    );
+  }
+
+  private formatRemediation(vulnerability: NpmVulnerability, via: NpmVia): string {
+    const fix = vulnerability.fixAvailable;
+    if (fix === false) {
+      return `vulnerable: ${via.range}, no fix available`;
+    }
+    if (fix === true) {
+      return `vulnerable: ${via.range}, fix: npm audit fix`;
+    }
+    const breaking = fix.isSemVerMajor ? ", breaking" : "";
+    return `vulnerable: ${via.range}, fix: ${fix.name}@${fix.version}${breaking}`;
+  }
+}
@@ -0,0 +1,277 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import { CheckResultBuilder, type CheckResult, type Violation } from "../../core/index.js";
+import { BaseToolRunner } from "./base.js";
+import { stripJsonComments } from "./jsonc.js";
+import { compareRules, type RuleValue } from "./rule-audit.js";
+
+/** oxlint JSON output diagnostic format */
+interface OxlintDiagnostic {
+  message: string;
+  /** e.g. "eslint(no-debugger)" or "typescript-eslint(no-explicit-any)" */
+  code?: string;
+  severity?: string;
+  filename?: string;
+  labels?: { span?: { line?: number; column?: number } }[];
+}
+
+/** oxlint configuration options */
+interface OxlintConfig {
+  enabled?: boolean;
+  ignore?: string[];
+  rules?: Record<string, RuleValue>;
+}
+
+/** File extensions oxlint lints */
+const OXLINT_EXTENSIONS = [
+  ".js",
+  ".mjs",
+  ".cjs",
+  ".jsx",
+  ".ts",
+  ".mts",
+  ".cts",
+  ".tsx",
+  ".vue",
+  ".svelte",
+  ".astro",
+];
+
+/**
+ * Canonical rule name, so "no-debugger", "eslint/no-debugger" and
+ * "@typescript-eslint/no-explicit-any" match oxlint's "typescript/no-explicit-any"
+ */
+function canonicalRuleName(name: string): string {
+  return name
+    .replace(/^eslint\//, "")
+    .replace(/^@typescript-eslint\//, "typescript/")
+    .replace(/^typescript-eslint\//, "typescript/");
+}
+
+/**
+ * oxlint tool runner
+ */
+export class OxlintRunner extends BaseToolRunner {
+  readonly name = "oxlint";
+  readonly rule = "code.linting";
+  readonly toolId = "oxlint";
+  readonly configFiles = [".oxlintrc.json"];
+  readonly sourcePatterns = [`**/*{${OXLINT_EXTENSIONS.join(",")}}`];
+
+  private config: OxlintConfig = {};
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.findPackageVersion(projectRoot, "oxlint");
+  }
+
+  /**
+   * Set oxlint configuration options
+   */
+  setConfig(config: OxlintConfig): void {
+    this.config = config;
+  }
+
+  async run(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+
+    const configFile = this.findConfig(projectRoot);
+    if (configFile === null) {
+      return this.failNoConfig(Date.now() - startTime);
+    }
+
+    const targets = this.getLintTargets();
+    if (targets?.length === 0) {
+      return this.pass(Date.now() - startTime);
+    }
+
+    try {
+      const result = await execa("npx", ["oxlint", ...this.buildArgs(configFile, targets)], {
+        cwd: projectRoot,
+        reject: false,
+        timeout: TIMEOUTS.codeTool,
+      });
+
+      const violations = this.parseOutput(result.stdout, projectRoot);
+
+      // Handle parse failure with non-zero exit
+      if (violations === null && result.exitCode !== 0) {
+        const output = String(result.stderr || result.stdout || "Unknown error").trim();
+        return this.fail(
+          [this.createErrorViolation(`oxlint error: ${output}`)],
+          Date.now() - startTime
+        );
+      }
+
+      return this.fromViolations(violations ?? [], Date.now() - startTime);
+    } catch (error) {
+      if (this.isNotInstalledError(error)) {
+        return this.skipNotInstalled(Date.now() - startTime);
+      }
+
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return this.fail(
+        [this.createErrorViolation(`oxlint error: ${message}`)],
+        Date.now() - startTime
+      );
+    }
+  }
+
+  /**
+   * Audit oxlint config - verify config exists and required rules are configured
+   */
+  async audit(projectRoot: string): Promise<CheckResult> {
+    const startTime = Date.now();
+    const elapsed = (): number => Date.now() - startTime;
+
+    const configFile = this.findConfig(projectRoot);
+    if (configFile === null) {
+      return this.fail(
+        [
+          this.createAuditViolation(
+            `${this.name} config not found. Expected one of: ${this.configFiles.join(", ")}`
+          ),
+        ],
+        elapsed()
+      );
+    }
+
+    const required = this.config.rules ?? {};
+    if (Object.keys(required).length === 0) {
+      return CheckResultBuilder.pass(`${this.name} Config`, this.rule, elapsed());
+    }
+
+    const configured = this.readConfiguredRules(projectRoot, configFile);
+    const violations =
+      "error" in configured
+        ? [this.createAuditViolation(configured.error, configFile)]
+        : compareRules(required, this.toEffectiveRules(required, configured.rules)).map(
+            (message) => this.createAuditViolation(message, configFile)
+          );
+
+    return CheckResultBuilder.fromViolations(
+      `${this.name} Config`,
+      this.rule,
+      violations,
+      elapsed()
+    );
+  }
+
+  /**
+   * Read the top-level rules from .oxlintrc.json, keyed by canonical rule name.
+   * Rules enabled only through categories or overrides are not listed.
+   */
+  private readConfiguredRules(
+    projectRoot: string,
+    configFile: string
+  ): { rules: Record<string, unknown[]> } | { error: string } {
+    let rules: Record<string, unknown>;
+    try {
+      const content = fs.readFileSync(path.resolve(projectRoot, configFile), "utf-8");
+      const config = JSON.parse(stripJsonComments(content)) as { rules?: Record<string, unknown> };
+      rules = config.rules ?? {};
+    } catch {
+      return { error: `Failed to parse ${path.basename(configFile)}` };
+    }
+
+    return {
+      rules: Object.fromEntries(
+        Object.entries(rules).map(([name, value]) => [
+          canonicalRuleName(name),
+          Array.isArray(value) ? value : [value],
+        ])
+      ),
+    };
+  }
+
+  /** Look up each required rule under its canonical name */
+  private toEffectiveRules(
+    required: Record<string, RuleValue>,
+    configured: Record<string, unknown[]>
+  ): Record<string, unknown[]> {
+    const effective: Record<string, unknown[]> = {};
+    for (const ruleName of Object.keys(required)) {
+      const value = configured[canonicalRuleName(ruleName)];
+      if (value) {
+        effective[ruleName] = value;
+      }
+    }
+    return effective;
+  }
+
+  /** Changed files oxlint can lint, or null when linting the whole project */
+  private getLintTargets(): string[] | null {
+    if (this.targetFiles === null) {
+      return null;
+    }
+    return this.targetFiles.filter((file) => OXLINT_EXTENSIONS.includes(path.extname(file)));
+  }
+
+  private buildArgs(configFile: string, targets: string[] | null): string[] {
+    const args = ["--config", configFile, "--format=json"];
+    for (const pattern of this.config.ignore ?? []) {
+      args.push("--ignore-pattern", pattern);
+    }
+    args.push(...(targets ?? ["."]));
+    return args;
+  }
+
+  /** oxlint prints { diagnostics: [...] }; older versions print a bare array */
+  private parseOutput(stdout: string, projectRoot: string): Violation[] | null {
+    let diagnostics: OxlintDiagnostic[];
+    try {
+      const parsed = JSON.parse(stdout) as OxlintDiagnostic[] | { diagnostics?: OxlintDiagnostic[] };
+      diagnostics = Array.isArray(parsed) ? parsed : (parsed.diagnostics ?? []);
+    } catch {
+      return null;
+    }
+    return diagnostics.map((d) => this.toViolation(d, projectRoot));
+  }
+
+  private toViolation(diagnostic: OxlintDiagnostic, projectRoot: string): Violation {
+    const span = diagnostic.labels?.[0]?.span;
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: diagnostic.filename
+        ? path.relative(projectRoot, path.resolve(projectRoot, diagnostic.filename))
+        : undefined,
+      line: span?.line,
+      column: span?.column,
+      message: diagnostic.message,
+      code: diagnostic.code ? this.toRuleName(diagnostic.code) : undefined,
+      severity: diagnostic.severity === "error" ? "error" : "warning",
+    };
+  }
+
+  /** "eslint(no-debugger)" -> "no-debugger", "typescript-eslint(x)" -> "typescript/x" */
+  private toRuleName(code: string): string {
+    const match = /^([\w-]+)\((.+)\)$/.exec(code);
+    if (!match) {
+      return code;
+    }
+    return canonicalRuleName(`${match[1]}/${match[2]}`);
+  }
+
+  private createAuditViolation(message: string, file?: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: "audit",
+      ...(file && { file }),
+      message,
+      severity: "error",
+    };
+  }
+
+  private createErrorViolation(message: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      message,
+      severity: "error",
+    };
+  }
+}
@@ -4,6 +4,12 @@ import { execa } from "execa";
 
 import { TIMEOUTS } from "../../constants.js";
 import { type CheckResult, type Violation } from "../../core/index.js";
+import {
+  type AuditFinding,
+  type AuditPolicyConfig,
+  getExpiredIgnores,
+  isSuppressed,
+} from "./audit-policy.js";
 import { BaseToolRunner } from "./base.js";
 
 /** pip-audit vulnerability entry */
@@ -14,24 +20,37 @@ interface PipAuditVulnerability {
   description: string;
 }
 
-/** pip-audit package entry */
+/** pip-audit package entry; skipped packages have no vulns */
 interface PipAuditPackage {
   name: string;
-  version: string;
-  vulns: PipAuditVulnerability[];
+  version?: string;
+  vulns?: PipAuditVulnerability[];
 }
 
-/** pip-audit JSON output format */
-type PipAuditOutput = PipAuditPackage[];
+/** pip-audit JSON output format (older versions print a bare package list) */
+type PipAuditOutput = { dependencies: PipAuditPackage[] } | PipAuditPackage[];
+
+/** pip-audit configuration */
+export interface PipAuditConfig extends AuditPolicyConfig {
+  enabled?: boolean;
+}
 
 /**
- * pip-audit tool runner for detecting Python dependency vulnerabilities
+ * pip-audit tool runner for detecting Python dependency vulnerabilities.
+ * pip-audit doesn't report severities, so min_severity only applies to pnpm audit.
  */
 export class PipAuditRunner extends BaseToolRunner {
   readonly name = "pipaudit";
   readonly rule = "code.security";
   readonly toolId = "pipaudit";
   readonly configFiles = ["requirements.txt", "pyproject.toml", "setup.py"];
+  readonly sourcePatterns: string[] = [];
+
+  private config: PipAuditConfig = { enabled: false };
+
+  setConfig(config: PipAuditConfig): void {
+    this.config = { ...this.config, ...config };
+  }
 
   async run(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
@@ -101,25 +120,45 @@ export class PipAuditRunner extends BaseToolRunner {
   private parseOutput(output: string): Violation[] | null {
     try {
       const result = JSON.parse(output) as PipAuditOutput;
+      const packages = Array.isArray(result) ? result : result.dependencies;
       const violations: Violation[] = [];
-
-      for (const pkg of result) {
-        for (const vuln of pkg.vulns) {
-          const severity = this.mapSeverity(vuln);
-          const fixInfo = this.getFixInfo(vuln);
+      const reported: AuditFinding[] = [];
+      const file = this.findDependencyFile();
+
+      for (const pkg of packages) {
+        for (const vuln of pkg.vulns ?? []) {
+          const finding = {
+            ids: [vuln.id, ...vuln.aliases],
+            fixable: vuln.fix_versions.length > 0,
+          };
+          if (isSuppressed(finding, this.config)) {
+            continue;
+          }
+          reported.push(finding);
           const vulnId = vuln.aliases.length > 0 ? vuln.aliases[0] : vuln.id;
 
           violations.push({
             rule: `${this.rule}.${this.toolId}`,
             tool: this.toolId,
-            file: this.findDependencyFile(pkg.name),
-            message: `${pkg.name}@${pkg.version}: ${vulnId}${fixInfo}`,
+            file,
+            message: `${pkg.name}@${pkg.version ?? "unknown"}: ${vulnId}${this.getFixInfo(vuln)}`,
             code: vuln.id,
-            severity,
+            severity: this.mapSeverity(vuln),
           });
         }
       }
 
+      for (const entry of getExpiredIgnores(this.config, reported)) {
+        violations.push({
+          rule: `${this.rule}.${this.toolId}`,
+          tool: this.toolId,
+          file,
+          message: `Ignore for ${entry.id} expired on ${entry.expires} (${entry.reason})`,
+          code: entry.id,
+          severity: "error",
+        });
+      }
+
       return violations;
     } catch {
       return null;
@@ -136,12 +175,12 @@ export class PipAuditRunner extends BaseToolRunner {
     if (vuln.fix_versions.length === 0) {
       return " (no fix available)";
     }
-    return ` (fix: ${vuln.fix_versions[0]})`;
+    return ` (fix: ${vuln.fix_versions.join(", ")})`;
   }
 
   private projectRoot = "";
 
-  private findDependencyFile(_pkgName: string): string | undefined {
+  private findDependencyFile(): string | undefined {
     // Check which dependency files actually exist and return the first one found
     // We can't determine which exact file contains the package without parsing,
     // so return the first existing file or undefined if none found
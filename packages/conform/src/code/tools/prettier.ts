@@ -0,0 +1,122 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import TOML from "@iarna/toml";
+import * as yaml from "js-yaml";
+
+import { BaseFormatterRunner, type FormatterOptions, type FormatterOutput } from "./formatter.js";
+
+/** Config files Prettier reads as JSON or YAML (JSON is valid YAML) */
+const YAML_CONFIGS = [".prettierrc", ".prettierrc.json", ".prettierrc.yaml", ".prettierrc.yml"];
+
+/**
+ * Prettier formatter tool runner
+ */
+export class PrettierRunner extends BaseFormatterRunner {
+  readonly name = "Prettier";
+  readonly toolId = "prettier";
+  readonly configFiles = [
+    ".prettierrc",
+    ".prettierrc.json",
+    ".prettierrc.yaml",
+    ".prettierrc.yml",
+    ".prettierrc.toml",
+    ".prettierrc.json5",
+    ".prettierrc.js",
+    ".prettierrc.mjs",
+    ".prettierrc.cjs",
+    "prettier.config.js",
+    "prettier.config.mjs",
+    "prettier.config.cjs",
+  ];
+  readonly sourcePatterns = ["**/*"]; // Prettier formats most file types
+
+  protected readonly formatCommand = "prettier --write";
+
+  /** Prettier 3 defaults */
+  protected readonly defaultOptions = {
+    printWidth: 80,
+    tabWidth: 2,
+    useTabs: false,
+    semi: true,
+    singleQuote: false,
+    jsxSingleQuote: false,
+    quoteProps: "as-needed",
+    trailingComma: "all",
+    bracketSpacing: true,
+    arrowParens: "always",
+    endOfLine: "lf",
+  };
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.findPackageVersion(projectRoot, "prettier");
+  }
+
+  protected get expectedConfigs(): string[] {
+    return [...this.configFiles, 'package.json "prettier" key'];
+  }
+
+  protected buildCommand(targets: string[] | null): [string, string[]] {
+    return ["npx", ["prettier", "--list-different", "--ignore-unknown", ...(targets ?? ["."])]];
+  }
+
+  /** --list-different prints unformatted files and exits 1; exit 2 means Prettier failed */
+  protected parseUnformatted(output: FormatterOutput): string[] | null {
+    if (output.exitCode !== 0 && output.exitCode !== 1) {
+      return null;
+    }
+    return output.stdout
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Override hasConfig to also check for a "prettier" key in package.json
+   */
+  protected override hasConfig(projectRoot: string): boolean {
+    return super.hasConfig(projectRoot) || this.readPackageJsonConfig(projectRoot) !== undefined;
+  }
+
+  private readPackageJsonConfig(projectRoot: string): unknown {
+    try {
+      const content = fs.readFileSync(path.join(projectRoot, "package.json"), "utf-8");
+      return (JSON.parse(content) as { prettier?: unknown }).prettier;
+    } catch {
+      return undefined;
+    }
+  }
+
+  protected readOptions(projectRoot: string): FormatterOptions {
+    const configFile = this.findConfig(projectRoot);
+    if (configFile === null) {
+      return this.toOptions("package.json", this.readPackageJsonConfig(projectRoot));
+    }
+
+    const name = path.basename(configFile);
+    if (!YAML_CONFIGS.includes(name) && name !== ".prettierrc.toml") {
+      return {
+        file: configFile,
+        error: `Cannot audit options in ${name}: use a JSON, YAML or TOML Prettier config`,
+      };
+    }
+
+    try {
+      const content = fs.readFileSync(path.resolve(projectRoot, configFile), "utf-8");
+      const parsed = name === ".prettierrc.toml" ? TOML.parse(content) : yaml.load(content);
+      return this.toOptions(configFile, parsed);
+    } catch {
+      return { file: configFile, error: `Failed to parse ${name}` };
+    }
+  }
+
+  private toOptions(file: string, config: unknown): FormatterOptions {
+    if (typeof config === "string") {
+      return { file, error: `Cannot audit options in shared Prettier config "${config}"` };
+    }
+    if (typeof config !== "object" || config === null) {
+      return { file, options: {} };
+    }
+    return { file, options: config as Record<string, unknown> };
+  }
+}
@@ -0,0 +1,157 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import TOML from "@iarna/toml";
+import { execa } from "execa";
+
+import { TIMEOUTS } from "../../constants.js";
+import {
+  type FileChange,
+  type FixResult,
+  FixResultBuilder,
+  type Violation,
+} from "../../core/index.js";
+import { BaseFormatterRunner, type FormatterOptions, type FormatterOutput } from "./formatter.js";
+
+/** Python source file extensions */
+const PYTHON_EXTENSIONS = [".py", ".pyi"];
+
+/** Ruff settings that apply to the formatter, as found in ruff.toml or [tool.ruff] */
+interface RuffSettings {
+  "line-length"?: number;
+  "indent-width"?: number;
+  format?: Record<string, unknown>;
+}
+
+/**
+ * Ruff formatter (ruff format) tool runner
+ */
+export class RuffFormatRunner extends BaseFormatterRunner {
+  readonly name = "Ruff Format";
+  readonly toolId = "ruff-format";
+  readonly configFiles = ["ruff.toml", ".ruff.toml"];
+  readonly sourcePatterns = ["**/*.py", "**/*.pyi", "pyproject.toml"];
+
+  protected readonly formatCommand = "ruff format";
+
+  /** Ruff formatter defaults */
+  protected readonly defaultOptions = {
+    "line-length": 88,
+    "indent-width": 4,
+    "quote-style": "double",
+    "indent-style": "space",
+    "skip-magic-trailing-comma": false,
+    "line-ending": "auto",
+  };
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "ruff");
+  }
+
+  protected get expectedConfigs(): string[] {
+    return [...this.configFiles, "pyproject.toml [tool.ruff.format]"];
+  }
+
+  protected override getTargets(): string[] | null {
+    if (this.targetFiles === null) {
+      return null;
+    }
+    return this.targetFiles.filter((file) => PYTHON_EXTENSIONS.includes(path.extname(file)));
+  }
+
+  protected buildCommand(targets: string[] | null): [string, string[]] {
+    return ["ruff", ["format", "--check", ...(targets ?? ["."])]];
+  }
+
+  /** --check prints "Would reformat: <file>" and exits 1; exit 2 means Ruff failed */
+  protected parseUnformatted(output: FormatterOutput): string[] | null {
+    if (output.exitCode !== 0 && output.exitCode !== 1) {
+      return null;
+    }
+    return output.stdout
+      .split("\n")
+      .map((line) => /^Would reformat:\s*(.+)$/.exec(line.trim())?.[1])
+      .filter((file): file is string => file !== undefined);
+  }
+
+  /**
+   * Compute ruff format changes for the files the check reports as unformatted.
+   * Files Ruff can't format (e.g. syntax errors) stay as remaining violations.
+   */
+  async fix(projectRoot: string): Promise<FixResult> {
+    const result = await this.run(projectRoot);
+    if (result.skipped) {
+      return FixResultBuilder.skip(this.name, this.rule, result.skipReason ?? "Skipped");
+    }
+
+    const changes: FileChange[] = [];
+    const remaining: Violation[] = [];
+    for (const violation of result.violations) {
+      const change = violation.file ? await this.formatFile(projectRoot, violation.file) : null;
+      if (change) {
+        changes.push(change);
+      } else {
+        remaining.push(violation);
+      }
+    }
+    return FixResultBuilder.create(this.name, this.rule, changes, remaining);
+  }
+
+  /** Format a single file by piping it through ruff format */
+  private async formatFile(projectRoot: string, file: string): Promise<FileChange | null> {
+    const before = fs.readFileSync(path.join(projectRoot, file), "utf-8");
+    const result = await execa("ruff", ["format", "--stdin-filename", file, "-"], {
+      cwd: projectRoot,
+      input: before,
+      reject: false,
+      timeout: TIMEOUTS.codeTool,
+    });
+
+    const after = String(result.stdout ?? "");
+    if (result.exitCode !== 0 || !after || after === before) {
+      return null;
+    }
+    return { file, before, after, description: "Apply Ruff formatting" };
+  }
+
+  /**
+   * Override hasConfig to also check for [tool.ruff.format] in pyproject.toml
+   */
+  protected override hasConfig(projectRoot: string): boolean {
+    return super.hasConfig(projectRoot) || this.hasPyprojectConfig(projectRoot);
+  }
+
+  private hasPyprojectConfig(projectRoot: string): boolean {
+    try {
+      const content = fs.readFileSync(path.join(projectRoot, "pyproject.toml"), "utf-8");
+      return content.includes("[tool.ruff.format]");
+    } catch {
+      return false;
+    }
+  }
+
+  protected readOptions(projectRoot: string): FormatterOptions {
+    const configFile = this.findConfig(projectRoot) ?? "pyproject.toml";
+    const name = path.basename(configFile);
+
+    let settings: RuffSettings | undefined;
+    try {
+      const parsed = TOML.parse(fs.readFileSync(path.resolve(projectRoot, configFile), "utf-8"));
+      settings =
+        name === "pyproject.toml"
+          ? (parsed as { tool?: { ruff?: RuffSettings } }).tool?.ruff
+          : (parsed as RuffSettings);
+    } catch {
+      return { file: configFile, error: `Failed to parse ${name}` };
+    }
+
+    const options: Record<string, unknown> = { ...settings?.format };
+    if (settings?.["line-length"] !== undefined) {
+      options["line-length"] = settings["line-length"];
+    }
+    if (settings?.["indent-width"] !== undefined) {
+      options["indent-width"] = settings["indent-width"];
+    }
+    return { file: configFile, options };
+  }
+}
@@ -4,7 +4,13 @@ import * as path from "node:path";
 import { execa } from "execa";
 
 import { TIMEOUTS } from "../../constants.js";
-import { type CheckResult, type Violation } from "../../core/index.js";
+import {
+  type CheckResult,
+  type FileChange,
+  type FixResult,
+  FixResultBuilder,
+  type Violation,
+} from "../../core/index.js";
 import { BaseToolRunner } from "./base.js";
 
 /** Check if a file is a symlink */
@@ -17,6 +23,9 @@ function isSymlink(filePath: string): boolean {
   }
 }
 
+/** Python source file extensions */
+const PYTHON_EXTENSIONS = [".py", ".pyi"];
+
 /** Ruff JSON output message format */
 interface RuffMessage {
   code: string;
@@ -26,6 +35,8 @@ interface RuffMessage {
     row: number;
     column: number;
   };
+  /** Available fix; only "safe" fixes are applied by ruff check --fix */
+  fix?: { applicability?: string } | null;
 }
 
 /** Ruff configuration options from standards.toml */
@@ -47,6 +58,11 @@ export class RuffRunner extends BaseToolRunner {
   readonly rule = "code.linting";
   readonly toolId = "ruff";
   readonly configFiles = ["ruff.toml", ".ruff.toml"];
+  readonly sourcePatterns = ["**/*.py", "pyproject.toml"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "ruff");
+  }
 
   private ruffConfig: RuffConfig = {};
 
@@ -61,7 +77,15 @@ export class RuffRunner extends BaseToolRunner {
    * Build CLI arguments from config
    */
   private buildCliArgs(): string[] {
-    const args = ["check", ".", "--output-format", "json"];
+    const targets = this.getPythonTargets() ?? ["."];
+    return ["check", ...targets, "--output-format", "json", ...this.buildRuleArgs()];
+  }
+
+  /**
+   * Build rule selection arguments from config
+   */
+  private buildRuleArgs(): string[] {
+    const args: string[] = [];
 
     if (this.ruffConfig["line-length"]) {
       args.push("--line-length", String(this.ruffConfig["line-length"]));
@@ -105,7 +129,20 @@ export class RuffRunner extends BaseToolRunner {
     }
   }
 
+  /** Changed Python files to lint, or null when linting the whole project */
+  private getPythonTargets(): string[] | null {
+    if (this.targetFiles === null) {
+      return null;
+    }
+    return this.targetFiles.filter((file) => PYTHON_EXTENSIONS.includes(path.extname(file)));
+  }
+
   private async hasPythonFiles(projectRoot: string): Promise<boolean> {
+    const targets = this.getPythonTargets();
+    if (targets !== null) {
+      return targets.length > 0;
+    }
+
     try {
       const result = await execa("find", [".", "-name", "*.py", "-type", "f"], {
         cwd: projectRoot,
@@ -133,7 +170,9 @@ export class RuffRunner extends BaseToolRunner {
 
     // Skip if no Python files
     if (!(await this.hasPythonFiles(projectRoot))) {
-      return this.skip("No Python files found", Date.now() - startTime);
+      const reason =
+        this.targetFiles === null ? "No Python files found" : "No changed Python files";
+      return this.skip(reason, Date.now() - startTime);
     }
 
     try {
@@ -184,41 +223,103 @@ export class RuffRunner extends BaseToolRunner {
     };
   }
 
-  private parseOutput(stdout: string, projectRoot: string): Violation[] | null {
+  private parseMessages(stdout: string, projectRoot: string): RuffMessage[] | null {
     if (!stdout.trim()) {
       return [];
     }
 
     try {
       const results = JSON.parse(stdout) as RuffMessage[];
-      return results
-        .filter((msg) => {
-          // Skip parse errors (E999) for symlinks - they may point to non-Python files
-          if (msg.code === "E999") {
-            const fullPath = path.isAbsolute(msg.filename)
-              ? msg.filename
-              : path.join(projectRoot, msg.filename);
-            if (isSymlink(fullPath)) {
-              return false;
-            }
+      return results.filter((msg) => {
+        // Skip parse errors (E999) for symlinks - they may point to non-Python files
+        if (msg.code === "E999") {
+          const fullPath = path.isAbsolute(msg.filename)
+            ? msg.filename
+            : path.join(projectRoot, msg.filename);
+          if (isSymlink(fullPath)) {
+            return false;
           }
-          return true;
-        })
-        .map((msg) => ({
-          rule: `${this.rule}.${this.toolId}`,
-          tool: this.toolId,
-          file: path.relative(projectRoot, msg.filename),
-          line: msg.location.row,
-          column: msg.location.column,
-          message: msg.message,
-          code: msg.code,
-          severity: "error" as const,
-        }));
+        }
+        return true;
+      });
     } catch {
       return null;
     }
   }
 
+  private parseOutput(stdout: string, projectRoot: string): Violation[] | null {
+    const messages = this.parseMessages(stdout, projectRoot);
+    return messages === null ? null : messages.map((msg) => this.toViolation(msg, projectRoot));
+  }
+
+  private toViolation(msg: RuffMessage, projectRoot: string): Violation {
+    return {
+      rule: `${this.rule}.${this.toolId}`,
+      tool: this.toolId,
+      file: path.relative(projectRoot, msg.filename),
+      line: msg.location.row,
+      column: msg.location.column,
+      message: msg.message,
+      code: msg.code,
+      severity: "error",
+    };
+  }
+
+  /**
+   * Compute safe Ruff fixes. Each file with fixable violations is fixed through
+   * stdin so nothing is written; violations without a safe fix need manual work.
+   */
+  async fix(projectRoot: string): Promise<FixResult> {
+    if (!(await this.hasPythonFiles(projectRoot))) {
+      return FixResultBuilder.skip(this.name, this.rule, "No Python files found");
+    }
+
+    const result = await execa("ruff", this.buildCliArgs(), {
+      cwd: projectRoot,
+      reject: false,
+      timeout: TIMEOUTS.codeTool,
+    });
+    if (this.isBinaryNotFound(result)) {
+      return FixResultBuilder.skip(this.name, this.rule, `${this.name} not installed`);
+    }
+
+    const messages = this.parseMessages(result.stdout, projectRoot);
+    if (messages === null) {
+      throw new Error(`Ruff error: ${result.stderr || "failed to parse output"}`);
+    }
+
+    const fixable = messages.filter((msg) => msg.fix?.applicability === "safe");
+    const files = [...new Set(fixable.map((msg) => path.relative(projectRoot, msg.filename)))];
+    const changes: FileChange[] = [];
+    for (const file of files) {
+      const change = await this.fixFile(projectRoot, file);
+      if (change) {
+        changes.push(change);
+      }
+    }
+
+    const remaining = messages
+      .filter((msg) => msg.fix?.applicability !== "safe")
+      .map((msg) => this.toViolation(msg, projectRoot));
+    return FixResultBuilder.create(this.name, this.rule, changes, remaining);
+  }
+
+  /** Fix a single file by piping it through ruff check --fix */
+  private async fixFile(projectRoot: string, file: string): Promise<FileChange | null> {
+    const before = fs.readFileSync(path.join(projectRoot, file), "utf-8");
+    const result = await execa(
+      "ruff",
+      ["check", "--fix", ...this.buildRuleArgs(), "--stdin-filename", file, "-"],
+      { cwd: projectRoot, input: before, reject: false, timeout: TIMEOUTS.codeTool }
+    );
+
+    const after = String(result.stdout ?? "");
+    if (!after || after === before) {
+      return null;
+    }
+    return { file, before, after, description: "Apply Ruff fixes" };
+  }
+
   private createErrorViolation(message: string): Violation {
     return {
       rule: `${this.rule}.${this.toolId}`,
@@ -0,0 +1,212 @@
+/**
+ * Lint rule with options in TOML-friendly object format.
+ * Example: { severity: "error", max: 10 }
+ */
+export interface RuleWithOptions {
+  severity: "off" | "warn" | "error";
+  [key: string]: unknown;
+}
+
+/** Required lint rule value - severity string or object with options */
+export type RuleValue = "off" | "warn" | "error" | RuleWithOptions;
+
+/**
+ * Compare the rules required in standards.toml against a linter's effective rules.
+ * Effective rules use ESLint's [severity, ...options] format; severities may be
+ * numbers or names (off/allow, warn/info, error/deny).
+ * Returns a message for each missing rule, severity mismatch and option mismatch.
+ */
+export function compareRules(
+  requiredRules: Record<string, RuleValue>,
+  effectiveRules: Record<string, unknown[]>
+): string[] {
+  return Object.entries(requiredRules).flatMap(([ruleName, requiredValue]) =>
+    compareSingleRule(ruleName, requiredValue, effectiveRules[ruleName])
+  );
+}
+
+/**
+ * Compare a single rule against effective config
+ */
+function compareSingleRule(
+  ruleName: string,
+  requiredValue: RuleValue,
+  effectiveRule: unknown[] | undefined
+): string[] {
+  if (!effectiveRule) {
+    return [`Rule "${ruleName}" is required but not configured`];
+  }
+
+  const messages: string[] = [];
+  const requiredSeverity = normalizeSeverity(requiredValue);
+  const effectiveSeverity = normalizeSeverity(effectiveRule[0]);
+
+  if (requiredSeverity !== effectiveSeverity) {
+    messages.push(
+      `Rule "${ruleName}": expected "${severityToString(requiredSeverity)}", got "${severityToString(effectiveSeverity)}"`
+    );
+  }
+
+  const requiredOptions = extractRuleOptions(requiredValue);
+  if (requiredOptions) {
+    messages.push(...compareRuleOptions(ruleName, requiredOptions, effectiveRule));
+  }
+
+  return messages;
+}
+
+/**
+ * Extract options from a rule value (excludes severity)
+ */
+function extractRuleOptions(value: RuleValue): unknown[] | null {
+  if (typeof value === "string") {
+    return null; // No options for severity-only rules
+  }
+  if (isRuleWithOptions(value)) {
+    // For object format, convert to array format for comparison
+    const { severity: _, ...options } = value;
+    return Object.keys(options).length > 0 ? [options] : null;
+  }
+  return null;
+}
+
+/**
+ * Get effective option value, handling both object and primitive formats.
+ * ESLint normalizes some rules like max-depth from ["error", { max: 4 }] to [2, 4].
+ */
+function getEffectiveOptionValue(effectiveOptions: unknown, optionName: string): unknown {
+  // If effectiveOptions is an object, look up the key
+  if (typeof effectiveOptions === "object" && effectiveOptions !== null) {
+    return (effectiveOptions as Record<string, unknown>)[optionName];
+  }
+  // If effectiveOptions is a primitive and we're looking for "max", return the primitive
+  // This handles rules like max-depth, max-params, complexity where ESLint uses [severity, number]
+  if (
+    optionName === "max" &&
+    (typeof effectiveOptions === "number" || typeof effectiveOptions === "string")
+  ) {
+    return effectiveOptions;
+  }
+  return undefined;
+}
+
+/**
+ * Compare rule options between required and effective config.
+ */
+function compareRuleOptions(
+  ruleName: string,
+  requiredOptions: unknown[],
+  effectiveRule: unknown[]
+): string[] {
+  const effectiveOptions = effectiveRule.slice(1);
+  if (deepEqual(requiredOptions, effectiveOptions)) {
+    return [];
+  }
+  // For single-object rules, try detailed comparison
+  if (requiredOptions.length === 1 && typeof requiredOptions[0] === "object") {
+    return compareObjectOptions(ruleName, requiredOptions[0], effectiveOptions);
+  }
+  // For complex rules, show full mismatch
+  return [`Rule "${ruleName}": options mismatch`];
+}
+
+/** Compare single-object rule options for detailed error messages */
+function compareObjectOptions(
+  ruleName: string,
+  reqObj: unknown,
+  effectiveOptions: unknown[]
+): string[] {
+  const messages: string[] = [];
+  const required = reqObj as Record<string, unknown>;
+  const effective = typeof effectiveOptions[0] === "object" ? effectiveOptions[0] : {};
+  for (const [key, reqVal] of Object.entries(required)) {
+    const effVal = getEffectiveOptionValue(effective, key);
+    if (effVal === undefined) {
+      messages.push(`Rule "${ruleName}": "${key}" required`);
+    } else if (!deepEqual(reqVal, effVal)) {
+      messages.push(`Rule "${ruleName}": "${key}" mismatch`);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Deep equality check for comparing option values
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== typeof b) {
+    return false;
+  }
+  if (typeof a !== "object" || a === null || b === null) {
+    return false;
+  }
+  const keysA = Object.keys(a as object);
+  const keysB = Object.keys(b as object);
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+  for (const key of keysA) {
+    if (!deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Check if a value is a rule with options object
+ */
+function isRuleWithOptions(value: unknown): value is RuleWithOptions {
+  return typeof value === "object" && value !== null && "severity" in value;
+}
+
+/**
+ * Normalize rule severity to number (0, 1, 2).
+ * oxlint also accepts allow/deny and Biome reports info-level rules.
+ */
+function normalizeSeverity(value: unknown): number {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string") {
+    switch (value) {
+      case "off":
+      case "allow":
+        return 0;
+      case "warn":
+      case "info":
+        return 1;
+      case "error":
+      case "deny":
+        return 2;
+      default:
+        return parseInt(value, 10) || 0;
+    }
+  }
+  if (Array.isArray(value)) {
+    return normalizeSeverity(value[0]);
+  }
+  if (isRuleWithOptions(value)) {
+    return normalizeSeverity(value.severity);
+  }
+  return 0;
+}
+
+/**
+ * Convert severity number to string
+ */
+function severityToString(severity: number): string {
+  switch (severity) {
+    case 0:
+      return "off";
+    case 1:
+      return "warn";
+    case 2:
+      return "error";
+    default:
+      return String(severity);
+  }
+}
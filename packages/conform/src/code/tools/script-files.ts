@@ -0,0 +1,15 @@
+import ts from "typescript";
+
+/** Extensions parsed with the TypeScript parser */
+export const SCRIPT_EXTENSIONS = ["ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs"];
+
+/** The TypeScript parser's script kind for a file, based on its extension */
+export function scriptKind(fileName: string): ts.ScriptKind {
+  if (fileName.endsWith(".tsx")) {
+    return ts.ScriptKind.TSX;
+  }
+  if (/\.[cm]?ts$/.test(fileName)) {
+    return ts.ScriptKind.TS;
+  }
+  return fileName.endsWith(".jsx") ? ts.ScriptKind.JSX : ts.ScriptKind.JS;
+}
@@ -0,0 +1,190 @@
+/** A secret detection rule; IDs match gitleaks' default rules so allowlists carry over */
+export interface SecretRule {
+  id: string;
+  description: string;
+  /** Global regex; the secret is capture group 1, or the whole match without groups */
+  regex: RegExp;
+  /** Lines are only matched if they contain one of these (lowercase) */
+  keywords: string[];
+  /** Minimum Shannon entropy of the secret, for rules that match random-looking values */
+  entropy?: number;
+  /** Secrets matching these are not reported */
+  allow?: RegExp[];
+}
+
+/**
+ * Core rule pack: common token formats, private keys and generic
+ * key = "value" assignments with a high-entropy value.
+ */
+export const SECRET_RULES: SecretRule[] = [
+  {
+    id: "aws-access-token",
+    description: "AWS access key ID",
+    regex: /\b((?:A3T[A-Z0-9]|AKIA|ASIA|ABIA|ACCA)[A-Z2-7]{16})\b/g,
+    keywords: ["a3t", "akia", "asia", "abia", "acca"],
+    entropy: 3,
+  },
+  {
+    id: "github-pat",
+    description: "GitHub personal access token",
+    regex: /\b(ghp_[0-9a-zA-Z]{36})\b/g,
+    keywords: ["ghp_"],
+    entropy: 3,
+  },
+  {
+    id: "github-fine-grained-pat",
+    description: "GitHub fine-grained personal access token",
+    regex: /\b(github_pat_\w{82})\b/g,
+    keywords: ["github_pat_"],
+    entropy: 3,
+  },
+  {
+    id: "github-oauth",
+    description: "GitHub OAuth access token",
+    regex: /\b(gho_[0-9a-zA-Z]{36})\b/g,
+    keywords: ["gho_"],
+    entropy: 3,
+  },
+  {
+    id: "github-app-token",
+    description: "GitHub app token",
+    regex: /\b((?:ghu|ghs)_[0-9a-zA-Z]{36})\b/g,
+    keywords: ["ghu_", "ghs_"],
+    entropy: 3,
+  },
+  {
+    id: "gitlab-pat",
+    description: "GitLab personal access token",
+    regex: /\b(glpat-[\w-]{20})\b/g,
+    keywords: ["glpat-"],
+    entropy: 3,
+  },
+  {
+    id: "slack-bot-token",
+    description: "Slack bot token",
+    regex: /\b(xoxb-\d{10,13}-\d{10,13}[a-zA-Z0-9-]*)/g,
+    keywords: ["xoxb"],
+  },
+  {
+    id: "slack-user-token",
+    description: "Slack user token",
+    regex: /\b(xox[pe](?:-\d{10,13}){3}-[a-zA-Z0-9-]{28,34})/g,
+    keywords: ["xoxp-", "xoxe-"],
+  },
+  {
+    id: "slack-webhook-url",
+    description: "Slack webhook URL",
+    regex: /(https?:\/\/hooks\.slack\.com\/(?:services|workflows|triggers)\/[A-Za-z0-9+/]{43,56})/g,
+    keywords: ["hooks.slack.com"],
+  },
+  {
+    id: "stripe-access-token",
+    description: "Stripe secret or restricted key",
+    regex: /\b((?:sk|rk)_(?:test|live|prod)_[a-zA-Z0-9]{10,99})\b/g,
+    keywords: ["sk_test", "sk_live", "sk_prod", "rk_test", "rk_live", "rk_prod"],
+    entropy: 2,
+  },
+  {
+    id: "gcp-api-key",
+    description: "Google Cloud API key",
+    regex: /\b(AIza[\w-]{35})(?:[\s'"`;]|$)/g,
+    keywords: ["aiza"],
+    entropy: 3,
+  },
+  {
+    id: "openai-api-key",
+    description: "OpenAI API key",
+    regex: /\b(sk-(?:proj|svcacct|admin)-[\w-]{58,74}T3BlbkFJ[\w-]{58,74})\b/g,
+    keywords: ["t3blbkfj"],
+    entropy: 3,
+  },
+  {
+    id: "anthropic-api-key",
+    description: "Anthropic API key",
+    regex: /\b(sk-ant-(?:api|admin)01?\d?-[\w-]{80,100}AA)(?:[\s'"`;]|$)/g,
+    keywords: ["sk-ant-"],
+  },
+  {
+    id: "npm-access-token",
+    description: "npm access token",
+    regex: /\b(npm_[a-z0-9]{36})\b/gi,
+    keywords: ["npm_"],
+    entropy: 2,
+  },
+  {
+    id: "pypi-upload-token",
+    description: "PyPI upload token",
+    regex: /(pypi-AgEIcHlwaS5vcmc[\w-]{50,1000})/g,
+    keywords: ["pypi-ageichlwas5vcmc"],
+  },
+  {
+    id: "sendgrid-api-token",
+    description: "SendGrid API token",
+    regex: /\b(SG\.[\w=.-]{66})\b/g,
+    keywords: ["sg."],
+    entropy: 2,
+  },
+  {
+    id: "twilio-api-key",
+    description: "Twilio API key",
+    regex: /\b(SK[0-9a-fA-F]{32})\b/g,
+    keywords: ["sk"],
+    entropy: 3,
+  },
+  {
+    id: "digitalocean-pat",
+    description: "DigitalOcean personal access token",
+    regex: /\b(dop_v1_[a-f0-9]{64})\b/g,
+    keywords: ["dop_v1_"],
+    entropy: 3,
+  },
+  {
+    id: "jwt",
+    description: "JSON Web Token",
+    regex: /\b(ey[a-zA-Z0-9]{17,}\.ey[a-zA-Z0-9/\\_-]{17,}\.(?:[a-zA-Z0-9/\\_-]{10,}={0,2})?)/g,
+    keywords: ["ey"],
+    entropy: 3,
+  },
+  {
+    id: "private-key",
+    description: "Private key",
+    regex: /-----BEGIN[ A-Z0-9_-]{0,100}PRIVATE KEY(?: BLOCK)?-----/g,
+    keywords: ["-----begin"],
+  },
+  {
+    id: "generic-api-key",
+    description: "Generic API key",
+    regex:
+      /(?:key|api|token|secret|client|passwd|password|auth|access)[\w.-]{0,20}[\s'"]{0,3}(?:=|>|:{1,3}=|\|\||:|=>|\?=|,)[`'"\s=]{0,5}([\w.=-]{10,150})(?:[`'"\s;]|\\[nr]|$)/gi,
+    keywords: ["key", "api", "token", "secret", "client", "passwd", "password", "auth", "access"],
+    entropy: 3.5,
+    // Identifiers and references (process.env.API_KEY, settings.auth_token) aren't values
+    allow: [/^[a-zA-Z_.-]+$/],
+  },
+];
+
+/**
+ * Paths never scanned: lockfiles and other generated files full of hashes.
+ */
+export const DEFAULT_ALLOWED_PATHS: RegExp[] = [
+  /(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|pnpm-lock\.yaml|yarn\.lock|bun\.lockb?)$/,
+  /(?:^|\/)(?:go\.sum|Cargo\.lock|poetry\.lock|uv\.lock|Pipfile\.lock|composer\.lock)$/,
+  /(?:^|\/)(?:node_modules|\.git|vendor)\//,
+];
+
+/** Shannon entropy of a string, in bits per character */
+export function shannonEntropy(value: string): number {
+  if (value === "") {
+    return 0;
+  }
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
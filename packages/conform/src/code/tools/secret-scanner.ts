@@ -0,0 +1,440 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import TOML from "@iarna/toml";
+import { execa } from "execa";
+import { glob } from "glob";
+
+import { TIMEOUTS } from "../../constants.js";
+import {
+  DEFAULT_ALLOWED_PATHS,
+  SECRET_RULES,
+  type SecretRule,
+  shannonEntropy,
+} from "./secret-rules.js";
+
+/** Scan mode options */
+export type ScanMode = "branch" | "files" | "staged" | "full";
+
+/** A secret found by the built-in scanner */
+export interface SecretFinding {
+  ruleId: string;
+  description: string;
+  file: string;
+  /** 1-based line and column of the match */
+  line: number;
+  column: number;
+  secret: string;
+  /** Commit that added the line (branch and full modes) */
+  commit?: string;
+}
+
+/** Options for a built-in secret scan */
+export interface SecretScanOptions {
+  scanMode: ScanMode;
+  baseBranch: string;
+  /** Absolute path of a .gitleaks.toml whose allowlists apply */
+  configPath?: string;
+}
+
+/** Lines of one file to scan, with their line numbers */
+interface ScanFragment {
+  file: string;
+  commit?: string;
+  lines: { number: number; text: string }[];
+}
+
+/** A gitleaks allowlist, from [allowlist], [[allowlists]] or a rule's allowlist */
+interface SecretAllowlist {
+  paths: RegExp[];
+  regexes: RegExp[];
+  /** What regexes are matched against */
+  regexTarget: "secret" | "match" | "line";
+  stopwords: string[];
+  commits: string[];
+  /** OR: any criterion allows a finding, AND: all criteria that are set must match */
+  condition: "OR" | "AND";
+  /** Rule IDs the allowlist applies to; empty means all rules */
+  targetRules: string[];
+}
+
+/** A rule match that still has to pass the allowlists */
+interface Candidate {
+  rule: SecretRule;
+  file: string;
+  commit?: string;
+  secret: string;
+  match: string;
+  line: string;
+}
+
+/** Lines containing this marker are skipped, as in gitleaks */
+const INLINE_ALLOW = "gitleaks:allow";
+
+/** Catch-all rule, dropped where a specific rule matched the same secret */
+const GENERIC_RULE = "generic-api-key";
+
+/** Files larger than this are skipped in files mode */
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/** Skipped in files mode outside a git repository, where .gitignore can't be applied */
+const NON_GIT_IGNORES = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/.venv/**",
+  "**/venv/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/coverage/**",
+  "**/target/**",
+];
+
+// =============================================================================
+// .gitleaks.toml allowlists
+// =============================================================================
+
+/**
+ * Compile a gitleaks (Go RE2) pattern. Handles the leading (?i) flag and (?P<name>)
+ * groups; other RE2-only syntax fails with an error naming the pattern.
+ */
+function compilePattern(pattern: string, configFile: string): RegExp {
+  let source = pattern.replace(/\(\?P</g, "(?<");
+  let flags = "";
+  if (source.startsWith("(?i)")) {
+    source = source.slice(4);
+    flags = "i";
+  }
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    throw new Error(`Invalid regex in ${configFile}: ${pattern}`);
+  }
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+function parseAllowlist(
+  raw: Record<string, unknown>,
+  configFile: string,
+  targetRules: string[]
+): SecretAllowlist {
+  const compile = (pattern: string): RegExp => compilePattern(pattern, configFile);
+  const regexTarget =
+    raw.regexTarget === "match" || raw.regexTarget === "line" ? raw.regexTarget : "secret";
+  return {
+    paths: stringList(raw.paths).map(compile),
+    regexes: stringList(raw.regexes).map(compile),
+    regexTarget,
+    stopwords: stringList(raw.stopwords).map((word) => word.toLowerCase()),
+    commits: stringList(raw.commits),
+    condition: String(raw.condition ?? "OR").toUpperCase() === "AND" ? "AND" : "OR",
+    targetRules: [...targetRules, ...stringList(raw.targetRules)],
+  };
+}
+
+/** The allowlist tables of a config section: allowlist = {...} or [[allowlists]] */
+function allowlistTables(section: Record<string, unknown>): Record<string, unknown>[] {
+  const tables = [
+    section.allowlist,
+    ...(Array.isArray(section.allowlists) ? section.allowlists : []),
+  ];
+  return tables.filter((t): t is Record<string, unknown> => typeof t === "object" && t !== null);
+}
+
+/**
+ * Load the global and per-rule allowlists of a .gitleaks.toml.
+ * Custom [[rules]] are not applied; the built-in scanner only uses its own rule pack.
+ */
+function loadAllowlists(configPath: string): SecretAllowlist[] {
+  const configFile = path.basename(configPath);
+  let config: Record<string, unknown>;
+  try {
+    config = TOML.parse(fs.readFileSync(configPath, "utf-8")) as Record<string, unknown>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Failed to parse ${configFile}: ${message}`);
+  }
+
+  const allowlists = allowlistTables(config).map((raw) => parseAllowlist(raw, configFile, []));
+  const rules = Array.isArray(config.rules) ? (config.rules as Record<string, unknown>[]) : [];
+  for (const rule of rules) {
+    if (typeof rule.id === "string") {
+      for (const raw of allowlistTables(rule)) {
+        allowlists.push(parseAllowlist(raw, configFile, [rule.id]));
+      }
+    }
+  }
+  return allowlists;
+}
+
+/** Whether an allowlist covers a candidate finding */
+function isAllowed(candidate: Candidate, allowlist: SecretAllowlist): boolean {
+  if (allowlist.targetRules.length > 0 && !allowlist.targetRules.includes(candidate.rule.id)) {
+    return false;
+  }
+
+  const target = candidate[allowlist.regexTarget];
+  const secret = candidate.secret.toLowerCase();
+  const checks: boolean[] = [];
+  if (allowlist.paths.length > 0) {
+    checks.push(allowlist.paths.some((regex) => regex.test(candidate.file)));
+  }
+  if (allowlist.regexes.length > 0) {
+    checks.push(allowlist.regexes.some((regex) => regex.test(target)));
+  }
+  if (allowlist.stopwords.length > 0) {
+    checks.push(allowlist.stopwords.some((word) => secret.includes(word)));
+  }
+  if (allowlist.commits.length > 0) {
+    const commit = candidate.commit ?? "";
+    checks.push(commit !== "" && allowlist.commits.some((c) => commit.startsWith(c)));
+  }
+
+  if (checks.length === 0) {
+    return false;
+  }
+  return allowlist.condition === "AND" ? checks.every(Boolean) : checks.some(Boolean);
+}
+
+// =============================================================================
+// Sources
+// =============================================================================
+
+/**
+ * List the working tree's files: tracked and untracked files that .gitignore doesn't
+ * exclude, or every file outside the usual dependency and build folders when the
+ * project isn't in a git repository
+ */
+async function listWorkingTree(projectRoot: string): Promise<string[]> {
+  try {
+    const result = await execa("git", ["ls-files", "-co", "--exclude-standard", "-z"], {
+      cwd: projectRoot,
+      reject: false,
+      timeout: TIMEOUTS.git,
+    });
+    if (result.exitCode === 0) {
+      return [...new Set(String(result.stdout).split("\0").filter(Boolean))].sort();
+    }
+  } catch {
+    // git isn't installed
+  }
+
+  const files = await glob("**/*", {
+    cwd: projectRoot,
+    ignore: NON_GIT_IGNORES,
+    nodir: true,
+    dot: true,
+  });
+  return files.map((file) => file.split(path.sep).join("/")).sort();
+}
+
+/** Read a working tree file, or null for binary, very large and unreadable files */
+function readWorkingTreeFile(projectRoot: string, file: string): ScanFragment | null {
+  let content: string;
+  try {
+    const filePath = path.join(projectRoot, file);
+    if (fs.statSync(filePath).size > MAX_FILE_BYTES) {
+      return null;
+    }
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return null; // Deleted, a broken symlink or unreadable
+  }
+  if (content.includes("\0")) {
+    return null;
+  }
+  const lines = content.split("\n").map((text, i) => ({ number: i + 1, text }));
+  return { file, lines };
+}
+
+/** Path from a "+++ b/path" header; git quotes paths with unusual characters */
+function patchPath(header: string): string | undefined {
+  let file = header.slice(4);
+  if (file === "/dev/null") {
+    return undefined;
+  }
+  if (file.startsWith('"') && file.endsWith('"')) {
+    file = file.slice(1, -1);
+  }
+  return file.replace(/^b\//, "");
+}
+
+/**
+ * Collect the added lines of a patch from git diff or git log -p (with --unified=0),
+ * grouped by file and commit.
+ */
+function parsePatch(output: string): ScanFragment[] {
+  const fragments: ScanFragment[] = [];
+  let commit: string | undefined;
+  let current: ScanFragment | undefined;
+  let lineNumber = 0;
+  let inHunk = false;
+
+  for (const line of output.split("\n")) {
+    // Hunk lines start with +, - or \, so these are always headers
+    if (line.startsWith("commit ")) {
+      inHunk = false;
+      commit = line.slice("commit ".length).trim();
+      current = undefined;
+    } else if (line.startsWith("diff --git ")) {
+      inHunk = false;
+      current = undefined;
+    } else if (!inHunk && line.startsWith("+++ ")) {
+      const file = patchPath(line);
+      current = file === undefined ? undefined : { file, commit, lines: [] };
+      if (current) {
+        fragments.push(current);
+      }
+    } else if (line.startsWith("@@")) {
+      inHunk = true;
+      lineNumber = Number(/\+(\d+)/.exec(line)?.[1] ?? 1);
+    } else if (inHunk && line.startsWith("+") && current) {
+      current.lines.push({ number: lineNumber++, text: line.slice(1) });
+    }
+  }
+
+  return fragments;
+}
+
+/** git arguments that print the patch to scan for a history or staged mode */
+function gitPatchArgs(scanMode: ScanMode, baseBranch: string): string[] {
+  const diffOptions = ["--unified=0", "--no-color", "--no-ext-diff"];
+  switch (scanMode) {
+    case "staged":
+      return ["diff", "--cached", ...diffOptions];
+    case "branch":
+      return ["log", "-p", ...diffOptions, "--format=commit %H", `${baseBranch}..HEAD`];
+    default:
+      return ["log", "-p", ...diffOptions, "--format=commit %H", "--full-history", "--all"];
+  }
+}
+
+/** Read the added lines of the branch, the index or the whole history */
+async function readPatchFragments(
+  projectRoot: string,
+  options: SecretScanOptions
+): Promise<ScanFragment[]> {
+  const result = await execa("git", gitPatchArgs(options.scanMode, options.baseBranch), {
+    cwd: projectRoot,
+    reject: false,
+    timeout: TIMEOUTS.codeTool,
+  });
+  if (result.exitCode !== 0) {
+    const error = String(result.stderr || result.stdout || "Unknown error").trim();
+    throw new Error(`git error: ${error}`);
+  }
+  return parsePatch(String(result.stdout));
+}
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/** Rule matches on one line, before allowlists */
+function matchLine(
+  text: string,
+  rule: SecretRule
+): { secret: string; match: string; column: number }[] {
+  const lower = text.toLowerCase();
+  if (!rule.keywords.some((keyword) => lower.includes(keyword))) {
+    return [];
+  }
+
+  const matches: { secret: string; match: string; column: number }[] = [];
+  for (const match of text.matchAll(rule.regex)) {
+    const secret = match[1] ?? match[0];
+    if (rule.entropy !== undefined && shannonEntropy(secret) < rule.entropy) {
+      continue;
+    }
+    if (rule.allow?.some((regex) => regex.test(secret))) {
+      continue;
+    }
+    matches.push({ secret, match: match[0], column: (match.index ?? 0) + 1 });
+  }
+  return matches;
+}
+
+/** Findings on one line that the allowlists don't cover */
+function scanLine(
+  text: string,
+  number: number,
+  fragment: ScanFragment,
+  allowlists: SecretAllowlist[]
+): SecretFinding[] {
+  const { file, commit } = fragment;
+  const findings: SecretFinding[] = [];
+
+  for (const rule of SECRET_RULES) {
+    for (const { secret, match, column } of matchLine(text, rule)) {
+      const candidate: Candidate = { rule, file, commit, secret, match, line: text };
+      if (allowlists.some((allowlist) => isAllowed(candidate, allowlist))) {
+        continue;
+      }
+      findings.push({
+        ruleId: rule.id,
+        description: rule.description,
+        file,
+        line: number,
+        column,
+        secret,
+        commit,
+      });
+    }
+  }
+
+  // A token assigned to e.g. `token = "..."` also matches the generic rule; keep the specific one
+  return findings.filter(
+    (finding) =>
+      finding.ruleId !== GENERIC_RULE ||
+      !findings.some(
+        (other) =>
+          other.ruleId !== GENERIC_RULE &&
+          (other.secret.includes(finding.secret) || finding.secret.includes(other.secret))
+      )
+  );
+}
+
+function scanFragment(fragment: ScanFragment, allowlists: SecretAllowlist[]): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  for (const { number, text } of fragment.lines) {
+    if (!text.includes(INLINE_ALLOW)) {
+      findings.push(...scanLine(text, number, fragment, allowlists));
+    }
+  }
+  return findings;
+}
+
+/**
+ * Scan for secrets without gitleaks: the working tree (files mode) or the lines added in
+ * the branch, the index or the whole history. Uses the core rule pack and the allowlists
+ * of .gitleaks.toml.
+ */
+export async function scanSecrets(
+  projectRoot: string,
+  options: SecretScanOptions
+): Promise<SecretFinding[]> {
+  const allowlists = options.configPath ? loadAllowlists(options.configPath) : [];
+  const isScanned = (file: string): boolean =>
+    !DEFAULT_ALLOWED_PATHS.some((regex) => regex.test(file));
+
+  const findings: SecretFinding[] = [];
+  if (options.scanMode === "files") {
+    // Files are read and scanned one at a time to keep memory flat on large trees
+    for (const file of (await listWorkingTree(projectRoot)).filter(isScanned)) {
+      const fragment = readWorkingTreeFile(projectRoot, file);
+      if (fragment) {
+        findings.push(...scanFragment(fragment, allowlists));
+      }
+    }
+    return findings;
+  }
+
+  for (const fragment of await readPatchFragments(projectRoot, options)) {
+    if (isScanned(fragment.file)) {
+      findings.push(...scanFragment(fragment, allowlists));
+    }
+  }
+  return findings;
+}
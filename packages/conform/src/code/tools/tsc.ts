@@ -2,10 +2,12 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 
 import { execa } from "execa";
+import ts from "typescript";
 
 import { TIMEOUTS } from "../../constants.js";
 import { CheckResultBuilder, type CheckResult, type Violation } from "../../core/index.js";
 import { BaseToolRunner } from "./base.js";
+import { findTsconfigInputs, readTsconfig } from "./tsconfig.js";
 
 /** TypeScript compiler options that can be audited */
 interface TscRequiredOptions {
@@ -21,24 +23,15 @@ interface TscRequiredOptions {
   forceConsistentCasingInFileNames?: boolean;
 }
 
-/**
- * Strip comments from JSONC content (JSON with Comments).
- * Uses regex replacement to handle single-line and multi-line comments.
- * Note: This is a simplified approach that works for typical tsconfig.json files.
- */
-function stripJsonComments(content: string): string {
-  // Remove single-line comments (// ...) not inside strings
-  // Remove multi-line comments (/* ... */)
-  // This regex-based approach handles most tsconfig.json cases
-  return content
-    .replace(/\\"|"(?:\\"|[^"])*"|\/\/[^\n]*/g, (match) => {
-      // Keep strings, remove single-line comments
-      return match.startsWith("//") ? "" : match;
-    })
-    .replace(/\\"|"(?:\\"|[^"])*"|\/\*[\s\S]*?\*\//g, (match) => {
-      // Keep strings, remove multi-line comments
-      return match.startsWith("/*") ? "" : match;
-    });
+/** Configuration for the TypeScript type checker */
+interface TscConfig {
+  /** tsconfig files to check, relative to the project root (default: tsconfig.json) */
+  projects?: string[];
+  /**
+   * Run tsc -b, which builds project references in dependency order. This writes
+   * build output (outDir, .tsbuildinfo); tsc -b can't use --noEmit with references.
+   */
+  build?: boolean;
 }
 
 /** Parsed tsc diagnostic */
@@ -57,10 +50,34 @@ export class TscRunner extends BaseToolRunner {
   readonly name = "TypeScript";
   readonly rule = "code.types";
   readonly toolId = "tsc";
-  readonly configFiles = ["tsconfig.json"];
+  // JavaScript and JSON files are checked or imported with allowJs and resolveJsonModule
+  readonly sourcePatterns = ["**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}", "**/*.json"];
+
+  get configFiles(): string[] {
+    return this.config.projects ?? ["tsconfig.json"];
+  }
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.findPackageVersion(projectRoot, "typescript");
+  }
+
+  /** The projects' extends chains and project references */
+  async cacheInputs(projectRoot: string): Promise<string[]> {
+    return findTsconfigInputs(
+      this.configFiles.map((project) => path.resolve(projectRoot, project))
+    );
+  }
 
+  private config: TscConfig = {};
   private requiredOptions: TscRequiredOptions = {};
 
+  /**
+   * Set the tsconfig projects to check and whether to use build mode
+   */
+  setConfig(config: TscConfig): void {
+    this.config = config;
+  }
+
   /**
    * Set required compiler options for audit
    */
@@ -116,25 +133,53 @@ export class TscRunner extends BaseToolRunner {
     return violations;
   }
 
-  private async runTsc(projectRoot: string): Promise<Awaited<ReturnType<typeof execa>>> {
-    return execa("npx", ["tsc", "--noEmit"], {
+  /**
+   * Arguments for each tsc run: a single tsc -b for all projects in build mode, so
+   * shared references are built once, otherwise tsc --noEmit per project. Without
+   * configured projects, tsc finds tsconfig.json itself (searching parent directories).
+   */
+  private getTscRuns(): string[][] {
+    const projects = this.config.projects;
+    if (this.config.build) {
+      return [["tsc", "-b", ...(projects ?? [])]];
+    }
+    if (!projects) {
+      return [["tsc", "--noEmit"]];
+    }
+    return projects.map((project) => ["tsc", "--noEmit", "-p", project]);
+  }
+
+  private async runTsc(
+    projectRoot: string,
+    args: string[]
+  ): Promise<Awaited<ReturnType<typeof execa>>> {
+    return execa("npx", args, {
       cwd: projectRoot,
       reject: false,
       timeout: TIMEOUTS.codeTool,
     });
   }
 
-  private processRunResult(
-    result: Awaited<ReturnType<typeof execa>>,
+  private processRunResults(
+    results: Awaited<ReturnType<typeof execa>>[],
     projectRoot: string,
     elapsed: () => number
   ): CheckResult {
-    if (result.exitCode === 0) {
-      return this.pass(elapsed());
-    }
-    const violations = this.handleTscFailure(result, projectRoot);
-    if (violations === "not-installed") {
-      return this.skipNotInstalled(elapsed());
+    const violations: Violation[] = [];
+    const seen = new Set<string>();
+    for (const result of results.filter((r) => r.exitCode !== 0)) {
+      const failure = this.handleTscFailure(result, projectRoot);
+      if (failure === "not-installed") {
+        return this.skipNotInstalled(elapsed());
+      }
+      // Files included by several projects report the same error once per project
+      for (const violation of failure) {
+        const key = [violation.file, violation.line, violation.column, violation.message].join(":");
+        if (!seen.has(key)) {
+          seen.add(key);
+          violations.push(violation);
+        }
+      }
     }
     return this.fromViolations(violations, elapsed());
   }
@@ -146,10 +191,19 @@ export class TscRunner extends BaseToolRunner {
     if (!this.hasConfig(projectRoot)) {
       return this.failNoConfig(elapsed());
     }
+    const missing = this.findMissingProjects(projectRoot);
+    if (missing.length > 0) {
+      return this.fail(
+        missing.map((project) => this.createErrorViolation(`${project} not found`)),
+        elapsed()
+      );
+    }
 
     try {
-      const result = await this.runTsc(projectRoot);
-      return this.processRunResult(result, projectRoot, elapsed);
+      const results = await Promise.all(
+        this.getTscRuns().map((args) => this.runTsc(projectRoot, args))
+      );
+      return this.processRunResults(results, projectRoot, elapsed);
     } catch (error) {
       if (this.isNotInstalledError(error)) {
         return this.skipNotInstalled(elapsed());
@@ -159,6 +213,13 @@ export class TscRunner extends BaseToolRunner {
     }
   }
 
+  /** Configured projects that don't exist (hasConfig passes as soon as one does) */
+  private findMissingProjects(projectRoot: string): string[] {
+    return (this.config.projects ?? []).filter(
+      (project) => !fs.existsSync(path.join(projectRoot, project))
+    );
+  }
+
   /**
    * Parse tsc output into diagnostics
    * Format: file(line,col): error TSxxxx: message
@@ -209,7 +270,8 @@ export class TscRunner extends BaseToolRunner {
   }
 
   /**
-   * Audit tsconfig.json - check existence and required compiler options
+   * Audit tsconfig files - check existence and required compiler options.
+   * Options are read after resolving extends chains, so inherited options count.
    */
   async audit(projectRoot: string): Promise<CheckResult> {
     const startTime = Date.now();
@@ -235,9 +297,9 @@ export class TscRunner extends BaseToolRunner {
       return CheckResultBuilder.pass(`${this.name} Config`, this.rule, elapsed());
     }
 
-    // Read and parse tsconfig.json
-    const configPath = path.join(projectRoot, "tsconfig.json");
-    const violations = this.auditCompilerOptions(configPath);
+    const violations = this.configFiles.flatMap((project) =>
+      this.auditCompilerOptions(projectRoot, project)
+    );
 
     if (violations.length === 0) {
       return CheckResultBuilder.pass(`${this.name} Config`, this.rule, elapsed());
@@ -246,37 +308,42 @@ export class TscRunner extends BaseToolRunner {
     return CheckResultBuilder.fail(`${this.name} Config`, this.rule, violations, elapsed());
   }
 
-  private parseConfigFile(
-    configPath: string
-  ): { compilerOptions?: Record<string, unknown> } | null {
-    try {
-      const content = fs.readFileSync(configPath, "utf-8");
-      const jsonContent = stripJsonComments(content);
-      return JSON.parse(jsonContent) as { compilerOptions?: Record<string, unknown> };
-    } catch {
-      return null;
+  /**
+   * Read the compiler options of a tsconfig, following extends to relative
+   * files and npm packages (e.g. @tsconfig/strictest)
+   */
+  private resolveCompilerOptions(
+    configPath: string,
+    project: string
+  ): { options: ts.CompilerOptions } | { error: string } {
+    const { error } = ts.readConfigFile(configPath, (file) => ts.sys.readFile(file));
+    if (error) {
+      return { error: `Failed to parse ${project}` };
+    }
+
+    const tsconfig = readTsconfig(configPath);
+    if (tsconfig.errors.length > 0) {
+      const message = ts.flattenDiagnosticMessageText(tsconfig.errors[0].messageText, "\n");
+      return { error: `Failed to resolve ${project}: ${message}` };
     }
+    return { options: tsconfig.options };
   }
 
-  private auditCompilerOptions(configPath: string): Violation[] {
-    const tsconfig = this.parseConfigFile(configPath);
-    if (tsconfig === null) {
-      return [
-        {
-          rule: `${this.rule}.${this.toolId}`,
-          tool: "audit",
-          file: "tsconfig.json",
-          message: "Failed to parse tsconfig.json",
-          severity: "error",
-        },
-      ];
+  private auditCompilerOptions(projectRoot: string, project: string): Violation[] {
+    const configPath = path.join(projectRoot, project);
+    if (!fs.existsSync(configPath)) {
+      return [this.createAuditError(project, `${project} not found`)];
+    }
+
+    const resolved = this.resolveCompilerOptions(configPath, project);
+    if ("error" in resolved) {
+      return [this.createAuditError(project, resolved.error)];
     }
 
-    const compilerOptions = tsconfig.compilerOptions ?? {};
-    return this.validateCompilerOptions(compilerOptions);
+    return this.validateCompilerOptions(resolved.options, project);
   }
 
-  private validateCompilerOptions(compilerOptions: Record<string, unknown>): Violation[] {
+  private validateCompilerOptions(compilerOptions: ts.CompilerOptions, file: string): Violation[] {
     const violations: Violation[] = [];
     for (const [option, expectedValue] of Object.entries(this.requiredOptions)) {
       if (expectedValue === undefined) {
@@ -285,21 +352,30 @@ export class TscRunner extends BaseToolRunner {
 
       const actualValue = compilerOptions[option];
       if (actualValue === undefined) {
-        violations.push(this.createAuditViolation(option, expectedValue, "missing"));
+        violations.push(this.createAuditViolation(file, option, expectedValue, "missing"));
       } else if (actualValue !== expectedValue) {
-        violations.push(this.createAuditViolation(option, expectedValue, actualValue));
+        violations.push(this.createAuditViolation(file, option, expectedValue, actualValue));
       }
     }
     return violations;
   }
 
-  private createAuditViolation(option: string, expected: unknown, actual: unknown): Violation {
+  private createAuditViolation(
+    file: string,
+    option: string,
+    expected: unknown,
+    actual: unknown
+  ): Violation {
     const actualStr = actual === "missing" ? "missing" : String(actual);
+    return this.createAuditError(file, `${option}: expected ${String(expected)}, got ${actualStr}`);
+  }
+
+  private createAuditError(file: string, message: string): Violation {
     return {
       rule: `${this.rule}.${this.toolId}`,
       tool: "audit",
-      file: "tsconfig.json",
-      message: `${option}: expected ${String(expected)}, got ${actualStr}`,
+      file,
+      message,
       severity: "error",
     };
   }
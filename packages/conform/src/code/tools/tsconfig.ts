@@ -0,0 +1,66 @@
+import * as path from "node:path";
+
+import ts from "typescript";
+
+/** TS18003: no input files, which doesn't affect the compiler options */
+const NO_INPUTS_ERROR = 18003;
+
+/** A tsconfig file read with its extends chain resolved */
+export interface TsconfigFile {
+  options: ts.CompilerOptions;
+  /** Problems in the file or its extends chain */
+  errors: ts.Diagnostic[];
+  /** Absolute paths of the config file and every file it extends */
+  files: string[];
+  /** Absolute paths of the referenced projects' directories or config files */
+  references: string[];
+}
+
+/**
+ * Read a tsconfig file, following extends to relative files and npm packages
+ * (e.g. @tsconfig/strictest)
+ */
+export function readTsconfig(configPath: string): TsconfigFile {
+  const sourceFile = ts.readJsonConfigFile(configPath, (file) => ts.sys.readFile(file));
+  const parsed = ts.parseJsonSourceFileConfigFileContent(
+    sourceFile,
+    ts.sys,
+    path.dirname(configPath),
+    undefined,
+    configPath
+  );
+
+  return {
+    options: parsed.options,
+    errors: parsed.errors.filter((diagnostic) => diagnostic.code !== NO_INPUTS_ERROR),
+    files: [configPath, ...(sourceFile.extendedSourceFiles ?? [])],
+    references: (parsed.projectReferences ?? []).map((reference) => reference.path),
+  };
+}
+
+/**
+ * Config files of tsconfig projects and everything they depend on: their extends
+ * chains and, recursively, their project references. Projects may be given as a
+ * directory containing tsconfig.json.
+ */
+export function findTsconfigInputs(projects: string[]): string[] {
+  const files = new Set<string>();
+  const pending = [...projects];
+  const visited = new Set<string>();
+
+  while (pending.length > 0) {
+    const project = pending.pop() as string;
+    const configPath = ts.sys.directoryExists(project)
+      ? path.join(project, "tsconfig.json")
+      : project;
+    if (visited.has(configPath) || !ts.sys.fileExists(configPath)) {
+      continue;
+    }
+    visited.add(configPath);
+
+    const tsconfig = readTsconfig(configPath);
+    tsconfig.files.forEach((file) => files.add(file));
+    pending.push(...tsconfig.references);
+  }
+  return [...files];
+}
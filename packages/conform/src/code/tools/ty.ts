@@ -36,6 +36,11 @@ export class TyRunner extends BaseToolRunner {
   readonly rule = "code.types";
   readonly toolId = "ty";
   readonly configFiles = ["ty.toml"];
+  readonly sourcePatterns = ["**/*.py", "pyproject.toml"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "ty");
+  }
 
   /**
    * Override hasConfig to also check for [tool.ty] in pyproject.toml
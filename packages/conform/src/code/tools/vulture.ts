@@ -15,6 +15,11 @@ export class VultureRunner extends BaseToolRunner {
   readonly rule = "code.unused";
   readonly toolId = "vulture";
   readonly configFiles: string[] = []; // Vulture doesn't use config files
+  readonly sourcePatterns = ["**/*.py"];
+
+  async cacheKey(projectRoot: string): Promise<string | null> {
+    return this.getCommandVersion(projectRoot, "vulture");
+  }
 
   private async hasPythonFiles(projectRoot: string): Promise<boolean> {
     try {
@@ -0,0 +1,85 @@
+import { type AuditSeverity } from "./audit-policy.js";
+import { BaseJsAuditRunner, ghsaFromUrl, type JsAdvisory } from "./js-audit.js";
+
+/** A line of `yarn npm audit --json` output (Yarn 2+) */
+interface YarnAuditLine {
+  /** Vulnerable package name */
+  value: string;
+  children: {
+    ID: number | string;
+    Issue: string;
+    URL?: string;
+    Severity: AuditSeverity;
+    "Vulnerable Versions": string;
+    /** Not reported by every Yarn version */
+    "Patched Versions"?: string;
+    "Tree Versions"?: string[];
+    /** Packages depending on the vulnerable one, e.g. "mkdirp@npm:0.5.1" */
+    Dependents?: string[];
+  };
+}
+
+/**
+ * Whether a patched release exists ("<0.0.0" means none), and how to fix the advisory.
+ * Fixability is unknown when the report has no patched versions.
+ */
+function getFix(children: YarnAuditLine["children"]): {
+  fixable?: boolean;
+  remediation: string;
+} {
+  const patched = children["Patched Versions"];
+  if (patched === undefined) {
+    return { remediation: `vulnerable: ${children["Vulnerable Versions"]}` };
+  }
+  const fixable = patched !== "" && patched !== "<0.0.0";
+  return { fixable, remediation: fixable ? `patched: ${patched}` : "no patch available" };
+}
+
+/**
+ * Yarn (Berry) dependency audit tool runner for detecting vulnerabilities.
+ * Audits transitive dependencies too. Advisories without patched versions in the
+ * report are kept by allow_unfixable, since their fixability is unknown.
+ */
+export class YarnAuditRunner extends BaseJsAuditRunner {
+  readonly name = "yarnaudit";
+  readonly toolId = "yarnaudit";
+  readonly configFiles = ["yarn.lock"];
+  protected readonly command = "yarn";
+
+  protected buildArgs(excludeDev: boolean): string[] {
+    const args = ["npm", "audit", "--json", "--recursive"];
+    return excludeDev ? [...args, "--environment", "production"] : args;
+  }
+
+  protected parseAdvisories(output: string): JsAdvisory[] | null {
+    const advisories: JsAdvisory[] = [];
+    for (const line of output.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      let parsed: YarnAuditLine;
+      try {
+        parsed = JSON.parse(line) as YarnAuditLine;
+      } catch {
+        return null;
+      }
+      const { children } = parsed;
+      if (!children?.Issue) {
+        return null;
+      }
+
+      const id = String(children.ID);
+      advisories.push({
+        id: ghsaFromUrl(children.URL) ?? id,
+        aliases: [id],
+        module: parsed.value,
+        version: children["Tree Versions"]?.join(", "),
+        title: children.Issue,
+        severity: children.Severity,
+        paths: (children.Dependents ?? []).map((dependent) => `${dependent}>${parsed.value}`),
+        ...getFix(children),
+      });
+    }
+    return advisories;
+  }
+}
@@ -1,10 +1,15 @@
 // Types
 export type {
+  BaselineEntry,
+  BaselineSummary,
+  CacheSummary,
   Severity,
   DomainStatus,
   Violation,
   CheckResult,
   DomainResult,
+  FileChange,
+  FixResult,
   FullResult,
   IToolRunner,
   ViolationOptions,
@@ -15,6 +20,7 @@ export {
   ViolationBuilder,
   CheckResultBuilder,
   DomainResultBuilder,
+  FixResultBuilder,
   ExitCode,
 } from "./types.js";
 
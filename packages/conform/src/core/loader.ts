@@ -11,12 +11,17 @@ import { type Config, configSchema, defaultConfig } from "./schema.js";
  * @iarna/toml adds Symbol properties to inline tables (e.g., Symbol('type')),
  * which causes Zod 4.x validation to fail with "Cannot convert a Symbol value to a string"
  * when validating z.record() schemas.
+ * TOML dates are converted to ISO strings (local dates become "YYYY-MM-DD").
  */
 function stripSymbols(obj: unknown): unknown {
   if (obj === null || typeof obj !== "object") {
     return obj;
   }
 
+  if (obj instanceof Date) {
+    return obj.toISOString();
+  }
+
   if (Array.isArray(obj)) {
     return obj.map(stripSymbols);
   }
@@ -174,7 +179,24 @@ type CodeConfig = NonNullable<Config["code"]>;
 function mergeLinting(c: Config, dc: Config): CodeConfig["linting"] {
   const cl = c.code?.linting;
   const dl = dc.code?.linting;
-  return { eslint: merge(dl?.eslint, cl?.eslint), ruff: merge(dl?.ruff, cl?.ruff) };
+  return {
+    eslint: merge(dl?.eslint, cl?.eslint),
+    ruff: merge(dl?.ruff, cl?.ruff),
+    biome: merge(dl?.biome, cl?.biome),
+    oxlint: merge(dl?.oxlint, cl?.oxlint),
+    "golangci-lint": merge(dl?.["golangci-lint"], cl?.["golangci-lint"]),
+    clippy: merge(dl?.clippy, cl?.clippy),
+  };
+}
+
+function mergeFormatting(c: Config, dc: Config): CodeConfig["formatting"] {
+  const cf = c.code?.formatting;
+  const df = dc.code?.formatting;
+  return {
+    prettier: merge(df?.prettier, cf?.prettier),
+    ruff: merge(df?.ruff, cf?.ruff),
+    biome: merge(df?.biome, cf?.biome),
+  };
 }
 
 function mergeSecurity(c: Config, dc: Config): CodeConfig["security"] {
@@ -183,7 +205,12 @@ function mergeSecurity(c: Config, dc: Config): CodeConfig["security"] {
   return {
     secrets: merge(ds?.secrets, cs?.secrets),
     pnpmaudit: merge(ds?.pnpmaudit, cs?.pnpmaudit),
+    npmaudit: merge(ds?.npmaudit, cs?.npmaudit),
+    yarnaudit: merge(ds?.yarnaudit, cs?.yarnaudit),
     pipaudit: merge(ds?.pipaudit, cs?.pipaudit),
+    govulncheck: merge(ds?.govulncheck, cs?.govulncheck),
+    "cargo-audit": merge(ds?.["cargo-audit"], cs?.["cargo-audit"]),
+    licenses: merge(ds?.licenses, cs?.licenses),
   };
 }
 
@@ -191,6 +218,8 @@ function mergeTypes(c: Config, dc: Config): CodeConfig["types"] {
   return {
     tsc: merge(dc.code?.types?.tsc, c.code?.types?.tsc),
     ty: merge(dc.code?.types?.ty, c.code?.types?.ty),
+    govet: merge(dc.code?.types?.govet, c.code?.types?.govet),
+    "cargo-check": merge(dc.code?.types?.["cargo-check"], c.code?.types?.["cargo-check"]),
   };
 }
 
@@ -212,6 +241,9 @@ function mergeNaming(c: Config, dc: Config): CodeConfig["naming"] {
   return {
     enabled: cn?.enabled ?? dn?.enabled ?? false,
     rules: cn?.rules ?? dn?.rules,
+    identifier_rules: cn?.identifier_rules ?? dn?.identifier_rules,
+    component_file_matches_export:
+      cn?.component_file_matches_export ?? dn?.component_file_matches_export,
   };
 }
 
@@ -220,18 +252,22 @@ function mergeQuality(c: Config, dc: Config): CodeConfig["quality"] {
   const dq = dc.code?.quality;
   return {
     "disable-comments": merge(dq?.["disable-comments"], cq?.["disable-comments"]),
+    complexity: merge(dq?.complexity, cq?.complexity),
   };
 }
 
 function mergeCode(c: Config, dc: Config): CodeConfig {
   return {
     linting: mergeLinting(c, dc),
+    formatting: mergeFormatting(c, dc),
     types: mergeTypes(c, dc),
     unused: mergeUnused(c, dc),
     coverage_run: mergeCoverageRun(c, dc),
     security: mergeSecurity(c, dc),
     naming: mergeNaming(c, dc),
+    architecture: merge(dc.code?.architecture, c.code?.architecture),
     quality: mergeQuality(c, dc),
+    custom: c.code?.custom,
   };
 }
 
@@ -426,6 +462,8 @@ function mergeWithDefaults(config: Config): Config {
     process: mergeProcess(config, defaultConfig),
     infra: mergeInfra(config, defaultConfig),
     monorepo: config.monorepo,
+    cache: config.cache,
+    plugins: config.plugins,
   };
 }
 
@@ -14,12 +14,17 @@ import { type Config, configSchema } from "./schema.js";
  * @iarna/toml adds Symbol properties to inline tables (e.g., Symbol('type')),
  * which causes Zod 4.x validation to fail with "Cannot convert a Symbol value to a string"
  * when validating z.record() schemas.
+ * TOML dates are converted to ISO strings (local dates become "YYYY-MM-DD").
  */
 function stripSymbols(obj: unknown): unknown {
   if (obj === null || typeof obj !== "object") {
     return obj;
   }
 
+  if (obj instanceof Date) {
+    return obj.toISOString();
+  }
+
   if (Array.isArray(obj)) {
     return obj.map(stripSymbols);
   }
@@ -241,6 +246,25 @@ function mergeLinting(
     ...base,
     eslint: mergeToolConfig(base?.eslint, override.eslint),
     ruff: mergeToolConfig(base?.ruff, override.ruff),
+    biome: mergeToolConfig(base?.biome, override.biome),
+    oxlint: mergeToolConfig(base?.oxlint, override.oxlint),
+    "golangci-lint": mergeToolConfig(base?.["golangci-lint"], override["golangci-lint"]),
+    clippy: mergeToolConfig(base?.clippy, override.clippy),
+  };
+}
+
+function mergeFormatting(
+  base: CodeConfig["formatting"],
+  override: CodeConfig["formatting"]
+): CodeConfig["formatting"] {
+  if (!override) {
+    return base;
+  }
+  return {
+    ...base,
+    prettier: mergeToolConfig(base?.prettier, override.prettier),
+    ruff: mergeToolConfig(base?.ruff, override.ruff),
+    biome: mergeToolConfig(base?.biome, override.biome),
   };
 }
 
@@ -252,6 +276,8 @@ function mergeTypes(base: CodeConfig["types"], override: CodeConfig["types"]): C
     ...base,
     tsc: mergeToolConfig(base?.tsc, override.tsc),
     ty: mergeToolConfig(base?.ty, override.ty),
+    govet: mergeToolConfig(base?.govet, override.govet),
+    "cargo-check": mergeToolConfig(base?.["cargo-check"], override["cargo-check"]),
   };
 }
 
@@ -280,7 +306,12 @@ function mergeSecurity(
     ...base,
     secrets: mergeToolConfig(base?.secrets, override.secrets),
     pnpmaudit: mergeToolConfig(base?.pnpmaudit, override.pnpmaudit),
+    npmaudit: mergeToolConfig(base?.npmaudit, override.npmaudit),
+    yarnaudit: mergeToolConfig(base?.yarnaudit, override.yarnaudit),
     pipaudit: mergeToolConfig(base?.pipaudit, override.pipaudit),
+    govulncheck: mergeToolConfig(base?.govulncheck, override.govulncheck),
+    "cargo-audit": mergeToolConfig(base?.["cargo-audit"], override["cargo-audit"]),
+    licenses: mergeToolConfig(base?.licenses, override.licenses),
   };
 }
 
@@ -295,6 +326,9 @@ function mergeNaming(
   return {
     enabled: override.enabled,
     rules: override.rules ?? base?.rules,
+    identifier_rules: override.identifier_rules ?? base?.identifier_rules,
+    component_file_matches_export:
+      override.component_file_matches_export ?? base?.component_file_matches_export,
   };
 }
 
@@ -308,18 +342,22 @@ function mergeQuality(
   return {
     ...base,
     "disable-comments": mergeToolConfig(base?.["disable-comments"], override["disable-comments"]),
+    complexity: mergeToolConfig(base?.complexity, override.complexity),
   };
 }
 
 function mergeCodeSection(base: CodeConfig | undefined, override: CodeConfig): CodeConfig {
   return {
     linting: mergeLinting(base?.linting, override.linting),
+    formatting: mergeFormatting(base?.formatting, override.formatting),
     types: mergeTypes(base?.types, override.types),
     unused: mergeUnused(base?.unused, override.unused),
     coverage_run: mergeToolConfig(base?.coverage_run, override.coverage_run),
     security: mergeSecurity(base?.security, override.security),
     naming: mergeNaming(base?.naming, override.naming),
+    architecture: mergeToolConfig(base?.architecture, override.architecture),
     quality: mergeQuality(base?.quality, override.quality),
+    custom: override.custom ? { ...base?.custom, ...override.custom } : base?.custom,
   };
 }
 
@@ -552,6 +590,22 @@ function mergeProcessSection(
   };
 }
 
+type PluginsConfig = NonNullable<Config["plugins"]>;
+
+/** Merge plugins by name; plugin config tables are merged key by key */
+function mergePlugins(base: PluginsConfig | undefined, override: PluginsConfig): PluginsConfig {
+  const merged: PluginsConfig = { ...base };
+  for (const [name, plugin] of Object.entries(override)) {
+    const basePlugin = base?.[name];
+    merged[name] = {
+      ...basePlugin,
+      ...plugin,
+      config: mergeToolConfig(basePlugin?.config, plugin.config),
+    };
+  }
+  return merged;
+}
+
 export function mergeConfigs(base: Config, override: Config): Config {
   const merged: Config = { ...base };
 
@@ -571,6 +625,14 @@ export function mergeConfigs(base: Config, override: Config): Config {
     merged.monorepo = override.monorepo;
   }
 
+  if (override.cache) {
+    merged.cache = override.cache;
+  }
+
+  if (override.plugins) {
+    merged.plugins = mergePlugins(base.plugins, override.plugins);
+  }
+
   return merged;
 }
 
@@ -595,6 +657,8 @@ export async function resolveExtends(config: Config, configDir: string): Promise
     process: config.process,
     infra: config.infra,
     monorepo: config.monorepo,
+    cache: config.cache,
+    plugins: config.plugins,
   };
   return mergeConfigs(mergedConfig, localConfig);
 }
@@ -0,0 +1,44 @@
+import { type CheckResult, type IToolRunner } from "./types.js";
+
+/**
+ * Run tools in parallel with error isolation
+ * Uses Promise.allSettled to ensure one failing tool doesn't lose all results
+ */
+export async function runTools(
+  tools: IToolRunner[],
+  projectRoot: string,
+  mode: "run" | "audit"
+): Promise<CheckResult[]> {
+  const promises = tools.map((tool) =>
+    mode === "run" ? tool.run(projectRoot) : tool.audit(projectRoot)
+  );
+
+  const results = await Promise.allSettled(promises);
+
+  return results.map((result, index) => {
+    const tool = tools[index];
+    if (result.status === "fulfilled") {
+      return { ...result.value, toolId: tool.toolId };
+    }
+
+    // Handle rejected promise - create error result for the tool
+    const errorMessage = result.reason instanceof Error ? result.reason.message : "Unknown error";
+
+    return {
+      name: tool.name,
+      rule: tool.rule,
+      passed: false,
+      violations: [
+        {
+          rule: tool.rule,
+          tool: tool.toolId,
+          message: `Tool error: ${errorMessage}`,
+          severity: "error" as const,
+        },
+      ],
+      skipped: false,
+      duration: 0,
+      toolId: tool.toolId,
+    };
+  });
+}
@@ -119,6 +119,45 @@ const eslintConfigSchema = z
   .strict()
   .optional();
 
+/** Biome linter configuration */
+const biomeLintConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    rules: eslintRulesSchema, // Required rules for audit (verifies biome.json linter.rules)
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** oxlint configuration */
+const oxlintConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    ignore: z.array(z.string()).optional(), // Glob patterns to ignore
+    rules: eslintRulesSchema, // Required rules for audit (verifies .oxlintrc.json)
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** golangci-lint configuration */
+const golangciLintConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** Clippy configuration */
+const clippyConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
 // =============================================================================
 // Ruff Configuration
 // =============================================================================
@@ -143,6 +182,85 @@ const ruffConfigSchema = z
   .strict()
   .optional();
 
+// =============================================================================
+// Formatter Configuration
+// =============================================================================
+
+/** Prettier options that can be required via audit */
+const prettierOptionsSchema = z
+  .object({
+    printWidth: z.number().int().positive().optional(),
+    tabWidth: z.number().int().positive().optional(),
+    useTabs: z.boolean().optional(),
+    semi: z.boolean().optional(),
+    singleQuote: z.boolean().optional(),
+    jsxSingleQuote: z.boolean().optional(),
+    quoteProps: z.enum(["as-needed", "consistent", "preserve"]).optional(),
+    trailingComma: z.enum(["all", "es5", "none"]).optional(),
+    bracketSpacing: z.boolean().optional(),
+    arrowParens: z.enum(["always", "avoid"]).optional(),
+    endOfLine: z.enum(["lf", "crlf", "cr", "auto"]).optional(),
+  })
+  .strict()
+  .optional();
+
+/** Prettier configuration */
+const prettierConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    require: prettierOptionsSchema, // Required options for audit (verifies .prettierrc)
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** Ruff formatter options that can be required via audit */
+const ruffFormatOptionsSchema = z
+  .object({
+    "line-length": z.number().int().positive().optional(),
+    "indent-width": z.number().int().positive().optional(),
+    "quote-style": z.enum(["double", "single", "preserve"]).optional(),
+    "indent-style": z.enum(["space", "tab"]).optional(),
+    "skip-magic-trailing-comma": z.boolean().optional(),
+    "line-ending": z.enum(["auto", "lf", "cr-lf", "native"]).optional(),
+  })
+  .strict()
+  .optional();
+
+/** Ruff formatter configuration */
+const ruffFormatConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    require: ruffFormatOptionsSchema, // Required options for audit (verifies [tool.ruff.format])
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** Biome formatter options that can be required via audit */
+const biomeOptionsSchema = z
+  .object({
+    lineWidth: z.number().int().positive().optional(),
+    indentStyle: z.enum(["tab", "space"]).optional(),
+    indentWidth: z.number().int().positive().optional(),
+    lineEnding: z.enum(["lf", "crlf", "cr"]).optional(),
+    quoteStyle: z.enum(["double", "single"]).optional(),
+    trailingCommas: z.enum(["all", "es5", "none"]).optional(),
+    semicolons: z.enum(["always", "asNeeded"]).optional(),
+  })
+  .strict()
+  .optional();
+
+/** Biome formatter configuration */
+const biomeConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    require: biomeOptionsSchema, // Required options for audit (verifies biome.json)
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
 // =============================================================================
 // TypeScript Configuration
 // =============================================================================
@@ -169,6 +287,8 @@ const tscConfigSchema = z
   .object({
     enabled: z.boolean().optional().default(false),
     require: tscCompilerOptionsSchema, // Required compiler options for audit
+    projects: z.array(z.string()).min(1).optional(), // tsconfig files to check (default: tsconfig.json)
+    build: z.boolean().optional(), // Use tsc -b (project references) instead of tsc --noEmit
     dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
   })
   .strict()
@@ -187,6 +307,24 @@ const tyConfigSchema = z
   .strict()
   .optional();
 
+/** cargo check configuration */
+const cargoCheckConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** go vet configuration */
+const govetConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
 // =============================================================================
 // Knip Configuration (Unused Code Detection)
 // =============================================================================
@@ -218,15 +356,41 @@ const vultureConfigSchema = z
 // =============================================================================
 
 /** Coverage run test runner type */
-const coverageRunnerSchema = z.enum(["vitest", "jest", "pytest", "auto"]);
+const coverageRunnerSchema = z.enum([
+  "vitest",
+  "jest",
+  "pytest",
+  "go",
+  "llvm-cov",
+  "tarpaulin",
+  "auto",
+]);
+
+/** Coverage percentage */
+const coveragePercentSchema = z.number().int().min(0).max(100);
+
+/** Per-metric coverage minimums */
+const coverageMetricThresholdsSchema = z
+  .object({
+    lines: coveragePercentSchema.optional(),
+    statements: coveragePercentSchema.optional(),
+    branches: coveragePercentSchema.optional(),
+    functions: coveragePercentSchema.optional(),
+  })
+  .strict();
 
 /** Coverage run configuration - runs tests and verifies coverage threshold */
 const coverageRunConfigSchema = z
   .object({
     enabled: z.boolean().optional().default(false),
-    min_threshold: z.number().int().min(0).max(100).optional().default(80), // Minimum coverage percentage
+    min_threshold: coveragePercentSchema.optional().default(80), // Minimum coverage percentage
     runner: coverageRunnerSchema.optional().default("auto"), // Test runner to use
     command: z.string().optional(), // Custom command to run tests with coverage
+    report_path: z.string().optional(), // Coverage report to read (JSON, lcov.info, Cobertura XML)
+    thresholds: coverageMetricThresholdsSchema.optional(), // e.g. { branches = 70 }
+    paths: z.record(z.string(), coveragePercentSchema).optional(), // e.g. { "src/core/**" = 90 }
+    per_file_min: coveragePercentSchema.optional(), // Minimum coverage of every file
+    baseline: z.string().optional(), // Stored coverage-summary.json that coverage must not drop below
     dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
   })
   .strict()
@@ -245,16 +409,32 @@ const secretsConfigSchema = z
       .optional()
       .default("branch"), // branch: scan current branch commits, files: scan filesystem, staged: staged files only, full: entire git history
     base_branch: z.string().optional().default("main"), // Branch to compare against for "branch" mode
+    engine: z.enum(["auto", "gitleaks", "builtin"]).optional().default("auto"), // auto: gitleaks when installed, else the built-in scanner
     dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
   })
   .strict()
   .optional();
 
-/** pnpm audit configuration */
-const pnpmauditConfigSchema = z
+/** Advisory severity levels, lowest first */
+const auditSeveritySchema = z.enum(["info", "low", "moderate", "high", "critical"]);
+
+/** An accepted advisory, ignored until its expiry date */
+const auditIgnoreSchema = z
+  .object({
+    id: z.string(), // Advisory ID or alias, e.g. "GHSA-xxxx-xxxx-xxxx" or "CVE-2024-1234"
+    reason: z.string(),
+    expires: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date"), // Last day it applies
+  })
+  .strict();
+
+/** pnpm / npm / yarn audit configuration */
+const jsAuditConfigSchema = z
   .object({
     enabled: z.boolean().optional().default(false),
     exclude_dev: z.boolean().optional().default(true),
+    min_severity: auditSeveritySchema.optional(), // Only report advisories at or above this severity
+    ignore: z.array(auditIgnoreSchema).optional(),
+    allow_unfixable: z.boolean().optional().default(false), // Don't report advisories without a patch
     dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
   })
   .strict()
@@ -262,6 +442,26 @@ const pnpmauditConfigSchema = z
 
 /** pip-audit configuration */
 const pipauditConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    ignore: z.array(auditIgnoreSchema).optional(),
+    allow_unfixable: z.boolean().optional().default(false), // Don't report vulnerabilities without a fix
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** govulncheck configuration */
+const govulncheckConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
+/** cargo audit configuration */
+const cargoAuditConfigSchema = z
   .object({
     enabled: z.boolean().optional().default(false),
     dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
@@ -269,12 +469,29 @@ const pipauditConfigSchema = z
   .strict()
   .optional();
 
+/** Dependency license compliance configuration */
+const licensesConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    allow: z.array(z.string()).optional(), // SPDX ids or globs, e.g. ["MIT", "Apache-2.0", "BSD-*"]
+    deny: z.array(z.string()).optional(), // SPDX ids or globs, e.g. ["GPL-*", "AGPL-*"]
+    exceptions: z.array(z.string()).optional(), // Exempt packages, e.g. ["some-pkg", "other@1.2.3"]
+    dependencies: z.array(z.string()).optional(), // Custom dependency files for drift tracking
+  })
+  .strict()
+  .optional();
+
 /** Code security configuration */
 const codeSecuritySchema = z
   .object({
     secrets: secretsConfigSchema,
-    pnpmaudit: pnpmauditConfigSchema,
+    pnpmaudit: jsAuditConfigSchema,
+    npmaudit: jsAuditConfigSchema,
+    yarnaudit: jsAuditConfigSchema,
     pipaudit: pipauditConfigSchema,
+    govulncheck: govulncheckConfigSchema,
+    "cargo-audit": cargoAuditConfigSchema,
+    licenses: licensesConfigSchema,
   })
   .strict()
   .optional();
@@ -312,11 +529,53 @@ const namingRuleSchema = z
   })
   .strict();
 
+/** Kinds of exported declarations identifier rules apply to */
+const identifierKindSchema = z.enum([
+  "class",
+  "interface",
+  "type",
+  "enum",
+  "function",
+  "component", // Functions rendering JSX, React class components, memo()/forwardRef()
+  "hook", // Functions named use* or calling hooks
+  "constant", // Consts holding a literal or "as const" value; Python literal assignments
+  "variable",
+]);
+
+/** Naming rule for exported declarations */
+const identifierRuleSchema = z
+  .object({
+    extensions: uniqueArraySchemaMin1(z.string()), // e.g., ["ts", "tsx"] or ["py"]
+    kinds: uniqueArraySchemaMin1(identifierKindSchema),
+    case: z.enum(["camelCase", "PascalCase", "snake_case", "SCREAMING_SNAKE_CASE"]).optional(),
+    pattern: z
+      .string()
+      .refine(
+        (pattern) => {
+          try {
+            new RegExp(pattern);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: "Invalid regex" }
+      )
+      .optional(), // Regex names must match, e.g., "^use[A-Z]"
+    exclude: z.array(z.string()).optional(), // Glob patterns to exclude
+  })
+  .strict()
+  .refine((rule) => rule.case !== undefined || rule.pattern !== undefined, {
+    message: "Identifier rule needs a case or a pattern",
+  });
+
 /** Naming conventions configuration */
 const namingConfigSchema = z
   .object({
     enabled: z.boolean().optional().default(false),
     rules: z.array(namingRuleSchema).optional(),
+    identifier_rules: z.array(identifierRuleSchema).optional(),
+    component_file_matches_export: z.boolean().optional(), // .tsx/.jsx named after default export
   })
   .strict()
   .superRefine((data, ctx) => {
@@ -343,7 +602,67 @@ const namingConfigSchema = z
   .optional();
 
 // =============================================================================
-// Quality Configuration (Disable Comments Detection)
+// Architecture Configuration (Import Boundaries)
+// =============================================================================
+
+/** A layer: files matching its globs may import from the same layer and the allowed ones */
+const architectureLayerSchema = z
+  .object({
+    name: z.string().min(1),
+    files: z.array(globPatternSchema).min(1), // e.g. ["src/ui/**"]
+    allow: uniqueArraySchema(z.string()).optional(), // Layer names it may import from
+  })
+  .strict();
+
+/** Imports forbidden in some files */
+const architectureForbiddenSchema = z
+  .object({
+    from: z.array(globPatternSchema).min(1), // Importing files
+    to: z.array(z.string()).min(1), // Globs of project files or package names, e.g. ["lodash"]
+    message: z.string().optional(), // Why, shown with each violation
+  })
+  .strict();
+
+/** Architecture configuration */
+const architectureConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    files: z.array(globPatternSchema).optional(), // Files to check (default: TS/JS/Python sources)
+    exclude: z.array(z.string()).optional(), // Glob patterns to exclude
+    tsconfig: z.string().optional(), // tsconfig.json whose paths apply (default: tsconfig.json)
+    python_roots: z.array(z.string()).optional(), // Python import roots (default: [".", "src"])
+    layers: z.array(architectureLayerSchema).optional(),
+    forbidden: z.array(architectureForbiddenSchema).optional(),
+    no_cycles: z.boolean().optional(), // Report import cycles
+    packages: z.array(z.string()).optional(), // Globs of workspace package directories
+    entrypoints: z.array(z.string()).optional(), // Files other packages may import (e.g. index.ts)
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const names = (data.layers ?? []).map((layer) => layer.name);
+    (data.layers ?? []).forEach((layer, i) => {
+      if (names.indexOf(layer.name) !== i) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate layer name "${layer.name}"`,
+          path: ["layers", i, "name"],
+        });
+      }
+      for (const allowed of layer.allow ?? []) {
+        if (!names.includes(allowed)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Layer "${layer.name}" allows unknown layer "${allowed}"`,
+            path: ["layers", i, "allow"],
+          });
+        }
+      }
+    });
+  })
+  .optional();
+
+// =============================================================================
+// Quality Configuration (Disable Comments Detection, Complexity)
 // =============================================================================
 
 /** Disable comments configuration */
@@ -357,14 +676,117 @@ const disableCommentsConfigSchema = z
   .strict()
   .optional();
 
+/** Complexity and size limits (0 turns a limit off) */
+const complexityLimitsShape = {
+  max_complexity: z.number().int().min(0).optional(), // Cyclomatic complexity per function
+  max_function_lines: z.number().int().min(0).optional(),
+  max_file_lines: z.number().int().min(0).optional(),
+  max_params: z.number().int().min(0).optional(),
+};
+
+/** Limits for the files matching any of the globs */
+const complexityOverrideSchema = z
+  .object({
+    files: z.array(z.string()).min(1), // Glob patterns, e.g. ["src/generated/**"]
+    ...complexityLimitsShape,
+  })
+  .strict();
+
+/** Complexity configuration */
+const complexityConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    ...complexityLimitsShape,
+    exclude: z.array(z.string()).optional(), // Glob patterns to exclude
+    overrides: z.array(complexityOverrideSchema).optional(), // Per-glob limits, later entries win
+  })
+  .strict()
+  .optional();
+
 /** Code quality configuration */
 const codeQualitySchema = z
   .object({
     "disable-comments": disableCommentsConfigSchema,
+    complexity: complexityConfigSchema,
   })
   .strict()
   .optional();
 
+// =============================================================================
+// Custom Command Tools Configuration
+// =============================================================================
+
+/** Regex parser - one violation per match of a pattern with named groups */
+const customRegexParserSchema = z
+  .object({
+    type: z.literal("regex"),
+    pattern: z.string().superRefine((pattern, ctx) => {
+      try {
+        new RegExp(pattern, "gm");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "invalid pattern";
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid regex: ${message}` });
+        return;
+      }
+      if (!pattern.includes("(?<message>")) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Pattern must have a named group (?<message>...)",
+        });
+      }
+    }), // Named groups: file, line, column, message (required), code, severity
+  })
+  .strict();
+
+/** JSON parser - maps fields of each item in a JSON array to violation fields */
+const customJsonParserSchema = z
+  .object({
+    type: z.literal("json"),
+    path: z.string().optional(), // Dotted path to the results array (default: output root)
+    fields: z
+      .object({
+        file: z.string().optional(),
+        line: z.string().optional(),
+        column: z.string().optional(),
+        message: z.string(),
+        code: z.string().optional(),
+        severity: z.string().optional(),
+      })
+      .strict(), // Dotted paths within each result item
+  })
+  .strict();
+
+/** SARIF parser - imports results from SARIF 2.1.0 output */
+const customSarifParserSchema = z
+  .object({
+    type: z.literal("sarif"),
+  })
+  .strict();
+
+/** Output parser for a custom command tool */
+const customParserSchema = z.discriminatedUnion("type", [
+  customRegexParserSchema,
+  customJsonParserSchema,
+  customSarifParserSchema,
+]);
+
+/** Custom command tool configuration - runs an arbitrary linter */
+const customToolConfigSchema = z
+  .object({
+    enabled: z.boolean().optional().default(false),
+    command: z.string().min(1), // Executable to run (not a shell - use "sh" with ["-c", ...] for globs)
+    args: z.array(z.string()).optional().default([]),
+    pass_exit_codes: z.array(z.number().int()).optional().default([0]), // Exit codes meaning no issues
+    fail_exit_codes: z.array(z.number().int()).optional().default([1]), // Exit codes meaning issues found
+    output: z.enum(["stdout", "stderr"]).optional().default("stdout"), // Stream to parse
+    parser: customParserSchema,
+    config_files: z.array(z.string()).optional(), // Config files checked by audit
+  })
+  .strict();
+
+/** Custom command tools, keyed by tool name */
+const customToolsSchema = z.record(z.string(), customToolConfigSchema).optional();
+
 // =============================================================================
 // Code Domain Configuration
 // =============================================================================
@@ -374,6 +796,20 @@ const codeLintingSchema = z
   .object({
     eslint: eslintConfigSchema,
     ruff: ruffConfigSchema,
+    biome: biomeLintConfigSchema,
+    oxlint: oxlintConfigSchema,
+    "golangci-lint": golangciLintConfigSchema,
+    clippy: clippyConfigSchema,
+  })
+  .strict()
+  .optional();
+
+/** Code formatting configuration */
+const codeFormattingSchema = z
+  .object({
+    prettier: prettierConfigSchema,
+    ruff: ruffFormatConfigSchema,
+    biome: biomeConfigSchema,
   })
   .strict()
   .optional();
@@ -383,6 +819,8 @@ const codeTypesSchema = z
   .object({
     tsc: tscConfigSchema,
     ty: tyConfigSchema,
+    govet: govetConfigSchema,
+    "cargo-check": cargoCheckConfigSchema,
   })
   .strict()
   .optional();
@@ -400,12 +838,15 @@ const codeUnusedSchema = z
 const codeSchema = z
   .object({
     linting: codeLintingSchema,
+    formatting: codeFormattingSchema,
     types: codeTypesSchema,
     unused: codeUnusedSchema,
     coverage_run: coverageRunConfigSchema,
     security: codeSecuritySchema,
     naming: namingConfigSchema,
+    architecture: architectureConfigSchema,
     quality: codeQualitySchema,
+    custom: customToolsSchema,
   })
   .strict()
   .optional();
@@ -779,6 +1220,36 @@ const monorepoSchema = z
   .strict()
   .optional();
 
+// =============================================================================
+// Cache Configuration
+// =============================================================================
+
+/** Result cache configuration for conform check */
+const cacheSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    dir: z.string().min(1).optional(), // Relative to standards.toml; defaults to .conform-cache
+  })
+  .strict()
+  .optional();
+
+// =============================================================================
+// Plugins Configuration
+// =============================================================================
+
+/** A plugin module providing additional tool runners */
+const pluginSchema = z
+  .object({
+    module: z.string().optional(), // Local path (relative to standards.toml) or npm package name
+    enabled: z.boolean().optional().default(true),
+    domain: z.string().min(1).optional(), // Overrides the domain declared by the plugin
+    config: z.record(z.string(), z.unknown()).optional(), // Validated by the plugin's own schema
+  })
+  .strict();
+
+/** Plugins configuration, keyed by plugin name */
+const pluginsSchema = z.record(z.string(), pluginSchema).optional();
+
 // =============================================================================
 // Full Configuration
 // =============================================================================
@@ -793,6 +1264,8 @@ export const configSchema = z
     infra: infraSchema,
     mcp: mcpSchema,
     monorepo: monorepoSchema,
+    cache: cacheSchema,
+    plugins: pluginsSchema,
   })
   .strict();
 
@@ -805,10 +1278,21 @@ export const defaultConfig: Config = {
     linting: {
       eslint: { enabled: false },
       ruff: { enabled: false },
+      biome: { enabled: false },
+      oxlint: { enabled: false },
+      "golangci-lint": { enabled: false },
+      clippy: { enabled: false },
+    },
+    formatting: {
+      prettier: { enabled: false },
+      ruff: { enabled: false },
+      biome: { enabled: false },
     },
     types: {
       tsc: { enabled: false },
       ty: { enabled: false },
+      govet: { enabled: false },
+      "cargo-check": { enabled: false },
     },
     unused: {
       knip: { enabled: false },
@@ -820,15 +1304,24 @@ export const defaultConfig: Config = {
       runner: "auto",
     },
     security: {
-      secrets: { enabled: false, scan_mode: "branch", base_branch: "main" },
-      pnpmaudit: { enabled: false, exclude_dev: true },
-      pipaudit: { enabled: false },
+      secrets: { enabled: false, scan_mode: "branch", base_branch: "main", engine: "auto" },
+      pnpmaudit: { enabled: false, exclude_dev: true, allow_unfixable: false },
+      npmaudit: { enabled: false, exclude_dev: true, allow_unfixable: false },
+      yarnaudit: { enabled: false, exclude_dev: true, allow_unfixable: false },
+      pipaudit: { enabled: false, allow_unfixable: false },
+      govulncheck: { enabled: false },
+      "cargo-audit": { enabled: false },
+      licenses: { enabled: false },
     },
     naming: {
       enabled: false,
     },
+    architecture: {
+      enabled: false,
+    },
     quality: {
       "disable-comments": { enabled: false },
+      complexity: { enabled: false },
     },
   },
   monorepo: {},
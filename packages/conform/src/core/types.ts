@@ -33,6 +33,8 @@ export interface CheckResult {
   skipped: boolean;
   skipReason?: string;
   duration?: number;
+  /** toolId of the runner that produced this result */
+  toolId?: string;
 }
 
 /** Result of running all checks in a domain */
@@ -43,6 +45,35 @@ export interface DomainResult {
   violationCount: number;
 }
 
+/** A recorded violation fingerprint in a baseline file */
+export interface BaselineEntry {
+  fingerprint: string;
+  tool: string;
+  rule: string;
+  code?: string;
+  file?: string;
+  message: string;
+  count: number;
+}
+
+/** Outcome of comparing a run against a baseline file */
+export interface BaselineSummary {
+  path: string;
+  /** Number of violations suppressed because they are in the baseline */
+  suppressed: number;
+  /** Baseline entries that no longer occur and can be removed */
+  fixed: BaselineEntry[];
+}
+
+/** Result cache usage for a run */
+export interface CacheSummary {
+  dir: string;
+  /** Tools whose results were replayed from the cache */
+  hits: number;
+  /** Cacheable tools that had to run */
+  misses: number;
+}
+
 /** Full result of conform check or conform audit */
 export interface FullResult {
   version: string;
@@ -52,6 +83,34 @@ export interface FullResult {
     totalViolations: number;
     exitCode: number;
   };
+  baseline?: BaselineSummary;
+  cache?: CacheSummary;
+}
+
+/** A file change proposed by a tool's autofix */
+export interface FileChange {
+  /** File path relative to the project root */
+  file: string;
+  /** Current content, or null when the file will be created */
+  before: string | null;
+  /** Content after the fix */
+  after: string;
+  /** New path relative to the project root when the file is renamed */
+  renameTo?: string;
+  /** Short description of the change */
+  description: string;
+}
+
+/** Result of computing autofixes for a single tool */
+export interface FixResult {
+  name: string;
+  rule: string;
+  /** Changes the fix makes (not yet applied) */
+  changes: FileChange[];
+  /** Violations the fix cannot address and that need manual work */
+  remaining: Violation[];
+  skipped: boolean;
+  skipReason?: string;
 }
 
 // =============================================================================
@@ -68,12 +127,43 @@ export interface IToolRunner {
   readonly toolId: string;
   /** Config file patterns to look for */
   readonly configFiles: string[];
+  /**
+   * Glob patterns (relative to projectRoot) for the files the tool checks, used by watch mode.
+   * Tools without patterns re-run on any change; an empty list means only config files.
+   */
+  readonly sourcePatterns?: string[];
+
+  /** Globs of files the tool writes itself (e.g. reports), never hashed as cache inputs */
+  readonly outputPatterns?: string[];
+
+  /**
+   * Key material for result caching: the tool version plus any state not captured by
+   * configFiles and sourcePatterns (e.g. git HEAD). Only tools implementing this are cached;
+   * returning null skips the cache for this run.
+   */
+  cacheKey?(projectRoot: string): Promise<string | null>;
+
+  /**
+   * Files besides configFiles and sourcePatterns whose content affects results, such as
+   * the files a tsconfig extends (which may lie outside projectRoot). Hashed into the cache
+   * key; paths are absolute or relative to projectRoot.
+   */
+  cacheInputs?(projectRoot: string): Promise<string[]>;
 
   /** Run the tool and return check results */
   run(projectRoot: string): Promise<CheckResult>;
 
   /** Audit that config exists without running the tool */
   audit(projectRoot: string): Promise<CheckResult>;
+
+  /**
+   * Restrict the next run to these files (relative to projectRoot). Tools that can only
+   * check the whole project don't implement this or ignore the files.
+   */
+  setTargetFiles?(files: string[]): void;
+
+  /** Compute fixes for violations without writing them. Only tools that support autofix. */
+  fix?(projectRoot: string): Promise<FixResult>;
 }
 
 // =============================================================================
@@ -164,6 +254,17 @@ export const CheckResultBuilder = {
   },
 };
 
+/** Builder for creating FixResult objects */
+export const FixResultBuilder = {
+  create(name: string, rule: string, changes: FileChange[], remaining: Violation[]): FixResult {
+    return { name, rule, changes, remaining, skipped: false };
+  },
+
+  skip(name: string, rule: string, reason: string): FixResult {
+    return { name, rule, changes: [], remaining: [], skipped: true, skipReason: reason };
+  },
+};
+
 /** Builder for creating DomainResult objects */
 export const DomainResultBuilder = {
   fromChecks(domain: string, checks: CheckResult[]): DomainResult {
@@ -27,17 +27,31 @@ interface ToolConfig {
 const TOOL_CONFIG_ACCESSORS: Record<string, (c: Config) => ToolConfig | undefined> = {
   eslint: (c) => c.code?.linting?.eslint,
   ruff: (c) => c.code?.linting?.ruff,
+  biome: (c) => c.code?.linting?.biome,
+  oxlint: (c) => c.code?.linting?.oxlint,
+  "golangci-lint": (c) => c.code?.linting?.["golangci-lint"],
+  clippy: (c) => c.code?.linting?.clippy,
+  prettier: (c) => c.code?.formatting?.prettier,
+  "ruff-format": (c) => c.code?.formatting?.ruff,
+  "biome-format": (c) => c.code?.formatting?.biome,
   tsc: (c) => c.code?.types?.tsc,
   ty: (c) => c.code?.types?.ty,
+  govet: (c) => c.code?.types?.govet,
+  "cargo-check": (c) => c.code?.types?.["cargo-check"],
   knip: (c) => c.code?.unused?.knip,
   vulture: (c) => c.code?.unused?.vulture,
   secrets: (c) => c.code?.security?.secrets,
   pnpmaudit: (c) => c.code?.security?.pnpmaudit,
+  npmaudit: (c) => c.code?.security?.npmaudit,
+  yarnaudit: (c) => c.code?.security?.yarnaudit,
   pipaudit: (c) => c.code?.security?.pipaudit,
+  govulncheck: (c) => c.code?.security?.govulncheck,
+  "cargo-audit": (c) => c.code?.security?.["cargo-audit"],
+  licenses: (c) => c.code?.security?.licenses,
 };
 
 /** Coverage runner tool IDs */
-const COVERAGE_RUNNERS = ["vitest", "jest", "pytest"];
+const COVERAGE_RUNNERS = ["vitest", "jest", "pytest", "go", "llvm-cov", "tarpaulin"];
 
 /**
  * Get tool configuration from standards.toml config by tool ID
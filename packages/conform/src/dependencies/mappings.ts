@@ -30,6 +30,50 @@ export const BUILTIN_MAPPINGS: Record<string, ToolDependencyMapping> = {
     toolId: "ruff",
     configFiles: ["ruff.toml", ".ruff.toml", "pyproject.toml"],
   },
+  biome: {
+    toolId: "biome",
+    configFiles: ["biome.json", "biome.jsonc"],
+  },
+  oxlint: {
+    toolId: "oxlint",
+    configFiles: [".oxlintrc.json"],
+  },
+  "golangci-lint": {
+    toolId: "golangci-lint",
+    configFiles: [".golangci.yml", ".golangci.yaml", ".golangci.toml", ".golangci.json"],
+  },
+  clippy: {
+    toolId: "clippy",
+    configFiles: ["Cargo.toml", "clippy.toml", ".clippy.toml"],
+  },
+
+  // Formatters
+  prettier: {
+    toolId: "prettier",
+    configFiles: [
+      ".prettierrc",
+      ".prettierrc.json",
+      ".prettierrc.yaml",
+      ".prettierrc.yml",
+      ".prettierrc.toml",
+      ".prettierrc.json5",
+      ".prettierrc.js",
+      ".prettierrc.mjs",
+      ".prettierrc.cjs",
+      "prettier.config.js",
+      "prettier.config.mjs",
+      "prettier.config.cjs",
+      ".prettierignore",
+    ],
+  },
+  "ruff-format": {
+    toolId: "ruff-format",
+    configFiles: ["ruff.toml", ".ruff.toml", "pyproject.toml"],
+  },
+  "biome-format": {
+    toolId: "biome-format",
+    configFiles: ["biome.json", "biome.jsonc"],
+  },
 
   // Type checking tools
   tsc: {
@@ -40,6 +84,14 @@ export const BUILTIN_MAPPINGS: Record<string, ToolDependencyMapping> = {
     toolId: "ty",
     configFiles: ["ty.toml", "pyproject.toml"],
   },
+  govet: {
+    toolId: "govet",
+    configFiles: ["go.mod"],
+  },
+  "cargo-check": {
+    toolId: "cargo-check",
+    configFiles: ["Cargo.toml"],
+  },
 
   // Unused code detection
   knip: {
@@ -84,6 +136,18 @@ export const BUILTIN_MAPPINGS: Record<string, ToolDependencyMapping> = {
     toolId: "pytest",
     configFiles: ["pytest.ini", "pyproject.toml", "setup.cfg", "conftest.py"],
   },
+  go: {
+    toolId: "go",
+    configFiles: ["go.mod"],
+  },
+  "llvm-cov": {
+    toolId: "llvm-cov",
+    configFiles: ["Cargo.toml"],
+  },
+  tarpaulin: {
+    toolId: "tarpaulin",
+    configFiles: ["Cargo.toml", "tarpaulin.toml", ".tarpaulin.toml"],
+  },
 
   // Security tools
   secrets: {
@@ -94,10 +158,36 @@ export const BUILTIN_MAPPINGS: Record<string, ToolDependencyMapping> = {
     toolId: "pnpmaudit",
     configFiles: ["pnpm-lock.yaml"],
   },
+  npmaudit: {
+    toolId: "npmaudit",
+    configFiles: ["package-lock.json", "npm-shrinkwrap.json"],
+  },
+  yarnaudit: {
+    toolId: "yarnaudit",
+    configFiles: ["yarn.lock", ".yarnrc.yml"],
+  },
   pipaudit: {
     toolId: "pipaudit",
     configFiles: ["requirements.txt", "pyproject.toml", "setup.py"],
   },
+  govulncheck: {
+    toolId: "govulncheck",
+    configFiles: ["go.mod", "go.sum"],
+  },
+  "cargo-audit": {
+    toolId: "cargo-audit",
+    configFiles: ["Cargo.toml", "Cargo.lock", ".cargo/audit.toml"],
+  },
+  licenses: {
+    toolId: "licenses",
+    configFiles: [
+      "pnpm-lock.yaml",
+      "package-lock.json",
+      "yarn.lock",
+      "uv.lock",
+      "requirements.txt",
+    ],
+  },
 };
 
 /**
@@ -0,0 +1,139 @@
+/**
+ * Minimal unified diff generation for fix previews
+ */
+
+import { type FileChange } from "../core/index.js";
+
+/** Lines of unchanged context around each hunk */
+const CONTEXT_LINES = 3;
+
+/** Above this many LCS cells, changed regions are shown as a full replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+function splitLines(content: string | null): string[] {
+  if (content === null || content === "") {
+    return [];
+  }
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/** Diff the differing middle section of two files using a longest common subsequence */
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((line) => ({ type: "-" as const, line })),
+      ...b.map((line) => ({ type: "+" as const, line })),
+    ];
+  }
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "-", line: a[i++] });
+    } else {
+      ops.push({ type: "+", line: b[j++] });
+    }
+  }
+  ops.push(...a.slice(i).map((line) => ({ type: "-" as const, line })));
+  ops.push(...b.slice(j).map((line) => ({ type: "+" as const, line })));
+  return ops;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    ...a.slice(0, prefix).map((line) => ({ type: " " as const, line })),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map((line) => ({ type: " " as const, line })),
+  ];
+}
+
+/** Group changed ops into hunks with surrounding context */
+function formatHunks(ops: DiffOp[]): string[] {
+  const changed = ops.flatMap((op, index) => (op.type === " " ? [] : [index]));
+  const lines: string[] = [];
+  let cursor = 0;
+
+  while (cursor < changed.length) {
+    let last = cursor;
+    while (
+      last + 1 < changed.length &&
+      changed[last + 1] - changed[last] <= CONTEXT_LINES * 2 + 1
+    ) {
+      last++;
+    }
+
+    const start = Math.max(0, changed[cursor] - CONTEXT_LINES);
+    const end = Math.min(ops.length, changed[last] + CONTEXT_LINES + 1);
+    const before = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+
+    const oldStart = before.filter((op) => op.type !== "+").length;
+    const newStart = before.filter((op) => op.type !== "-").length;
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+
+    // Unified diff ranges are 1-based, except empty ranges which point at the preceding line
+    const oldRange = `${oldCount === 0 ? oldStart : oldStart + 1},${oldCount}`;
+    const newRange = `${newCount === 0 ? newStart : newStart + 1},${newCount}`;
+    lines.push(`@@ -${oldRange} +${newRange} @@`);
+    lines.push(...hunk.map((op) => `${op.type}${op.line}`));
+    cursor = last + 1;
+  }
+  return lines;
+}
+
+/**
+ * Create a unified diff for a file change.
+ * Returns an empty string when the change does nothing.
+ */
+export function createUnifiedDiff(change: FileChange): string {
+  const target = change.renameTo ?? change.file;
+  const header: string[] = [];
+  if (change.renameTo) {
+    header.push(`rename from ${change.file}`, `rename to ${change.renameTo}`);
+  }
+
+  const hunks = formatHunks(diffLines(splitLines(change.before), splitLines(change.after)));
+  if (hunks.length === 0) {
+    return header.join("\n");
+  }
+
+  header.push(change.before === null ? "--- /dev/null" : `--- a/${change.file}`, `+++ b/${target}`);
+  return [...header, ...hunks].join("\n");
+}
@@ -0,0 +1,81 @@
+/**
+ * Autofix - compute and apply fixes from tools that support them
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { fixCode } from "../code/index.js";
+import { type Config, type FileChange, type FixResult } from "../core/index.js";
+import { fixPlugins } from "../plugins/index.js";
+import { fixProcess } from "../process/index.js";
+
+export { createUnifiedDiff } from "./diff.js";
+export { formatFixText } from "./output.js";
+
+/** Options for conform fix */
+export interface FixOptions {
+  /** Only fix tools in this domain */
+  domain?: string;
+  /** Compute fixes without writing them */
+  dryRun?: boolean;
+}
+
+/** Fix results for all domains */
+export interface FixReport {
+  dryRun: boolean;
+  domains: Record<string, FixResult[]>;
+}
+
+/**
+ * Write file changes to disk.
+ * Content changes are written first so renames move the fixed content.
+ */
+export function applyChanges(projectRoot: string, changes: FileChange[]): void {
+  for (const change of changes) {
+    if (change.before === change.after) {
+      continue;
+    }
+    const filePath = path.join(projectRoot, change.file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, change.after);
+  }
+
+  for (const change of changes) {
+    if (!change.renameTo) {
+      continue;
+    }
+    const targetPath = path.join(projectRoot, change.renameTo);
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    fs.renameSync(path.join(projectRoot, change.file), targetPath);
+  }
+}
+
+/**
+ * Compute fixes for all enabled tools and, unless dryRun is set, apply them
+ */
+export async function fixProject(
+  projectRoot: string,
+  config: Config,
+  options: FixOptions = {}
+): Promise<FixReport> {
+  const { domain } = options;
+  const domains: Record<string, FixResult[]> = {};
+
+  if (!domain || domain === "code") {
+    domains.code = await fixCode(projectRoot, config);
+  }
+  if (!domain || domain === "process") {
+    domains.process = await fixProcess(projectRoot, config);
+  }
+  for (const [name, results] of Object.entries(await fixPlugins(projectRoot, config, { domain }))) {
+    domains[name] = [...(domains[name] ?? []), ...results];
+  }
+
+  if (!options.dryRun) {
+    const changes = Object.values(domains).flatMap((results) => results.flatMap((r) => r.changes));
+    applyChanges(projectRoot, changes);
+  }
+
+  return { dryRun: Boolean(options.dryRun), domains };
+}
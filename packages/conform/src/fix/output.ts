@@ -0,0 +1,100 @@
+import chalk from "chalk";
+
+import { type FixResult } from "../core/index.js";
+import { formatViolationText } from "../output/index.js";
+import { createUnifiedDiff } from "./diff.js";
+import { type FixReport } from "./index.js";
+
+/** Colorize a unified diff for terminal output */
+function colorizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---") || line.startsWith("rename ")) {
+        return chalk.bold(line);
+      }
+      if (line.startsWith("@@")) {
+        return chalk.cyan(line);
+      }
+      if (line.startsWith("+")) {
+        return chalk.green(line);
+      }
+      if (line.startsWith("-")) {
+        return chalk.red(line);
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+function formatFixResult(result: FixResult, dryRun: boolean): string[] {
+  if (result.skipped) {
+    return [
+      `  ${chalk.gray("○")} ${chalk.bold(result.name)}: ${chalk.gray("skipped")} - ${chalk.gray(result.skipReason)}`,
+    ];
+  }
+
+  const verb = dryRun ? "would change" : "changed";
+  const parts = [`${result.changes.length} file(s) ${verb}`];
+  if (result.remaining.length > 0) {
+    parts.push(chalk.red(`${result.remaining.length} need manual work`));
+  }
+  const icon = result.remaining.length > 0 ? chalk.red("✗") : chalk.green("✓");
+  const lines = [`  ${icon} ${chalk.bold(result.name)}: ${parts.join(", ")}`];
+
+  for (const change of result.changes) {
+    const target = change.renameTo ? ` → ${chalk.cyan(change.renameTo)}` : "";
+    lines.push(`      ${chalk.cyan(change.file)}${target} ${chalk.dim(change.description)}`);
+  }
+  lines.push(...result.remaining.slice(0, 10).map(formatViolationText));
+  if (result.remaining.length > 10) {
+    lines.push(chalk.dim(`      ... and ${result.remaining.length - 10} more`));
+  }
+  return lines;
+}
+
+/**
+ * Format fix results as human-readable text.
+ * In dry-run mode the output starts with a unified diff of all changes.
+ */
+export function formatFixText(report: FixReport): string {
+  const results = Object.values(report.domains).flat();
+  const changes = results.flatMap((r) => r.changes);
+  const lines: string[] = [];
+
+  if (report.dryRun) {
+    lines.push(chalk.yellow("Dry run - no files were changed"), "");
+    for (const change of changes) {
+      const diff = createUnifiedDiff(change);
+      if (diff) {
+        lines.push(colorizeDiff(diff), "");
+      }
+    }
+  }
+
+  for (const [domainName, domainResults] of Object.entries(report.domains)) {
+    if (domainResults.length === 0) {
+      continue;
+    }
+    lines.push(chalk.bold(domainName.toUpperCase()));
+    for (const result of domainResults) {
+      lines.push(...formatFixResult(result, report.dryRun));
+    }
+    lines.push("");
+  }
+
+  const remaining = results.reduce((sum, r) => sum + r.remaining.length, 0);
+  lines.push(chalk.dim("─".repeat(50)));
+  if (results.length === 0) {
+    lines.push(chalk.gray("No enabled tools support autofix"));
+  } else {
+    const verb = report.dryRun ? "would be changed" : "changed";
+    const icon = changes.length > 0 ? chalk.green("✓") : chalk.gray("○");
+    lines.push(`${icon} ${changes.length} file(s) ${verb}`);
+  }
+  if (remaining > 0) {
+    lines.push(chalk.red(`✗ ${remaining} violation(s) need manual work`));
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,40 @@
+import { type FixResult, type IToolRunner } from "../core/index.js";
+
+type FixableTool = IToolRunner & Required<Pick<IToolRunner, "fix">>;
+
+function isFixable(tool: IToolRunner): tool is FixableTool {
+  return typeof tool.fix === "function";
+}
+
+/**
+ * Compute fixes for every tool that supports autofix, in parallel with error isolation.
+ * A tool whose fix throws is reported with a single remaining violation.
+ */
+export async function runFixers(tools: IToolRunner[], projectRoot: string): Promise<FixResult[]> {
+  const fixers = tools.filter(isFixable);
+  const results = await Promise.allSettled(fixers.map((tool) => tool.fix(projectRoot)));
+
+  return results.map((result, index) => {
+    if (result.status === "fulfilled") {
+      return result.value;
+    }
+
+    const tool = fixers[index];
+    const errorMessage = result.reason instanceof Error ? result.reason.message : "Unknown error";
+
+    return {
+      name: tool.name,
+      rule: tool.rule,
+      changes: [],
+      remaining: [
+        {
+          rule: tool.rule,
+          tool: tool.toolId,
+          message: `Fix error: ${errorMessage}`,
+          severity: "error" as const,
+        },
+      ],
+      skipped: false,
+    };
+  });
+}
@@ -4,10 +4,15 @@
 
 // Types
 export type {
+  BaselineEntry,
+  BaselineSummary,
+  CacheSummary,
   CheckResult,
   DomainResult,
   DomainStatus,
   ExitCodeType,
+  FileChange,
+  FixResult,
   FullResult,
   IToolRunner,
   Severity,
@@ -20,6 +25,7 @@ export {
   CheckResultBuilder,
   DomainResultBuilder,
   ExitCode,
+  FixResultBuilder,
   ViolationBuilder,
 } from "./core/index.js";
 
@@ -37,10 +43,24 @@ export {
 // Code domain
 export {
   auditCodeConfig,
+  BaseFormatterRunner,
   BaseToolRunner,
+  BiomeFormatRunner,
+  BiomeRunner,
+  CargoAuditRunner,
+  CargoCheckRunner,
+  ClippyRunner,
+  CustomToolRunner,
   ESLintRunner,
+  GolangciLintRunner,
+  GoVetRunner,
+  GovulncheckRunner,
   KnipRunner,
+  LicensesRunner,
   NamingRunner,
+  OxlintRunner,
+  PrettierRunner,
+  RuffFormatRunner,
   RuffRunner,
   runCodeChecks,
   TscRunner,
@@ -66,8 +86,58 @@ export {
   type ValidateProcessResult,
 } from "./process/scan/index.js";
 
+// Plugins
+export {
+  auditPluginConfig,
+  type ConformPlugin,
+  type LoadedPlugin,
+  loadPlugins,
+  runPluginChecks,
+} from "./plugins/index.js";
+
+// Baseline
+export {
+  applyBaseline,
+  createBaseline,
+  fingerprintViolation,
+  readBaseline,
+  writeBaseline,
+} from "./baseline/index.js";
+
+// Suppressions
+export {
+  applySuppressions,
+  findSuppressions,
+  parseSuppressions,
+  type Suppression,
+  type SuppressionEntry,
+} from "./suppressions/index.js";
+
+// Result cache
+export { DEFAULT_CACHE_DIR, ResultCache } from "./cache/index.js";
+
+// Autofix
+export {
+  applyChanges,
+  createUnifiedDiff,
+  type FixOptions,
+  fixProject,
+  type FixReport,
+  formatFixText,
+} from "./fix/index.js";
+
 // Output
-export { formatJson, formatOutput, formatText, type OutputFormat } from "./output/index.js";
+export {
+  formatGitHub,
+  formatJson,
+  formatJUnit,
+  formatOutput,
+  formatSarif,
+  formatStepSummary,
+  formatText,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from "./output/index.js";
 
 // Dependencies
 export {
@@ -0,0 +1,112 @@
+import * as fs from "node:fs";
+
+import { type DomainResult, type FullResult, type Violation } from "../core/index.js";
+
+/**
+ * GitHub Actions output: workflow command annotations shown inline on PR diffs,
+ * plus a Markdown summary table for the job summary page.
+ */
+
+/** Escape workflow command message data */
+function escapeData(value: string): string {
+  return value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+/** Escape workflow command property values */
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+function formatAnnotation(v: Violation): string {
+  const command = v.severity === "error" ? "error" : "warning";
+  const properties: string[] = [];
+  if (v.file) {
+    properties.push(`file=${escapeProperty(v.file)}`);
+    if (v.line !== undefined) {
+      properties.push(`line=${v.line}`);
+    }
+    if (v.column !== undefined) {
+      properties.push(`col=${v.column}`);
+    }
+  }
+  const title = v.code ? `${v.tool} (${v.code})` : v.tool;
+  properties.push(`title=${escapeProperty(title)}`);
+
+  return `::${command} ${properties.join(",")}::${escapeData(v.message)}`;
+}
+
+/**
+ * Format output as GitHub Actions workflow commands
+ */
+export function formatGitHub(result: FullResult): string {
+  const lines: string[] = [];
+
+  for (const domain of Object.values(result.domains)) {
+    for (const check of domain.checks) {
+      lines.push(...check.violations.map(formatAnnotation));
+    }
+  }
+
+  if (result.summary.totalViolations === 0) {
+    lines.push(`conform v${result.version}: all checks passed`);
+  } else {
+    lines.push(`conform v${result.version}: ${result.summary.totalViolations} violation(s) found`);
+  }
+
+  return lines.join("\n");
+}
+
+const STATUS_EMOJI: Record<DomainResult["status"], string> = {
+  pass: "✅",
+  fail: "❌",
+  skip: "⏭️",
+};
+
+/** Escape characters that would break a Markdown table cell */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function formatCheckStatus(check: DomainResult["checks"][number]): string {
+  if (check.skipped) {
+    return `skipped - ${escapeCell(check.skipReason ?? "")}`;
+  }
+  return check.violations.length === 0 ? "passed" : "failed";
+}
+
+/**
+ * Format a Markdown summary table of domain results for $GITHUB_STEP_SUMMARY
+ */
+export function formatStepSummary(result: FullResult): string {
+  const lines = [`## conform v${result.version}`, ""];
+
+  for (const [name, domain] of Object.entries(result.domains)) {
+    lines.push(`### ${STATUS_EMOJI[domain.status]} ${name}`, "");
+    lines.push("| Check | Status | Violations |", "| --- | --- | --- |");
+    for (const check of domain.checks) {
+      lines.push(
+        `| ${escapeCell(check.name)} | ${formatCheckStatus(check)} | ${check.violations.length} |`
+      );
+    }
+    lines.push("");
+  }
+
+  lines.push(
+    result.summary.totalViolations === 0
+      ? "**All checks passed**"
+      : `**${result.summary.totalViolations} violation(s) found**`
+  );
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Append the Markdown summary to $GITHUB_STEP_SUMMARY when running in GitHub Actions.
+ * Does nothing when the variable is not set.
+ */
+export function writeStepSummary(result: FullResult): void {
+  const summaryPath = process.env.GITHUB_STEP_SUMMARY;
+  if (!summaryPath) {
+    return;
+  }
+  fs.appendFileSync(summaryPath, formatStepSummary(result));
+}
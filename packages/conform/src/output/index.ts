@@ -1,13 +1,24 @@
 import chalk from "chalk";
 
 import {
+  type BaselineSummary,
   type DomainResult,
   type DomainStatus,
   type FullResult,
   type Violation,
 } from "../core/index.js";
+import { formatGitHub } from "./github.js";
+import { formatJUnit } from "./junit.js";
+import { formatSarif } from "./sarif.js";
 
-export type OutputFormat = "text" | "json";
+export { formatGitHub, formatStepSummary, writeStepSummary } from "./github.js";
+export { formatJUnit } from "./junit.js";
+export { formatSarif } from "./sarif.js";
+
+/** Output formats supported by check and audit commands */
+export const OUTPUT_FORMATS = ["text", "json", "sarif", "junit", "github"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
 
 /** Icon mapping for domain/check status with colors */
 const STATUS_ICONS: Record<DomainStatus, string> = {
@@ -47,10 +58,39 @@ export function formatText(result: FullResult): string {
   } else {
     lines.push(chalk.red(`✗ ${result.summary.totalViolations} violation(s) found`));
   }
+  if (result.baseline) {
+    lines.push(...formatBaselineText(result.baseline));
+  }
+  if (result.cache) {
+    const { hits, misses, dir } = result.cache;
+    lines.push(chalk.dim(`Cache: ${hits} hit(s), ${misses} miss(es) (${dir})`));
+  }
 
   return lines.join("\n");
 }
 
+function formatBaselineText(baseline: BaselineSummary): string[] {
+  const lines = [chalk.dim(`Baseline: ${baseline.suppressed} existing violation(s) suppressed`)];
+  if (baseline.fixed.length === 0) {
+    return lines;
+  }
+
+  const fixedCount = baseline.fixed.reduce((sum, e) => sum + e.count, 0);
+  lines.push(
+    chalk.green(
+      `✓ ${fixedCount} baselined violation(s) fixed - run with --update-baseline to remove them`
+    )
+  );
+  for (const entry of baseline.fixed.slice(0, 10)) {
+    const location = entry.file ? `${chalk.cyan(entry.file)} ` : "";
+    lines.push(`      ${location}${chalk.dim(`[${entry.code ?? entry.tool}]`)} ${entry.message}`);
+  }
+  if (baseline.fixed.length > 10) {
+    lines.push(chalk.dim(`      ... and ${baseline.fixed.length - 10} more`));
+  }
+  return lines;
+}
+
 function getStatusIcon(status: DomainStatus): string {
   return STATUS_ICONS[status];
 }
@@ -111,7 +151,7 @@ function formatLocation(file: string, line?: number, column?: number): string {
   return file;
 }
 
-function formatViolationText(v: Violation): string {
+export function formatViolationText(v: Violation): string {
   const location = v.file ? chalk.cyan(formatLocation(v.file, v.line, v.column)) : "";
   const code = v.code ? chalk.dim(`[${v.code}]`) : "";
   const severity = v.severity === "error" ? chalk.red("error") : chalk.yellow("warn");
@@ -129,6 +169,12 @@ export function formatOutput(result: FullResult, format: OutputFormat): string {
   switch (format) {
     case "json":
       return formatJson(result);
+    case "sarif":
+      return formatSarif(result);
+    case "junit":
+      return formatJUnit(result);
+    case "github":
+      return formatGitHub(result);
     case "text":
     default:
       return formatText(result);
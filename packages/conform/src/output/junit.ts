@@ -0,0 +1,96 @@
+import {
+  type CheckResult,
+  type DomainResult,
+  type FullResult,
+  type Violation,
+} from "../core/index.js";
+
+/**
+ * JUnit XML output for CI test dashboards (Jenkins, GitLab, Buildkite).
+ * Each domain becomes a testsuite and each check a testcase.
+ */
+
+/** Escape a string for use in XML text and attribute values */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Convert a duration in milliseconds to JUnit seconds */
+function toSeconds(duration: number | undefined): string {
+  return ((duration ?? 0) / 1000).toFixed(3);
+}
+
+function formatLocation(v: Violation): string {
+  if (!v.file) {
+    return "";
+  }
+  const parts = [v.file, v.line, v.column].filter((p) => p !== undefined);
+  return `${parts.join(":")} `;
+}
+
+function formatFailure(v: Violation): string {
+  const type = escapeXml(v.code ?? v.rule);
+  const message = escapeXml(v.message);
+  const body = escapeXml(`${formatLocation(v)}${v.severity} ${v.message}`);
+  return `      <failure message="${message}" type="${type}">${body}</failure>`;
+}
+
+function formatTestCase(domainName: string, check: CheckResult): string {
+  const attrs = `name="${escapeXml(check.name)}" classname="${escapeXml(`${domainName}.${check.rule}`)}" time="${toSeconds(check.duration)}"`;
+
+  if (check.skipped) {
+    const reason = escapeXml(check.skipReason ?? "");
+    return [
+      `    <testcase ${attrs}>`,
+      `      <skipped message="${reason}"/>`,
+      "    </testcase>",
+    ].join("\n");
+  }
+  if (check.violations.length === 0) {
+    return `    <testcase ${attrs}/>`;
+  }
+  return [
+    `    <testcase ${attrs}>`,
+    ...check.violations.map(formatFailure),
+    "    </testcase>",
+  ].join("\n");
+}
+
+function formatTestSuite(domainName: string, domain: DomainResult): string {
+  const failures = domain.checks.filter((c) => !c.skipped && c.violations.length > 0).length;
+  const skipped = domain.checks.filter((c) => c.skipped).length;
+  const time = domain.checks.reduce((sum, c) => sum + (c.duration ?? 0), 0);
+
+  const attrs = `name="${escapeXml(domainName)}" tests="${domain.checks.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${toSeconds(time)}"`;
+  if (domain.checks.length === 0) {
+    return `  <testsuite ${attrs}/>`;
+  }
+  return [
+    `  <testsuite ${attrs}>`,
+    ...domain.checks.map((check) => formatTestCase(domainName, check)),
+    "  </testsuite>",
+  ].join("\n");
+}
+
+/**
+ * Format output as JUnit XML
+ */
+export function formatJUnit(result: FullResult): string {
+  const domains = Object.entries(result.domains);
+  const checks = domains.flatMap(([, d]) => d.checks);
+  const failures = checks.filter((c) => !c.skipped && c.violations.length > 0).length;
+  const skipped = checks.filter((c) => c.skipped).length;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="conform v${escapeXml(result.version)}" tests="${checks.length}" failures="${failures}" errors="0" skipped="${skipped}">`,
+    ...domains.map(([name, domain]) => formatTestSuite(name, domain)),
+    "</testsuites>",
+  ];
+  return lines.join("\n");
+}
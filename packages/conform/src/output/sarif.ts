@@ -0,0 +1,150 @@
+import * as path from "node:path";
+
+import { type FullResult, type Severity, type Violation } from "../core/index.js";
+
+/**
+ * SARIF 2.1.0 output for GitHub code scanning and other SARIF viewers.
+ * Each tool that ran becomes its own run, so tools without violations still
+ * list a driver.
+ */
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_VERSION = "2.1.0";
+
+/** SARIF reporting descriptor (a rule listed on a tool driver) */
+interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+  properties: { category: string };
+}
+
+/** SARIF result (a single violation) */
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: "error" | "warning";
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; startColumn?: number };
+    };
+  }[];
+}
+
+/** SARIF run (one per tool) */
+interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      rules: SarifRule[];
+    };
+  };
+  results: SarifResult[];
+}
+
+/** SARIF log root */
+interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: SarifRun[];
+}
+
+/** Rule ID for a violation - prefer the tool-specific code over the conform rule */
+function getRuleId(v: Violation): string {
+  return v.code ?? v.rule;
+}
+
+function mapLevel(severity: Severity): "error" | "warning" {
+  return severity === "error" ? "error" : "warning";
+}
+
+/**
+ * Build the location for a violation.
+ * SARIF consumers (notably GitHub) require a location, so violations without
+ * a file are reported against the config file.
+ */
+function buildLocation(v: Violation, configFile: string): SarifResult["locations"][number] {
+  const uri = (v.file ?? configFile).split(path.sep).join("/");
+  const physicalLocation: SarifResult["locations"][number]["physicalLocation"] = {
+    artifactLocation: { uri, uriBaseId: "%SRCROOT%" },
+  };
+  if (v.file && v.line !== undefined) {
+    physicalLocation.region = {
+      startLine: v.line,
+      ...(v.column !== undefined && { startColumn: v.column }),
+    };
+  }
+  return { physicalLocation };
+}
+
+/**
+ * Group violations from all domains by the tool that ran the check.
+ * Every executed (not skipped) check gets a group, even without violations.
+ */
+function groupByTool(result: FullResult): Map<string, Violation[]> {
+  const groups = new Map<string, Violation[]>();
+  for (const domain of Object.values(result.domains)) {
+    for (const check of domain.checks) {
+      if (check.toolId && !check.skipped && !groups.has(check.toolId)) {
+        groups.set(check.toolId, []);
+      }
+      for (const violation of check.violations) {
+        const toolId = check.toolId ?? violation.tool;
+        const existing = groups.get(toolId) ?? [];
+        existing.push(violation);
+        groups.set(toolId, existing);
+      }
+    }
+  }
+  return groups;
+}
+
+function buildRun(toolId: string, violations: Violation[], configFile: string): SarifRun {
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+
+  const results = violations.map((v): SarifResult => {
+    const ruleId = getRuleId(v);
+    let ruleIndex = ruleIndexes.get(ruleId);
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      ruleIndexes.set(ruleId, ruleIndex);
+      rules.push({
+        id: ruleId,
+        shortDescription: { text: ruleId },
+        properties: { category: v.rule },
+      });
+    }
+    return {
+      ruleId,
+      ruleIndex,
+      level: mapLevel(v.severity),
+      message: { text: v.message },
+      locations: [buildLocation(v, configFile)],
+    };
+  });
+
+  return {
+    tool: { driver: { name: toolId, rules } },
+    results,
+  };
+}
+
+/**
+ * Format output as a SARIF 2.1.0 log
+ */
+export function formatSarif(result: FullResult): string {
+  const configFile = path.basename(result.configPath);
+  const runs = [...groupByTool(result)].map(([toolId, violations]) =>
+    buildRun(toolId, violations, configFile)
+  );
+
+  // Always emit at least one run so uploads without any executed tool clear previous alerts
+  if (runs.length === 0) {
+    runs.push(buildRun("conform", [], configFile));
+  }
+
+  const log: SarifLog = { $schema: SARIF_SCHEMA, version: SARIF_VERSION, runs };
+  return JSON.stringify(log, null, 2);
+}
@@ -0,0 +1,108 @@
+/**
+ * Plugin support - run tool runners from modules listed in [plugins]
+ */
+
+import {
+  type Config,
+  type DomainResult,
+  DomainResultBuilder,
+  type FixResult,
+  type IToolRunner,
+} from "../core/index.js";
+import { runTools } from "../core/runner.js";
+import { runFixers } from "../fix/runner.js";
+import { loadPlugins } from "./loader.js";
+import { type LoadedPlugin } from "./types.js";
+
+export { loadPlugins } from "./loader.js";
+export type { ConformPlugin, LoadedPlugin } from "./types.js";
+
+/** Options for running plugin checks */
+export interface PluginCheckOptions {
+  /** Only run plugins reporting under this domain */
+  domain?: string;
+  /** Only check these files, relative to the project root (changed-files mode) */
+  changedFiles?: string[];
+}
+
+/** Group plugin runners by the domain they report under */
+function groupByDomain(plugins: LoadedPlugin[], domain?: string): Map<string, IToolRunner[]> {
+  const groups = new Map<string, IToolRunner[]>();
+  for (const plugin of plugins) {
+    if (domain && plugin.domain !== domain) {
+      continue;
+    }
+    groups.set(plugin.domain, [...(groups.get(plugin.domain) ?? []), ...plugin.runners]);
+  }
+  return groups;
+}
+
+async function runPlugins(
+  projectRoot: string,
+  config: Config,
+  mode: "run" | "audit",
+  options: PluginCheckOptions
+): Promise<Record<string, DomainResult>> {
+  const plugins = await loadPlugins(config, projectRoot);
+  const domains: Record<string, DomainResult> = {};
+
+  for (const [domain, tools] of groupByDomain(plugins, options.domain)) {
+    if (mode === "run" && options.changedFiles) {
+      const changedFiles = options.changedFiles;
+      tools.forEach((tool) => tool.setTargetFiles?.(changedFiles));
+    }
+    const checks = await runTools(tools, projectRoot, mode);
+    domains[domain] = DomainResultBuilder.fromChecks(domain, checks);
+  }
+  return domains;
+}
+
+/**
+ * Run all enabled plugin checks, grouped into domain results
+ */
+export async function runPluginChecks(
+  projectRoot: string,
+  config: Config,
+  options: PluginCheckOptions = {}
+): Promise<Record<string, DomainResult>> {
+  return runPlugins(projectRoot, config, "run", options);
+}
+
+/**
+ * Audit all enabled plugins, grouped into domain results
+ */
+export async function auditPluginConfig(
+  projectRoot: string,
+  config: Config,
+  options: PluginCheckOptions = {}
+): Promise<Record<string, DomainResult>> {
+  return runPlugins(projectRoot, config, "audit", options);
+}
+
+/**
+ * Load runners for enabled plugins, grouped by the domain they report under
+ */
+export async function getPluginTools(
+  projectRoot: string,
+  config: Config,
+  options: PluginCheckOptions = {}
+): Promise<Map<string, IToolRunner[]>> {
+  return groupByDomain(await loadPlugins(config, projectRoot), options.domain);
+}
+
+/**
+ * Compute autofixes for enabled plugin tools that support them, grouped by domain
+ */
+export async function fixPlugins(
+  projectRoot: string,
+  config: Config,
+  options: PluginCheckOptions = {}
+): Promise<Record<string, FixResult[]>> {
+  const plugins = await loadPlugins(config, projectRoot);
+  const domains: Record<string, FixResult[]> = {};
+
+  for (const [domain, tools] of groupByDomain(plugins, options.domain)) {
+    domains[domain] = await runFixers(tools, projectRoot);
+  }
+  return domains;
+}
@@ -0,0 +1,118 @@
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { type Config, ConfigError } from "../core/index.js";
+import { type ConformPlugin, type LoadedPlugin } from "./types.js";
+
+type PluginEntry = NonNullable<Config["plugins"]>[string];
+
+/**
+ * Resolve a plugin module specifier to an absolute file path.
+ * Relative and absolute paths resolve from the project root; anything else is
+ * treated as an npm package installed in the project.
+ */
+function resolveModulePath(specifier: string, projectRoot: string): string {
+  if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+    return path.resolve(projectRoot, specifier);
+  }
+  const require = createRequire(path.join(projectRoot, "package.json"));
+  return require.resolve(specifier);
+}
+
+function isConformPlugin(value: unknown): value is ConformPlugin {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ConformPlugin).createRunners === "function"
+  );
+}
+
+/** Import a plugin module and return its ConformPlugin export */
+async function importPlugin(
+  name: string,
+  specifier: string,
+  projectRoot: string
+): Promise<ConformPlugin> {
+  let mod: Record<string, unknown>;
+  try {
+    const modulePath = resolveModulePath(specifier, projectRoot);
+    mod = (await import(pathToFileURL(modulePath).href)) as Record<string, unknown>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new ConfigError(`Failed to load plugin "${name}" from ${specifier}: ${message}`);
+  }
+
+  const plugin = mod.default ?? mod;
+  if (!isConformPlugin(plugin)) {
+    throw new ConfigError(
+      `Plugin "${name}" (${specifier}) must export a plugin object with a createRunners() function`
+    );
+  }
+  return plugin;
+}
+
+/** Validate the plugin's config table against its schema */
+function validatePluginConfig(name: string, plugin: ConformPlugin, entry: PluginEntry): unknown {
+  const rawConfig = entry.config ?? {};
+  if (!plugin.configSchema) {
+    return rawConfig;
+  }
+
+  const result = plugin.configSchema.safeParse(rawConfig);
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((e) => {
+        const issuePath = ["plugins", name, "config", ...e.path.map(String)].join(".");
+        return `  - ${issuePath}: ${e.message}`;
+      })
+      .join("\n");
+    throw new ConfigError(`Invalid config for plugin "${name}":\n${errors}`);
+  }
+  return result.data;
+}
+
+/** Create runners and check that each one implements IToolRunner */
+function createRunners(
+  name: string,
+  plugin: ConformPlugin,
+  config: unknown
+): LoadedPlugin["runners"] {
+  const runners = plugin.createRunners(config);
+  const invalid = runners.find(
+    (r) => typeof r.run !== "function" || typeof r.audit !== "function" || !r.name || !r.rule
+  );
+  if (invalid) {
+    throw new ConfigError(
+      `Plugin "${name}" returned a tool runner without name, rule, run() and audit()`
+    );
+  }
+  return runners;
+}
+
+async function loadPlugin(
+  name: string,
+  entry: PluginEntry,
+  projectRoot: string
+): Promise<LoadedPlugin> {
+  if (!entry.module) {
+    throw new ConfigError(`Plugin "${name}" has no module configured`);
+  }
+
+  const plugin = await importPlugin(name, entry.module, projectRoot);
+  const config = validatePluginConfig(name, plugin, entry);
+
+  return {
+    name,
+    domain: entry.domain ?? plugin.domain ?? name,
+    runners: createRunners(name, plugin, config),
+  };
+}
+
+/**
+ * Load all enabled plugins from the [plugins] section of standards.toml
+ */
+export async function loadPlugins(config: Config, projectRoot: string): Promise<LoadedPlugin[]> {
+  const entries = Object.entries(config.plugins ?? {}).filter(([, entry]) => entry.enabled);
+  return Promise.all(entries.map(([name, entry]) => loadPlugin(name, entry, projectRoot)));
+}
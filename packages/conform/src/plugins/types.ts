@@ -0,0 +1,23 @@
+import { type ZodType } from "zod";
+
+import { type IToolRunner } from "../core/index.js";
+
+/**
+ * Contract for a conform plugin module.
+ * The module's default export (or the module itself) must implement this interface.
+ */
+export interface ConformPlugin<TConfig = unknown> {
+  /** Domain the plugin's checks are reported under. Defaults to the plugin name. */
+  domain?: string;
+  /** Schema for the plugin's [plugins.<name>.config] table */
+  configSchema?: ZodType<TConfig>;
+  /** Create tool runners from the validated config */
+  createRunners(config: TConfig): IToolRunner[];
+}
+
+/** A plugin that has been imported, validated and instantiated */
+export interface LoadedPlugin {
+  name: string;
+  domain: string;
+  runners: IToolRunner[];
+}
@@ -1,5 +1,12 @@
 import { type Config } from "../core/index.js";
-import { type CheckResult, type DomainResult, DomainResultBuilder, type IToolRunner } from "../core/index.js";
+import {
+  type DomainResult,
+  DomainResultBuilder,
+  type FixResult,
+  type IToolRunner,
+} from "../core/index.js";
+import { runTools } from "../core/runner.js";
+import { runFixers } from "../fix/runner.js";
 import {
   BackupsRunner,
   BranchesRunner,
@@ -224,6 +231,7 @@ function createDocsRunner(config: Config): DocsRunner {
       coverage_paths: docsConfig.coverage_paths,
       exclude_patterns: docsConfig.exclude_patterns,
       types: docsConfig.types,
+      ticket_pattern: config.process?.tickets?.pattern,
     });
   }
   return runner;
@@ -292,43 +300,15 @@ export async function auditProcessConfig(
 }
 
 /**
- * Run tools in parallel with error isolation
- * Uses Promise.allSettled to ensure one failing tool doesn't lose all results
+ * Get runners for enabled process tools (watch mode re-runs them individually)
  */
-async function runTools(
-  tools: IToolRunner[],
-  projectRoot: string,
-  mode: "run" | "audit"
-): Promise<CheckResult[]> {
-  const promises = tools.map((tool) =>
-    mode === "run" ? tool.run(projectRoot) : tool.audit(projectRoot)
-  );
-
-  const results = await Promise.allSettled(promises);
-
-  return results.map((result, index) => {
-    if (result.status === "fulfilled") {
-      return result.value;
-    }
-
-    // Handle rejected promise - create error result for the tool
-    const tool = tools[index];
-    const errorMessage = result.reason instanceof Error ? result.reason.message : "Unknown error";
+export function getProcessTools(config: Config): IToolRunner[] {
+  return getEnabledTools(config);
+}
 
-    return {
-      name: tool.name,
-      rule: tool.rule,
-      passed: false,
-      violations: [
-        {
-          rule: tool.rule,
-          tool: tool.toolId,
-          message: `Tool error: ${errorMessage}`,
-          severity: "error" as const,
-        },
-      ],
-      skipped: false,
-      duration: 0,
-    };
-  });
+/**
+ * Compute autofixes for enabled process tools that support them
+ */
+export async function fixProcess(projectRoot: string, config: Config): Promise<FixResult[]> {
+  return runFixers(getEnabledTools(config), projectRoot);
 }
@@ -21,6 +21,7 @@ export class BackupsRunner extends BaseProcessToolRunner {
   readonly name = "Backups";
   readonly rule = "process.backups";
   readonly toolId = "backups";
+  readonly sourcePatterns: string[] = []; // Checks remote storage, not files
 
   private config: BackupsConfig = { enabled: false };
   private s3Client: S3Client | null = null;
@@ -23,6 +23,7 @@ export class BranchesRunner extends BaseProcessToolRunner {
   readonly name = "Branches";
   readonly rule = "process.branches";
   readonly toolId = "branches";
+  readonly sourcePatterns: string[] = []; // Checks git state, not files
 
   private config: BranchesConfig = {
     enabled: false,
@@ -105,6 +105,7 @@ export class ChangesetsRunner extends BaseProcessToolRunner {
   readonly name = "Changesets";
   readonly rule = "process.changesets";
   readonly toolId = "changesets";
+  readonly sourcePatterns = [".changeset/**"];
 
   private config: ChangesetsConfig = {
     enabled: false,
@@ -1,7 +1,13 @@
  
 import * as yaml from "js-yaml";
 
-import { type CheckResult, type Violation } from "../../core/index.js";
+import {
+  type CheckResult,
+  type FileChange,
+  type FixResult,
+  FixResultBuilder,
+  type Violation,
+} from "../../core/index.js";
 import { BaseProcessToolRunner } from "./base.js";
 
 /** Commands configuration value - workflow-level or job-level */
@@ -65,6 +71,7 @@ export class CiRunner extends BaseProcessToolRunner {
   readonly name = "CI";
   readonly rule = "process.ci";
   readonly toolId = "ci";
+  readonly sourcePatterns = [".github/workflows/**"];
 
   private config: CiConfig = {
     enabled: false,
@@ -482,4 +489,76 @@ export class CiRunner extends BaseProcessToolRunner {
 
     return this.fromViolations(violations, elapsed());
   }
+
+  /**
+   * Generate missing workflows with the required jobs and commands.
+   * Required actions other than checkout need manual work since their inputs are unknown.
+   */
+  async fix(projectRoot: string): Promise<FixResult> {
+    const result = await this.run(projectRoot);
+    const missing = [
+      ...new Set([
+        ...(this.config.require_workflows ?? []),
+        ...Object.keys(this.config.commands ?? {}),
+      ]),
+    ].filter((wf) => !this.fileExists(projectRoot, `.github/workflows/${wf}`));
+
+    const changes: FileChange[] = missing.map((wf) => ({
+      file: `.github/workflows/${wf}`,
+      before: null,
+      after: yaml.dump(this.generateWorkflow(wf), { lineWidth: -1 }),
+      description: `Create workflow '${wf}'`,
+    }));
+
+    const generated = new Set(changes.map((c) => c.file));
+    const remaining = result.violations.filter(
+      (v) =>
+        !(v.file && generated.has(v.file)) &&
+        !(generated.size > 0 && v.rule === `${this.rule}.directory`)
+    );
+    const actionViolations = missing.flatMap((wf) =>
+      (this.config.actions?.[wf] ?? [])
+        .filter((action) => action !== "actions/checkout")
+        .map((action) => ({
+          rule: `${this.rule}.actions`,
+          tool: this.toolId,
+          file: `.github/workflows/${wf}`,
+          message: `Workflow '${wf}' missing required action: ${action}`,
+          severity: "error" as const,
+        }))
+    );
+    return FixResultBuilder.create(this.name, this.rule, changes, [
+      ...remaining,
+      ...actionViolations,
+    ]);
+  }
+
+  /** Build a workflow that triggers on main and runs the configured jobs and commands */
+  private generateWorkflow(wf: string): Record<string, unknown> {
+    const commandsValue = this.config.commands?.[wf] ?? [];
+    const jobCommands: Record<string, string[]> = {};
+    for (const jobId of this.config.jobs?.[wf] ?? []) {
+      jobCommands[jobId] = [];
+    }
+    if (Array.isArray(commandsValue)) {
+      const firstJob = Object.keys(jobCommands)[0] ?? "ci";
+      jobCommands[firstJob] = commandsValue;
+    } else {
+      Object.assign(jobCommands, commandsValue);
+    }
+
+    const jobs: Record<string, unknown> = {};
+    for (const [jobId, commands] of Object.entries(jobCommands)) {
+      jobs[jobId] = {
+        "runs-on": "ubuntu-latest",
+        steps: [{ uses: "actions/checkout@v4" }, ...commands.map((run) => ({ run }))],
+      };
+    }
+
+    return {
+      name: wf.replace(/\.ya?ml$/, ""),
+      on: { pull_request: { branches: ["main"] }, push: { branches: ["main"] } },
+      jobs,
+    };
+  }
 }
@@ -1,4 +1,9 @@
-import { type CheckResult, type Violation } from "../../core/index.js";
+import {
+  type CheckResult,
+  type FixResult,
+  FixResultBuilder,
+  type Violation,
+} from "../../core/index.js";
 import { BaseProcessToolRunner } from "./base.js";
 
 /** Single CODEOWNERS rule from config */
@@ -31,6 +36,7 @@ export class CodeownersRunner extends BaseProcessToolRunner {
   readonly name = "CODEOWNERS";
   readonly rule = "process.codeowners";
   readonly toolId = "codeowners";
+  readonly sourcePatterns = CODEOWNERS_LOCATIONS;
 
   private config: CodeownersConfig = { enabled: false };
 
@@ -115,6 +121,38 @@ export class CodeownersRunner extends BaseProcessToolRunner {
     return this.pass(elapsed());
   }
 
+  /**
+   * Fix - append missing configured rules, creating .github/CODEOWNERS if needed.
+   * Owner mismatches and extra rules need manual review.
+   */
+  async fix(projectRoot: string): Promise<FixResult> {
+    const result = await this.run(projectRoot);
+    const configRules = this.config.rules ?? [];
+    const existingPath = this.findCodeownersFile(projectRoot);
+    const file = existingPath ?? CODEOWNERS_LOCATIONS[0];
+    const before = existingPath ? this.readFile(projectRoot, existingPath) : null;
+
+    const present = new Set(
+      before === null ? [] : this.parseCodeowners(before, file).rules.map((r) => r.pattern)
+    );
+    const missing = configRules.filter((r) => !present.has(r.pattern));
+    if (missing.length === 0 || (existingPath && before === null)) {
+      return FixResultBuilder.create(this.name, this.rule, [], result.violations);
+    }
+
+    const prefix = before === null || before === "" || before.endsWith("\n") ? "" : "\n";
+    const added = missing.map((r) => `${r.pattern} ${r.owners.join(" ")}`).join("\n");
+    const change = {
+      file,
+      before,
+      after: `${before ?? ""}${prefix}${added}\n`,
+      description: `Add ${missing.length} missing rule(s)`,
+    };
+    const fixedRules = new Set([`${this.rule}.missing`, `${this.rule}.file`]);
+    const remaining = result.violations.filter((v) => !fixedRules.has(v.rule));
+    return FixResultBuilder.create(this.name, this.rule, [change], remaining);
+  }
+
   /**
    * Find CODEOWNERS file in one of the standard locations
    */
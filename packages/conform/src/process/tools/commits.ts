@@ -23,6 +23,7 @@ export class CommitsRunner extends BaseProcessToolRunner {
   readonly name = "Commits";
   readonly rule = "process.commits";
   readonly toolId = "commits";
+  readonly sourcePatterns: string[] = []; // Checks git state, not files
 
   private config: CommitsConfig = {
     enabled: false,
@@ -24,6 +24,8 @@ export interface DocsConfig {
   coverage_paths?: string[];
   exclude_patterns?: string[];
   types?: Record<string, DocTypeConfig>;
+  /** process.tickets.pattern, which conform-allow tickets must match */
+  ticket_pattern?: string;
 }
 
 /** Parsed frontmatter from a markdown file */
@@ -5,6 +5,7 @@ import { execa } from "execa";
 import { glob } from "glob";
 
 import { type CheckResult, type Violation } from "../../core/index.js";
+import { suppressViolations } from "../../suppressions/index.js";
 import { BaseProcessToolRunner } from "./base.js";
 import {
   type DocsConfig,
@@ -20,6 +21,7 @@ import {
 /**
  * Documentation governance runner.
  * Validates documentation structure, content, freshness, and API coverage.
+ * Violations can be accepted with conform-allow comments in the file they point at.
  */
 export class DocsRunner extends BaseProcessToolRunner {
   readonly name = "Documentation";
@@ -51,7 +53,13 @@ export class DocsRunner extends BaseProcessToolRunner {
     violations.push(...(await this.checkFreshness(projectRoot)));
     violations.push(...(await this.checkApiCoverage(projectRoot)));
 
-    return this.fromViolations(violations, elapsed());
+    const remaining = suppressViolations(
+      projectRoot,
+      violations,
+      { tool: this.toolId, rule: this.rule, severity: this.getSeverity() },
+      { ticketPattern: this.config.ticket_pattern }
+    );
+    return this.fromViolations(remaining, elapsed());
   }
 
   // ===========================================================================
@@ -1,4 +1,10 @@
-import { type CheckResult, type Violation } from "../../core/index.js";
+import {
+  type CheckResult,
+  type FileChange,
+  type FixResult,
+  FixResultBuilder,
+  type Violation,
+} from "../../core/index.js";
 import { BaseProcessToolRunner } from "./base.js";
 
 /** Hooks configuration from standards.toml */
@@ -19,6 +25,7 @@ export class HooksRunner extends BaseProcessToolRunner {
   readonly name = "Hooks";
   readonly rule = "process.hooks";
   readonly toolId = "hooks";
+  readonly sourcePatterns = [".husky/**"];
 
   private config: HooksConfig = {
     enabled: false,
@@ -195,4 +202,69 @@ export class HooksRunner extends BaseProcessToolRunner {
 
     return this.fromViolations(violations, elapsed());
   }
+
+  /**
+   * Write hook templates that are missing or out of date.
+   * Installing husky itself needs manual work.
+   */
+  async fix(projectRoot: string): Promise<FixResult> {
+    const result = await this.run(projectRoot);
+    if (this.checkHuskyInstalled(projectRoot)) {
+      return FixResultBuilder.create(this.name, this.rule, [], result.violations);
+    }
+
+    const changes: FileChange[] = [];
+    for (const [hook, template] of Object.entries(this.config.templates ?? {})) {
+      const hookPath = `.husky/${hook}`;
+      const actual = this.readFile(projectRoot, hookPath);
+      if (actual === null || actual.trim() !== template.trim()) {
+        changes.push({
+          file: hookPath,
+          before: actual,
+          after: template.endsWith("\n") ? template : `${template}\n`,
+          description: actual === null ? `Create ${hook} hook` : `Replace ${hook} hook with template`,
+        });
+      }
+    }
+
+    // Template content is authoritative, so fixed hooks are re-checked against it
+    const fixed = new Set(changes.map((c) => c.file));
+    const remaining = result.violations.filter((v) => !v.file || !fixed.has(v.file));
+    return FixResultBuilder.create(this.name, this.rule, changes, [
+      ...remaining,
+      ...this.checkFixedHooks(changes),
+    ]);
+  }
+
+  /** Check templated hooks for required commands and protected branches */
+  private checkFixedHooks(changes: FileChange[]): Violation[] {
+    const violations: Violation[] = [];
+    for (const change of changes) {
+      const hook = change.file.slice(".husky/".length);
+      for (const command of this.config.commands?.[hook] ?? []) {
+        if (!change.after.includes(command)) {
+          violations.push({
+            rule: `${this.rule}.${hook}.commands`,
+            tool: this.toolId,
+            file: change.file,
+            message: `Hook '${hook}' does not contain required command: ${command}`,
+            severity: "error",
+          });
+        }
+      }
+      if (hook === "pre-push") {
+        violations.push(
+          ...(this.config.protected_branches ?? [])
+            .filter((branch) => !change.after.includes(branch))
+            .map((branch) =>
+              this.createPrePushViolation(
+                "pre-push.protected-branch",
+                `Pre-push hook does not check for protected branch "${branch}"`
+              )
+            )
+        );
+      }
+    }
+    return violations;
+  }
 }
@@ -50,6 +50,7 @@ export class PrRunner extends BaseProcessToolRunner {
   readonly name = "PR";
   readonly rule = "process.pr";
   readonly toolId = "pr";
+  readonly sourcePatterns: string[] = []; // Checks the PR event, not files
 
   private config: PrConfig = {
     enabled: false,
@@ -77,6 +77,7 @@ export class RepoRunner extends BaseProcessToolRunner {
   readonly name = "Repository";
   readonly rule = "process.repo";
   readonly toolId = "repo";
+  readonly sourcePatterns: string[] = []; // Checks remote settings, not files
   private config: RepoConfig = {
     enabled: false,
     require_branch_protection: false,
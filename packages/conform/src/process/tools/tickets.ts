@@ -19,6 +19,7 @@ export class TicketsRunner extends BaseProcessToolRunner {
   readonly name = "Tickets";
   readonly rule = "process.tickets";
   readonly toolId = "tickets";
+  readonly sourcePatterns: string[] = []; // Checks git state, not files
 
   private config: TicketsConfig = {
     enabled: false,
@@ -27,10 +27,20 @@ const PROJECT_MARKERS: ProjectMarker[] = [
     },
   },
   { file: "pyproject.toml", type: "python" },
+  // go.work lists the modules of a Go workspace; checked before go.mod so its directory is a root
+  { file: "go.work", type: "go", isWorkspaceRoot: (): boolean => true },
+  { file: "go.mod", type: "go" },
+  {
+    file: "Cargo.toml",
+    type: "rust",
+    // A virtual manifest ([workspace] without [package]) only lists member crates
+    isWorkspaceRoot: (content): boolean =>
+      /^\s*\[workspace\]/m.test(content) && !/^\s*\[package\]/m.test(content),
+  },
 ];
 
 /** Files that indicate a workspace/monorepo root (not a project) */
-const WORKSPACE_ROOT_MARKERS = ["turbo.json", "pnpm-workspace.yaml", "lerna.json"];
+const WORKSPACE_ROOT_MARKERS = ["turbo.json", "pnpm-workspace.yaml", "lerna.json", "go.work"];
 
 /** Directories to skip during detection */
 const SKIP_DIRECTORIES = [
@@ -44,6 +54,8 @@ const SKIP_DIRECTORIES = [
   "coverage",
   ".next",
   ".nuxt",
+  "vendor",
+  "target",
 ];
 
 /** Check if a directory has workspace root markers */
@@ -18,6 +18,24 @@ enabled = true
 
 [code.linting.ruff]
 enabled = true
+`,
+
+  go: `# standards.toml - Go project configuration
+
+[code.linting.golangci-lint]
+enabled = true
+
+[code.types.govet]
+enabled = true
+`,
+
+  rust: `# standards.toml - Rust project configuration
+
+[code.linting.clippy]
+enabled = true
+
+[code.types.cargo-check]
+enabled = true
 `,
 };
 
@@ -36,6 +54,24 @@ enabled = true
 
 [code.linting.ruff]
 enabled = true
+`,
+
+  go: `# Go ruleset
+
+[code.linting.golangci-lint]
+enabled = true
+
+[code.types.govet]
+enabled = true
+`,
+
+  rust: `# Rust ruleset
+
+[code.linting.clippy]
+enabled = true
+
+[code.types.cargo-check]
+enabled = true
 `,
 };
 
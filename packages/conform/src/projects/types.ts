@@ -4,7 +4,7 @@ import type { Tier } from "../validate/types.js";
 export type { Tier } from "../validate/types.js";
 
 /** Project types detected by marker files */
-export type ProjectType = "typescript" | "python";
+export type ProjectType = "typescript" | "python" | "go" | "rust";
 
 /** Source of tier value */
 export type TierSource = "standards.toml" | "default" | null;
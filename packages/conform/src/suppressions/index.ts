@@ -0,0 +1,314 @@
+/**
+ * Inline suppressions: conform-allow comments that accept a violation with a reason.
+ *
+ *   // conform-allow: disable-comments -- upstream types are wrong (expires 2026-12-31, ABC-123)
+ *
+ * An allowance covers violations of its rule on its own line and the line after it,
+ * or anywhere in the file for violations without a line (file names, docs structure).
+ * Allowances without a reason, with a ticket that doesn't match process.tickets.pattern
+ * or past their expiry date don't suppress anything and are reported instead.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { glob } from "glob";
+
+import { today } from "../code/tools/audit-policy.js";
+import { getProjectRoot, loadConfigAsync, type Violation } from "../core/index.js";
+import { formatSuppressionsJson, formatSuppressionsText } from "./output.js";
+import type {
+  Suppression,
+  SuppressionEntry,
+  SuppressionOptions,
+  SuppressionOwner,
+  SuppressionsOptions,
+  SuppressionStatus,
+} from "./types.js";
+
+// Re-export types for library consumers
+export type {
+  Suppression,
+  SuppressionEntry,
+  SuppressionOptions,
+  SuppressionOwner,
+  SuppressionsOptions,
+} from "./types.js";
+
+/** conform-allow after a line or block comment opener */
+const COMMENT_MARKER = /(?:\/\/|\/\*|#|<!--)\s*conform-allow:(.*)$/;
+
+/** Markup files only use HTML comments, so examples in code blocks aren't allowances */
+const HTML_COMMENT_MARKER = /<!--\s*conform-allow:(.*)$/;
+
+const MARKUP_EXTENSIONS = new Set(["md", "mdx", "html", "htm"]);
+
+/** Directories never scanned for suppressions */
+const DEFAULT_EXCLUDE = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/dist/**",
+  "**/build/**",
+  "**/__pycache__/**",
+  "**/.venv/**",
+  "**/venv/**",
+  "**/coverage/**",
+  "**/.conform-cache/**",
+];
+
+/** Files larger than this aren't scanned for suppressions */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Split a trailing "(expires 2026-12-31, ABC-123)" off the reason.
+ * Parentheses holding anything but an expiry date and a ticket ID are part of the reason.
+ */
+function parseMetadata(text: string): Pick<Suppression, "reason" | "expires" | "ticket"> {
+  const match = /\(([^()]*)\)\s*$/.exec(text);
+  if (!match) {
+    return { reason: text || undefined };
+  }
+
+  const metadata: Pick<Suppression, "expires" | "ticket"> = {};
+  for (const part of match[1].split(",").map((p) => p.trim())) {
+    const expires = /^expires\s+(\d{4}-\d{2}-\d{2})$/i.exec(part);
+    if (expires) {
+      metadata.expires = expires[1];
+    } else if (/^\S*\d\S*$/.test(part) && !metadata.ticket) {
+      // Ticket IDs like ABC-123 or #45
+      metadata.ticket = part;
+    } else {
+      return { reason: text || undefined };
+    }
+  }
+
+  const reason = text.slice(0, match.index).trim();
+  return { reason: reason || undefined, ...metadata };
+}
+
+/** Parse the text after "conform-allow:" */
+function parseAllowance(text: string): Omit<Suppression, "file" | "line"> {
+  const body = text.replace(/\s*(?:\*\/|-->)\s*$/, "").trim();
+  const separator = body.indexOf("--");
+  const ruleText = separator === -1 ? body : body.slice(0, separator);
+  const rule = ruleText.trim().split(/\s+/)[0] ?? "";
+  if (separator === -1) {
+    return { rule };
+  }
+  return { rule, ...parseMetadata(body.slice(separator + 2).trim()) };
+}
+
+/**
+ * Find the conform-allow comments in a file's content.
+ */
+export function parseSuppressions(file: string, content: string): Suppression[] {
+  const extension = path.extname(file).slice(1).toLowerCase();
+  const marker = MARKUP_EXTENSIONS.has(extension) ? HTML_COMMENT_MARKER : COMMENT_MARKER;
+
+  const suppressions: Suppression[] = [];
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const match = marker.exec(lines[i]);
+    if (match) {
+      suppressions.push({ file, line: i + 1, ...parseAllowance(match[1]) });
+    }
+  }
+  return suppressions;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function matchesTicketPattern(ticket: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(ticket);
+  } catch {
+    return true; // An invalid pattern is reported by the tickets check
+  }
+}
+
+/** Whether a suppression is usable, and why not */
+function checkSuppression(
+  suppression: Suppression,
+  options: SuppressionOptions
+): { status: SuppressionStatus; problem?: string } {
+  const { rule, reason, ticket, expires } = suppression;
+  if (!rule) {
+    return { status: "invalid", problem: "conform-allow needs a rule: <rule> -- <reason>" };
+  }
+  if (!reason) {
+    return {
+      status: "invalid",
+      problem: `conform-allow for ${rule} needs a reason: ${rule} -- <reason>`,
+    };
+  }
+  if (ticket && options.ticketPattern && !matchesTicketPattern(ticket, options.ticketPattern)) {
+    return {
+      status: "invalid",
+      problem: `conform-allow for ${rule}: ticket ${ticket} doesn't match ${options.ticketPattern}`,
+    };
+  }
+  if (expires && expires < today()) {
+    return {
+      status: "expired",
+      problem: `conform-allow for ${rule} expired on ${expires} (${reason})`,
+    };
+  }
+  return { status: "active" };
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+/** Whether an allowance's rule names the owner's tool, one of its sub-rules or its rule ID */
+function isOwnedBy(rule: string, owner: SuppressionOwner): boolean {
+  return (
+    rule === owner.tool ||
+    rule.startsWith(`${owner.tool}.`) ||
+    rule === owner.rule ||
+    rule.startsWith(`${owner.rule}.`)
+  );
+}
+
+/** Whether an allowance's rule matches a violation's tool or rule ID */
+function appliesTo(rule: string, violation: Violation): boolean {
+  return (
+    rule === violation.tool ||
+    rule === violation.rule ||
+    violation.rule.endsWith(`.${rule}`) ||
+    violation.rule.startsWith(`${rule}.`)
+  );
+}
+
+function covers(suppression: Suppression, violation: Violation): boolean {
+  if (suppression.file !== violation.file || !appliesTo(suppression.rule, violation)) {
+    return false;
+  }
+  const { line } = violation;
+  return line === undefined || line === suppression.line || line === suppression.line + 1;
+}
+
+/**
+ * Drop the violations covered by active allowances, and report the owner's
+ * expired and invalid allowances.
+ */
+export function applySuppressions(
+  violations: Violation[],
+  suppressions: Suppression[],
+  owner: SuppressionOwner,
+  options: SuppressionOptions = {}
+): Violation[] {
+  const active: Suppression[] = [];
+  const problems: Violation[] = [];
+
+  for (const suppression of suppressions.filter((s) => isOwnedBy(s.rule, owner))) {
+    const { status, problem } = checkSuppression(suppression, options);
+    if (status === "active") {
+      active.push(suppression);
+    } else {
+      problems.push({
+        rule: owner.rule,
+        tool: owner.tool,
+        file: suppression.file,
+        line: suppression.line,
+        message: problem ?? "Invalid conform-allow",
+        code: "conform-allow",
+        severity: owner.severity ?? "error",
+      });
+    }
+  }
+
+  const remaining = violations.filter((v) => !active.some((s) => covers(s, v)));
+  return [...remaining, ...problems];
+}
+
+/**
+ * Apply the conform-allow comments in the files the violations point at.
+ * Paths that can't be read as files (folders, deleted files) have no allowances.
+ */
+export function suppressViolations(
+  projectRoot: string,
+  violations: Violation[],
+  owner: SuppressionOwner,
+  options: SuppressionOptions = {}
+): Violation[] {
+  const files = [...new Set(violations.map((v) => v.file).filter((f): f is string => !!f))];
+  const suppressions: Suppression[] = [];
+
+  for (const file of files) {
+    try {
+      const content = fs.readFileSync(path.join(projectRoot, file), "utf-8");
+      suppressions.push(...parseSuppressions(file, content));
+    } catch {
+      // Not a readable file
+    }
+  }
+
+  return applySuppressions(violations, suppressions, owner, options);
+}
+
+// =============================================================================
+// Listing
+// =============================================================================
+
+/** Read a text file, or null for large, binary or unreadable files (e.g. broken symlinks) */
+function readTextFile(filePath: string): string | null {
+  try {
+    if (fs.statSync(filePath).size > MAX_FILE_BYTES) {
+      return null;
+    }
+    const content = fs.readFileSync(filePath, "utf-8");
+    return content.includes("\0") ? null : content;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find every conform-allow comment in the project, with its status.
+ */
+export async function findSuppressions(
+  projectRoot: string,
+  options: SuppressionOptions = {}
+): Promise<SuppressionEntry[]> {
+  const files = await glob("**/*", {
+    cwd: projectRoot,
+    ignore: DEFAULT_EXCLUDE,
+    nodir: true,
+    dot: true,
+  });
+
+  const entries: SuppressionEntry[] = [];
+  for (const file of files.sort()) {
+    const content = readTextFile(path.join(projectRoot, file));
+    if (content === null || !content.includes("conform-allow:")) {
+      continue;
+    }
+    for (const suppression of parseSuppressions(file.split(path.sep).join("/"), content)) {
+      entries.push({ ...suppression, ...checkSuppression(suppression, options) });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Run the suppressions command (CLI entry point).
+ * Returns the listed suppressions so the caller can fail on expired or invalid ones.
+ */
+export async function runSuppressions(options: SuppressionsOptions): Promise<SuppressionEntry[]> {
+  const { config, configPath } = await loadConfigAsync(options.config);
+  const entries = await findSuppressions(getProjectRoot(configPath), {
+    ticketPattern: config.process?.tickets?.pattern,
+  });
+
+  const output =
+    options.format === "json" ? formatSuppressionsJson(entries) : formatSuppressionsText(entries);
+  process.stdout.write(`${output}\n`);
+  return entries;
+}
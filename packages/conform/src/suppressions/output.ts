@@ -0,0 +1,53 @@
+/**
+ * Output formatters for the conform suppressions command
+ */
+
+import type { SuppressionEntry } from "./types.js";
+
+/** "(expires 2026-12-31, ABC-123)", or "" without either */
+function formatMetadata(entry: SuppressionEntry): string {
+  const parts = [entry.expires ? `expires ${entry.expires}` : "", entry.ticket ?? ""];
+  const metadata = parts.filter(Boolean).join(", ");
+  return metadata ? ` (${metadata})` : "";
+}
+
+function formatEntry(entry: SuppressionEntry): string {
+  const reason = entry.reason ? `  ${entry.reason}` : "";
+  const lines = [`  ${entry.file}:${entry.line}${reason}${formatMetadata(entry)}`];
+  if (entry.status !== "active") {
+    lines.push(`    ${entry.status.toUpperCase()}: ${entry.problem ?? ""}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format suppressions as human-readable text, grouped by rule
+ */
+export function formatSuppressionsText(entries: SuppressionEntry[]): string {
+  if (entries.length === 0) {
+    return "No conform-allow suppressions found";
+  }
+
+  const expired = entries.filter((e) => e.status === "expired").length;
+  const invalid = entries.filter((e) => e.status === "invalid").length;
+  const noun = entries.length === 1 ? "suppression" : "suppressions";
+  const sections: string[] = [
+    `${entries.length} ${noun} (${expired} expired, ${invalid} invalid)`,
+    "",
+  ];
+
+  const rules = [...new Set(entries.map((e) => e.rule))].sort();
+  for (const rule of rules) {
+    const matching = entries.filter((e) => e.rule === rule);
+    sections.push(`${rule || "<no rule>"} (${matching.length}):`, ...matching.map(formatEntry), "");
+  }
+
+  return sections.join("\n").trimEnd();
+}
+
+/**
+ * Format suppressions as JSON
+ */
+export function formatSuppressionsJson(entries: SuppressionEntry[]): string {
+  return JSON.stringify({ suppressions: entries }, null, 2);
+}
@@ -0,0 +1,50 @@
+/**
+ * Types for conform-allow suppression comments
+ */
+
+/** A conform-allow comment */
+export interface Suppression {
+  /** File path relative to the project root */
+  file: string;
+  /** 1-based line of the comment */
+  line: number;
+  /** Rule it allows: a tool ID (naming), tool.subrule (docs.links) or full rule ID */
+  rule: string;
+  reason?: string;
+  /** Last day the allowance applies, as YYYY-MM-DD */
+  expires?: string;
+  ticket?: string;
+}
+
+/** How a suppression is checked */
+export interface SuppressionOptions {
+  /** Regex tickets must match (process.tickets.pattern) */
+  ticketPattern?: string;
+}
+
+/** The check applying suppressions, used to pick the allowances it reports problems for */
+export interface SuppressionOwner {
+  /** Tool ID, e.g. "disable-comments" */
+  tool: string;
+  /** Rule ID problems are reported under, e.g. "code.quality.disable-comments" */
+  rule: string;
+  severity?: "error" | "warning";
+}
+
+/** Validity of a suppression */
+export type SuppressionStatus = "active" | "expired" | "invalid";
+
+/** A suppression with its validity, as listed by conform suppressions */
+export interface SuppressionEntry extends Suppression {
+  status: SuppressionStatus;
+  /** Why the suppression is expired or invalid */
+  problem?: string;
+}
+
+/** Options for the suppressions command */
+export interface SuppressionsOptions {
+  /** Path to standards.toml config file */
+  config?: string;
+  /** Output format */
+  format: "text" | "json";
+}
@@ -0,0 +1,270 @@
+/**
+ * Watch mode - re-run only the runners whose inputs changed and report violation diffs
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import chalk from "chalk";
+import { minimatch } from "minimatch";
+
+import { fingerprintViolation } from "../baseline/index.js";
+import { getCodeTools } from "../code/index.js";
+import {
+  type CheckResult,
+  CheckResultBuilder,
+  type Config,
+  type IToolRunner,
+  loadConfigAsync,
+  type Violation,
+} from "../core/index.js";
+import { getPluginTools } from "../plugins/index.js";
+import { getProcessTools } from "../process/index.js";
+
+/** Directories whose changes never trigger a re-run */
+const IGNORED_DIRS = [
+  "node_modules",
+  ".git",
+  "dist",
+  "build",
+  "coverage",
+  "__pycache__",
+  ".venv",
+  "venv",
+  ".next",
+  ".nuxt",
+];
+
+/** Quiet period before re-running, so editors saving several files trigger one run */
+const DEBOUNCE_MS = 100;
+
+/** A runner keyed by the domain it reports under and its name */
+interface WatchedTool {
+  key: string;
+  tool: IToolRunner;
+}
+
+/** Violations introduced and fixed between two runs */
+export interface ViolationDiff {
+  added: Violation[];
+  fixed: Violation[];
+}
+
+/**
+ * Check whether a changed file (relative to the project root) is an input of a tool.
+ * Inputs are the tool's config files plus its source patterns; tools without
+ * source patterns treat every file as an input. Files the tool writes never are.
+ */
+export function isToolInput(tool: IToolRunner, file: string): boolean {
+  const normalized = file.split(path.sep).join("/");
+  if (tool.outputPatterns?.some((pattern) => minimatch(normalized, pattern, { dot: true }))) {
+    return false;
+  }
+  if (tool.configFiles.some((c) => normalized === c || normalized.endsWith(`/${c}`))) {
+    return true;
+  }
+  if (!tool.sourcePatterns) {
+    return true;
+  }
+  return tool.sourcePatterns.some((pattern) => minimatch(normalized, pattern, { dot: true }));
+}
+
+/** Violations in `a` that have no counterpart in `b`, matched by baseline fingerprint */
+function subtractViolations(a: Violation[], b: Violation[]): Violation[] {
+  const counts = new Map<string, number>();
+  for (const v of b) {
+    const fingerprint = fingerprintViolation(v);
+    counts.set(fingerprint, (counts.get(fingerprint) ?? 0) + 1);
+  }
+  return a.filter((v) => {
+    const fingerprint = fingerprintViolation(v);
+    const count = counts.get(fingerprint) ?? 0;
+    counts.set(fingerprint, count - 1);
+    return count <= 0;
+  });
+}
+
+/**
+ * Diff two sets of violations. Violations are matched by fingerprint, so a
+ * violation that only moved lines is neither added nor fixed.
+ */
+export function diffViolations(before: Violation[], after: Violation[]): ViolationDiff {
+  return { added: subtractViolations(after, before), fixed: subtractViolations(before, after) };
+}
+
+function isIgnored(file: string): boolean {
+  return file.split(/[\\/]/).some((segment) => IGNORED_DIRS.includes(segment));
+}
+
+async function runTool(tool: IToolRunner, projectRoot: string): Promise<CheckResult> {
+  try {
+    return await tool.run(projectRoot);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return CheckResultBuilder.fail(tool.name, tool.rule, [
+      {
+        rule: tool.rule,
+        tool: tool.toolId,
+        message: `Tool error: ${errorMessage}`,
+        severity: "error",
+      },
+    ]);
+  }
+}
+
+function formatViolation(v: Violation, sign: string): string {
+  const location = [v.file, v.line, v.column].filter((p) => p !== undefined).join(":");
+  const source = v.code ? `${v.tool}/${v.code}` : v.tool;
+  const text = `${location ? `${location} ` : ""}${v.message}`;
+  const colored = sign === "+" ? chalk.red(`${sign} ${text}`) : chalk.green(`${sign} ${text}`);
+  return `  ${colored} ${chalk.dim(`(${source})`)}`;
+}
+
+/**
+ * Watch session state: the last result of every tool, so re-runs can be diffed.
+ * File events are fed in by watchProject; the session itself does no I/O besides running tools.
+ */
+export class WatchSession {
+  private tools: WatchedTool[] = [];
+  private results = new Map<string, CheckResult>();
+
+  constructor(
+    private readonly projectRoot: string,
+    private readonly configPath: string,
+    private readonly domain?: string
+  ) {}
+
+  /** Load config, run every tool and report all current violations */
+  async start(): Promise<string> {
+    const { config } = await loadConfigAsync(this.configPath);
+    this.tools = await this.loadTools(config);
+    const header = `Watching ${this.tools.length} tool(s) for changes (Ctrl+C to stop)`;
+    return [chalk.bold(header), await this.rerun(this.tools, "Initial run")].join("\n");
+  }
+
+  /**
+   * Re-run the tools affected by the changed files and report the violation diff.
+   * A config change reloads the config and re-runs every tool.
+   * Returns an empty string when no tool is affected.
+   */
+  async update(changedFiles: string[]): Promise<string> {
+    const files = changedFiles.filter((f) => !isIgnored(f));
+    const configFile = path.relative(this.projectRoot, this.configPath);
+    const reason = `${files.length} file(s) changed`;
+
+    if (files.includes(configFile)) {
+      try {
+        const { config } = await loadConfigAsync(this.configPath);
+        this.tools = await this.loadTools(config);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return chalk.red(`${configFile} could not be loaded, keeping previous config: ${message}`);
+      }
+      return this.rerun(this.tools, `${configFile} changed`, true);
+    }
+
+    const affected = this.tools.filter((t) => files.some((f) => isToolInput(t.tool, f)));
+    return affected.length > 0 ? this.rerun(affected, reason) : "";
+  }
+
+  private async loadTools(config: Config): Promise<WatchedTool[]> {
+    const groups = new Map<string, IToolRunner[]>();
+    if (!this.domain || this.domain === "code") {
+      groups.set("code", getCodeTools(config));
+    }
+    if (!this.domain || this.domain === "process") {
+      groups.set("process", getProcessTools(config));
+    }
+    const pluginGroups = await getPluginTools(this.projectRoot, config, { domain: this.domain });
+    for (const [domain, tools] of pluginGroups) {
+      groups.set(domain, [...(groups.get(domain) ?? []), ...tools]);
+    }
+
+    return [...groups].flatMap(([domain, tools]) =>
+      tools.map((tool) => ({ key: `${domain}:${tool.name}`, tool }))
+    );
+  }
+
+  private async rerun(tools: WatchedTool[], reason: string, replaceAll = false): Promise<string> {
+    const startTime = Date.now();
+    const results = await Promise.all(tools.map((t) => runTool(t.tool, this.projectRoot)));
+
+    const previous = replaceAll
+      ? [...this.results.values()]
+      : tools.map((t) => this.results.get(t.key));
+    if (replaceAll) {
+      this.results.clear();
+    }
+    tools.forEach((t, index) => this.results.set(t.key, results[index]));
+
+    const diff = diffViolations(
+      previous.flatMap((r) => r?.violations ?? []),
+      results.flatMap((r) => r.violations)
+    );
+    return this.formatUpdate(tools, reason, diff, Date.now() - startTime);
+  }
+
+  private formatUpdate(
+    tools: WatchedTool[],
+    reason: string,
+    diff: ViolationDiff,
+    duration: number
+  ): string {
+    const time = new Date().toLocaleTimeString();
+    const names = tools.map((t) => t.tool.name).join(", ");
+    const lines = [
+      "",
+      `${chalk.dim(`[${time}]`)} ${reason} - ran ${names} ${chalk.dim(`(${duration}ms)`)}`,
+      ...diff.added.map((v) => formatViolation(v, "+")),
+      ...diff.fixed.map((v) => formatViolation(v, "-")),
+    ];
+    if (diff.added.length === 0 && diff.fixed.length === 0) {
+      lines.push(chalk.gray("  No new or fixed violations"));
+    }
+
+    const total = [...this.results.values()].reduce((sum, r) => sum + r.violations.length, 0);
+    lines.push(
+      total > 0 ? chalk.red(`  ✗ ${total} violation(s)`) : chalk.green("  ✓ No violations")
+    );
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Feed file system events into a watch session, debouncing bursts of changes and
+ * running one update at a time. Returns the watcher so callers can close it.
+ */
+export function watchProject(
+  session: WatchSession,
+  projectRoot: string,
+  write: (output: string) => void
+): fs.FSWatcher {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const flush = (): void => {
+    const files = [...pending];
+    pending.clear();
+    running = running
+      .then(async () => {
+        const output = await session.update(files);
+        if (output) {
+          write(output);
+        }
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        write(chalk.red(`Error: ${message}`));
+      });
+  };
+
+  return fs.watch(projectRoot, { recursive: true }, (_event, filename) => {
+    if (!filename || isIgnored(filename)) {
+      return;
+    }
+    pending.add(filename.split(path.sep).join("/"));
+    clearTimeout(timer);
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  });
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  formatArchitectureText,
+  formatGraphDot,
+  formatGraphJson,
+} from "../../../src/architecture/output.js";
+import type { DependencyGraph } from "../../../src/architecture/types.js";
+import type { CheckResult } from "../../../src/core/index.js";
+
+const graph: DependencyGraph = {
+  nodes: [
+    { id: "src/ui/page.ts", layer: "ui" },
+    { id: "src/db/client.ts", layer: "db" },
+    { id: "src/ui/widget.ts", layer: "ui" },
+    { id: "src/util.ts" },
+  ],
+  edges: [
+    { from: "src/ui/page.ts", to: "src/db/client.ts", lines: [2, 5] },
+    { from: "src/ui/page.ts", to: "src/util.ts", lines: [1] },
+  ],
+};
+
+function result(violations: CheckResult["violations"]): CheckResult {
+  return {
+    name: "Architecture",
+    rule: "code.architecture",
+    passed: violations.length === 0,
+    violations,
+    skipped: false,
+    duration: 0,
+  };
+}
+
+describe("formatGraphDot", () => {
+  it("groups nodes into a cluster per layer", () => {
+    expect(formatGraphDot(graph)).toBe(
+      [
+        "digraph modules {",
+        "  rankdir=LR;",
+        "  node [shape=box];",
+        '  subgraph "cluster_ui" {',
+        '    label="ui";',
+        '    "src/ui/page.ts";',
+        '    "src/ui/widget.ts";',
+        "  }",
+        '  subgraph "cluster_db" {',
+        '    label="db";',
+        '    "src/db/client.ts";',
+        "  }",
+        '  "src/util.ts";',
+        '  "src/ui/page.ts" -> "src/db/client.ts";',
+        '  "src/ui/page.ts" -> "src/util.ts";',
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("escapes quotes in node ids", () => {
+    const output = formatGraphDot({ nodes: [{ id: 'odd"name.ts' }], edges: [] });
+
+    expect(output).toContain('  "odd\\"name.ts";');
+  });
+});
+
+describe("formatGraphJson", () => {
+  it("prints the graph as JSON", () => {
+    expect(JSON.parse(formatGraphJson(graph))).toEqual(graph);
+  });
+});
+
+describe("formatArchitectureText", () => {
+  it("reports a clean result", () => {
+    expect(formatArchitectureText(result([]))).toBe("No architecture violations found");
+  });
+
+  it("lists violations with their location", () => {
+    const output = formatArchitectureText(
+      result([
+        {
+          rule: "code.architecture.architecture",
+          tool: "architecture",
+          file: "src/ui/page.ts",
+          line: 2,
+          message: 'Layer "ui" may not import from layer "db" (src/db/client.ts)',
+          severity: "error",
+        },
+        {
+          rule: "code.architecture.architecture",
+          tool: "architecture",
+          message: "python3 not found, so Python imports were not checked",
+          severity: "warning",
+        },
+      ])
+    );
+
+    expect(output).toBe(
+      [
+        'src/ui/page.ts:2  Layer "ui" may not import from layer "db" (src/db/client.ts)',
+        "python3 not found, so Python imports were not checked",
+        "",
+        "2 architecture violations",
+      ].join("\n")
+    );
+  });
+});
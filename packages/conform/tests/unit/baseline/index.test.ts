@@ -0,0 +1,223 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  applyBaseline,
+  createBaseline,
+  fingerprintViolation,
+  readBaseline,
+  writeBaseline,
+} from "../../../src/baseline/index.js";
+import {
+  CheckResultBuilder,
+  ConfigError,
+  DomainResultBuilder,
+  type DomainResult,
+  type Violation,
+} from "../../../src/core/index.js";
+
+function makeViolation(overrides: Partial<Violation> = {}): Violation {
+  return {
+    rule: "code.linting.eslint",
+    tool: "eslint",
+    file: "src/index.ts",
+    line: 10,
+    column: 5,
+    message: "'foo' is defined but never used",
+    code: "no-unused-vars",
+    severity: "error",
+    ...overrides,
+  };
+}
+
+function makeDomains(violations: Violation[]): Record<string, DomainResult> {
+  const check = CheckResultBuilder.fromViolations("ESLint", "code.linting.eslint", violations);
+  return { code: DomainResultBuilder.fromChecks("code", [check]) };
+}
+
+describe("fingerprintViolation", () => {
+  it("ignores line and column so fingerprints survive line shifts", () => {
+    const a = makeViolation({ line: 10, column: 5 });
+    const b = makeViolation({ line: 42, column: 1 });
+    expect(fingerprintViolation(a)).toBe(fingerprintViolation(b));
+  });
+
+  it("ignores positions embedded in the message", () => {
+    const a = makeViolation({ message: "Unexpected token at line 3" });
+    const b = makeViolation({ message: "Unexpected token at line 17" });
+    expect(fingerprintViolation(a)).toBe(fingerprintViolation(b));
+  });
+
+  it("distinguishes different files, codes and messages", () => {
+    const base = fingerprintViolation(makeViolation());
+    expect(fingerprintViolation(makeViolation({ file: "src/other.ts" }))).not.toBe(base);
+    expect(fingerprintViolation(makeViolation({ code: "no-console" }))).not.toBe(base);
+    expect(fingerprintViolation(makeViolation({ message: "'bar' is unused" }))).not.toBe(base);
+  });
+});
+
+describe("createBaseline", () => {
+  it("counts repeated violations under one fingerprint", () => {
+    const entries = createBaseline(
+      makeDomains([makeViolation({ line: 1 }), makeViolation({ line: 2 })])
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ tool: "eslint", file: "src/index.ts", count: 2 });
+  });
+
+  it("sorts entries by file", () => {
+    const entries = createBaseline(
+      makeDomains([makeViolation({ file: "src/b.ts" }), makeViolation({ file: "src/a.ts" })])
+    );
+    expect(entries.map((e) => e.file)).toEqual(["src/a.ts", "src/b.ts"]);
+  });
+});
+
+describe("applyBaseline", () => {
+  it("suppresses baselined violations", () => {
+    const entries = createBaseline(makeDomains([makeViolation()]));
+    const { domains, summary } = applyBaseline(
+      makeDomains([makeViolation({ line: 20 })]),
+      entries,
+      "/project/.conform-baseline.json"
+    );
+
+    expect(domains.code.violationCount).toBe(0);
+    expect(domains.code.status).toBe("pass");
+    expect(summary).toEqual({ path: "/project/.conform-baseline.json", suppressed: 1, fixed: [] });
+  });
+
+  it("reports violations beyond the baselined count", () => {
+    const entries = createBaseline(makeDomains([makeViolation()]));
+    const { domains, summary } = applyBaseline(
+      makeDomains([makeViolation({ line: 1 }), makeViolation({ line: 2 })]),
+      entries,
+      "baseline.json"
+    );
+
+    expect(domains.code.violationCount).toBe(1);
+    expect(summary.suppressed).toBe(1);
+  });
+
+  it("reports new violations", () => {
+    const entries = createBaseline(makeDomains([makeViolation()]));
+    const { domains } = applyBaseline(
+      makeDomains([makeViolation(), makeViolation({ code: "no-console", message: "console" })]),
+      entries,
+      "baseline.json"
+    );
+
+    expect(domains.code.violationCount).toBe(1);
+    expect(domains.code.checks[0].violations[0].code).toBe("no-console");
+  });
+
+  it("lists baselined violations that no longer occur as fixed", () => {
+    const entries = createBaseline(
+      makeDomains([makeViolation(), makeViolation(), makeViolation({ file: "src/gone.ts" })])
+    );
+    const { summary } = applyBaseline(makeDomains([makeViolation()]), entries, "baseline.json");
+
+    expect(summary.fixed).toHaveLength(2);
+    expect(summary.fixed.find((e) => e.file === "src/index.ts")?.count).toBe(1);
+    expect(summary.fixed.find((e) => e.file === "src/gone.ts")?.count).toBe(1);
+  });
+
+  it("keeps the other fields of a fully baselined check", () => {
+    const entries = createBaseline(makeDomains([makeViolation()]));
+    const check = {
+      ...CheckResultBuilder.fail("ESLint", "code.linting.eslint", [makeViolation()], 12),
+      toolId: "eslint",
+    };
+    const { domains } = applyBaseline(
+      { code: DomainResultBuilder.fromChecks("code", [check]) },
+      entries,
+      "baseline.json"
+    );
+
+    expect(domains.code.checks[0]).toEqual({ ...check, passed: true, violations: [] });
+  });
+
+  it("does not list entries of tools that didn't run as fixed", () => {
+    const entries = createBaseline(makeDomains([makeViolation()]));
+    const skipped = {
+      ...CheckResultBuilder.skip("ESLint", "code.linting.eslint", "Not installed"),
+      toolId: "eslint",
+    };
+    const { summary } = applyBaseline(
+      { code: DomainResultBuilder.fromChecks("code", [skipped]) },
+      entries,
+      "baseline.json"
+    );
+
+    expect(summary.fixed).toEqual([]);
+  });
+
+  it("only lists entries for changed files as fixed in changed-files mode", () => {
+    const entries = createBaseline(
+      makeDomains([makeViolation(), makeViolation({ file: "src/other.ts" })])
+    );
+    const passed = {
+      ...CheckResultBuilder.pass("ESLint", "code.linting.eslint"),
+      toolId: "eslint",
+    };
+    const { summary } = applyBaseline(
+      { code: DomainResultBuilder.fromChecks("code", [passed]) },
+      entries,
+      "baseline.json",
+      ["src/index.ts"]
+    );
+
+    expect(summary.fixed.map((e) => e.file)).toEqual(["src/index.ts"]);
+  });
+
+  it("leaves skipped checks untouched", () => {
+    const skipped = CheckResultBuilder.skip("Knip", "code.unused.knip", "Not installed");
+    const domains = { code: DomainResultBuilder.fromChecks("code", [skipped]) };
+    const result = applyBaseline(domains, [], "baseline.json");
+    expect(result.domains.code.checks[0]).toBe(skipped);
+  });
+});
+
+describe("readBaseline / writeBaseline", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "conform-baseline-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("round-trips entries through the baseline file", () => {
+    const baselinePath = path.join(tempDir, ".conform-baseline.json");
+    const entries = createBaseline(makeDomains([makeViolation()]));
+
+    writeBaseline(baselinePath, entries);
+
+    expect(readBaseline(baselinePath)).toEqual(entries);
+    expect(JSON.parse(fs.readFileSync(baselinePath, "utf-8")).version).toBe(1);
+  });
+
+  it("throws ConfigError when the file is missing", () => {
+    expect(() => readBaseline(path.join(tempDir, "missing.json"))).toThrow(ConfigError);
+    expect(() => readBaseline(path.join(tempDir, "missing.json"))).toThrow(
+      /--update-baseline/
+    );
+  });
+
+  it("throws ConfigError for invalid JSON", () => {
+    const baselinePath = path.join(tempDir, "bad.json");
+    fs.writeFileSync(baselinePath, "{not json");
+    expect(() => readBaseline(baselinePath)).toThrow(ConfigError);
+  });
+
+  it("throws ConfigError for an unexpected format", () => {
+    const baselinePath = path.join(tempDir, "wrong.json");
+    fs.writeFileSync(baselinePath, JSON.stringify({ violations: {} }));
+    expect(() => readBaseline(baselinePath)).toThrow(/Invalid baseline file/);
+  });
+});
@@ -0,0 +1,197 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ResultCache } from "../../../src/cache/index.js";
+import { CheckResultBuilder, type IToolRunner } from "../../../src/core/index.js";
+
+function makeTool(overrides: Partial<IToolRunner> = {}): IToolRunner {
+  return {
+    name: "TypeScript",
+    rule: "code.types",
+    toolId: "tsc",
+    configFiles: ["tsconfig.json"],
+    sourcePatterns: ["**/*.ts"],
+    cacheKey: vi.fn().mockResolvedValue("5.9.3"),
+    run: vi.fn().mockResolvedValue(
+      CheckResultBuilder.fail("TypeScript", "code.types", [
+        { rule: "code.types.tsc", tool: "tsc", file: "a.ts", message: "bad", severity: "error" },
+      ])
+    ),
+    audit: vi.fn(),
+    ...overrides,
+  };
+}
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+  fs.writeFileSync(path.join(projectRoot, file), content);
+}
+
+/** Run a tool through a fresh cache, as a new conform check invocation would */
+async function runCached(tool: IToolRunner, settings: unknown = { enabled: true }) {
+  const cache = new ResultCache(projectRoot, ".conform-cache", "1.0.0");
+  const result = await cache.wrap(tool, settings).run(projectRoot);
+  return { result, summary: cache.getSummary() };
+}
+
+let projectRoot: string;
+
+beforeEach(() => {
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-cache-"));
+  write("tsconfig.json", "{}");
+  write("a.ts", "const a = 1;");
+});
+
+afterEach(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("ResultCache", () => {
+  it("replays the stored result when inputs are unchanged", async () => {
+    const tool = makeTool();
+
+    const first = await runCached(tool);
+    const second = await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(1);
+    expect(first.summary).toMatchObject({ hits: 0, misses: 1 });
+    expect(second.summary).toMatchObject({ hits: 1, misses: 0 });
+    expect(second.result).toEqual(first.result);
+    expect(fs.existsSync(path.join(projectRoot, ".conform-cache", "tsc.json"))).toBe(true);
+  });
+
+  it("re-runs when a source file changes", async () => {
+    const tool = makeTool();
+    await runCached(tool);
+
+    write("src/b.ts", "const b = 2;");
+    await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("re-runs when a config file in a subdirectory changes", async () => {
+    const tool = makeTool();
+    write("packages/a/tsconfig.json", "{}");
+    await runCached(tool);
+
+    write("packages/a/tsconfig.json", '{ "strict": true }');
+    await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("re-runs when an extra input outside the project changes", async () => {
+    const sharedDir = fs.mkdtempSync(path.join(os.tmpdir(), "conform-shared-"));
+    const shared = path.join(sharedDir, "base.json");
+    fs.writeFileSync(shared, "{}");
+    const tool = makeTool({ cacheInputs: vi.fn().mockResolvedValue([shared]) });
+
+    await runCached(tool);
+    fs.writeFileSync(shared, '{ "compilerOptions": { "strict": true } }');
+    const { summary } = await runCached(tool);
+    fs.rmSync(sharedDir, { recursive: true, force: true });
+
+    expect(tool.run).toHaveBeenCalledTimes(2);
+    expect(summary).toMatchObject({ hits: 0, misses: 1 });
+  });
+
+  it("re-runs when a lockfile changes", async () => {
+    const tool = makeTool();
+    await runCached(tool);
+
+    write("pnpm-lock.yaml", "lockfileVersion: 9");
+    await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("ignores files outside the source patterns", async () => {
+    const tool = makeTool();
+    await runCached(tool);
+
+    write("README.md", "# Readme");
+    write("node_modules/x/index.ts", "export {};");
+    await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores build folders and the tool's own output files", async () => {
+    const tool = makeTool({ sourcePatterns: ["**/*"], outputPatterns: ["coverage.out"] });
+    await runCached(tool);
+
+    write("coverage.out", "mode: set");
+    write("target/debug/build.ts", "export {};");
+    write("vendor/pkg/index.ts", "export {};");
+    await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-runs when the tool settings or cache key change", async () => {
+    const tool = makeTool();
+    await runCached(tool);
+
+    await runCached(tool, { enabled: true, require: { strict: true } });
+    vi.mocked(tool.cacheKey!).mockResolvedValue("5.9.4");
+    await runCached(tool, { enabled: true, require: { strict: true } });
+
+    expect(tool.run).toHaveBeenCalledTimes(3);
+  });
+
+  it("re-runs after a conform upgrade", async () => {
+    const tool = makeTool();
+    await runCached(tool);
+
+    const cache = new ResultCache(projectRoot, ".conform-cache", "1.1.0");
+    await cache.wrap(tool, { enabled: true }).run(projectRoot);
+
+    expect(tool.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache when the cache key is null", async () => {
+    const tool = makeTool({ cacheKey: vi.fn().mockResolvedValue(null) });
+
+    await runCached(tool);
+    const { summary } = await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(2);
+    expect(summary).toMatchObject({ hits: 0, misses: 0 });
+  });
+
+  it("does not store skipped results", async () => {
+    const tool = makeTool({
+      run: vi.fn().mockResolvedValue(
+        CheckResultBuilder.skip("TypeScript", "code.types", "TypeScript not installed")
+      ),
+    });
+
+    await runCached(tool);
+    await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs the tool when the cache entry is corrupt", async () => {
+    const tool = makeTool();
+    write(".conform-cache/tsc.json", "not json");
+
+    const { summary } = await runCached(tool);
+
+    expect(tool.run).toHaveBeenCalledTimes(1);
+    expect(summary.misses).toBe(1);
+  });
+
+  it("returns tools without a cache key or source patterns unchanged", () => {
+    const cache = new ResultCache(projectRoot, ".conform-cache", "1.0.0");
+    const uncacheable = makeTool({ cacheKey: undefined });
+    const unscoped = makeTool({ sourcePatterns: undefined });
+
+    expect(cache.wrap(uncacheable, {})).toBe(uncacheable);
+    expect(cache.wrap(unscoped, {})).toBe(unscoped);
+  });
+});
@@ -1,4 +1,5 @@
 vi.mock("../../../src/code/index.js", () => ({
+  getChangedFiles: vi.fn(),
   runCodeChecks: vi.fn(),
   auditCodeConfig: vi.fn(),
 }));
@@ -15,23 +16,82 @@ vi.mock("../../../src/core/index.js", () => ({
       this.name = "ConfigError";
     }
   },
+  DomainResultBuilder: {
+    fromChecks: (domain: string, checks: unknown[]) => ({
+      domain,
+      status: "pass",
+      checks,
+      violationCount: 0,
+    }),
+  },
   getProjectRoot: vi.fn().mockReturnValue("/project"),
   loadConfigAsync: vi.fn(),
   ExitCode: { SUCCESS: 0, VIOLATIONS_FOUND: 1, CONFIG_ERROR: 2, RUNTIME_ERROR: 3 },
 }));
 
+vi.mock("../../../src/plugins/index.js", () => ({
+  runPluginChecks: vi.fn().mockResolvedValue({}),
+  auditPluginConfig: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock("../../../src/baseline/index.js", () => ({
+  DEFAULT_BASELINE_FILE: ".conform-baseline.json",
+  applyBaseline: vi.fn(),
+  createBaseline: vi.fn().mockReturnValue([]),
+  readBaseline: vi.fn().mockReturnValue([]),
+  writeBaseline: vi.fn(),
+}));
+
+vi.mock("../../../src/cache/index.js", () => ({
+  DEFAULT_CACHE_DIR: ".conform-cache",
+  ResultCache: vi.fn().mockImplementation(() => ({
+    getSummary: vi.fn().mockReturnValue({ dir: "/project/.conform-cache", hits: 2, misses: 1 }),
+  })),
+}));
+
+vi.mock("../../../src/fix/index.js", () => ({
+  fixProject: vi.fn(),
+  formatFixText: vi.fn().mockReturnValue("fix report"),
+}));
+
+vi.mock("../../../src/watch/index.js", () => ({
+  watchProject: vi.fn(),
+  WatchSession: vi.fn().mockImplementation(() => ({
+    start: vi.fn().mockResolvedValue("watching"),
+  })),
+}));
+
 vi.mock("../../../src/output/index.js", () => ({
   formatOutput: vi.fn().mockReturnValue("formatted"),
+  writeStepSummary: vi.fn(),
 }));
 
+import * as path from "node:path";
+
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Command } from "commander";
-import { configureExitOverride, handleError, runCheck, runAudit } from "../../../src/cli/utils.js";
-import { runCodeChecks, auditCodeConfig } from "../../../src/code/index.js";
+import {
+  configureExitOverride,
+  handleError,
+  runAudit,
+  runCheck,
+  runFix,
+} from "../../../src/cli/utils.js";
+import { runCodeChecks, auditCodeConfig, getChangedFiles } from "../../../src/code/index.js";
 import { runProcessChecks, auditProcessConfig } from "../../../src/process/index.js";
 import { ConfigError, loadConfigAsync } from "../../../src/core/index.js";
-import { formatOutput } from "../../../src/output/index.js";
-import type { Config, DomainResult } from "../../../src/core/index.js";
+import { ResultCache } from "../../../src/cache/index.js";
+import { fixProject } from "../../../src/fix/index.js";
+import { watchProject, WatchSession } from "../../../src/watch/index.js";
+import { formatOutput, writeStepSummary } from "../../../src/output/index.js";
+import { auditPluginConfig, runPluginChecks } from "../../../src/plugins/index.js";
+import {
+  applyBaseline,
+  createBaseline,
+  readBaseline,
+  writeBaseline,
+} from "../../../src/baseline/index.js";
+import type { Config, DomainResult, FixResult } from "../../../src/core/index.js";
 
 const mocked = vi.mocked;
 
@@ -175,6 +235,231 @@ describe("runCheck", () => {
     await runCheck("1.0.0", { format: "text" });
 
     expect(stdoutSpy).toHaveBeenCalledWith("the output\n");
+    expect(writeStepSummary).not.toHaveBeenCalled();
+  });
+
+  it("writes the step summary for github format", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/p/standards.toml",
+    });
+    mocked(runCodeChecks).mockResolvedValue(makeDomainResult());
+    mocked(runProcessChecks).mockResolvedValue(makeDomainResult());
+
+    await runCheck("1.0.0", { format: "github" });
+
+    expect(formatOutput).toHaveBeenCalledWith(expect.anything(), "github");
+    expect(writeStepSummary).toHaveBeenCalled();
+  });
+
+  it("does not touch the baseline without baseline options", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    mocked(runCodeChecks).mockResolvedValue(makeDomainResult());
+    mocked(runProcessChecks).mockResolvedValue(makeDomainResult());
+
+    await runCheck("1.0.0", { format: "text" });
+
+    expect(readBaseline).not.toHaveBeenCalled();
+    expect(applyBaseline).not.toHaveBeenCalled();
+  });
+
+  it("applies the baseline and exits based on remaining violations", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    mocked(runCodeChecks).mockResolvedValue(
+      makeDomainResult({ domain: "code", violationCount: 2 })
+    );
+    const summary = { path: "/project/baseline.json", suppressed: 2, fixed: [] };
+    mocked(applyBaseline).mockReturnValue({
+      domains: { code: makeDomainResult({ domain: "code" }) },
+      summary,
+    });
+
+    await runCheck("1.0.0", { format: "text", baseline: "/project/baseline.json" }, "code");
+
+    expect(readBaseline).toHaveBeenCalledWith("/project/baseline.json");
+    expect(writeBaseline).not.toHaveBeenCalled();
+    expect(formatOutput).toHaveBeenCalledWith(
+      expect.objectContaining({ baseline: summary }),
+      "text"
+    );
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  it("writes the baseline to the project root with --update-baseline", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    const code = makeDomainResult({ domain: "code", violationCount: 1 });
+    mocked(runCodeChecks).mockResolvedValue(code);
+    mocked(applyBaseline).mockReturnValue({
+      domains: { code: makeDomainResult({ domain: "code" }) },
+      summary: { path: "/project/.conform-baseline.json", suppressed: 1, fixed: [] },
+    });
+
+    await runCheck("1.0.0", { format: "text", updateBaseline: true }, "code");
+
+    expect(createBaseline).toHaveBeenCalledWith({ code });
+    expect(writeBaseline).toHaveBeenCalledWith("/project/.conform-baseline.json", []);
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  it("runs all code checks without changed-files options", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    mocked(runCodeChecks).mockResolvedValue(makeDomainResult());
+
+    await runCheck("1.0.0", { format: "text" }, "code");
+
+    expect(getChangedFiles).not.toHaveBeenCalled();
+    expect(runCodeChecks).toHaveBeenCalledWith("/project", {}, {
+      changedFiles: undefined,
+      cache: expect.anything(),
+    });
+  });
+
+  it("passes changed files to code checks with --since", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    mocked(getChangedFiles).mockResolvedValue(["src/a.ts"]);
+    mocked(runCodeChecks).mockResolvedValue(makeDomainResult());
+
+    await runCheck("1.0.0", { format: "text", since: "origin/main" }, "code");
+
+    expect(getChangedFiles).toHaveBeenCalledWith("/project", "origin/main");
+    expect(runCodeChecks).toHaveBeenCalledWith("/project", {}, {
+      changedFiles: ["src/a.ts"],
+      cache: undefined,
+    });
+    expect(ResultCache).not.toHaveBeenCalled();
+  });
+
+  it("adds plugin domains and merges plugin checks into built-in domains", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    const eslint = { name: "ESLint", rule: "code.linting", passed: true, skipped: false };
+    const custom = { name: "Custom", rule: "code.custom", passed: true, skipped: false };
+    mocked(runCodeChecks).mockResolvedValue(
+      makeDomainResult({ checks: [{ ...eslint, violations: [] }] })
+    );
+    mocked(runPluginChecks).mockResolvedValueOnce({
+      code: makeDomainResult({ checks: [{ ...custom, violations: [] }] }),
+      legal: makeDomainResult({ domain: "legal" }),
+    });
+
+    await runCheck("1.0.0", { format: "text" }, "code");
+
+    expect(runPluginChecks).toHaveBeenCalledWith("/project", {}, {
+      domain: "code",
+      changedFiles: undefined,
+    });
+    const result = mocked(formatOutput).mock.calls[0][0];
+    expect(result.domains.code.checks.map((c) => c.name)).toEqual(["ESLint", "Custom"]);
+    expect(result.domains.legal).toBeDefined();
+  });
+});
+
+describe("runCheck result cache", () => {
+  beforeEach(() => {
+    mocked(runCodeChecks).mockResolvedValue(makeDomainResult());
+  });
+
+  it("uses the default cache directory and reports cache stats", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+
+    await runCheck("1.0.0", { format: "text" }, "code");
+
+    expect(ResultCache).toHaveBeenCalledWith(
+      "/project",
+      path.resolve("/project", ".conform-cache"),
+      "1.0.0"
+    );
+    const result = mocked(formatOutput).mock.calls[0][0];
+    expect(result.cache).toEqual({ dir: "/project/.conform-cache", hits: 2, misses: 1 });
+  });
+
+  it("resolves --cache-dir against the working directory", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: { cache: { enabled: true, dir: "tmp/cache" } } as Config,
+      configPath: "/project/standards.toml",
+    });
+
+    await runCheck("1.0.0", { format: "text", cacheDir: "ci-cache" }, "code");
+
+    expect(ResultCache).toHaveBeenCalledWith("/project", path.resolve("ci-cache"), "1.0.0");
+  });
+
+  it("resolves [cache] dir against the project root", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: { cache: { enabled: true, dir: "tmp/cache" } } as Config,
+      configPath: "/project/standards.toml",
+    });
+
+    await runCheck("1.0.0", { format: "text" }, "code");
+
+    expect(ResultCache).toHaveBeenCalledWith(
+      "/project",
+      path.resolve("/project", "tmp/cache"),
+      "1.0.0"
+    );
+  });
+
+  it("skips the cache with --no-cache", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+
+    await runCheck("1.0.0", { format: "text", cache: false }, "code");
+
+    expect(ResultCache).not.toHaveBeenCalled();
+    expect(mocked(formatOutput).mock.calls[0][0].cache).toBeUndefined();
+  });
+
+  it("skips the cache when disabled in config", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: { cache: { enabled: false } } as Config,
+      configPath: "/project/standards.toml",
+    });
+
+    await runCheck("1.0.0", { format: "text" }, "code");
+
+    expect(ResultCache).not.toHaveBeenCalled();
+  });
+});
+
+describe("runCheck --watch", () => {
+  it("starts a watch session instead of running checks once", async () => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    const onceSpy = vi.spyOn(process, "once").mockImplementation(() => process);
+
+    await runCheck("1.0.0", { format: "text", watch: true }, "code");
+
+    expect(WatchSession).toHaveBeenCalledWith("/project", "/project/standards.toml", "code");
+    expect(stdoutSpy).toHaveBeenCalledWith("watching\n");
+    expect(watchProject).toHaveBeenCalled();
+    expect(runCodeChecks).not.toHaveBeenCalled();
+    expect(exitSpy).not.toHaveBeenCalled();
+    expect(onceSpy).toHaveBeenCalledWith("SIGINT", expect.any(Function));
+    onceSpy.mockRestore();
   });
 });
 
@@ -191,8 +476,10 @@ describe("runAudit", () => {
 
     expect(auditCodeConfig).toHaveBeenCalled();
     expect(auditProcessConfig).toHaveBeenCalled();
+    expect(auditPluginConfig).toHaveBeenCalledWith("/project", {}, { domain: undefined });
     expect(runCodeChecks).not.toHaveBeenCalled();
     expect(runProcessChecks).not.toHaveBeenCalled();
+    expect(runPluginChecks).not.toHaveBeenCalled();
   });
 
   it("only runs code audit when domain filter is code", async () => {
@@ -244,3 +531,58 @@ describe("runAudit", () => {
     expect(exitSpy).toHaveBeenCalledWith(3);
   });
 });
+
+describe("runFix", () => {
+  function makeFixResult(overrides: Partial<FixResult> = {}): FixResult {
+    return {
+      name: "ESLint",
+      rule: "code.linting",
+      changes: [],
+      remaining: [],
+      skipped: false,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+  });
+
+  it("passes domain and dry-run options to fixProject", async () => {
+    mocked(fixProject).mockResolvedValue({ dryRun: true, domains: { code: [makeFixResult()] } });
+
+    await runFix({ domain: "code", dryRun: true });
+
+    expect(fixProject).toHaveBeenCalledWith("/project", {}, { domain: "code", dryRun: true });
+    expect(stdoutSpy).toHaveBeenCalledWith("fix report\n");
+    expect(exitSpy).toHaveBeenCalledWith(0);
+  });
+
+  it("exits with VIOLATIONS_FOUND when violations need manual work", async () => {
+    mocked(fixProject).mockResolvedValue({
+      dryRun: false,
+      domains: {
+        code: [
+          makeFixResult({
+            remaining: [{ rule: "code.linting", tool: "eslint", message: "x", severity: "error" }],
+          }),
+        ],
+      },
+    });
+
+    await runFix({});
+
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it("handles errors during fix", async () => {
+    mocked(fixProject).mockRejectedValue(new Error("fix failed"));
+
+    await runFix({});
+
+    expect(exitSpy).toHaveBeenCalledWith(3);
+  });
+});
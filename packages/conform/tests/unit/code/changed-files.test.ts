@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from "execa";
+import { getChangedFiles } from "../../../src/code/changed-files.js";
+import { ConfigError } from "../../../src/core/index.js";
+
+const mockExeca = vi.mocked(execa);
+
+function gitOutput(stdout: string): any {
+  return { stdout, stderr: "", exitCode: 0 };
+}
+
+beforeEach(() => vi.clearAllMocks());
+
+describe("getChangedFiles", () => {
+  it("returns uncommitted and untracked files relative to HEAD", async () => {
+    mockExeca.mockImplementation((async (_cmd: string, args: string[]) =>
+      args[0] === "diff" ? gitOutput("src/b.ts\nsrc/a.ts\n") : gitOutput("src/new.ts\n")) as any);
+
+    const files = await getChangedFiles("/project");
+
+    expect(files).toEqual(["src/a.ts", "src/b.ts", "src/new.ts"]);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["diff", "--name-only", "--relative", "--diff-filter=d", "HEAD"],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("diffs against the merge base with --since", async () => {
+    mockExeca.mockImplementation((async (_cmd: string, args: string[]) => {
+      if (args[0] === "merge-base") {
+        return gitOutput("abc123\n");
+      }
+      return args[0] === "diff" ? gitOutput("src/a.ts\n") : gitOutput("src/a.ts\n");
+    }) as any);
+
+    const files = await getChangedFiles("/project", "origin/main");
+
+    expect(files).toEqual(["src/a.ts"]);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["merge-base", "origin/main", "HEAD"],
+      expect.any(Object)
+    );
+    expect(mockExeca).toHaveBeenCalledWith(
+      "git",
+      ["diff", "--name-only", "--relative", "--diff-filter=d", "abc123"],
+      expect.any(Object)
+    );
+  });
+
+  it("lists indexed and untracked files when HEAD is unborn", async () => {
+    mockExeca.mockImplementation((async (_cmd: string, args: string[]) => {
+      if (args[0] === "rev-parse") {
+        throw new Error("exit code 1");
+      }
+      if (args.includes("--cached")) {
+        return gitOutput("src/a.ts\nsrc/removed.ts\n");
+      }
+      if (args.includes("--deleted")) {
+        return gitOutput("src/removed.ts\n");
+      }
+      return gitOutput("src/new.ts\n");
+    }) as any);
+
+    const files = await getChangedFiles("/project");
+
+    expect(files).toEqual(["src/a.ts", "src/new.ts"]);
+    expect(mockExeca).not.toHaveBeenCalledWith(
+      "git",
+      expect.arrayContaining(["diff"]),
+      expect.anything()
+    );
+  });
+
+  it("throws ConfigError when the ref cannot be resolved", async () => {
+    mockExeca.mockRejectedValue(new Error("fatal: Not a valid object name nope"));
+
+    await expect(getChangedFiles("/project", "nope")).rejects.toThrow(ConfigError);
+  });
+
+  it("throws when git diff fails", async () => {
+    mockExeca.mockRejectedValue(new Error("fatal: not a git repository"));
+
+    await expect(getChangedFiles("/project")).rejects.toThrow(
+      "Failed to determine changed files: fatal: not a git repository"
+    );
+  });
+});
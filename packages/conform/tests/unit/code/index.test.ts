@@ -1,5 +1,5 @@
 vi.mock("../../../src/code/tools/index.js", () => {
-  const mockRunner = (name: string, rule: string, toolId: string) => {
+  const mockRunner = (name: string, rule: string, toolId: string, fileScoped = false) => {
     const instance = {
       name,
       rule,
@@ -9,33 +9,70 @@ vi.mock("../../../src/code/tools/index.js", () => {
       audit: vi.fn(),
       setConfig: vi.fn(),
       setRequiredOptions: vi.fn(),
+      ...(fileScoped && { setTargetFiles: vi.fn() }),
     };
     return vi.fn(() => instance);
   };
 
   return {
     BaseToolRunner: vi.fn(),
-    ESLintRunner: mockRunner("ESLint", "code.linting", "eslint"),
+    ESLintRunner: mockRunner("ESLint", "code.linting", "eslint", true),
     KnipRunner: mockRunner("Knip", "code.unused", "knip"),
     NamingRunner: mockRunner("Naming", "code.naming", "naming"),
-    RuffRunner: mockRunner("Ruff", "code.linting", "ruff"),
+    RuffRunner: mockRunner("Ruff", "code.linting", "ruff", true),
     TscRunner: mockRunner("Tsc", "code.types", "tsc"),
     TyRunner: mockRunner("Ty", "code.types", "ty"),
     VultureRunner: mockRunner("Vulture", "code.unused", "vulture"),
     CoverageRunRunner: mockRunner("CoverageRun", "code.coverage_run", "coverage-run"),
     DisableCommentsRunner: mockRunner("DisableComments", "code.quality", "disable-comments"),
+    ComplexityRunner: mockRunner("Complexity", "code.quality", "complexity"),
     PnpmAuditRunner: mockRunner("PnpmAudit", "code.security", "pnpmaudit"),
+    NpmAuditRunner: mockRunner("NpmAudit", "code.security", "npmaudit"),
+    YarnAuditRunner: mockRunner("YarnAudit", "code.security", "yarnaudit"),
     PipAuditRunner: mockRunner("PipAudit", "code.security", "pipaudit"),
     GitleaksRunner: mockRunner("Gitleaks", "code.security", "gitleaks"),
+    GolangciLintRunner: mockRunner("golangci-lint", "code.linting", "golangci-lint"),
+    GoVetRunner: mockRunner("go vet", "code.types", "govet"),
+    GovulncheckRunner: mockRunner("govulncheck", "code.security", "govulncheck"),
+    ClippyRunner: mockRunner("Clippy", "code.linting", "clippy"),
+    CargoCheckRunner: mockRunner("cargo check", "code.types", "cargo-check"),
+    CargoAuditRunner: mockRunner("cargo audit", "code.security", "cargo-audit"),
+    LicensesRunner: mockRunner("Licenses", "code.security", "licenses"),
+    PrettierRunner: mockRunner("Prettier", "code.formatting", "prettier", true),
+    RuffFormatRunner: mockRunner("Ruff Format", "code.formatting", "ruff-format", true),
+    BiomeFormatRunner: mockRunner("Biome Format", "code.formatting", "biome-format", true),
+    BiomeRunner: mockRunner("Biome", "code.linting", "biome", true),
+    OxlintRunner: mockRunner("oxlint", "code.linting", "oxlint", true),
+    CustomToolRunner: vi.fn((name: string) => ({
+      name,
+      rule: "code.custom",
+      toolId: name,
+      configFiles: [],
+      run: vi.fn().mockResolvedValue({
+        name,
+        rule: "code.custom",
+        passed: true,
+        violations: [],
+        skipped: false,
+      }),
+      audit: vi.fn(),
+      setTargetFiles: vi.fn(),
+    })),
   };
 });
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { runCodeChecks, auditCodeConfig } from "../../../src/code/index.js";
 import {
+  BiomeRunner,
+  CustomToolRunner,
   ESLintRunner,
+  OxlintRunner,
+  PrettierRunner,
   RuffRunner,
+  TscRunner,
 } from "../../../src/code/tools/index.js";
+import type { ResultCache } from "../../../src/cache/index.js";
 import type { Config, CheckResult } from "../../../src/core/index.js";
 
 const mocked = vi.mocked;
@@ -147,6 +184,166 @@ describe("runCodeChecks", () => {
     expect(result.status).toBe("fail");
     expect(result.violationCount).toBeGreaterThan(0);
   });
+
+  it("does not restrict file-scoped tools without changed files", async () => {
+    mocked(ESLintRunner).mockClear();
+    const inst = new (ESLintRunner as any)();
+    inst.run.mockResolvedValue(passResult("ESLint", "code.linting"));
+
+    await runCodeChecks("/project", makeConfig());
+    expect(inst.setTargetFiles).not.toHaveBeenCalled();
+  });
+
+  it("restricts file-scoped tools to changed files", async () => {
+    mocked(ESLintRunner).mockClear();
+    const inst = new (ESLintRunner as any)();
+    inst.run.mockResolvedValue(passResult("ESLint", "code.linting"));
+
+    await runCodeChecks("/project", makeConfig(), { changedFiles: ["src/a.ts"] });
+    expect(inst.setTargetFiles).toHaveBeenCalledWith(["src/a.ts"]);
+  });
+
+  it("filters whole-project tool violations to changed files", async () => {
+    mocked(TscRunner).mockClear();
+    const inst = new (TscRunner as any)();
+    inst.run.mockResolvedValue({
+      name: "Tsc",
+      rule: "code.types",
+      passed: false,
+      violations: [
+        { rule: "code.types.tsc", tool: "tsc", file: "src/a.ts", message: "a", severity: "error" },
+        { rule: "code.types.tsc", tool: "tsc", file: "src/b.ts", message: "b", severity: "error" },
+        { rule: "code.types.tsc", tool: "tsc", message: "no file", severity: "error" },
+      ],
+      skipped: false,
+      duration: 10,
+    });
+
+    const config = makeConfig({ code: { types: { tsc: { enabled: true } } } } as any);
+    const result = await runCodeChecks("/project", config, { changedFiles: ["src/a.ts"] });
+
+    expect(result.checks[0].violations.map((v) => v.message)).toEqual(["a", "no file"]);
+    expect(result.checks[0]).toMatchObject({ name: "Tsc", duration: 10, toolId: "tsc" });
+  });
+
+  it("passes when whole-project tool violations are all outside changed files", async () => {
+    mocked(TscRunner).mockClear();
+    const inst = new (TscRunner as any)();
+    inst.run.mockResolvedValue({
+      ...failResult("Tsc", "code.types"),
+      violations: [
+        { rule: "code.types.tsc", tool: "tsc", file: "src/b.ts", message: "b", severity: "error" },
+      ],
+    });
+
+    const config = makeConfig({ code: { types: { tsc: { enabled: true } } } } as any);
+    const result = await runCodeChecks("/project", config, { changedFiles: ["src/a.ts"] });
+
+    expect(result.status).toBe("pass");
+    expect(result.checks[0].passed).toBe(true);
+  });
+
+  it("serves tools through the result cache with their config section", async () => {
+    mocked(TscRunner).mockClear();
+    const inst = new (TscRunner as any)();
+    const cached = { ...inst, run: vi.fn().mockResolvedValue(passResult("Tsc", "code.types")) };
+    const cache = { wrap: vi.fn().mockReturnValue(cached) } as unknown as ResultCache;
+
+    const tscConfig = { enabled: true, require: { strict: true } };
+    const config = makeConfig({ code: { types: { tsc: tscConfig } } } as any);
+    const result = await runCodeChecks("/project", config, { cache });
+
+    expect(cache.wrap).toHaveBeenCalledWith(inst, tscConfig);
+    expect(cached.run).toHaveBeenCalled();
+    expect(result.status).toBe("pass");
+  });
+
+  it("bypasses the result cache in changed-files mode", async () => {
+    const cache = { wrap: vi.fn() } as unknown as ResultCache;
+    new (ESLintRunner as any)().run.mockResolvedValue(passResult("ESLint", "code.linting"));
+
+    await runCodeChecks("/project", makeConfig(), { changedFiles: ["src/a.ts"], cache });
+
+    expect(cache.wrap).not.toHaveBeenCalled();
+  });
+});
+
+describe("formatters", () => {
+  it("runs enabled formatters with their required options", async () => {
+    mocked(PrettierRunner).mockClear();
+    const inst = new (PrettierRunner as any)();
+    inst.run.mockResolvedValue(passResult("Prettier", "code.formatting"));
+
+    const prettier = { enabled: true, require: { printWidth: 100 } };
+    const config = makeConfig({
+      code: { formatting: { prettier, biome: { enabled: false } } },
+    } as any);
+    const result = await runCodeChecks("/project", config);
+
+    expect(inst.setConfig).toHaveBeenCalledWith(prettier);
+    expect(result.checks.map((c) => c.name)).toEqual(["Prettier"]);
+  });
+});
+
+describe("linters", () => {
+  it("runs Biome and oxlint with their required rules", async () => {
+    mocked(BiomeRunner).mockClear();
+    mocked(OxlintRunner).mockClear();
+    const biomeInst = new (BiomeRunner as any)();
+    biomeInst.run.mockResolvedValue(passResult("Biome", "code.linting"));
+    const oxlintInst = new (OxlintRunner as any)();
+    oxlintInst.run.mockResolvedValue(passResult("oxlint", "code.linting"));
+
+    const rules = { "no-debugger": "error" };
+    const config = makeConfig({
+      code: {
+        linting: {
+          biome: { enabled: true, rules },
+          oxlint: { enabled: true, ignore: ["dist/**"], rules },
+        },
+      },
+    } as any);
+    const result = await runCodeChecks("/project", config);
+
+    expect(biomeInst.setConfig).toHaveBeenCalledWith({ enabled: true, rules });
+    expect(oxlintInst.setConfig).toHaveBeenCalledWith({
+      enabled: true,
+      ignore: ["dist/**"],
+      rules,
+    });
+    expect(result.checks.map((c) => c.name)).toEqual(["Biome", "oxlint"]);
+  });
+});
+
+describe("custom tools", () => {
+  const shellcheck = {
+    enabled: true,
+    command: "shellcheck",
+    parser: { type: "regex", pattern: "(?<message>.+)" },
+  };
+
+  it("runs enabled custom tools after built-in tools", async () => {
+    mocked(CustomToolRunner).mockClear();
+    const config = makeConfig({
+      code: { custom: { shellcheck, hadolint: { ...shellcheck, enabled: false } } },
+    } as any);
+
+    const result = await runCodeChecks("/project", config);
+
+    expect(mocked(CustomToolRunner)).toHaveBeenCalledTimes(1);
+    expect(mocked(CustomToolRunner)).toHaveBeenCalledWith("shellcheck", shellcheck);
+    expect(result.checks.map((c) => c.name)).toEqual(["shellcheck"]);
+  });
+
+  it("restricts custom tools to changed files", async () => {
+    mocked(CustomToolRunner).mockClear();
+    const config = makeConfig({ code: { custom: { shellcheck } } } as any);
+
+    await runCodeChecks("/project", config, { changedFiles: ["run.sh"] });
+
+    const inst = mocked(CustomToolRunner).mock.results[0].value;
+    expect(inst.setTargetFiles).toHaveBeenCalledWith(["run.sh"]);
+  });
 });
 
 describe("auditCodeConfig", () => {
@@ -0,0 +1,189 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  buildModuleGraph,
+  findCycles,
+  findScriptImports,
+  type GraphOptions,
+  type ModuleGraph,
+} from "../../../../src/code/tools/architecture-graph.js";
+
+const OPTIONS: GraphOptions = {
+  tsconfig: "tsconfig.json",
+  pythonRoots: [".", "src"],
+  packages: [],
+  entrypoints: ["src/index.ts"],
+};
+
+let projectRoot: string;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+  fs.writeFileSync(path.join(projectRoot, file), content);
+}
+
+function edgesOf(graph: ModuleGraph): string[] {
+  return graph.edges.map((e) => `${e.from}:${e.line} ${e.specifier} -> ${e.to ?? e.external}`);
+}
+
+describe("findScriptImports", () => {
+  it("finds imports, re-exports, require() and import() with their lines", () => {
+    const source = [
+      'import { a } from "./a.js";',
+      'import type { B } from "./b";',
+      "",
+      'export * from "./c";',
+      'const d = require("d");',
+      'const e = await import("./e");',
+    ].join("\n");
+
+    expect(findScriptImports(source)).toEqual([
+      { specifier: "./a.js", line: 1 },
+      { specifier: "./b", line: 2 },
+      { specifier: "./c", line: 4 },
+      { specifier: "d", line: 5 },
+      { specifier: "./e", line: 6 },
+    ]);
+  });
+});
+
+describe("buildModuleGraph", () => {
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-architecture-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("resolves relative imports, tsconfig paths and external packages", () => {
+    write(
+      "tsconfig.json",
+      JSON.stringify({ compilerOptions: { baseUrl: ".", paths: { "@/*": ["src/*"] } } })
+    );
+    write(
+      "src/ui/button.tsx",
+      [
+        'import { query } from "../db/client.js";',
+        'import { format } from "@/shared";',
+        'import React from "react";',
+        'import { readFile } from "node:fs";',
+        'import "./missing";',
+      ].join("\n")
+    );
+    write("src/db/client.ts", "export const query = () => undefined;\n");
+    write("src/shared/index.ts", "export const format = String;\n");
+    const files = ["src/db/client.ts", "src/shared/index.ts", "src/ui/button.tsx"];
+
+    const graph = buildModuleGraph(projectRoot, files, OPTIONS, {});
+
+    expect(edgesOf(graph)).toEqual([
+      "src/ui/button.tsx:1 ../db/client.js -> src/db/client.ts",
+      "src/ui/button.tsx:2 @/shared -> src/shared/index.ts",
+      "src/ui/button.tsx:3 react -> react",
+      "src/ui/button.tsx:4 node:fs -> node:fs",
+      "src/ui/button.tsx:5 ./missing -> undefined",
+    ]);
+  });
+
+  it("resolves workspace packages by name", () => {
+    write("packages/api/src/index.ts", "export {};\n");
+    write("packages/api/src/internal/db.ts", "export {};\n");
+    write(
+      "packages/web/src/index.ts",
+      ['import "@acme/api";', 'import "@acme/api/src/internal/db";'].join("\n")
+    );
+    const files = [
+      "packages/api/src/index.ts",
+      "packages/api/src/internal/db.ts",
+      "packages/web/src/index.ts",
+    ];
+    const packages = [
+      { dir: "packages/api", name: "@acme/api" },
+      { dir: "packages/web", name: "@acme/web" },
+    ];
+
+    const graph = buildModuleGraph(projectRoot, files, { ...OPTIONS, packages }, {});
+
+    expect(edgesOf(graph)).toEqual([
+      "packages/web/src/index.ts:1 @acme/api -> packages/api/src/index.ts",
+      "packages/web/src/index.ts:2 @acme/api/src/internal/db -> packages/api/src/internal/db.ts",
+    ]);
+  });
+
+  it("resolves Python imports to modules, packages and submodules", () => {
+    const files = [
+      "src/app/__init__.py",
+      "src/app/models.py",
+      "src/app/views/__init__.py",
+      "src/app/views/users.py",
+    ];
+    const pythonImports = {
+      "src/app/views/users.py": [
+        { module: "app.models", level: 0, names: ["User"], line: 1 },
+        { module: null, level: 1, names: ["helpers"], line: 2 },
+        { module: null, level: 2, names: ["models"], line: 3 },
+        { module: "app", level: 0, names: [], line: 4 },
+        { module: "requests.adapters", level: 0, names: [], line: 5 },
+      ],
+      "src/app/models.py": null,
+    };
+
+    const graph = buildModuleGraph(projectRoot, files, OPTIONS, pythonImports);
+
+    expect(edgesOf(graph)).toEqual([
+      "src/app/views/users.py:1 app.models -> src/app/models.py",
+      "src/app/views/users.py:2 . -> src/app/views/__init__.py",
+      "src/app/views/users.py:3 .. -> src/app/models.py",
+      "src/app/views/users.py:4 app -> src/app/__init__.py",
+      "src/app/views/users.py:5 requests.adapters -> requests",
+    ]);
+  });
+});
+
+describe("findCycles", () => {
+  it("reports one shortest cycle per strongly connected component", () => {
+    const edge = (from: string, to: string, line = 1) => ({ from, to, line, specifier: to });
+    const graph: ModuleGraph = {
+      files: ["a.ts", "b.ts", "c.ts", "d.ts", "e.ts", "f.ts"],
+      edges: [
+        edge("a.ts", "b.ts"),
+        edge("b.ts", "c.ts"),
+        edge("c.ts", "a.ts", 3),
+        edge("b.ts", "a.ts", 2),
+        edge("d.ts", "a.ts"),
+        edge("e.ts", "e.ts", 7),
+        { from: "f.ts", line: 1, specifier: "react", external: "react" },
+      ],
+    };
+
+    const cycles = findCycles(graph);
+
+    expect(cycles.map((cycle) => cycle.map((e) => `${e.from}:${e.line}->${e.to}`))).toEqual([
+      ["a.ts:1->b.ts", "b.ts:2->a.ts"],
+      ["e.ts:7->e.ts"],
+    ]);
+  });
+
+  it("handles import chains deeper than the call stack", () => {
+    const files = Array.from({ length: 50_000 }, (_, i) => `m${i}.ts`);
+    const graph: ModuleGraph = {
+      files,
+      edges: files.map((file, i) => ({
+        from: file,
+        to: files[(i + 1) % files.length],
+        line: 1,
+        specifier: "./next",
+      })),
+    };
+
+    const cycles = findCycles(graph);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]).toHaveLength(files.length);
+  });
+});
@@ -0,0 +1,248 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from "execa";
+import { ArchitectureRunner } from "../../../../src/code/tools/architecture.js";
+
+const mockExeca = vi.mocked(execa);
+
+let projectRoot: string;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+  fs.writeFileSync(path.join(projectRoot, file), content);
+}
+
+describe("ArchitectureRunner", () => {
+  let runner: ArchitectureRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-architecture-"));
+    runner = new ArchitectureRunner();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("passes when there are no rules", async () => {
+    write("src/a.ts", 'import "./b";\n');
+    write("src/b.ts", 'import "./a";\n');
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+
+  it("reports imports against the allowed layer directions", async () => {
+    runner.setConfig({
+      layers: [
+        { name: "ui", files: ["src/ui/**"], allow: ["domain"] },
+        { name: "domain", files: ["src/domain/**"] },
+        { name: "db", files: ["src/db/**"], allow: ["domain"] },
+      ],
+    });
+    write(
+      "src/ui/page.ts",
+      ['import "./widget";', 'import "../domain/user";', 'import "../db/client";'].join("\n")
+    );
+    write("src/ui/widget.ts", "export {};\n");
+    write("src/domain/user.ts", 'import "../db/client";\n');
+    write("src/db/client.ts", 'import "../domain/user";\n');
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(result.violations.map((v) => [v.file, v.line, v.code, v.message])).toEqual([
+      [
+        "src/domain/user.ts",
+        1,
+        "layer",
+        'Layer "domain" may not import from layer "db" (src/db/client.ts)',
+      ],
+      [
+        "src/ui/page.ts",
+        3,
+        "layer",
+        'Layer "ui" may not import from layer "db" (src/db/client.ts)',
+      ],
+    ]);
+  });
+
+  it("reports forbidden imports of files and packages", async () => {
+    runner.setConfig({
+      forbidden: [
+        { from: ["src/**"], to: ["lodash"], message: "use the standard library" },
+        { from: ["src/**"], to: ["test/**"] },
+      ],
+    });
+    write("src/index.ts", ['import _ from "lodash";', 'import "../test/fixtures";'].join("\n"));
+    write("test/fixtures.ts", 'import "lodash";\n');
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations.map((v) => [v.file, v.line, v.code, v.message])).toEqual([
+      ["src/index.ts", 1, "forbidden", "Forbidden import of lodash: use the standard library"],
+      ["src/index.ts", 2, "forbidden", "Forbidden import of test/fixtures.ts"],
+    ]);
+  });
+
+  it("reports import cycles when no_cycles is set", async () => {
+    runner.setConfig({ no_cycles: true });
+    write("src/a.ts", 'import "./b";\n');
+    write("src/b.ts", 'import "./c";\n');
+    write("src/c.ts", '\nimport "./a";\n');
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations.map((v) => [v.file, v.line, v.code, v.message])).toEqual([
+      ["src/a.ts", 1, "cycle", "Import cycle: src/a.ts -> src/b.ts -> src/c.ts -> src/a.ts"],
+    ]);
+  });
+
+  it("requires imports into other packages to use their public entrypoint", async () => {
+    runner.setConfig({ packages: ["packages/*"] });
+    write("packages/api/package.json", JSON.stringify({ name: "@acme/api" }));
+    write("packages/api/src/index.ts", 'import "./internal/db";\n');
+    write("packages/api/src/internal/db.ts", "export {};\n");
+    write(
+      "packages/web/src/index.ts",
+      [
+        'import "@acme/api";',
+        'import "@acme/api/src/internal/db";',
+        'import "../../api/src/internal/db";',
+      ].join("\n")
+    );
+
+    const result = await runner.run(projectRoot);
+
+    const message =
+      "Import of packages/api/src/internal/db.ts bypasses the public entrypoint of @acme/api";
+    expect(result.violations.map((v) => [v.file, v.line, v.code, v.message])).toEqual([
+      ["packages/web/src/index.ts", 2, "public-entrypoint", message],
+      ["packages/web/src/index.ts", 3, "public-entrypoint", message],
+    ]);
+  });
+
+  it("checks Python imports", async () => {
+    const actual = await vi.importActual<typeof import("execa")>("execa");
+    mockExeca.mockImplementation(actual.execa as any);
+    runner.setConfig({
+      layers: [
+        { name: "api", files: ["app/api/**"] },
+        { name: "db", files: ["app/db/**"] },
+      ],
+    });
+    write("app/__init__.py", "");
+    write("app/api/__init__.py", "");
+    write("app/api/routes.py", "import os\n\nfrom ..db import models\n");
+    write("app/db/__init__.py", "");
+    write("app/db/models.py", "");
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations.map((v) => [v.file, v.line, v.code])).toEqual([
+      ["app/api/routes.py", 3, "layer"],
+    ]);
+  });
+
+  it("ignores Python imports that only run for type checkers", async () => {
+    const actual = await vi.importActual<typeof import("execa")>("execa");
+    mockExeca.mockImplementation(actual.execa as any);
+    runner.setConfig({
+      layers: [
+        { name: "api", files: ["app/api/**"] },
+        { name: "db", files: ["app/db/**"] },
+      ],
+    });
+    write("app/__init__.py", "");
+    write("app/api/__init__.py", "");
+    write(
+      "app/api/routes.py",
+      [
+        "import typing",
+        "from typing import TYPE_CHECKING",
+        "",
+        "if TYPE_CHECKING:",
+        "    from ..db import models",
+        "if typing.TYPE_CHECKING:",
+        "    from ..db import models",
+        "else:",
+        "    from ..db import session",
+        "",
+      ].join("\n")
+    );
+    write("app/db/__init__.py", "");
+    write("app/db/models.py", "");
+    write("app/db/session.py", "");
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations.map((v) => [v.file, v.line, v.code])).toEqual([
+      ["app/api/routes.py", 9, "layer"],
+    ]);
+  });
+
+  it("skips when python3 is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn python3 ENOENT"));
+    write("app/main.py", "import os\n");
+
+    const result = await runner.run(projectRoot);
+
+    expect(result).toMatchObject({
+      passed: true,
+      skipped: true,
+      skipReason: "python3 not installed, so Python imports were not checked",
+    });
+  });
+
+  it("fails on an invalid tsconfig", async () => {
+    write("tsconfig.json", "{ invalid");
+    write("src/index.ts", "export {};\n");
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(result.violations[0].message).toMatch(
+      /^Architecture check error: Invalid tsconfig.json/
+    );
+  });
+
+  it("declares the tsconfig extends chain and package manifests as cache inputs", async () => {
+    runner.setConfig({ packages: ["packages/*"] });
+    write("tsconfig.base.json", JSON.stringify({ compilerOptions: { baseUrl: "." } }));
+    write("tsconfig.json", JSON.stringify({ extends: "./tsconfig.base.json" }));
+    write("packages/api/package.json", JSON.stringify({ name: "@acme/api" }));
+
+    const inputs = await runner.cacheInputs(projectRoot);
+
+    expect(
+      inputs.map((file) => path.relative(projectRoot, path.resolve(projectRoot, file)))
+    ).toEqual(["tsconfig.json", "tsconfig.base.json", "packages/api/package.json"]);
+  });
+
+  it("builds the module graph and maps files to layers", async () => {
+    runner.setConfig({ layers: [{ name: "ui", files: ["src/ui/**"] }] });
+    write("src/ui/page.ts", 'import "../lib";\nimport "react";\n');
+    write("src/lib.ts", "export {};\n");
+
+    const graph = await runner.buildGraph(projectRoot);
+
+    expect(graph.files).toEqual(["src/lib.ts", "src/ui/page.ts"]);
+    expect(graph.edges).toEqual([
+      { from: "src/ui/page.ts", line: 1, specifier: "../lib", to: "src/lib.ts" },
+      { from: "src/ui/page.ts", line: 2, specifier: "react", external: "react" },
+    ]);
+    expect(runner.layerOf("src/ui/page.ts")).toBe("ui");
+    expect(runner.layerOf("src/lib.ts")).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getExpiredIgnores, isSuppressed } from "../../../../src/code/tools/audit-policy.js";
+
+const ignore = { id: "GHSA-aaaa-bbbb-cccc", reason: "not reachable", expires: "2025-06-30" };
+
+describe("audit policy", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 5, 30, 12)); // 2025-06-30, local time
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports everything by default", () => {
+    expect(isSuppressed({ ids: ["X"], severity: "info", fixable: false }, {})).toBe(false);
+  });
+
+  it("suppresses findings below min_severity", () => {
+    const config = { min_severity: "high" as const };
+
+    expect(isSuppressed({ ids: ["X"], severity: "moderate", fixable: true }, config)).toBe(true);
+    expect(isSuppressed({ ids: ["X"], severity: "high", fixable: true }, config)).toBe(false);
+    // Findings without a severity can't be ranked, so they are kept
+    expect(isSuppressed({ ids: ["X"], fixable: true }, config)).toBe(false);
+  });
+
+  it("suppresses unfixable findings when allowed", () => {
+    const config = { allow_unfixable: true };
+
+    expect(isSuppressed({ ids: ["X"], fixable: false }, config)).toBe(true);
+    expect(isSuppressed({ ids: ["X"], fixable: true }, config)).toBe(false);
+  });
+
+  it("suppresses ignored advisories by any alias until the expiry date", () => {
+    const finding = { ids: ["1096", "ghsa-aaaa-bbbb-cccc"], fixable: true };
+
+    expect(isSuppressed(finding, { ignore: [ignore] })).toBe(true);
+    expect(getExpiredIgnores({ ignore: [ignore] }, [finding])).toEqual([]);
+
+    vi.setSystemTime(new Date(2025, 6, 1, 9));
+
+    expect(isSuppressed(finding, { ignore: [ignore] })).toBe(false);
+    expect(getExpiredIgnores({ ignore: [ignore] }, [finding])).toEqual([ignore]);
+  });
+
+  it("only reports expired ignores for advisories that still appear", () => {
+    vi.setSystemTime(new Date(2025, 6, 1, 9));
+
+    const other = { ids: ["GHSA-xxxx-yyyy-zzzz"], fixable: true };
+
+    expect(getExpiredIgnores({ ignore: [ignore] }, [other])).toEqual([]);
+  });
+});
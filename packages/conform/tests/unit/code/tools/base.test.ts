@@ -32,6 +32,10 @@ class TestToolRunner extends BaseToolRunner {
     return this.findConfig(projectRoot);
   }
 
+  publicFilterTargetFiles(files: string[]): string[] {
+    return this.filterTargetFiles(files);
+  }
+
   publicIsNotInstalledError(error: unknown): boolean {
     return this.isNotInstalledError(error);
   }
@@ -110,6 +114,17 @@ describe("BaseToolRunner", () => {
     });
   });
 
+  describe("setTargetFiles", () => {
+    it("keeps all files until target files are set", () => {
+      expect(runner.publicFilterTargetFiles(["a.ts", "b.ts"])).toEqual(["a.ts", "b.ts"]);
+    });
+
+    it("narrows files to the target files", () => {
+      runner.setTargetFiles(["./b.ts"]);
+      expect(runner.publicFilterTargetFiles(["a.ts", "b.ts"])).toEqual(["b.ts"]);
+    });
+  });
+
   describe("isNotInstalledError", () => {
     it("returns true for ENOENT errors", () => {
       const error = new Error("spawn test ENOENT");
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { BiomeFormatRunner } from "../../../../src/code/tools/biome-format.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+
+/** Mock a project whose files (relative to /project) have the given content */
+function setupFiles(files: Record<string, string>): void {
+  const paths = Object.fromEntries(Object.entries(files).map(([f, c]) => [`/project/${f}`, c]));
+  mockExistsSync.mockImplementation((p) => String(p) in paths);
+  mockReadFileSync.mockImplementation((p) => {
+    if (String(p) in paths) {
+      return paths[String(p)];
+    }
+    throw new Error(`ENOENT: ${String(p)}`);
+  });
+}
+
+describe("BiomeFormatRunner", () => {
+  let runner: BiomeFormatRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new BiomeFormatRunner();
+    setupFiles({ "biome.json": "{}" });
+  });
+
+  describe("run", () => {
+    it("passes when all files are formatted", async () => {
+      mockExeca.mockResolvedValue({ stdout: "Checked 3 files", stderr: "", exitCode: 0 } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).toHaveBeenCalledWith(
+        "npx",
+        ["biome", "format", "--colors=off", "--max-diagnostics=none", "."],
+        expect.objectContaining({ cwd: "/project" })
+      );
+    });
+
+    it("reports each file with a format diagnostic", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: [
+          "src/a.ts format ━━━━━━━━━━━━━━━━━━━━",
+          "",
+          "  × Formatter would have printed the following content:",
+          "",
+          "src/b.json format ━━━━━━━━━━━━━━━━━━━━",
+          "Checked 3 files in 2ms. No fixes applied.",
+          "Found 2 errors.",
+        ].join("\n"),
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.file)).toEqual(["src/a.ts", "src/b.json"]);
+      expect(result.violations[0].message).toBe("File is not formatted (run biome format --write)");
+    });
+
+    it("reports a tool error when biome fails without diagnostics", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "biome.json:2:3 deserialize ━━━ Found an unknown key",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations[0].message).toContain("Biome Format error: biome.json:2:3 deserialize");
+    });
+
+    it("only checks changed files", async () => {
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+      runner.setTargetFiles(["src/a.ts"]);
+
+      await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "npx",
+        [
+          "biome",
+          "format",
+          "--colors=off",
+          "--max-diagnostics=none",
+          "--no-errors-on-unmatched",
+          "src/a.ts",
+        ],
+        expect.anything()
+      );
+    });
+  });
+
+  describe("audit", () => {
+    it("fails when no config exists", async () => {
+      setupFiles({});
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations[0].message).toBe(
+        "Biome Format config not found. Expected one of: biome.json, biome.jsonc"
+      );
+    });
+
+    it("prefers JavaScript formatter settings over general ones", async () => {
+      setupFiles({
+        "biome.jsonc": `{
+          // Shared settings
+          "formatter": { "indentStyle": "space", "lineWidth": 80 },
+          "javascript": { "formatter": { "lineWidth": 100, "quoteStyle": "single" } }
+        }`,
+      });
+      runner.setConfig({
+        require: {
+          indentStyle: "space",
+          lineWidth: 100,
+          quoteStyle: "double",
+          semicolons: "always",
+        },
+      });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "quoteStyle: expected double, got single",
+      ]);
+      expect(result.violations[0].file).toBe("biome.jsonc");
+    });
+
+    it("reads the Biome 1.x trailingComma option", async () => {
+      setupFiles({
+        "biome.json": JSON.stringify({ javascript: { formatter: { trailingComma: "es5" } } }),
+      });
+      runner.setConfig({ require: { trailingCommas: "all" } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations[0].message).toBe("trailingCommas: expected all, got es5");
+    });
+
+    it("reports an unparseable config", async () => {
+      setupFiles({ "biome.json": "{ nope" });
+      runner.setConfig({ require: { lineWidth: 100 } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations[0].message).toBe("Failed to parse biome.json");
+    });
+  });
+});
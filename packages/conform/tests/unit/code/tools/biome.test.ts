@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { BiomeRunner } from "../../../../src/code/tools/biome.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+
+/** Mock a project whose files (relative to /project) have the given content */
+function setupFiles(files: Record<string, string>): void {
+  const paths = Object.fromEntries(Object.entries(files).map(([f, c]) => [`/project/${f}`, c]));
+  mockExistsSync.mockImplementation((p) => String(p) in paths);
+  mockReadFileSync.mockImplementation((p, options) => {
+    if (String(p) in paths) {
+      return options ? paths[String(p)] : Buffer.from(paths[String(p)]);
+    }
+    throw new Error(`ENOENT: ${String(p)}`);
+  });
+}
+
+/** Biome JSON reporter output with the given diagnostics */
+function report(diagnostics: unknown[]): string {
+  return JSON.stringify({ summary: {}, diagnostics, command: "lint" });
+}
+
+describe("BiomeRunner", () => {
+  let runner: BiomeRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new BiomeRunner();
+    setupFiles({ "biome.json": "{}" });
+  });
+
+  describe("run", () => {
+    it("passes when there are no diagnostics", async () => {
+      mockExeca.mockResolvedValue({ stdout: report([]), stderr: "", exitCode: 0 } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).toHaveBeenCalledWith(
+        "npx",
+        ["biome", "lint", "--reporter=json", "--colors=off", "--max-diagnostics=none", "."],
+        expect.objectContaining({ cwd: "/project" })
+      );
+    });
+
+    it("converts lint diagnostics into violations", async () => {
+      setupFiles({ "biome.json": "{}", "src/a.ts": "const a = 1;\n  debugger;\n" });
+      mockExeca.mockResolvedValue({
+        stdout: report([
+          {
+            category: "lint/suspicious/noDebugger",
+            severity: "error",
+            description: "This is an unexpected use of the debugger statement.",
+            location: { path: { file: "src/a.ts" }, span: [15, 24] },
+          },
+          {
+            category: "lint/style/useConst",
+            severity: "warning",
+            description: "Use const instead.",
+            location: { path: { file: "src/b.ts" }, span: null },
+          },
+        ]),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations).toEqual([
+        {
+          rule: "code.linting.biome",
+          tool: "biome",
+          file: "src/a.ts",
+          line: 2,
+          column: 3,
+          message: "This is an unexpected use of the debugger statement.",
+          code: "suspicious/noDebugger",
+          severity: "error",
+        },
+        expect.objectContaining({ file: "src/b.ts", line: undefined, severity: "warning" }),
+      ]);
+    });
+
+    it("ignores diagnostics that are not lint rules", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: report([{ category: "format", severity: "error", description: "x" }]),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("reports a tool error when output is not JSON", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "biome.json:2:3 deserialize ━━━ Found an unknown key",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toContain("Biome error: biome.json:2:3 deserialize");
+    });
+
+    it("only lints changed files Biome supports", async () => {
+      mockExeca.mockResolvedValue({ stdout: report([]), stderr: "", exitCode: 0 } as any);
+      runner.setTargetFiles(["src/a.ts", "README.md"]);
+
+      await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "npx",
+        expect.arrayContaining(["--no-errors-on-unmatched", "src/a.ts"]),
+        expect.anything()
+      );
+      expect(mockExeca.mock.calls[0][1]).not.toContain("README.md");
+    });
+
+    it("fails when no config exists", async () => {
+      setupFiles({});
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+
+    it("skips when biome is not installed", async () => {
+      mockExeca.mockRejectedValue(new Error("spawn npx ENOENT"));
+
+      const result = await runner.run("/project");
+
+      expect(result.skipped).toBe(true);
+    });
+  });
+
+  describe("audit", () => {
+    it("fails when no config exists", async () => {
+      setupFiles({});
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toBe(
+        "Biome config not found. Expected one of: biome.json, biome.jsonc"
+      );
+    });
+
+    it("passes when required rules match by group or rule name", async () => {
+      setupFiles({
+        "biome.jsonc": `{
+          // lint rules
+          "linter": {
+            "rules": {
+              "recommended": true,
+              "suspicious": { "noDebugger": "error" },
+              "complexity": {
+                "noExcessiveCognitiveComplexity": {
+                  "level": "warn",
+                  "options": { "maxAllowedComplexity": 10 }
+                }
+              }
+            }
+          }
+        }`,
+      });
+      runner.setConfig({
+        rules: {
+          "suspicious/noDebugger": "error",
+          noExcessiveCognitiveComplexity: { severity: "warn", maxAllowedComplexity: 10 },
+        },
+      });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("reports missing rules, severity and option mismatches", async () => {
+      setupFiles({
+        "biome.json": JSON.stringify({
+          linter: {
+            rules: {
+              suspicious: { noDebugger: "warn" },
+              complexity: {
+                noExcessiveCognitiveComplexity: {
+                  level: "error",
+                  options: { maxAllowedComplexity: 20 },
+                },
+              },
+            },
+          },
+        }),
+      });
+      runner.setConfig({
+        rules: {
+          noDebugger: "error",
+          "style/useConst": "error",
+          noExcessiveCognitiveComplexity: { severity: "error", maxAllowedComplexity: 10 },
+        },
+      });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        'Rule "noDebugger": expected "error", got "warn"',
+        'Rule "style/useConst" is required but not configured',
+        'Rule "noExcessiveCognitiveComplexity": "maxAllowedComplexity" mismatch',
+      ]);
+      expect(result.violations[0].file).toBe("biome.json");
+    });
+
+    it("reports an unparseable config", async () => {
+      setupFiles({ "biome.json": "{ nope" });
+      runner.setConfig({ rules: { noDebugger: "error" } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations[0].message).toBe("Failed to parse biome.json");
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { CargoAuditRunner } from "../../../../src/code/tools/cargo-audit.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+/** A cargo audit --json report */
+function report(list: unknown[], warnings: Record<string, unknown[]> = {}): string {
+  return JSON.stringify({
+    vulnerabilities: { found: list.length > 0, count: list.length, list },
+    warnings,
+  });
+}
+
+function vulnerability(patched: string[]): unknown {
+  return {
+    advisory: { id: "RUSTSEC-2023-0001", package: "tokio", title: "reject_remote_clients bypass" },
+    versions: { patched, unaffected: [] },
+    package: { name: "tokio", version: "1.18.0" },
+  };
+}
+
+describe("CargoAuditRunner", () => {
+  let runner: CargoAuditRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new CargoAuditRunner();
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/Cargo.toml");
+  });
+
+  it("passes when no vulnerabilities are found", async () => {
+    mockExeca.mockResolvedValue({ stdout: report([]), stderr: "", exitCode: 0 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "cargo",
+      ["audit", "--json"],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("reports fixable vulnerabilities as errors", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: report([vulnerability([">=1.18.4"])]),
+      stderr: "",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        rule: "code.security.cargo-audit",
+        tool: "cargo-audit",
+        file: "Cargo.lock",
+        message: "tokio@1.18.0: RUSTSEC-2023-0001 reject_remote_clients bypass (fix: >=1.18.4)",
+        code: "RUSTSEC-2023-0001",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reports unpatched vulnerabilities and informational warnings as warnings", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: report([vulnerability([])], {
+        unmaintained: [
+          {
+            kind: "unmaintained",
+            advisory: { id: "RUSTSEC-2021-0139", title: "ansi_term is unmaintained" },
+            package: { name: "ansi_term", version: "0.12.1" },
+          },
+        ],
+        yanked: [{ kind: "yanked", advisory: null, package: { name: "foo", version: "0.1.0" } }],
+      }),
+      stderr: "",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations.map((v) => [v.message, v.severity])).toEqual([
+      [
+        "tokio@1.18.0: RUSTSEC-2023-0001 reject_remote_clients bypass (no fix available)",
+        "warning",
+      ],
+      ["ansi_term@0.12.1: RUSTSEC-2021-0139 ansi_term is unmaintained", "warning"],
+      ["foo@0.1.0: crate is yanked", "warning"],
+    ]);
+  });
+
+  it("reports a tool error when output is not JSON", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "error: couldn't fetch advisory database",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe(
+      "cargo audit error: error: couldn't fetch advisory database"
+    );
+  });
+
+  it("skips when cargo is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn cargo ENOENT"));
+
+    const result = await runner.run("/project");
+
+    expect(result.skipped).toBe(true);
+  });
+});
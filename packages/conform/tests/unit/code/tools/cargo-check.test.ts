@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { CargoCheckRunner } from "../../../../src/code/tools/cargo-check.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+describe("CargoCheckRunner", () => {
+  let runner: CargoCheckRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new CargoCheckRunner();
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/Cargo.toml");
+  });
+
+  it("reports compile errors as code.types violations", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: JSON.stringify({
+        reason: "compiler-message",
+        message: {
+          message: "mismatched types",
+          level: "error",
+          code: { code: "E0308" },
+          spans: [{ file_name: "src/lib.rs", line_start: 3, column_start: 9, is_primary: true }],
+        },
+      }),
+      stderr: "",
+      exitCode: 101,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "cargo",
+      ["check", "--workspace", "--all-targets", "--message-format=json", "--quiet"],
+      expect.objectContaining({ cwd: "/project" })
+    );
+    expect(result.violations).toEqual([
+      {
+        rule: "code.types.cargo-check",
+        tool: "cargo-check",
+        file: "src/lib.rs",
+        line: 3,
+        column: 9,
+        message: "mismatched types",
+        code: "E0308",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reports a tool error when the manifest is invalid", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "error: failed to parse manifest at `/project/Cargo.toml`",
+      exitCode: 101,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe(
+      "cargo check error: error: failed to parse manifest at `/project/Cargo.toml`"
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { ClippyRunner } from "../../../../src/code/tools/clippy.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+/** A cargo compiler-message line for a rustc diagnostic */
+function compilerMessage(
+  message: string,
+  level: string,
+  code: string | null,
+  spans: { file_name: string; line_start: number; column_start: number; is_primary: boolean }[]
+): string {
+  return JSON.stringify({
+    reason: "compiler-message",
+    package_id: "path+file:///project#app@0.1.0",
+    message: { message, level, code: code ? { code } : null, spans, rendered: message },
+  });
+}
+
+const span = { file_name: "src/main.rs", line_start: 4, column_start: 5, is_primary: true };
+
+describe("ClippyRunner", () => {
+  let runner: ClippyRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new ClippyRunner();
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/Cargo.toml");
+  });
+
+  it("fails when there is no Cargo.toml", async () => {
+    mockExistsSync.mockReturnValue(false);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations[0].message).toBe("Config not found. Expected one of: Cargo.toml");
+  });
+
+  it("passes when clippy reports nothing", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: JSON.stringify({ reason: "build-finished", success: true }),
+      stderr: "",
+      exitCode: 0,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "cargo",
+      ["clippy", "--workspace", "--all-targets", "--message-format=json", "--quiet"],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("converts compiler messages into violations", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: [
+        JSON.stringify({ reason: "compiler-artifact", target: { name: "app" } }),
+        compilerMessage("unneeded `return` statement", "warning", "clippy::needless_return", [
+          { ...span, is_primary: false, line_start: 2 },
+          span,
+        ]),
+        compilerMessage("mismatched types", "error", "E0308", [
+          { file_name: "src/lib.rs", line_start: 10, column_start: 12, is_primary: true },
+        ]),
+        compilerMessage("aborting due to 1 previous error", "error", null, []),
+        JSON.stringify({ reason: "build-finished", success: false }),
+      ].join("\n"),
+      stderr: "",
+      exitCode: 101,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        rule: "code.linting.clippy",
+        tool: "clippy",
+        file: "src/main.rs",
+        line: 4,
+        column: 5,
+        message: "unneeded `return` statement",
+        code: "clippy::needless_return",
+        severity: "warning",
+      },
+      expect.objectContaining({ file: "src/lib.rs", code: "E0308", severity: "error" }),
+    ]);
+  });
+
+  it("reports a diagnostic shared by several targets once", async () => {
+    const line = compilerMessage("unused variable: `x`", "warning", "unused_variables", [span]);
+    mockExeca.mockResolvedValue({
+      stdout: [line, line].join("\n"),
+      stderr: "",
+      exitCode: 0,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations).toHaveLength(1);
+  });
+
+  it("makes workspace member paths relative to the project root", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: compilerMessage("unused import", "warning", "unused_imports", [
+        { ...span, file_name: "/project/crates/core/src/lib.rs" },
+      ]),
+      stderr: "",
+      exitCode: 0,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].file).toBe("crates/core/src/lib.rs");
+  });
+
+  it("resolves paths against the workspace root when run from a member crate", async () => {
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/crates/core/Cargo.toml");
+    mockExeca.mockImplementation((async (_command: string, args: string[]) =>
+      args[0] === "metadata"
+        ? { stdout: JSON.stringify({ workspace_root: "/project" }), stderr: "", exitCode: 0 }
+        : {
+            stdout: compilerMessage("unused variable: `x`", "warning", "unused_variables", [
+              { ...span, file_name: "crates/core/src/lib.rs" },
+            ]),
+            stderr: "",
+            exitCode: 0,
+          }) as any);
+
+    const result = await runner.run("/project/crates/core");
+
+    expect(mockExeca).toHaveBeenCalledWith(
+      "cargo",
+      ["metadata", "--format-version", "1", "--no-deps"],
+      expect.objectContaining({ cwd: "/project/crates/core" })
+    );
+    expect(result.violations[0].file).toBe("src/lib.rs");
+  });
+
+  it("reports a tool error when cargo fails without diagnostics", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "error: no such command: `clippy`",
+      exitCode: 101,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe("Clippy error: error: no such command: `clippy`");
+  });
+
+  it("skips when cargo is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn cargo ENOENT"));
+
+    const result = await runner.run("/project");
+
+    expect(result.skipped).toBe(true);
+  });
+});
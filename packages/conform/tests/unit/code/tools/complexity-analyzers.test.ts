@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+
+import { analyzeTypeScript, countLines } from "../../../../src/code/tools/complexity-analyzers.js";
+
+describe("analyzeTypeScript", () => {
+  it("measures each function, excluding nested functions from the parent's complexity", () => {
+    const source = [
+      "export function classify(n: number, strict?: boolean): string {",
+      "  const check = (x: number) => x > 0 && x < 10;",
+      "  if (n < 0 || strict) {",
+      '    return "negative";',
+      "  }",
+      "  for (const d of [1, 2]) {",
+      '    switch (d) { case 1: break; case 2: break; default: return "?"; }',
+      "  }",
+      '  return check(n) ? "small" : (n > 100 ? "huge" : "big");',
+      "}",
+      "",
+    ].join("\n");
+
+    expect(analyzeTypeScript("src/classify.ts", source)).toEqual({
+      lines: 10,
+      functions: [
+        // 1 + if + || + for + 2 cases + 2 ternaries
+        { name: "classify", line: 1, lines: 10, params: 2, complexity: 8 },
+        { name: "check", line: 2, lines: 1, params: 1, complexity: 2 },
+      ],
+    });
+  });
+
+  it("names methods, constructors and assigned functions", () => {
+    const source = [
+      "class Store {",
+      "  constructor(private readonly db: Db) {}",
+      "  get size(): number { return 0; }",
+      "  save(this: Store, item: Item) { try { write(item); } catch { retry(); } }",
+      "}",
+      "const handlers = { onClick: function () {} };",
+      "run(() => undefined);",
+    ].join("\n");
+
+    const functions = analyzeTypeScript("store.ts", source).functions;
+
+    expect(functions.map((f) => [f.name, f.params, f.complexity])).toEqual([
+      ["constructor", 1, 1],
+      ["size", 0, 1],
+      ["save", 1, 2],
+      ["onClick", 0, 1],
+      ["<anonymous>", 0, 1],
+    ]);
+  });
+
+  it("parses JSX", () => {
+    const source = "export const App = ({ items }) => <ul>{items.length > 0 && <li />}</ul>;\n";
+
+    expect(analyzeTypeScript("App.jsx", source).functions).toEqual([
+      { name: "App", line: 1, lines: 1, params: 1, complexity: 2 },
+    ]);
+  });
+});
+
+describe("countLines", () => {
+  it("ignores the empty string after a trailing newline", () => {
+    expect(countLines("")).toBe(0);
+    expect(countLines("a\nb")).toBe(2);
+    expect(countLines("a\nb\n")).toBe(2);
+  });
+});
@@ -0,0 +1,187 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+import { execa } from "execa";
+import { ComplexityRunner } from "../../../../src/code/tools/complexity.js";
+
+const mockExeca = vi.mocked(execa);
+
+let projectRoot: string;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+  fs.writeFileSync(path.join(projectRoot, file), content);
+}
+
+/** A function with the given number of if statements */
+function branchy(name: string, ifs: number): string {
+  const body = Array.from({ length: ifs }, (_, i) => `  if (x === ${i}) return ${i};`);
+  return [`export function ${name}(x: number) {`, ...body, "  return -1;", "}", ""].join("\n");
+}
+
+describe("ComplexityRunner", () => {
+  let runner: ComplexityRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-complexity-"));
+    runner = new ComplexityRunner();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("passes when everything is within the default limits", async () => {
+    write("src/simple.ts", branchy("simple", 3));
+    write("node_modules/pkg/index.js", branchy("ignored", 20));
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(true);
+  });
+
+  it("reports functions and files over the limits at their location", async () => {
+    runner.setConfig({ max_complexity: 5, max_file_lines: 9, max_params: 1 });
+    write("src/parse.ts", `\n${branchy("parse", 6)}`);
+    write("src/args.ts", "export const add = (a: number, b: number) => a + b;\n");
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations).toEqual([
+      {
+        rule: "code.quality.complexity",
+        tool: "complexity",
+        file: "src/args.ts",
+        line: 1,
+        message: 'Function "add" has 2 parameters (max 1)',
+        code: "max-params",
+        severity: "error",
+      },
+      {
+        rule: "code.quality.complexity",
+        tool: "complexity",
+        file: "src/parse.ts",
+        line: undefined,
+        message: "File has 10 lines (max 9)",
+        code: "max-file-lines",
+        severity: "error",
+      },
+      {
+        rule: "code.quality.complexity",
+        tool: "complexity",
+        file: "src/parse.ts",
+        line: 2,
+        message: 'Function "parse" has a cyclomatic complexity of 7 (max 5)',
+        code: "max-complexity",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("applies per-glob overrides in order and skips excluded files", async () => {
+    runner.setConfig({
+      max_complexity: 5,
+      exclude: ["scripts/**"],
+      overrides: [
+        { files: ["src/legacy/**"], max_complexity: 8 },
+        { files: ["src/legacy/parser/**"], max_complexity: 0 },
+      ],
+    });
+    write("src/legacy/old.ts", branchy("old", 7));
+    write("src/legacy/older.ts", branchy("older", 9));
+    write("src/legacy/parser/generated.ts", branchy("generated", 30));
+    write("scripts/release.js", branchy("release", 30));
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations.map((v) => v.file)).toEqual(["src/legacy/older.ts"]);
+  });
+
+  it("only checks target files in changed-files mode", async () => {
+    runner.setConfig({ max_complexity: 2 });
+    write("src/a.ts", branchy("a", 5));
+    write("src/b.ts", branchy("b", 5));
+    runner.setTargetFiles(["src/b.ts"]);
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations.map((v) => v.file)).toEqual(["src/b.ts"]);
+  });
+
+  it("measures Python files with the ast helper", async () => {
+    const actual = await vi.importActual<typeof import("execa")>("execa");
+    mockExeca.mockImplementation(actual.execa as any);
+    runner.setConfig({ max_complexity: 3, max_params: 2 });
+    write(
+      "app/service.py",
+      [
+        "class Service:",
+        "    def handle(self, request, user, retries=3):",
+        "        if request and user:",
+        "            return [x for x in request if x]",
+        "        return None",
+        "",
+        "def broken(:",
+      ].join("\n")
+    );
+    write(
+      "app/views.py",
+      ["@route", "def index(request):", "    return request.user or None", ""].join("\n")
+    );
+
+    const result = await runner.run(projectRoot);
+
+    // service.py has a syntax error, so only views.py is measured
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        file: "app/service.py",
+        code: "parse-error",
+        severity: "warning",
+      }),
+    ]);
+
+    write(
+      "app/service.py",
+      "class Service:\n    def handle(self, a, b, c):\n        return a if b else c\n"
+    );
+    const retry = await runner.run(projectRoot);
+
+    expect(retry.violations.map((v) => [v.file, v.line, v.message])).toEqual([
+      ["app/service.py", 2, 'Function "Service.handle" has 3 parameters (max 2)'],
+    ]);
+  });
+
+  it("skips when python3 is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn python3 ENOENT"));
+    write("app/main.py", "def main():\n    pass\n");
+    write("src/simple.ts", branchy("simple", 3));
+
+    const result = await runner.run(projectRoot);
+
+    expect(result).toMatchObject({
+      passed: true,
+      skipped: true,
+      skipReason: "python3 not installed, so Python files were not checked",
+    });
+  });
+
+  it("still reports script violations when python3 is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn python3 ENOENT"));
+    runner.setConfig({ max_complexity: 2 });
+    write("app/main.py", "def main():\n    pass\n");
+    write("src/parse.ts", branchy("parse", 3));
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(result.violations.map((v) => v.file)).toEqual(["src/parse.ts"]);
+  });
+});
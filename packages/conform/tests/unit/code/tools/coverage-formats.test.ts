@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+
+import { parseCobertura, parseLcov } from "../../../../src/code/tools/coverage-formats.js";
+
+describe("parseLcov", () => {
+  it("counts lines, functions and branches per file", () => {
+    const lcov = [
+      "TN:",
+      "SF:src/math.ts",
+      "FN:1,add",
+      "FN:5,sub",
+      "FNDA:3,add",
+      "FNDA:0,sub",
+      "FNF:2",
+      "FNH:1",
+      "BRDA:2,0,0,1",
+      "BRDA:2,0,1,-",
+      "DA:1,3",
+      "DA:2,3",
+      "DA:5,0",
+      "DA:6,0",
+      "LF:4",
+      "LH:2",
+      "end_of_record",
+      "SF:src/index.ts",
+      "DA:1,1",
+      "end_of_record",
+    ].join("\n");
+
+    expect(parseLcov(lcov)).toEqual({
+      lines: 60,
+      functions: 50,
+      branches: 50,
+      files: {
+        "src/math.ts": {
+          lines: { total: 4, covered: 2 },
+          functions: { total: 2, covered: 1 },
+          branches: { total: 2, covered: 1 },
+        },
+        "src/index.ts": { lines: { total: 1, covered: 1 } },
+      },
+    });
+  });
+
+  it("falls back to summary lines and merges records for the same file", () => {
+    const lcov = [
+      "SF:/repo/lib/a.js",
+      "LF:10",
+      "LH:4",
+      "end_of_record",
+      "SF:/repo/lib/b.js",
+      "DA:1,0",
+      "DA:2,0",
+      "end_of_record",
+      "SF:/repo/lib/b.js",
+      "DA:1,2",
+      "end_of_record",
+    ].join("\n");
+
+    const result = parseLcov(lcov);
+
+    expect(result?.files).toEqual({
+      "/repo/lib/a.js": { lines: { total: 10, covered: 4 } },
+      "/repo/lib/b.js": { lines: { total: 2, covered: 1 } },
+    });
+    expect(result?.lines).toBeCloseTo(41.67, 2);
+  });
+
+  it("returns null for content without records", () => {
+    expect(parseLcov("not a coverage report")).toBeNull();
+  });
+});
+
+describe("parseCobertura", () => {
+  const xml = `<?xml version="1.0" ?>
+<coverage version="7.4.0" line-rate="0.6" branch-rate="0.5" lines-covered="3" lines-valid="5">
+  <sources>
+    <source>/home/ci/project</source>
+  </sources>
+  <packages>
+    <package name="app" line-rate="0.6" branch-rate="0.5">
+      <classes>
+        <class name="models.py" filename="app/models.py" line-rate="0.6" branch-rate="0.5">
+          <methods>
+            <method name="save" signature="()" line-rate="1">
+              <lines><line number="3" hits="2"/></lines>
+            </method>
+            <method name="delete" signature="()" line-rate="0">
+              <lines><line number="5" hits="0"/></lines>
+            </method>
+          </methods>
+          <lines>
+            <line number="1" hits="1"/>
+            <line number="2" hits="1" branch="true" condition-coverage="50% (1/2)"/>
+            <line number="3" hits="2"/>
+            <line number="5" hits="0"/>
+            <line number="6" hits="0"/>
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+
+  it("counts lines, branches and methods per file", () => {
+    expect(parseCobertura(xml)).toEqual({
+      lines: 60,
+      branches: 50,
+      functions: 50,
+      files: {
+        "/home/ci/project/app/models.py": {
+          lines: { total: 5, covered: 3 },
+          branches: { total: 2, covered: 1 },
+          functions: { total: 2, covered: 1 },
+        },
+      },
+    });
+  });
+
+  it("uses the root rates when the report has no classes", () => {
+    const empty = '<coverage line-rate="0.85" branch-rate="0.7"><packages/></coverage>';
+
+    expect(parseCobertura(empty)).toEqual({ lines: 85, branches: 70 });
+  });
+
+  it("returns null for other XML", () => {
+    expect(parseCobertura("<testsuites></testsuites>")).toBeNull();
+  });
+});
@@ -106,6 +106,133 @@ describe("CoverageRunRunner", () => {
       expect(result.violations[0].message).toContain("below minimum threshold");
     });
 
+    it("reports under-covered files from coverage-final.json with relative paths", async () => {
+      runner.setConfig({ enabled: true, runner: "vitest", min_threshold: 0, per_file_min: 60 });
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("coverage/coverage-final.json"));
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          "/project/src/a.ts": { s: { "0": 1, "1": 1 }, f: { "0": 1 }, b: {} },
+          "/project/src/b.ts": { s: { "0": 1, "1": 0, "2": 0 }, f: {}, b: {} },
+        })
+      );
+
+      const result = await runner.run("/project");
+
+      expect(result.violations).toEqual([
+        {
+          rule: "code.coverage.coverage-run",
+          tool: "coverage-run",
+          file: "src/b.ts",
+          message: "Coverage 33.3% is below per-file minimum 60%",
+          severity: "error",
+        },
+      ]);
+    });
+
+    it("checks glob thresholds against pytest-cov per-file summaries", async () => {
+      runner.setConfig({ enabled: true, runner: "pytest", paths: { "app/core/**": 90 } });
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("/coverage.json"));
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          totals: { percent_covered: 92 },
+          files: {
+            "app/core/models.py": { summary: { covered_lines: 17, num_statements: 20 } },
+            "app/main.py": { summary: { covered_lines: 75, num_statements: 75 } },
+          },
+        })
+      );
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "Coverage of app/core/** is 85.0%, below minimum 90%",
+      ]);
+    });
+
+    it("reads an lcov.info report from report_path without running tests", async () => {
+      runner.setConfig({ enabled: true, report_path: "build/lcov.info", min_threshold: 80 });
+      mockExistsSync.mockImplementation((p) => String(p) === "/project/build/lcov.info");
+      mockReadFileSync.mockReturnValue("SF:src/a.ts\nDA:1,1\nDA:2,0\nend_of_record\n");
+
+      const result = await runner.run("/project");
+
+      expect(mockExeca).not.toHaveBeenCalled();
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "Coverage 50.0% is below minimum threshold 80%",
+      ]);
+      expect(await runner.cacheKey("/project")).toBeNull();
+    });
+
+    it("runs the configured command before reading report_path", async () => {
+      runner.setConfig({
+        enabled: true,
+        command: "pytest --cov --cov-report=xml",
+        report_path: "coverage.xml",
+      });
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+      mockExistsSync.mockImplementation((p) => String(p) === "/project/coverage.xml");
+      mockReadFileSync.mockReturnValue('<coverage line-rate="0.9"></coverage>');
+
+      const result = await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "pytest",
+        ["--cov", "--cov-report=xml"],
+        expect.anything()
+      );
+      expect(result.passed).toBe(true);
+    });
+
+    it("fails when report_path is missing", async () => {
+      runner.setConfig({ enabled: true, report_path: "coverage/lcov.info" });
+      mockExistsSync.mockReturnValue(false);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations[0].message).toBe(
+        "Could not find or parse coverage report coverage/lcov.info"
+      );
+    });
+
+    it("fails when coverage drops below the baseline", async () => {
+      runner.setConfig({ enabled: true, runner: "vitest", baseline: "coverage-baseline.json" });
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+      mockExistsSync.mockImplementation((p) => {
+        const s = String(p);
+        return s.endsWith("coverage/coverage-summary.json") || s.endsWith("coverage-baseline.json");
+      });
+      mockReadFileSync.mockImplementation((p) =>
+        JSON.stringify({
+          total: String(p).endsWith("coverage-baseline.json")
+            ? { lines: { pct: 91.5 }, branches: { pct: 80 } }
+            : { lines: { pct: 90.25 }, branches: { pct: 80 } },
+        })
+      );
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "Line coverage decreased from 91.50% to 90.25%",
+      ]);
+    });
+
+    it("fails when the baseline report is missing", async () => {
+      runner.setConfig({ enabled: true, runner: "vitest", baseline: "coverage-baseline.json" });
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+      mockExistsSync.mockImplementation((p) =>
+        String(p).endsWith("coverage/coverage-summary.json")
+      );
+      mockReadFileSync.mockReturnValue(JSON.stringify({ total: { lines: { pct: 90 } } }));
+
+      const result = await runner.run("/project");
+
+      expect(result.violations[0].message).toBe(
+        "Coverage baseline coverage-baseline.json not found"
+      );
+    });
+
     it("fails when test command exits with error code > 1", async () => {
       runner.setConfig({ enabled: true, runner: "vitest" });
 
@@ -193,6 +320,99 @@ describe("CoverageRunRunner", () => {
       );
     });
 
+    it("auto-detects go and measures statements from the cover profile", async () => {
+      runner.setConfig({ enabled: true, runner: "auto", min_threshold: 70 });
+
+      mockExistsSync.mockImplementation((p) => {
+        const s = String(p);
+        return s.endsWith("go.mod") || s.endsWith("coverage.out");
+      });
+
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "",
+        exitCode: 0,
+        failed: false,
+      } as any);
+
+      // 3 of 5 statements covered; the repeated block is counted once
+      mockReadFileSync.mockReturnValue(
+        [
+          "mode: set",
+          "example.com/m/a.go:3.14,5.2 2 1",
+          "example.com/m/a.go:7.20,9.2 2 0",
+          "example.com/m/b.go:3.14,4.2 1 1",
+          "example.com/m/a.go:7.20,9.2 2 0",
+        ].join("\n")
+      );
+
+      const result = await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "go",
+        ["test", "-coverprofile=coverage.out", "./..."],
+        expect.any(Object)
+      );
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toBe(
+        "Coverage 60.0% is below minimum threshold 70%"
+      );
+    });
+
+    it("auto-detects cargo llvm-cov and reads its JSON export", async () => {
+      runner.setConfig({ enabled: true, runner: "auto", min_threshold: 80 });
+
+      mockExistsSync.mockImplementation((p) => {
+        const s = String(p);
+        return s.endsWith("Cargo.toml") || s.endsWith("llvm-cov.json");
+      });
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0, failed: false } as any);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({
+          type: "llvm.coverage.json.export",
+          data: [
+            {
+              totals: {
+                lines: { count: 200, covered: 150, percent: 75 },
+                functions: { count: 20, covered: 18, percent: 90 },
+                branches: { count: 0, covered: 0, percent: 0 },
+              },
+            },
+          ],
+        })
+      );
+
+      const result = await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "cargo",
+        expect.arrayContaining(["llvm-cov", "--json", "coverage/llvm-cov.json"]),
+        expect.any(Object)
+      );
+      expect(result.violations[0].message).toBe(
+        "Coverage 75.0% is below minimum threshold 80%"
+      );
+    });
+
+    it("reads line coverage from a tarpaulin report", async () => {
+      runner.setConfig({ enabled: true, runner: "tarpaulin", min_threshold: 80 });
+
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("tarpaulin-report.json"));
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0, failed: false } as any);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({ files: [], coverage: 85, covered: 85, coverable: 100 })
+      );
+
+      const result = await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "cargo",
+        ["tarpaulin", "--workspace", "--out", "Json", "--output-dir", "coverage"],
+        expect.any(Object)
+      );
+      expect(result.passed).toBe(true);
+    });
+
     it("fails when coverage report is not found", async () => {
       runner.setConfig({ enabled: true, runner: "vitest" });
 
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  checkBaseline,
+  checkThresholds,
+  type CoverageData,
+} from "../../../../src/code/tools/coverage-thresholds.js";
+
+/** Two source packages and a test helper, as parsed from a report */
+const data: CoverageData = {
+  lines: 75,
+  branches: 60,
+  files: {
+    "src/core/config.ts": { lines: { total: 10, covered: 9 }, branches: { total: 4, covered: 2 } },
+    "src/core/loader.ts": { lines: { total: 10, covered: 8 } },
+    "src/cli/index.ts": { lines: { total: 20, covered: 13 } },
+    "src/types.ts": {},
+  },
+};
+
+function messages(config: Parameters<typeof checkThresholds>[1]): string[] {
+  return checkThresholds(data, config).map((failure) => failure.message);
+}
+
+describe("checkThresholds", () => {
+  it("checks overall coverage against min_threshold", () => {
+    expect(messages({ min_threshold: 80 })).toEqual([
+      "Coverage 75.0% is below minimum threshold 80%",
+    ]);
+    expect(messages({ min_threshold: 75 })).toEqual([]);
+  });
+
+  it("checks each configured metric", () => {
+    expect(
+      messages({ min_threshold: 0, thresholds: { lines: 70, branches: 70, functions: 90 } })
+    ).toEqual(["Branch coverage 60.0% is below minimum 70%"]);
+  });
+
+  it("checks the combined coverage of the files matching each glob", () => {
+    expect(messages({ min_threshold: 0, paths: { "src/core/**": 90, "src/cli/**": 60 } })).toEqual(
+      ["Coverage of src/core/** is 85.0%, below minimum 90%"]
+    );
+  });
+
+  it("reports globs that match no files", () => {
+    expect(messages({ min_threshold: 0, paths: { "lib/**": 50 } })).toEqual([
+      'No files in the coverage report match "lib/**"',
+    ]);
+  });
+
+  it("reports each file below per_file_min, skipping files with nothing to cover", () => {
+    expect(checkThresholds(data, { min_threshold: 0, per_file_min: 80 })).toEqual([
+      { file: "src/cli/index.ts", message: "Coverage 65.0% is below per-file minimum 80%" },
+    ]);
+  });
+
+  it("fails per-file checks when the report has no per-file data", () => {
+    const result = checkThresholds({ lines: 90 }, { per_file_min: 50 });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].message).toContain("Coverage report has no per-file data");
+  });
+});
+
+describe("checkBaseline", () => {
+  it("reports metrics that decreased", () => {
+    expect(checkBaseline({ lines: 80, branches: 70 }, { lines: 80.5, branches: 65 })).toEqual([
+      { message: "Line coverage decreased from 80.50% to 80.00%" },
+    ]);
+  });
+
+  it("ignores rounding differences and metrics missing from either report", () => {
+    expect(checkBaseline({ lines: 79.996, functions: 10 }, { lines: 80, branches: 90 })).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+
+import { parseCustomOutput } from "../../../../src/code/tools/custom-parsers.js";
+
+describe("parseCustomOutput", () => {
+  describe("regex parser", () => {
+    const parser = {
+      type: "regex" as const,
+      pattern:
+        "^(?<file>[^:]+):(?<line>\\d+):(?<column>\\d+): (?<severity>\\w+): (?<message>.*?)(?: \\[(?<code>SC\\d+)\\])?$",
+    };
+
+    it("parses one issue per matching line", () => {
+      const output = [
+        "deploy.sh:3:5: warning: Quote this to prevent word splitting. [SC2086]",
+        "In deploy.sh line 3:",
+        "build.sh:10:1: error: Couldn't parse this function. [SC1073]",
+      ].join("\n");
+
+      expect(parseCustomOutput(output, parser)).toEqual([
+        {
+          file: "deploy.sh",
+          line: 3,
+          column: 5,
+          message: "Quote this to prevent word splitting.",
+          code: "SC2086",
+          severity: "warning",
+        },
+        {
+          file: "build.sh",
+          line: 10,
+          column: 1,
+          message: "Couldn't parse this function.",
+          code: "SC1073",
+          severity: "error",
+        },
+      ]);
+    });
+
+    it("leaves missing groups undefined", () => {
+      const issues = parseCustomOutput("oops", { type: "regex", pattern: "^(?<message>.+)$" });
+      expect(issues).toEqual([
+        {
+          file: undefined,
+          line: undefined,
+          column: undefined,
+          message: "oops",
+          code: undefined,
+          severity: undefined,
+        },
+      ]);
+    });
+
+    it("returns no issues for empty output", () => {
+      expect(parseCustomOutput("", parser)).toEqual([]);
+    });
+  });
+
+  describe("json parser", () => {
+    it("maps fields of each item in the root array", () => {
+      const output = JSON.stringify([
+        {
+          file: "Dockerfile",
+          line: 4,
+          column: 1,
+          code: "DL3008",
+          message: "Pin versions",
+          level: "warning",
+        },
+      ]);
+
+      const issues = parseCustomOutput(output, {
+        type: "json",
+        fields: {
+          file: "file",
+          line: "line",
+          column: "column",
+          message: "message",
+          code: "code",
+          severity: "level",
+        },
+      });
+
+      expect(issues).toEqual([
+        {
+          file: "Dockerfile",
+          line: 4,
+          column: 1,
+          message: "Pin versions",
+          code: "DL3008",
+          severity: "warning",
+        },
+      ]);
+    });
+
+    it("follows dotted paths to the results array and nested fields", () => {
+      const output = JSON.stringify({
+        Issues: [
+          {
+            FromLinter: "errcheck",
+            Text: "unchecked error",
+            Pos: { Filename: "main.go", Line: 12, Column: 2 },
+          },
+        ],
+      });
+
+      const issues = parseCustomOutput(output, {
+        type: "json",
+        path: "Issues",
+        fields: {
+          file: "Pos.Filename",
+          line: "Pos.Line",
+          column: "Pos.Column",
+          message: "Text",
+          code: "FromLinter",
+        },
+      });
+
+      expect(issues[0]).toMatchObject({
+        file: "main.go",
+        line: 12,
+        column: 2,
+        message: "unchecked error",
+        code: "errcheck",
+      });
+    });
+
+    it("joins array values", () => {
+      const output = JSON.stringify([
+        { fileName: "a.md", ruleNames: ["MD013", "line-length"], ruleDescription: "Line length" },
+      ]);
+
+      const issues = parseCustomOutput(output, {
+        type: "json",
+        fields: { file: "fileName", message: "ruleDescription", code: "ruleNames" },
+      });
+
+      expect(issues[0].code).toBe("MD013/line-length");
+    });
+
+    it("skips items without a message", () => {
+      const output = JSON.stringify([{ text: "" }, { other: 1 }]);
+      expect(parseCustomOutput(output, { type: "json", fields: { message: "text" } })).toEqual([]);
+    });
+
+    it("returns no issues when the path is missing", () => {
+      const output = JSON.stringify({});
+      expect(
+        parseCustomOutput(output, { type: "json", path: "Issues", fields: { message: "Text" } })
+      ).toEqual([]);
+    });
+
+    it("throws when the path is not an array", () => {
+      expect(() =>
+        parseCustomOutput('{"Issues": 3}', {
+          type: "json",
+          path: "Issues",
+          fields: { message: "m" },
+        })
+      ).toThrow('Expected an array at "Issues"');
+    });
+
+    it("throws on invalid JSON", () => {
+      expect(() =>
+        parseCustomOutput("not json", { type: "json", fields: { message: "m" } })
+      ).toThrow();
+    });
+  });
+
+  describe("sarif parser", () => {
+    it("imports results from all runs", () => {
+      const output = JSON.stringify({
+        version: "2.1.0",
+        runs: [
+          {
+            results: [
+              {
+                ruleId: "MD001",
+                level: "error",
+                message: { text: "Heading levels should only increment by one" },
+                locations: [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: "docs/guide.md" },
+                      region: { startLine: 7, startColumn: 1 },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+          { results: [{ ruleId: "X1", message: { text: "No location" } }] },
+        ],
+      });
+
+      expect(parseCustomOutput(output, { type: "sarif" })).toEqual([
+        {
+          file: "docs/guide.md",
+          line: 7,
+          column: 1,
+          message: "Heading levels should only increment by one",
+          code: "MD001",
+          severity: "error",
+        },
+        {
+          file: undefined,
+          line: undefined,
+          column: undefined,
+          message: "No location",
+          code: "X1",
+          severity: "warning",
+        },
+      ]);
+    });
+
+    it("returns no issues for empty output", () => {
+      expect(parseCustomOutput("  ", { type: "sarif" })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { CustomToolRunner } from "../../../../src/code/tools/custom.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+const regexParser = {
+  type: "regex" as const,
+  pattern: "^(?<file>[^:]+):(?<line>\\d+):(?<column>\\d+): (?<severity>\\w+): (?<message>.+)$",
+};
+
+function execResult(exitCode: number, stdout = "", stderr = ""): any {
+  return { exitCode, stdout, stderr, failed: exitCode !== 0 };
+}
+
+describe("CustomToolRunner", () => {
+  let runner: CustomToolRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockExistsSync.mockReturnValue(false);
+    runner = new CustomToolRunner("shellcheck", {
+      command: "shellcheck",
+      args: ["-f", "gcc", "run.sh"],
+      parser: regexParser,
+      config_files: [".shellcheckrc"],
+    });
+  });
+
+  it("uses the tool name as name and toolId", () => {
+    expect(runner.name).toBe("shellcheck");
+    expect(runner.toolId).toBe("shellcheck");
+    expect(runner.rule).toBe("code.custom");
+    expect(runner.configFiles).toEqual([".shellcheckrc"]);
+  });
+
+  describe("run", () => {
+    it("runs the command with args in the project root", async () => {
+      mockExeca.mockResolvedValue(execResult(0));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).toHaveBeenCalledWith(
+        "shellcheck",
+        ["-f", "gcc", "run.sh"],
+        expect.objectContaining({ cwd: "/project", reject: false })
+      );
+    });
+
+    it("parses issues into violations", async () => {
+      mockExeca.mockResolvedValue(
+        execResult(1, "run.sh:3:5: warning: Quote this\nrun.sh:9:1: error: Parse error\n")
+      );
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations).toEqual([
+        {
+          rule: "code.custom.shellcheck",
+          tool: "shellcheck",
+          file: "run.sh",
+          line: 3,
+          column: 5,
+          message: "Quote this",
+          code: undefined,
+          severity: "warning",
+        },
+        {
+          rule: "code.custom.shellcheck",
+          tool: "shellcheck",
+          file: "run.sh",
+          line: 9,
+          column: 1,
+          message: "Parse error",
+          code: undefined,
+          severity: "error",
+        },
+      ]);
+    });
+
+    it("reports violations even when the exit code is a pass code", async () => {
+      mockExeca.mockResolvedValue(execResult(0, "run.sh:3:5: warning: Quote this\n"));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations).toHaveLength(1);
+    });
+
+    it("fails when a fail exit code produces no parseable issues", async () => {
+      mockExeca.mockResolvedValue(execResult(1, "something unexpected"));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toBe("shellcheck exited with code 1");
+    });
+
+    it("fails with the output for unexpected exit codes", async () => {
+      mockExeca.mockResolvedValue(execResult(2, "", "bad flag"));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toBe("shellcheck exited with code 2: bad flag");
+    });
+
+    it("honours configured exit codes and output stream", async () => {
+      runner = new CustomToolRunner("hadolint", {
+        command: "hadolint",
+        pass_exit_codes: [0],
+        fail_exit_codes: [1, 3],
+        output: "stderr",
+        parser: regexParser,
+      });
+      mockExeca.mockResolvedValue(execResult(3, "", "Dockerfile:4:1: error: Pin versions"));
+
+      const result = await runner.run("/project");
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].file).toBe("Dockerfile");
+    });
+
+    it("reports parse errors", async () => {
+      runner = new CustomToolRunner("lint", {
+        command: "lint",
+        parser: { type: "sarif" },
+      });
+      mockExeca.mockResolvedValue(execResult(1, "not json"));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toMatch(/^Failed to parse lint output:/);
+    });
+
+    it("makes absolute paths and file URIs relative to the project root", async () => {
+      runner = new CustomToolRunner("lint", {
+        command: "lint",
+        parser: { type: "sarif" },
+      });
+      const sarif = {
+        runs: [
+          {
+            results: [
+              {
+                message: { text: "a" },
+                locations: [
+                  { physicalLocation: { artifactLocation: { uri: "/project/src/a.md" } } },
+                ],
+              },
+              {
+                message: { text: "b" },
+                locations: [
+                  { physicalLocation: { artifactLocation: { uri: "file:///project/docs/b.md" } } },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+      mockExeca.mockResolvedValue(execResult(1, JSON.stringify(sarif)));
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.file)).toEqual(["src/a.md", "docs/b.md"]);
+    });
+
+    it("only reports issues in target files", async () => {
+      runner.setTargetFiles(["run.sh"]);
+      mockExeca.mockResolvedValue(
+        execResult(1, "run.sh:3:5: warning: Quote this\nother.sh:1:1: error: Parse error\n")
+      );
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.file)).toEqual(["run.sh"]);
+    });
+
+    it("passes when all issues are outside target files", async () => {
+      runner.setTargetFiles(["run.sh"]);
+      mockExeca.mockResolvedValue(execResult(1, "other.sh:1:1: error: Parse error\n"));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("skips when the command is not installed", async () => {
+      mockExeca.mockResolvedValue({ code: "ENOENT", failed: true } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe("shellcheck not installed");
+    });
+
+    it("fails when execa throws", async () => {
+      mockExeca.mockRejectedValue(new Error("timed out"));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toBe("shellcheck error: timed out");
+    });
+  });
+
+  describe("audit", () => {
+    it("passes when a declared config file exists", async () => {
+      mockExistsSync.mockImplementation((p) => String(p) === "/project/.shellcheckrc");
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("fails when no declared config file exists", async () => {
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toContain(".shellcheckrc");
+    });
+
+    it("passes when no config files are declared", async () => {
+      runner = new CustomToolRunner("lint", { command: "lint", parser: { type: "sarif" } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+  });
+});
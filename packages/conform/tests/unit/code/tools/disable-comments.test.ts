@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 vi.mock("glob", () => ({
   glob: vi.fn(),
@@ -61,6 +61,31 @@ describe("DisableCommentsRunner", () => {
       expect(result.violations[0].line).toBe(1);
     });
 
+    it("accepts comments with a conform-allow and reports expired allowances", async () => {
+      mockGlob.mockResolvedValue(["src/legacy.ts"]);
+      mockReadFileSync.mockReturnValue(
+        [
+          "// conform-allow: disable-comments -- generated types are wrong (ABC-12)",
+          "// @ts-expect-error",
+          "const a: number = value;",
+          "// conform-allow: disable-comments -- until the v2 migration (expires 2000-01-31)",
+          "// @ts-ignore",
+          "const b: number = value;",
+        ].join("\n")
+      );
+      runner.setConfig({ ticket_pattern: "^ABC-\\d+$" });
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => [v.line, v.code])).toEqual([
+        [5, "@ts-ignore"],
+        [4, "conform-allow"],
+      ]);
+      expect(result.violations[1].message).toBe(
+        "conform-allow for disable-comments expired on 2000-01-31 (until the v2 migration)"
+      );
+    });
+
     it("detects @ts-ignore comments", async () => {
       mockGlob.mockResolvedValue(["src/bad.ts"]);
       mockReadFileSync.mockReturnValue(
@@ -141,5 +166,33 @@ describe("DisableCommentsRunner", () => {
       expect(result.passed).toBe(false);
       expect(result.violations.length).toBeGreaterThanOrEqual(2);
     });
+    it("only scans changed files when target files are set", async () => {
+      runner.setTargetFiles(["src/clean.ts"]);
+      mockGlob.mockResolvedValue(["src/clean.ts", "src/bad.ts"]);
+      mockReadFileSync.mockReturnValue("const x = 1;\n");
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockReadFileSync).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cacheKey", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("changes with the date and the ticket pattern", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2025, 5, 30, 12));
+      runner.setConfig({ ticket_pattern: "^ABC-\\d+$" });
+
+      expect(await runner.cacheKey()).toBe("builtin\n2025-06-30\n^ABC-\\d+$");
+
+      vi.setSystemTime(new Date(2025, 6, 1, 9));
+      runner.setConfig({});
+      expect(await runner.cacheKey()).toBe("builtin\n2025-07-01\n");
+    });
   });
 });
@@ -9,6 +9,7 @@ vi.mock("node:fs", async () => {
   return {
     ...actual,
     existsSync: vi.fn(),
+    readFileSync: vi.fn(),
   };
 });
 
@@ -207,5 +208,111 @@ describe("ESLintRunner", () => {
 
       expect(result.violations[0].code).toBeUndefined();
     });
+
+    it("lints only changed files matching configured patterns", async () => {
+      mockExistsSync.mockImplementation((p) =>
+        String(p).endsWith("eslint.config.js")
+      );
+      runner.setConfig({ files: ["src/**/*.ts"], ignore: ["**/*.test.ts"] });
+      runner.setTargetFiles(["src/a.ts", "src/a.test.ts", "docs/readme.md", "scripts/b.ts"]);
+      mockExeca.mockResolvedValue({
+        stdout: "[]",
+        stderr: "",
+        exitCode: 0,
+        failed: false,
+      } as any);
+
+      await runner.run("/project");
+
+      const args = mockExeca.mock.calls[0][1] as string[];
+      expect(args.slice(0, 2)).toEqual(["eslint", "src/a.ts"]);
+      expect(args).not.toContain("src/**/*.ts");
+      expect(args).not.toContain("scripts/b.ts");
+    });
+
+    it("uses default extensions for changed files without configured patterns", async () => {
+      mockExistsSync.mockImplementation((p) =>
+        String(p).endsWith("eslint.config.js")
+      );
+      runner.setTargetFiles(["src/a.tsx", "README.md"]);
+      mockExeca.mockResolvedValue({
+        stdout: "[]",
+        stderr: "",
+        exitCode: 0,
+        failed: false,
+      } as any);
+
+      await runner.run("/project");
+
+      const args = mockExeca.mock.calls[0][1] as string[];
+      expect(args.slice(0, 2)).toEqual(["eslint", "src/a.tsx"]);
+      expect(args).not.toContain("README.md");
+    });
+
+    it("passes without running eslint when no changed files are lintable", async () => {
+      mockExistsSync.mockImplementation((p) =>
+        String(p).endsWith("eslint.config.js")
+      );
+      runner.setTargetFiles(["README.md"]);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("fix", () => {
+    beforeEach(() => {
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("eslint.config.js"));
+    });
+
+    it("skips when no eslint config exists", async () => {
+      mockExistsSync.mockReturnValue(false);
+
+      const result = await runner.fix("/project");
+
+      expect(result.skipped).toBe(true);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+
+    it("returns fixed output as changes and unfixed messages as remaining", async () => {
+      vi.mocked(fs.readFileSync).mockReturnValue("var a = 1\n");
+      mockExeca.mockResolvedValueOnce({
+        stdout: JSON.stringify([
+          {
+            filePath: "/project/src/a.ts",
+            output: "const a = 1\n",
+            messages: [
+              { ruleId: "no-explicit-any", severity: 2, message: "Unexpected any", line: 3 },
+            ],
+          },
+          { filePath: "/project/src/b.ts", messages: [] },
+        ]),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.fix("/project");
+
+      const args = mockExeca.mock.calls[0][1] as string[];
+      expect(args).toContain("--fix-dry-run");
+      expect(result.changes).toEqual([
+        {
+          file: "src/a.ts",
+          before: "var a = 1\n",
+          after: "const a = 1\n",
+          description: "Apply ESLint fixes",
+        },
+      ]);
+      expect(result.remaining).toHaveLength(1);
+      expect(result.remaining[0].code).toBe("no-explicit-any");
+    });
+
+    it("throws when eslint output cannot be parsed", async () => {
+      mockExeca.mockResolvedValueOnce({ stdout: "", stderr: "boom", exitCode: 2 } as any);
+
+      await expect(runner.fix("/project")).rejects.toThrow("ESLint error: boom");
+    });
   });
 });
@@ -0,0 +1,49 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { findGoModules, parseGoWorkUses } from "../../../../src/code/tools/go-modules.js";
+
+describe("parseGoWorkUses", () => {
+  it("reads single-line and block use directives", () => {
+    const content = [
+      "go 1.22",
+      "",
+      "use ./tools // build tooling",
+      "use (",
+      "  ./api",
+      '  "./web"',
+      ")",
+      "",
+      "replace example.com/x => ./x",
+    ].join("\n");
+
+    expect(parseGoWorkUses(content)).toEqual(["./tools", "./api", "./web"]);
+  });
+});
+
+describe("findGoModules", () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-go-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("returns the project root for a single module", () => {
+    fs.writeFileSync(path.join(projectRoot, "go.mod"), "module example.com/m\n");
+
+    expect(findGoModules(projectRoot)).toEqual(["."]);
+  });
+
+  it("returns the modules of a go.work root without its own go.mod", () => {
+    fs.writeFileSync(path.join(projectRoot, "go.work"), "go 1.22\n\nuse (\n\t./api\n\t./web/\n)\n");
+
+    expect(findGoModules(projectRoot)).toEqual(["api", "web"]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { GolangciLintRunner } from "../../../../src/code/tools/golangci-lint.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+describe("GolangciLintRunner", () => {
+  let runner: GolangciLintRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new GolangciLintRunner();
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/.golangci.yml");
+  });
+
+  it("fails when no config exists", async () => {
+    mockExistsSync.mockReturnValue(false);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations[0].message).toContain("Config not found");
+    expect(mockExeca).not.toHaveBeenCalled();
+  });
+
+  it("passes when there are no issues", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: JSON.stringify({ Issues: null, Report: {} }),
+      stderr: "",
+      exitCode: 0,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "golangci-lint",
+      ["run", "--output.json.path=stdout", "--show-stats=false", "./..."],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("uses --out-format with golangci-lint v1", async () => {
+    mockExeca
+      .mockResolvedValueOnce({
+        stdout: "golangci-lint has version 1.64.8 built with go1.24.1 from 8b37f141 on 2025-03-17",
+        stderr: "",
+        exitCode: 0,
+      } as any)
+      .mockResolvedValueOnce({
+        stdout: JSON.stringify({ Issues: [], Report: {} }),
+        stderr: "",
+        exitCode: 0,
+      } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenLastCalledWith(
+      "golangci-lint",
+      ["run", "--out-format=json", "./..."],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("converts issues into violations", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: JSON.stringify({
+        Issues: [
+          {
+            FromLinter: "errcheck",
+            Text: "Error return value of `f.Close` is not checked",
+            Severity: "",
+            Pos: { Filename: "internal/store.go", Line: 42, Column: 10 },
+          },
+          {
+            FromLinter: "gocyclo",
+            Text: "cyclomatic complexity 31 of func `parse` is high (> 30)",
+            Severity: "warning",
+            Pos: { Filename: "parse.go", Line: 7, Column: 1 },
+          },
+        ],
+      }),
+      stderr: "",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        rule: "code.linting.golangci-lint",
+        tool: "golangci-lint",
+        file: "internal/store.go",
+        line: 42,
+        column: 10,
+        message: "Error return value of `f.Close` is not checked",
+        code: "errcheck",
+        severity: "error",
+      },
+      expect.objectContaining({ code: "gocyclo", severity: "warning" }),
+    ]);
+  });
+
+  it("reports a tool error when output is not JSON", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "Error: can't load config: unsupported version of the configuration",
+      exitCode: 3,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe(
+      "golangci-lint error: Error: can't load config: unsupported version of the configuration"
+    );
+  });
+
+  it("skips when golangci-lint is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn golangci-lint ENOENT"));
+
+    const result = await runner.run("/project");
+
+    expect(result.skipped).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { GoVetRunner } from "../../../../src/code/tools/govet.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+describe("GoVetRunner", () => {
+  let runner: GoVetRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new GoVetRunner();
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/go.mod");
+  });
+
+  it("fails when there is no go.mod or go.work", async () => {
+    mockExistsSync.mockReturnValue(false);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations[0].message).toBe(
+      "Config not found. Expected one of: go.mod or go.work"
+    );
+  });
+
+  it("passes when go vet exits cleanly", async () => {
+    mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "go",
+      ["vet", "./..."],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("vets every module of a go.work workspace", async () => {
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/go.work");
+    vi.mocked(fs.readFileSync).mockReturnValue("go 1.22\n\nuse (\n\t./api\n\t./web\n)\n");
+    mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "go",
+      ["vet", "./api/...", "./web/..."],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("parses diagnostics from stderr", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: [
+        "# example.com/m/cmd",
+        "cmd/main.go:8:2: fmt.Printf format %d has arg name of wrong type string",
+        "# example.com/m/internal",
+        "./internal/util.go:12:5: unreachable code",
+      ].join("\n"),
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        rule: "code.types.govet",
+        tool: "govet",
+        file: "cmd/main.go",
+        line: 8,
+        column: 2,
+        message: "fmt.Printf format %d has arg name of wrong type string",
+        severity: "error",
+      },
+      expect.objectContaining({ file: "internal/util.go", line: 12, column: 5 }),
+    ]);
+  });
+
+  it("reports a tool error when the output has no diagnostics", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "go: cannot find main module",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe("go vet error: go: cannot find main module");
+  });
+
+  it("skips when go is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn go ENOENT"));
+
+    const result = await runner.run("/project");
+
+    expect(result.skipped).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { GovulncheckRunner } from "../../../../src/code/tools/govulncheck.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+/** govulncheck -format json output: pretty-printed objects, one after another */
+function stream(...messages: unknown[]): string {
+  return messages.map((m) => JSON.stringify(m, null, 2)).join("\n");
+}
+
+const config = { config: { protocol_version: "v1.0.0", scanner_name: "govulncheck" } };
+const osv = {
+  osv: { id: "GO-2024-2687", summary: "HTTP/2 CONTINUATION flood in net/http", aliases: [] },
+};
+
+/** A finding at the given depth: module only, package, or called function */
+function finding(frame: Record<string, string>, fixed = "v0.23.0"): unknown {
+  return {
+    finding: {
+      osv: "GO-2024-2687",
+      fixed_version: fixed,
+      trace: [{ module: "golang.org/x/net", version: "v0.22.0", ...frame }],
+    },
+  };
+}
+
+describe("GovulncheckRunner", () => {
+  let runner: GovulncheckRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new GovulncheckRunner();
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/go.mod");
+  });
+
+  it("passes when no vulnerabilities are found", async () => {
+    mockExeca.mockResolvedValue({ stdout: stream(config), stderr: "", exitCode: 0 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "govulncheck",
+      ["-format", "json", "./..."],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("reports vulnerabilities reachable from the module once", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: stream(
+        config,
+        osv,
+        finding({}),
+        finding({ package: "golang.org/x/net/http2" }),
+        finding({ package: "golang.org/x/net/http2", function: "Server.ServeConn" }),
+        finding({ package: "golang.org/x/net/http2", function: "Transport.RoundTrip" })
+      ),
+      stderr: "",
+      exitCode: 0,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        rule: "code.security.govulncheck",
+        tool: "govulncheck",
+        file: "go.mod",
+        message:
+          "golang.org/x/net@v0.22.0: GO-2024-2687 HTTP/2 CONTINUATION flood in net/http (fix: v0.23.0)",
+        code: "GO-2024-2687",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("ignores vulnerabilities in imported but uncalled code", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: stream(config, osv, finding({ package: "golang.org/x/net/http2" })),
+      stderr: "",
+      exitCode: 0,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+  });
+
+  it("reports vulnerabilities without a fix as warnings", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: stream(osv, finding({ function: "Server.ServeConn" }, "")),
+      stderr: "",
+      exitCode: 0,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].severity).toBe("warning");
+    expect(result.violations[0].message).toContain("(no fix available)");
+  });
+
+  it("scans each module of a go.work workspace", async () => {
+    mockExistsSync.mockImplementation((p) => String(p) === "/project/go.work");
+    vi.mocked(fs.readFileSync).mockReturnValue("go 1.22\n\nuse ./api\nuse ./web\n");
+    mockExeca.mockImplementation((async (_command: string, _args: string[], options: any) => ({
+      stdout:
+        options.cwd === "/project/web"
+          ? stream(config, osv, finding({ package: "golang.org/x/net/http2", function: "Read" }))
+          : stream(config),
+      stderr: "",
+      exitCode: options.cwd === "/project/web" ? 3 : 0,
+    })) as any);
+
+    const result = await runner.run("/project");
+
+    expect(mockExeca.mock.calls.map((call) => call[2]?.cwd)).toEqual([
+      "/project/api",
+      "/project/web",
+    ]);
+    expect(result.violations).toEqual([
+      expect.objectContaining({ file: "web/go.mod", code: "GO-2024-2687" }),
+    ]);
+  });
+
+  it("reports a tool error when govulncheck fails", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "",
+      stderr: "govulncheck: loading packages: go.mod requires go >= 1.23",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe(
+      "govulncheck error: govulncheck: loading packages: go.mod requires go >= 1.23"
+    );
+  });
+
+  it("skips when govulncheck is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn govulncheck ENOENT"));
+
+    const result = await runner.run("/project");
+
+    expect(result.skipped).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { LicensesRunner } from "../../../../src/code/tools/licenses.js";
+
+let projectRoot: string;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+  fs.writeFileSync(path.join(projectRoot, file), content);
+}
+
+/** Install an npm package manifest under node_modules (or a nested path) */
+function installNode(dir: string, name: string, license: unknown): void {
+  write(`${dir}/package.json`, JSON.stringify({ name, version: "1.0.0", license }));
+}
+
+/** Install a Python distribution's METADATA into the project virtualenv */
+function installPython(name: string, headers: string[]): void {
+  const dir = `.venv/lib/python3.12/site-packages/${name}-2.0.0.dist-info`;
+  write(`${dir}/METADATA`, [`Name: ${name}`, "Version: 2.0.0", ...headers, "", "Body"].join("\n"));
+}
+
+function messages(result: { violations: { message: string }[] }): string[] {
+  return result.violations.map((v) => v.message);
+}
+
+describe("LicensesRunner", () => {
+  let runner: LicensesRunner;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-licenses-"));
+    runner = new LicensesRunner();
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("fails when no dependencies are installed", async () => {
+    write("package.json", "{}");
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(messages(result)[0]).toContain("No installed dependencies found");
+  });
+
+  it("reports npm packages with denied licenses", async () => {
+    write("package.json", "{}");
+    installNode("node_modules/ok", "ok", "MIT");
+    installNode("node_modules/@scope/copyleft", "@scope/copyleft", "GPL-3.0-only");
+    installNode("node_modules/.pnpm/dep@1.0.0/node_modules/dep", "dep", { type: "AGPL-3.0" });
+    runner.setConfig({ deny: ["GPL-*", "AGPL-*"] });
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      expect.objectContaining({ message: 'dep@1.0.0: license "AGPL-3.0" (denied: AGPL-3.0)' }),
+      {
+        rule: "code.security.licenses",
+        tool: "licenses",
+        file: "package.json",
+        message: '@scope/copyleft@1.0.0: license "GPL-3.0-only" (denied: GPL-3.0-only)',
+        code: "GPL-3.0-only",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("evaluates SPDX expressions against the allow list", async () => {
+    write("package.json", "{}");
+    installNode("node_modules/dual", "dual", "MIT OR GPL-3.0");
+    installNode("node_modules/both", "both", "(MIT AND GPL-3.0)");
+    installNode("node_modules/legacy", "legacy", undefined);
+    installNode("node_modules/exception", "exception", "GPL-2.0 WITH Classpath-exception-2.0");
+    runner.setConfig({ allow: ["MIT", "Apache-2.0"] });
+
+    const result = await runner.run(projectRoot);
+
+    expect(messages(result)).toEqual([
+      'both@1.0.0: license "(MIT AND GPL-3.0)" (not in the allow list)',
+      'exception@1.0.0: license "GPL-2.0 WITH Classpath-exception-2.0" (not in the allow list)',
+      "legacy@1.0.0: no license found",
+    ]);
+    expect(result.violations[2].severity).toBe("warning");
+  });
+
+  it("skips packages listed as exceptions", async () => {
+    write("package.json", "{}");
+    installNode("node_modules/copyleft", "copyleft", "GPL-3.0");
+    runner.setConfig({ deny: ["GPL-3.0"], exceptions: ["copyleft@1.0.0"] });
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.passed).toBe(true);
+  });
+
+  it("reads Python licenses from virtualenv metadata", async () => {
+    write("pyproject.toml", "[project]\nname = 'app'\n");
+    installPython("requests", ["License-Expression: Apache-2.0"]);
+    installPython("chardet", [
+      "License: LGPL",
+      "Classifier: License :: OSI Approved :: GNU Lesser General Public License v2 (LGPLv2)",
+    ]);
+    installPython("mystery", ["License: Copyright (c) Somebody. All rights reserved."]);
+    runner.setConfig({ deny: ["LGPL*"] });
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        file: "pyproject.toml",
+        message: 'chardet@2.0.0: license "LGPL" (denied: LGPL)',
+      }),
+    ]);
+  });
+
+  it("uses uv.lock to scope Python dependencies", async () => {
+    write("pyproject.toml", "[project]\nname = 'app'\n");
+    write(
+      "uv.lock",
+      [
+        "version = 1",
+        "[[package]]",
+        'name = "app"',
+        'version = "0.1.0"',
+        'source = { editable = "." }',
+        "[[package]]",
+        'name = "Typing_Extensions"',
+        'version = "4.12.0"',
+        "[[package]]",
+        'name = "missing"',
+        'version = "1.0.0"',
+      ].join("\n")
+    );
+    installPython("typing_extensions", ["License-Expression: PSF-2.0"]);
+    installPython("pip", ["License-Expression: GPL-3.0"]);
+    runner.setConfig({ allow: ["PSF-2.0"] });
+
+    const result = await runner.run(projectRoot);
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        file: "uv.lock",
+        message: "missing@1.0.0: no license found",
+        severity: "warning",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+
+import { analyzeTypeScriptIdentifiers } from "../../../../src/code/tools/naming-identifiers.js";
+
+describe("analyzeTypeScriptIdentifiers", () => {
+  it("classifies exported declarations and skips local ones", () => {
+    const source = [
+      "export class UserStore {}",
+      "export interface User { id: string }",
+      "export type UserId = string;",
+      "export enum Role { Admin }",
+      "export function loadUser() {}",
+      "export const MAX_USERS = 100;",
+      'export const ROLES = ["admin", "user"] as const;',
+      "export const defaultUser = { id: '' } satisfies User;",
+      "export const parseUser = (raw: string) => JSON.parse(raw);",
+      "const localHelper = () => undefined;",
+      "function exportedLater() {}",
+      "export { exportedLater as renamed };",
+    ].join("\n");
+
+    expect(analyzeTypeScriptIdentifiers("src/user.ts", source)).toEqual({
+      identifiers: [
+        { name: "UserStore", kind: "class", line: 1 },
+        { name: "User", kind: "interface", line: 2 },
+        { name: "UserId", kind: "type", line: 3 },
+        { name: "Role", kind: "enum", line: 4 },
+        { name: "loadUser", kind: "function", line: 5 },
+        { name: "MAX_USERS", kind: "constant", line: 6 },
+        { name: "ROLES", kind: "constant", line: 7 },
+        { name: "defaultUser", kind: "variable", line: 8 },
+        { name: "parseUser", kind: "function", line: 9 },
+        { name: "exportedLater", kind: "function", line: 11 },
+      ],
+    });
+  });
+
+  it("recognizes components and hooks", () => {
+    const source = [
+      'import React, { memo, useState } from "react";',
+      "export function useToggle() { const [on, set] = useState(false); return [on, set]; }",
+      "export const fetchUser = () => React.useEffect(() => {}, []);",
+      "export const Avatar = ({ url }) => <img src={url} />;",
+      "export const Badge = memo(({ label }) => <span>{label}</span>);",
+      "export class Legacy extends React.Component { render() { return null; } }",
+    ].join("\n");
+
+    const { identifiers } = analyzeTypeScriptIdentifiers("src/Avatar.tsx", source);
+
+    expect(identifiers.map((i) => [i.name, i.kind])).toEqual([
+      ["useToggle", "hook"],
+      ["fetchUser", "hook"],
+      ["Avatar", "component"],
+      ["Badge", "component"],
+      ["Legacy", "component"],
+    ]);
+  });
+
+  it("reports a default-exported component", () => {
+    const declared = "export default function UserCard() { return <div />; }\n";
+    const referenced = "const Profile = () => <main />;\nexport default Profile;\n";
+    const notComponent = "export default function formatDate() { return ''; }\n";
+
+    expect(analyzeTypeScriptIdentifiers("Card.tsx", declared).defaultComponent).toEqual({
+      name: "UserCard",
+      line: 1,
+    });
+    expect(analyzeTypeScriptIdentifiers("Page.jsx", referenced).defaultComponent).toEqual({
+      name: "Profile",
+      line: 1,
+    });
+    expect(analyzeTypeScriptIdentifiers("date.tsx", notComponent).defaultComponent).toBeUndefined();
+  });
+});
@@ -1,13 +1,40 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 vi.mock("glob", () => ({
   glob: vi.fn(),
 }));
 
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import * as fs from "node:fs";
+import { execa } from "execa";
 import { glob } from "glob";
 import { NamingRunner } from "../../../../src/code/tools/naming.js";
 
 const mockGlob = vi.mocked(glob);
+const mockExeca = vi.mocked(execa);
+
+/** Serve file contents by path relative to /project */
+function mockFiles(files: Record<string, string>): void {
+  vi.mocked(fs.readFileSync).mockImplementation((p) => {
+    const content = files[String(p).replace("/project/", "")];
+    if (content === undefined) {
+      throw new Error(`ENOENT: ${String(p)}`);
+    }
+    return content;
+  });
+}
 
 describe("NamingRunner", () => {
   let runner: NamingRunner;
@@ -67,6 +94,30 @@ describe("NamingRunner", () => {
       expect(result.violations[0].message).toContain("should be kebab-case");
     });
 
+    it("accepts file names with a conform-allow: naming comment", async () => {
+      runner.setConfig({
+        rules: [{ extensions: ["ts"], file_case: "kebab-case", folder_case: "kebab-case" }],
+      });
+      mockGlob.mockResolvedValue(["src/MyFile.ts", "src/OtherFile.ts"]);
+      vi.mocked(fs.readFileSync).mockImplementation((p) =>
+        String(p).endsWith("MyFile.ts")
+          ? "// conform-allow: naming -- matches the exported React component\n"
+          : "// conform-allow: naming\n"
+      );
+
+      const result = await runner.run("/project");
+
+      expect(result.violations).toEqual([
+        expect.objectContaining({ file: "src/OtherFile.ts", code: "file-case" }),
+        expect.objectContaining({
+          file: "src/OtherFile.ts",
+          line: 1,
+          code: "conform-allow",
+          message: "conform-allow for naming needs a reason: naming -- <reason>",
+        }),
+      ]);
+    });
+
     it("reports violations for folder names not matching convention", async () => {
       runner.setConfig({
         rules: [
@@ -165,5 +216,202 @@ describe("NamingRunner", () => {
       expect(result.passed).toBe(false);
       expect(result.violations[0].message).toContain("Naming validation error");
     });
+
+    it("only checks changed files when target files are set", async () => {
+      runner.setConfig({
+        rules: [{ extensions: ["ts"], file_case: "kebab-case", folder_case: "kebab-case" }],
+      });
+      runner.setTargetFiles(["src/my-file.ts"]);
+      mockGlob.mockResolvedValue(["src/my-file.ts", "src/MyFile.ts"]);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+    });
+  });
+
+  describe("identifier rules", () => {
+    it("reports exported declarations that don't match their rule", async () => {
+      runner.setConfig({
+        identifier_rules: [
+          { extensions: ["ts", "tsx"], kinds: ["class", "component"], case: "PascalCase" },
+          { extensions: ["ts"], kinds: ["constant"], case: "SCREAMING_SNAKE_CASE" },
+          { extensions: ["tsx"], kinds: ["hook"], pattern: "^use[A-Z]" },
+        ],
+      });
+      mockGlob.mockImplementation(async (pattern) =>
+        String(pattern) === "**/*.tsx" ? ["src/Card.tsx"] : ["src/Card.tsx", "src/config.ts"]
+      );
+      mockFiles({
+        "src/config.ts": "export class config_store {}\nexport const maxRetries = 3;\n",
+        "src/Card.tsx": [
+          "export const card = () => <div />;",
+          "export function fetchCard() { return useQuery(); }",
+        ].join("\n"),
+      });
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => [v.file, v.line, v.message])).toEqual([
+        ["src/Card.tsx", 1, 'Component "card" should be PascalCase'],
+        ["src/config.ts", 1, 'Class "config_store" should be PascalCase'],
+        ["src/config.ts", 2, 'Constant "maxRetries" should be SCREAMING_SNAKE_CASE'],
+        ["src/Card.tsx", 2, 'Hook "fetchCard" should match ^use[A-Z]'],
+      ]);
+      expect(result.violations[0].code).toBe("identifier-case");
+    });
+
+    it("checks Python files with the ast helper", async () => {
+      runner.setConfig({
+        identifier_rules: [{ extensions: ["py"], kinds: ["function"], case: "snake_case" }],
+      });
+      mockGlob.mockResolvedValue(["app/users.py", "app/broken.py"]);
+      mockExeca.mockResolvedValue({
+        exitCode: 0,
+        stdout: JSON.stringify({
+          "app/users.py": [
+            { name: "get_user", kind: "function", line: 1 },
+            { name: "saveUser", kind: "function", line: 4 },
+            { name: "UserStore", kind: "class", line: 7 },
+          ],
+          "app/broken.py": null,
+        }),
+      } as never);
+
+      const result = await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "python3",
+        ["-c", expect.stringContaining("import ast")],
+        expect.objectContaining({ input: '["app/broken.py","app/users.py"]' })
+      );
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          file: "app/users.py",
+          line: 4,
+          message: 'Function "saveUser" should be snake_case',
+        }),
+      ]);
+    });
+
+    it("skips when python3 is not installed", async () => {
+      runner.setConfig({
+        identifier_rules: [{ extensions: ["py"], kinds: ["function"], case: "snake_case" }],
+      });
+      mockGlob.mockResolvedValue(["app/users.py"]);
+      mockExeca.mockRejectedValue(new Error("spawn python3 ENOENT"));
+
+      const result = await runner.run("/project");
+
+      expect(result).toMatchObject({
+        passed: true,
+        skipped: true,
+        skipReason: "python3 not installed, so Python identifiers were not checked",
+      });
+    });
+
+    it("requires component files to be named after their default export", async () => {
+      runner.setConfig({ component_file_matches_export: true });
+      mockGlob.mockResolvedValue([
+        "src/Card.tsx",
+        "src/user-avatar.tsx",
+        "src/profile/index.tsx",
+        "src/utils.tsx",
+      ]);
+      mockFiles({
+        "src/Card.tsx": "export default function UserCard() { return <div />; }\n",
+        "src/user-avatar.tsx": "const UserAvatar = () => <img />;\nexport default UserAvatar;\n",
+        "src/profile/index.tsx": "export default function Profile() { return <main />; }\n",
+        "src/utils.tsx": "export default function format() { return ''; }\n",
+      });
+
+      const result = await runner.run("/project");
+
+      expect(mockGlob).toHaveBeenCalledWith("**/*.{tsx,jsx}", expect.anything());
+      expect(result.violations).toEqual([
+        {
+          rule: "code.naming.naming",
+          tool: "naming",
+          file: "src/Card.tsx",
+          line: 1,
+          message: 'File "Card" should be named after its default export "UserCard"',
+          code: "component-file-name",
+          severity: "error",
+        },
+      ]);
+    });
+  });
+
+  describe("fix", () => {
+    beforeEach(() => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      vi.mocked(fs.readFileSync).mockReturnValue("export {};\n");
+      runner.setConfig({
+        rules: [{ extensions: ["ts"], file_case: "kebab-case", folder_case: "kebab-case" }],
+      });
+    });
+
+    it("renames files to the configured case, keeping extra extensions", async () => {
+      mockGlob.mockResolvedValue(["src/my-file.ts", "src/MyFile.ts", "src/userAPI.test.ts"]);
+
+      const result = await runner.fix("/project");
+
+      expect(result.changes.map((c) => [c.file, c.renameTo])).toEqual([
+        ["src/MyFile.ts", "src/my-file.ts"],
+        ["src/userAPI.test.ts", "src/user-api.test.ts"],
+      ]);
+      expect(result.changes[0].before).toBe(result.changes[0].after);
+    });
+
+    it("leaves renames that would overwrite a file as remaining violations", async () => {
+      vi.mocked(fs.existsSync).mockImplementation(
+        (p) => String(p) === "/project/src/other-file.ts"
+      );
+      mockGlob.mockResolvedValue(["src/OtherFile.ts", "src/other-file.ts"]);
+
+      const result = await runner.fix("/project");
+
+      expect(result.changes).toHaveLength(0);
+      expect(result.remaining).toHaveLength(1);
+      expect(result.remaining[0].file).toBe("src/OtherFile.ts");
+    });
+
+    it("does not rename files allowed with a conform-allow: naming comment", async () => {
+      mockGlob.mockResolvedValue(["src/MyFile.ts", "src/OtherFile.ts"]);
+      vi.mocked(fs.readFileSync).mockImplementation((p) =>
+        String(p).endsWith("/MyFile.ts")
+          ? "// conform-allow: naming -- matches the exported React component\n"
+          : "export {};\n"
+      );
+
+      const result = await runner.fix("/project");
+
+      expect(result.changes.map((c) => c.file)).toEqual(["src/OtherFile.ts"]);
+      expect(result.remaining).toHaveLength(0);
+    });
+
+    it("leaves folder violations as remaining", async () => {
+      mockGlob.mockResolvedValue(["src/MyFolder/MyFile.ts"]);
+
+      const result = await runner.fix("/project");
+
+      expect(result.changes.map((c) => c.renameTo)).toEqual(["src/MyFolder/my-file.ts"]);
+      expect(result.remaining).toHaveLength(1);
+      expect(result.remaining[0].message).toContain("MyFolder");
+    });
+  });
+
+  describe("cacheKey", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("includes the date for conform-allow expiry and the ticket pattern", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2025, 5, 30, 12));
+      runner.setConfig({ ticket_pattern: "^ABC-\\d+$" });
+
+      expect(await runner.cacheKey()).toBe("builtin\n2025-06-30\n^ABC-\\d+$");
+    });
   });
 });
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { NpmAuditRunner } from "../../../../src/code/tools/npmaudit.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+const qsAdvisory = {
+  source: 1096470,
+  name: "qs",
+  dependency: "qs",
+  title: "qs vulnerable to Prototype Pollution",
+  url: "https://github.com/advisories/GHSA-hrpp-h998-j3pp",
+  severity: "high",
+  range: "<6.10.3",
+};
+
+/** npm audit --json output with a single vulnerable package */
+function report(fixAvailable: unknown, via: unknown[] = [qsAdvisory]): string {
+  return JSON.stringify({
+    auditReportVersion: 2,
+    vulnerabilities: {
+      qs: {
+        name: "qs",
+        severity: "high",
+        isDirect: false,
+        via,
+        effects: ["express"],
+        range: "<6.10.3",
+        nodes: ["node_modules/qs", "node_modules/express/node_modules/qs"],
+        fixAvailable,
+      },
+      express: {
+        name: "express",
+        severity: "high",
+        isDirect: true,
+        via: ["qs"],
+        effects: [],
+        range: "4.0.0-rc1 - 4.17.2",
+        nodes: ["node_modules/express"],
+        fixAvailable,
+      },
+    },
+  });
+}
+
+describe("NpmAuditRunner", () => {
+  let runner: NpmAuditRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new NpmAuditRunner();
+    mockExistsSync.mockImplementation((p) => String(p).endsWith("package-lock.json"));
+  });
+
+  it("fails when no lockfile exists", async () => {
+    mockExistsSync.mockReturnValue(false);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations[0].message).toBe(
+      "No package-lock.json or npm-shrinkwrap.json found"
+    );
+  });
+
+  it("audits production dependencies only by default", async () => {
+    mockExeca.mockResolvedValue({ stdout: report(true, []), stderr: "", exitCode: 0 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "npm",
+      ["audit", "--json", "--omit=dev"],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("includes dev dependencies when exclude_dev is false", async () => {
+    runner.setConfig({ exclude_dev: false });
+    mockExeca.mockResolvedValue({ stdout: report(true, []), stderr: "", exitCode: 0 } as any);
+
+    await runner.run("/project");
+
+    expect(mockExeca).toHaveBeenCalledWith("npm", ["audit", "--json"], expect.anything());
+  });
+
+  it("reports each advisory once, not for the packages depending on it", async () => {
+    const fix = { name: "express", version: "4.21.2", isSemVerMajor: false };
+    mockExeca.mockResolvedValue({ stdout: report(fix), stderr: "", exitCode: 1 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        rule: "code.security.npmaudit",
+        tool: "npmaudit",
+        file: "package-lock.json",
+        message:
+          "qs: qs vulnerable to Prototype Pollution [GHSA-hrpp-h998-j3pp] via node_modules/qs " +
+          "(+1 more) (vulnerable: <6.10.3, fix: express@4.21.2)",
+        code: "GHSA-hrpp-h998-j3pp",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reads the report from stderr when stdout is empty", async () => {
+    const fix = { name: "express", version: "4.21.2", isSemVerMajor: false };
+    mockExeca.mockResolvedValue({ stdout: "", stderr: report(fix), exitCode: 1 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations.map((v) => v.code)).toEqual(["GHSA-hrpp-h998-j3pp"]);
+  });
+
+  it("uses the shared audit policy", async () => {
+    runner.setConfig({ allow_unfixable: true });
+    mockExeca.mockResolvedValue({ stdout: report(false), stderr: "", exitCode: 1 } as any);
+
+    expect((await runner.run("/project")).passed).toBe(true);
+
+    runner.setConfig({
+      allow_unfixable: false,
+      ignore: [{ id: "1096470", reason: "Not reachable", expires: "2999-01-01" }],
+    });
+
+    expect((await runner.run("/project")).passed).toBe(true);
+  });
+
+  it("reports npm errors", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: JSON.stringify({ error: { code: "ENOLOCK", summary: "Requires a lockfile" } }),
+      stderr: "npm ERR! code ENOLOCK",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe("npm audit error: npm ERR! code ENOLOCK");
+  });
+
+  it("skips when npm is not installed", async () => {
+    mockExeca.mockRejectedValue(new Error("spawn npm ENOENT"));
+
+    const result = await runner.run("/project");
+
+    expect(result.skipped).toBe(true);
+  });
+});
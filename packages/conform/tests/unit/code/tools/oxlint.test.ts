@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { OxlintRunner } from "../../../../src/code/tools/oxlint.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+
+/** Mock a filesystem whose files (absolute paths) have the given content */
+function setupFiles(files: Record<string, string>): void {
+  mockExistsSync.mockImplementation((p) => String(p) in files);
+  mockReadFileSync.mockImplementation((p) => {
+    if (String(p) in files) {
+      return files[String(p)];
+    }
+    throw new Error(`ENOENT: ${String(p)}`);
+  });
+}
+
+const debuggerDiagnostic = {
+  message: "`debugger` statement is not allowed",
+  code: "eslint(no-debugger)",
+  severity: "error",
+  filename: "src/a.ts",
+  labels: [{ span: { offset: 20, length: 9, line: 3, column: 5 } }],
+};
+
+describe("OxlintRunner", () => {
+  let runner: OxlintRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new OxlintRunner();
+    setupFiles({ "/project/.oxlintrc.json": "{}" });
+  });
+
+  describe("run", () => {
+    it("passes when there are no diagnostics", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify({ diagnostics: [] }),
+        stderr: "",
+        exitCode: 0,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).toHaveBeenCalledWith(
+        "npx",
+        ["oxlint", "--config", ".oxlintrc.json", "--format=json", "."],
+        expect.objectContaining({ cwd: "/project" })
+      );
+    });
+
+    it("converts diagnostics into violations", async () => {
+      const anyDiagnostic = {
+        message: "Unexpected any",
+        code: "typescript-eslint(no-explicit-any)",
+        severity: "warning",
+        filename: "src/b.ts",
+        labels: [{ span: { line: 1, column: 10 } }],
+      };
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify({ diagnostics: [debuggerDiagnostic, anyDiagnostic] }),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations).toEqual([
+        {
+          rule: "code.linting.oxlint",
+          tool: "oxlint",
+          file: "src/a.ts",
+          line: 3,
+          column: 5,
+          message: "`debugger` statement is not allowed",
+          code: "no-debugger",
+          severity: "error",
+        },
+        expect.objectContaining({ code: "typescript/no-explicit-any", severity: "warning" }),
+      ]);
+    });
+
+    it("parses the bare array output of older versions", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([debuggerDiagnostic]),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations).toHaveLength(1);
+    });
+
+    it("uses a config found in a parent directory and ignore patterns", async () => {
+      setupFiles({ "/.oxlintrc.json": "{}" });
+      mockExeca.mockResolvedValue({ stdout: "[]", stderr: "", exitCode: 0 } as any);
+      runner.setConfig({ ignore: ["dist/**"] });
+
+      await runner.run("/project");
+
+      expect(mockExeca.mock.calls[0][1]).toEqual([
+        "oxlint",
+        "--config",
+        "/.oxlintrc.json",
+        "--format=json",
+        "--ignore-pattern",
+        "dist/**",
+        ".",
+      ]);
+    });
+
+    it("only lints changed JavaScript and TypeScript files", async () => {
+      mockExeca.mockResolvedValue({ stdout: "[]", stderr: "", exitCode: 0 } as any);
+      runner.setTargetFiles(["src/a.ts", "README.md"]);
+
+      await runner.run("/project");
+
+      expect(mockExeca.mock.calls[0][1]).toEqual([
+        "oxlint",
+        "--config",
+        ".oxlintrc.json",
+        "--format=json",
+        "src/a.ts",
+      ]);
+    });
+
+    it("reports a tool error when output is not JSON", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "Failed to parse configuration file",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations[0].message).toBe(
+        "oxlint error: Failed to parse configuration file"
+      );
+    });
+
+    it("skips when oxlint is not installed", async () => {
+      mockExeca.mockRejectedValue(new Error("spawn npx ENOENT"));
+
+      const result = await runner.run("/project");
+
+      expect(result.skipped).toBe(true);
+    });
+  });
+
+  describe("audit", () => {
+    it("fails when no config exists", async () => {
+      setupFiles({});
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toBe(
+        "oxlint config not found. Expected one of: .oxlintrc.json"
+      );
+    });
+
+    it("matches ESLint rule names against oxlint names", async () => {
+      setupFiles({
+        "/project/.oxlintrc.json": `{
+          // comments are allowed
+          "rules": {
+            "eslint/no-debugger": "deny",
+            "typescript/no-explicit-any": "warn",
+            "max-depth": ["error", { "max": 4 }]
+          }
+        }`,
+      });
+      runner.setConfig({
+        rules: {
+          "no-debugger": "error",
+          "@typescript-eslint/no-explicit-any": "warn",
+          "max-depth": { severity: "error", max: 4 },
+        },
+      });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("reports missing rules, severity and option mismatches", async () => {
+      setupFiles({
+        "/project/.oxlintrc.json": JSON.stringify({
+          rules: { "no-debugger": "allow", "max-depth": ["error", { max: 6 }] },
+        }),
+      });
+      runner.setConfig({
+        rules: {
+          "no-debugger": "error",
+          eqeqeq: "error",
+          "max-depth": { severity: "error", max: 4 },
+        },
+      });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        'Rule "no-debugger": expected "error", got "off"',
+        'Rule "eqeqeq" is required but not configured',
+        'Rule "max-depth": "max" mismatch',
+      ]);
+      expect(result.violations[0].file).toBe(".oxlintrc.json");
+    });
+  });
+});
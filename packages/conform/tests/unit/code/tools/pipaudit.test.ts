@@ -212,6 +212,71 @@ describe("PipAuditRunner", () => {
         expect.any(Object)
       );
     });
+
+    it("reads the dependencies list of current pip-audit versions", async () => {
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("requirements.txt"));
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify({
+          dependencies: [
+            { name: "app", skip_reason: "Dependency not found on PyPI" },
+            {
+              name: "jinja2",
+              version: "3.1.2",
+              vulns: [
+                {
+                  id: "GHSA-h5c8-rqwp-cp95",
+                  fix_versions: ["3.1.3", "3.0.4"],
+                  aliases: ["CVE-2024-22195"],
+                  description: "xmlattr filter allows keys with spaces",
+                },
+              ],
+            },
+          ],
+          fixes: [],
+        }),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations).toEqual([
+        {
+          rule: "code.security.pipaudit",
+          tool: "pipaudit",
+          file: "requirements.txt",
+          message: "jinja2@3.1.2: CVE-2024-22195 (fix: 3.1.3, 3.0.4)",
+          code: "GHSA-h5c8-rqwp-cp95",
+          severity: "error",
+        },
+      ]);
+    });
+
+    it("applies ignore entries and allow_unfixable", async () => {
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("requirements.txt"));
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify([
+          {
+            name: "requests",
+            version: "2.25.0",
+            vulns: [
+              { id: "PYSEC-2023-74", fix_versions: ["2.31.0"], aliases: ["CVE-2023-32681"] },
+              { id: "PYSEC-2099-1", fix_versions: [], aliases: [] },
+            ],
+          },
+        ]),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+      runner.setConfig({
+        allow_unfixable: true,
+        ignore: [{ id: "CVE-2023-32681", reason: "proxies unused", expires: "2999-12-31" }],
+      });
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+    });
   });
 
   describe("audit", () => {
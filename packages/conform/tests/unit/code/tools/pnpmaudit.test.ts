@@ -301,6 +301,90 @@ describe("PnpmAuditRunner", () => {
     });
   });
 
+  describe("advisory policy", () => {
+    const advisories = {
+      "1096": {
+        id: 1096,
+        github_advisory_id: "GHSA-p6mc-m468-83gw",
+        cves: ["CVE-2020-8203"],
+        module_name: "lodash",
+        severity: "high",
+        title: "Prototype Pollution in lodash",
+        url: "https://github.com/advisories/GHSA-p6mc-m468-83gw",
+        patched_versions: ">=4.17.19",
+        findings: [{ version: "4.17.15", paths: [".>express>lodash", ".>lodash"] }],
+      },
+      "1179": {
+        id: 1179,
+        github_advisory_id: "GHSA-vh95-rmgr-6w4m",
+        module_name: "minimist",
+        severity: "low",
+        title: "Prototype Pollution in minimist",
+        url: "https://github.com/advisories/GHSA-vh95-rmgr-6w4m",
+        patched_versions: "<0.0.0",
+        findings: [{ version: "0.0.8", paths: [".>mkdirp>minimist"] }],
+      },
+    };
+
+    beforeEach(() => {
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("pnpm-lock.yaml"));
+      mockExeca.mockResolvedValue({
+        stdout: JSON.stringify({ advisories }),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+    });
+
+    it("includes the advisory ID, path and patched versions", async () => {
+      const result = await runner.run("/project");
+
+      expect(result.violations[0]).toEqual({
+        rule: "code.security.pnpmaudit",
+        tool: "pnpmaudit",
+        file: "pnpm-lock.yaml",
+        message:
+          "lodash@4.17.15: Prototype Pollution in lodash [GHSA-p6mc-m468-83gw] " +
+          "via .>express>lodash (+1 more) (patched: >=4.17.19)",
+        code: "GHSA-p6mc-m468-83gw",
+        severity: "error",
+      });
+      expect(result.violations[1].message).toContain("(no patch available)");
+    });
+
+    it("filters advisories below min_severity", async () => {
+      runner.setConfig({ min_severity: "moderate" });
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.code)).toEqual(["GHSA-p6mc-m468-83gw"]);
+    });
+
+    it("filters unfixable advisories when allow_unfixable is set", async () => {
+      runner.setConfig({ allow_unfixable: true });
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.code)).toEqual(["GHSA-p6mc-m468-83gw"]);
+    });
+
+    it("ignores advisories by ID or CVE until the ignore expires", async () => {
+      runner.setConfig({
+        ignore: [
+          { id: "CVE-2020-8203", reason: "not reachable", expires: "2999-12-31" },
+          { id: "GHSA-vh95-rmgr-6w4m", reason: "dev tooling only", expires: "2000-01-01" },
+          { id: "GHSA-gone-gone-gone", reason: "fixed upstream", expires: "2000-01-01" },
+        ],
+      });
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        expect.stringContaining("minimist@0.0.8"),
+        "Ignore for GHSA-vh95-rmgr-6w4m expired on 2000-01-01 (dev tooling only)",
+      ]);
+    });
+  });
+
   describe("audit", () => {
     it("passes when pnpm-lock.yaml exists", async () => {
       mockExistsSync.mockImplementation((p) =>
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { PrettierRunner } from "../../../../src/code/tools/prettier.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+
+/** Mock a project whose files (relative to /project) have the given content */
+function setupFiles(files: Record<string, string>): void {
+  const paths = Object.fromEntries(Object.entries(files).map(([f, c]) => [`/project/${f}`, c]));
+  mockExistsSync.mockImplementation((p) => String(p) in paths);
+  mockReadFileSync.mockImplementation((p) => {
+    if (String(p) in paths) {
+      return paths[String(p)];
+    }
+    throw new Error(`ENOENT: ${String(p)}`);
+  });
+}
+
+describe("PrettierRunner", () => {
+  let runner: PrettierRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new PrettierRunner();
+    setupFiles({ ".prettierrc": "{}" });
+  });
+
+  describe("run", () => {
+    it("passes when all files are formatted", async () => {
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).toHaveBeenCalledWith(
+        "npx",
+        ["prettier", "--list-different", "--ignore-unknown", "."],
+        expect.objectContaining({ cwd: "/project" })
+      );
+    });
+
+    it("reports each unformatted file as a violation", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: "src/a.ts\nREADME.md\n",
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations).toEqual([
+        {
+          rule: "code.formatting.prettier",
+          tool: "prettier",
+          file: "src/a.ts",
+          message: "File is not formatted (run prettier --write)",
+          severity: "error",
+        },
+        expect.objectContaining({ file: "README.md" }),
+      ]);
+    });
+
+    it("reports a tool error when prettier fails", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "[error] Invalid configuration",
+        exitCode: 2,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toBe("Prettier error: [error] Invalid configuration");
+    });
+
+    it("only checks changed files", async () => {
+      mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+      runner.setTargetFiles(["src/a.ts", "logo.png"]);
+
+      await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "npx",
+        ["prettier", "--list-different", "--ignore-unknown", "src/a.ts", "logo.png"],
+        expect.anything()
+      );
+    });
+
+    it("passes without running when no files changed", async () => {
+      runner.setTargetFiles([]);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+
+    it("skips when prettier is not installed", async () => {
+      mockExeca.mockRejectedValue(new Error("spawn npx ENOENT"));
+
+      const result = await runner.run("/project");
+
+      expect(result.skipped).toBe(true);
+    });
+  });
+
+  describe("audit", () => {
+    it("fails when no config exists", async () => {
+      setupFiles({});
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toContain("Prettier config not found");
+      expect(result.violations[0].message).toContain('package.json "prettier" key');
+    });
+
+    it("accepts a prettier key in package.json", async () => {
+      setupFiles({ "package.json": JSON.stringify({ prettier: { semi: false } }) });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("passes when required options match", async () => {
+      setupFiles({ ".prettierrc": JSON.stringify({ printWidth: 100, singleQuote: false }) });
+      runner.setConfig({ require: { printWidth: 100, singleQuote: false, trailingComma: "all" } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("reports options that differ from the requirement", async () => {
+      setupFiles({ ".prettierrc.yaml": "printWidth: 120\ntrailingComma: es5\n" });
+      runner.setConfig({ require: { printWidth: 100, singleQuote: true, trailingComma: "all" } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "printWidth: expected 100, got 120",
+        "singleQuote: expected true, got false",
+        "trailingComma: expected all, got es5",
+      ]);
+      expect(result.violations[0].file).toBe(".prettierrc.yaml");
+    });
+
+    it("reads TOML configs", async () => {
+      setupFiles({ ".prettierrc.toml": "printWidth = 100\n" });
+      runner.setConfig({ require: { printWidth: 100 } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("reads options from package.json", async () => {
+      setupFiles({ "package.json": JSON.stringify({ prettier: { semi: false } }) });
+      runner.setConfig({ require: { semi: true } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations[0].message).toBe("semi: expected true, got false");
+      expect(result.violations[0].file).toBe("package.json");
+    });
+
+    it("cannot audit options in JavaScript configs", async () => {
+      setupFiles({ "prettier.config.js": "export default {};" });
+      runner.setConfig({ require: { printWidth: 100 } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toContain("Cannot audit options in prettier.config.js");
+    });
+
+    it("cannot audit options in a shared config", async () => {
+      setupFiles({ "package.json": JSON.stringify({ prettier: "@acme/prettier-config" }) });
+      runner.setConfig({ require: { printWidth: 100 } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations[0].message).toContain(
+        'shared Prettier config "@acme/prettier-config"'
+      );
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+    readFileSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { RuffFormatRunner } from "../../../../src/code/tools/ruff-format.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+const mockReadFileSync = vi.mocked(fs.readFileSync);
+
+/** Mock a project whose files (relative to /project) have the given content */
+function setupFiles(files: Record<string, string>): void {
+  const paths = Object.fromEntries(Object.entries(files).map(([f, c]) => [`/project/${f}`, c]));
+  mockExistsSync.mockImplementation((p) => String(p) in paths);
+  mockReadFileSync.mockImplementation((p) => {
+    if (String(p) in paths) {
+      return paths[String(p)];
+    }
+    throw new Error(`ENOENT: ${String(p)}`);
+  });
+}
+
+describe("RuffFormatRunner", () => {
+  let runner: RuffFormatRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new RuffFormatRunner();
+    setupFiles({ "pyproject.toml": "[tool.ruff.format]\n" });
+  });
+
+  describe("run", () => {
+    it("passes when all files are formatted", async () => {
+      mockExeca.mockResolvedValue({ stdout: "2 files already formatted", exitCode: 0 } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca).toHaveBeenCalledWith(
+        "ruff",
+        ["format", "--check", "."],
+        expect.objectContaining({ cwd: "/project" })
+      );
+    });
+
+    it("reports each file ruff would reformat", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: [
+          "Would reformat: app/main.py",
+          "Would reformat: app/util.py",
+          "2 files would be reformatted",
+        ].join("\n"),
+        stderr: "",
+        exitCode: 1,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => v.file)).toEqual(["app/main.py", "app/util.py"]);
+      expect(result.violations[0]).toMatchObject({
+        rule: "code.formatting.ruff-format",
+        tool: "ruff-format",
+        message: "File is not formatted (run ruff format)",
+      });
+    });
+
+    it("reports a tool error when ruff fails", async () => {
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "error: Failed to parse app/bad.py",
+        exitCode: 2,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations[0].message).toBe(
+        "Ruff Format error: error: Failed to parse app/bad.py"
+      );
+    });
+
+    it("only checks changed Python files", async () => {
+      mockExeca.mockResolvedValue({ stdout: "", exitCode: 0 } as any);
+      runner.setTargetFiles(["app/main.py", "README.md"]);
+
+      await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledWith(
+        "ruff",
+        ["format", "--check", "app/main.py"],
+        expect.anything()
+      );
+    });
+
+    it("skips when ruff is not installed", async () => {
+      mockExeca.mockResolvedValue({
+        failed: true,
+        code: "ENOENT",
+        message: "spawn ruff ENOENT",
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.skipped).toBe(true);
+    });
+  });
+
+  describe("fix", () => {
+    it("formats each unformatted file through ruff format on stdin", async () => {
+      setupFiles({
+        "pyproject.toml": "[tool.ruff.format]\n",
+        "app/main.py": "x = 'a'\n",
+        "app/broken.py": "def (:\n",
+      });
+      mockExeca
+        .mockResolvedValueOnce({
+          stdout: "Would reformat: app/main.py\nWould reformat: app/broken.py\n",
+          stderr: "",
+          exitCode: 1,
+        } as any)
+        .mockResolvedValueOnce({ stdout: 'x = "a"\n', stderr: "", exitCode: 0 } as any)
+        .mockResolvedValueOnce({ stdout: "", stderr: "error: Failed to parse", exitCode: 2 } as any);
+
+      const result = await runner.fix("/project");
+
+      expect(mockExeca).toHaveBeenNthCalledWith(
+        2,
+        "ruff",
+        ["format", "--stdin-filename", "app/main.py", "-"],
+        expect.objectContaining({ cwd: "/project", input: "x = 'a'\n" })
+      );
+      expect(result.changes).toEqual([
+        {
+          file: "app/main.py",
+          before: "x = 'a'\n",
+          after: 'x = "a"\n',
+          description: "Apply Ruff formatting",
+        },
+      ]);
+      expect(result.remaining.map((v) => v.file)).toEqual(["app/broken.py"]);
+    });
+
+    it("skips when ruff is not installed", async () => {
+      mockExeca.mockResolvedValue({
+        failed: true,
+        code: "ENOENT",
+        message: "spawn ruff ENOENT",
+      } as any);
+
+      const result = await runner.fix("/project");
+
+      expect(result.skipped).toBe(true);
+      expect(result.changes).toEqual([]);
+    });
+  });
+
+  describe("audit", () => {
+    it("fails without [tool.ruff.format] or ruff.toml", async () => {
+      setupFiles({ "pyproject.toml": "[tool.ruff]\nline-length = 100\n" });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations[0].message).toContain("pyproject.toml [tool.ruff.format]");
+    });
+
+    it("accepts ruff.toml", async () => {
+      setupFiles({ "ruff.toml": "line-length = 100\n" });
+
+      const result = await runner.audit("/project");
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("verifies required options from pyproject.toml", async () => {
+      setupFiles({
+        "pyproject.toml": [
+          "[tool.ruff]",
+          "line-length = 100",
+          "[tool.ruff.format]",
+          'quote-style = "single"',
+        ].join("\n"),
+      });
+      runner.setConfig({
+        require: {
+          "line-length": 100,
+          "quote-style": "double",
+          "skip-magic-trailing-comma": false,
+        },
+      });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "quote-style: expected double, got single",
+      ]);
+      expect(result.violations[0].file).toBe("pyproject.toml");
+    });
+
+    it("verifies required options from ruff.toml", async () => {
+      setupFiles({ "ruff.toml": "line-length = 120\n[format]\nindent-style = \"tab\"\n" });
+      runner.setConfig({ require: { "line-length": 100, "indent-style": "tab" } });
+
+      const result = await runner.audit("/project");
+
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "line-length: expected 100, got 120",
+      ]);
+    });
+  });
+});
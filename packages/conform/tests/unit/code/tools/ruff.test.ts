@@ -224,6 +224,102 @@ describe("RuffRunner", () => {
         expect.any(Object)
       );
     });
+    it("lints only changed Python files", async () => {
+      runner.setTargetFiles(["app/main.py", "app/types.pyi", "README.md"]);
+
+      mockExeca.mockResolvedValueOnce({
+        stdout: "[]",
+        stderr: "",
+        exitCode: 0,
+        failed: false,
+      } as any);
+
+      await runner.run("/project");
+
+      expect(mockExeca).toHaveBeenCalledTimes(1);
+      expect(mockExeca).toHaveBeenCalledWith(
+        "ruff",
+        ["check", "app/main.py", "app/types.pyi", "--output-format", "json"],
+        expect.any(Object)
+      );
+    });
+
+    it("skips when no changed Python files", async () => {
+      runner.setTargetFiles(["README.md"]);
+
+      const result = await runner.run("/project");
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe("No changed Python files");
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("fix", () => {
+    const findResult = { stdout: "./main.py", stderr: "", exitCode: 0, failed: false } as any;
+
+    it("skips when no Python files found", async () => {
+      mockExeca.mockResolvedValueOnce({ ...findResult, stdout: "" });
+
+      const result = await runner.fix("/project");
+
+      expect(result.skipped).toBe(true);
+    });
+
+    it("pipes files with safe fixes through ruff and keeps the rest as remaining", async () => {
+      vi.mocked(fs.readFileSync).mockReturnValue("import os\nx = 1\n");
+      mockExeca.mockResolvedValueOnce(findResult);
+      mockExeca.mockResolvedValueOnce({
+        stdout: JSON.stringify([
+          {
+            code: "F401",
+            message: "`os` imported but unused",
+            filename: "/project/main.py",
+            location: { row: 1, column: 8 },
+            fix: { applicability: "safe" },
+          },
+          {
+            code: "E501",
+            message: "Line too long",
+            filename: "/project/main.py",
+            location: { row: 2, column: 89 },
+            fix: null,
+          },
+        ]),
+        stderr: "",
+        exitCode: 1,
+        failed: false,
+      } as any);
+      mockExeca.mockResolvedValueOnce({ stdout: "x = 1\n", stderr: "", exitCode: 0 } as any);
+
+      const result = await runner.fix("/project");
+
+      expect(mockExeca).toHaveBeenLastCalledWith(
+        "ruff",
+        ["check", "--fix", "--stdin-filename", "main.py", "-"],
+        expect.objectContaining({ input: "import os\nx = 1\n" })
+      );
+      expect(result.changes).toEqual([
+        {
+          file: "main.py",
+          before: "import os\nx = 1\n",
+          after: "x = 1\n",
+          description: "Apply Ruff fixes",
+        },
+      ]);
+      expect(result.remaining).toHaveLength(1);
+      expect(result.remaining[0].code).toBe("E501");
+    });
+
+    it("skips when ruff is not installed", async () => {
+      mockExeca.mockResolvedValueOnce(findResult);
+      mockExeca.mockResolvedValueOnce({ code: "ENOENT", failed: true } as any);
+
+      const result = await runner.fix("/project");
+
+      expect(result.skipped).toBe(true);
+      expect(result.skipReason).toBe("Ruff not installed");
+    });
   });
 
   describe("audit", () => {
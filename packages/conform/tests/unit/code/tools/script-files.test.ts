@@ -0,0 +1,15 @@
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { scriptKind } from "../../../../src/code/tools/script-files.js";
+
+describe("scriptKind", () => {
+  it("picks the script kind from the file extension", () => {
+    expect(scriptKind("src/card.tsx")).toBe(ts.ScriptKind.TSX);
+    expect(scriptKind("src/index.ts")).toBe(ts.ScriptKind.TS);
+    expect(scriptKind("src/index.mts")).toBe(ts.ScriptKind.TS);
+    expect(scriptKind("src/index.cts")).toBe(ts.ScriptKind.TS);
+    expect(scriptKind("src/card.jsx")).toBe(ts.ScriptKind.JSX);
+    expect(scriptKind("src/index.mjs")).toBe(ts.ScriptKind.JS);
+  });
+});
@@ -1,4 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { minimatch } from "minimatch";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 vi.mock("execa", () => ({
   execa: vi.fn(),
@@ -20,6 +24,8 @@ import { TscRunner } from "../../../../src/code/tools/tsc.js";
 const mockExeca = vi.mocked(execa);
 const mockExistsSync = vi.mocked(fs.existsSync);
 
+const actualFs = await vi.importActual<typeof fs>("node:fs");
+
 describe("TscRunner", () => {
   let runner: TscRunner;
 
@@ -125,6 +131,88 @@ describe("TscRunner", () => {
       expect(result.violations[0].message).toContain("something unexpected");
     });
 
+    it("runs tsc --noEmit for each configured project in parallel", async () => {
+      runner.setConfig({ projects: ["tsconfig.json", "tsconfig.build.json"] });
+      mockExistsSync.mockReturnValue(true);
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "",
+        exitCode: 0,
+        failed: false,
+      } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(true);
+      expect(mockExeca.mock.calls.map((call) => call[1])).toEqual([
+        ["tsc", "--noEmit", "-p", "tsconfig.json"],
+        ["tsc", "--noEmit", "-p", "tsconfig.build.json"],
+      ]);
+    });
+
+    it("fails for each configured project that doesn't exist", async () => {
+      runner.setConfig({
+        projects: ["tsconfig.json", "tsconfig.build.json", "tsconfig.test.json"],
+      });
+      mockExistsSync.mockImplementation((p) => String(p).endsWith("tsconfig.json"));
+
+      const result = await runner.run("/project");
+
+      expect(result.passed).toBe(false);
+      expect(result.violations.map((v) => v.message)).toEqual([
+        "tsconfig.build.json not found",
+        "tsconfig.test.json not found",
+      ]);
+      expect(mockExeca).not.toHaveBeenCalled();
+    });
+
+    it("runs a single tsc -b for all projects in build mode", async () => {
+      runner.setConfig({ projects: ["packages/a", "packages/b"], build: true });
+      mockExistsSync.mockReturnValue(true);
+      mockExeca.mockResolvedValue({
+        stdout: "",
+        stderr: "",
+        exitCode: 0,
+        failed: false,
+      } as any);
+
+      await runner.run("/project");
+
+      expect(mockExeca.mock.calls.map((call) => call[1])).toEqual([
+        ["tsc", "-b", "packages/a", "packages/b"],
+      ]);
+    });
+
+    it("reports an error shared by several projects once", async () => {
+      runner.setConfig({ projects: ["tsconfig.json", "tsconfig.test.json"] });
+      mockExistsSync.mockReturnValue(true);
+      const shared =
+        "/project/src/index.ts(1,7): error TS2322: Type 'string' is not assignable to type 'number'.";
+      mockExeca
+        .mockResolvedValueOnce({
+          stdout: shared,
+          stderr: "",
+          exitCode: 2,
+          failed: true,
+        } as any)
+        .mockResolvedValueOnce({
+          stdout: [
+            shared,
+            "/project/test/index.test.ts(4,1): error TS2304: Cannot find name 'it'.",
+          ].join("\n"),
+          stderr: "",
+          exitCode: 2,
+          failed: true,
+        } as any);
+
+      const result = await runner.run("/project");
+
+      expect(result.violations.map((v) => `${v.file}:${v.line} ${v.code}`)).toEqual([
+        "src/index.ts:1 TS2322",
+        "test/index.test.ts:4 TS2304",
+      ]);
+    });
+
     it("returns error violation when exit code is non-zero with stderr output", async () => {
       mockExistsSync.mockImplementation((p) =>
         String(p).endsWith("tsconfig.json")
@@ -142,4 +230,81 @@ describe("TscRunner", () => {
       expect(result.violations[0].message).toContain("TypeScript error");
     });
   });
+
+  describe("sourcePatterns", () => {
+    it("includes JavaScript and JSON files, for allowJs and resolveJsonModule", () => {
+      const isInput = (file: string): boolean =>
+        runner.sourcePatterns.some((pattern) => minimatch(file, pattern));
+
+      expect(isInput("src/index.ts")).toBe(true);
+      expect(isInput("src/legacy.js")).toBe(true);
+      expect(isInput("src/data/locales.json")).toBe(true);
+      expect(isInput("tsconfig.build.json")).toBe(true);
+      expect(isInput("README.md")).toBe(false);
+    });
+  });
+
+  describe("audit", () => {
+    let projectRoot: string;
+
+    function write(file: string, content: unknown): void {
+      actualFs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+      actualFs.writeFileSync(path.join(projectRoot, file), JSON.stringify(content));
+    }
+
+    beforeEach(() => {
+      mockExistsSync.mockImplementation(actualFs.existsSync);
+      projectRoot = actualFs.mkdtempSync(path.join(os.tmpdir(), "conform-tsc-"));
+      runner.setRequiredOptions({ strict: true, noUnusedLocals: true });
+    });
+
+    afterEach(() => {
+      actualFs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it("passes when required options are inherited through extends", async () => {
+      write("node_modules/@tsconfig/strictest/tsconfig.json", {
+        compilerOptions: { strict: true, noUnusedLocals: true },
+      });
+      write("tsconfig.base.json", { extends: "@tsconfig/strictest/tsconfig.json" });
+      write("tsconfig.json", { extends: "./tsconfig.base.json", include: ["src"] });
+
+      const result = await runner.audit(projectRoot);
+
+      expect(result.passed).toBe(true);
+    });
+
+    it("checks every configured project", async () => {
+      runner.setConfig({ projects: ["tsconfig.json", "tsconfig.build.json"] });
+      write("tsconfig.json", { compilerOptions: { strict: true, noUnusedLocals: true } });
+      write("tsconfig.build.json", {
+        extends: "./tsconfig.json",
+        compilerOptions: { strict: false },
+      });
+
+      const result = await runner.audit(projectRoot);
+
+      expect(result.violations.map((v) => [v.file, v.message])).toEqual([
+        ["tsconfig.build.json", "strict: expected true, got false"],
+      ]);
+    });
+
+    it("reports missing options, missing projects and unresolvable extends", async () => {
+      runner.setConfig({ projects: ["tsconfig.json", "tsconfig.lib.json", "tsconfig.test.json"] });
+      write("tsconfig.json", { compilerOptions: { strict: true } });
+      write("tsconfig.test.json", { extends: "@tsconfig/missing" });
+
+      const result = await runner.audit(projectRoot);
+
+      expect(result.passed).toBe(false);
+      expect(result.violations.map((v) => [v.file, v.message])).toEqual([
+        ["tsconfig.json", "noUnusedLocals: expected true, got missing"],
+        ["tsconfig.lib.json", "tsconfig.lib.json not found"],
+        [
+          "tsconfig.test.json",
+          expect.stringMatching(/^Failed to resolve tsconfig.test.json: .*@tsconfig\/missing/),
+        ],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,67 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { findTsconfigInputs, readTsconfig } from "../../../../src/code/tools/tsconfig.js";
+
+let projectRoot: string;
+
+function write(file: string, content: unknown): string {
+  const filePath = path.join(projectRoot, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(content));
+  return filePath;
+}
+
+beforeEach(() => {
+  projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "conform-tsconfig-")));
+});
+
+afterEach(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("readTsconfig", () => {
+  it("resolves options and files through relative and package extends", () => {
+    const strictest = write("node_modules/@tsconfig/strictest/tsconfig.json", {
+      compilerOptions: { strict: true },
+    });
+    const base = write("tsconfig.base.json", { extends: "@tsconfig/strictest/tsconfig.json" });
+    const config = write("tsconfig.json", {
+      extends: "./tsconfig.base.json",
+      compilerOptions: { noUnusedLocals: true },
+    });
+
+    const tsconfig = readTsconfig(config);
+
+    expect(tsconfig.options).toMatchObject({ strict: true, noUnusedLocals: true });
+    expect(tsconfig.errors).toEqual([]);
+    expect(tsconfig.files.sort()).toEqual([base, strictest, config].sort());
+  });
+
+  it("reports an extends that can't be resolved", () => {
+    const config = write("tsconfig.json", { extends: "@tsconfig/missing" });
+
+    expect(readTsconfig(config).errors.map((e) => e.code)).toEqual([6053]);
+  });
+});
+
+describe("findTsconfigInputs", () => {
+  it("follows project references, given as directories or files", () => {
+    const shared = write("tsconfig.shared.json", { compilerOptions: { strict: true } });
+    const core = write("packages/core/tsconfig.json", {
+      extends: "../../tsconfig.shared.json",
+      compilerOptions: { composite: true },
+    });
+    const build = write("tsconfig.build.json", {
+      files: [],
+      references: [{ path: "packages/core" }, { path: "packages/core/tsconfig.json" }],
+    });
+
+    const inputs = findTsconfigInputs([build, path.join(projectRoot, "missing.json")]);
+
+    expect(inputs.sort()).toEqual([build, core, shared].sort());
+  });
+});
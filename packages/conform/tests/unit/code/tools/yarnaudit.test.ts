@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("execa", () => ({
+  execa: vi.fn(),
+}));
+
+vi.mock("node:fs", async () => {
+  const actual = await vi.importActual("node:fs");
+  return {
+    ...actual,
+    existsSync: vi.fn(),
+  };
+});
+
+import { execa } from "execa";
+import * as fs from "node:fs";
+import { YarnAuditRunner } from "../../../../src/code/tools/yarnaudit.js";
+
+const mockExeca = vi.mocked(execa);
+const mockExistsSync = vi.mocked(fs.existsSync);
+
+/** A line of yarn npm audit --json output */
+function advisory(id: number, severity: string, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    value: "minimist",
+    children: {
+      ID: id,
+      Issue: "Prototype Pollution in minimist",
+      URL: "https://github.com/advisories/GHSA-xvch-5gv4-984h",
+      Severity: severity,
+      "Vulnerable Versions": "<1.2.6",
+      "Tree Versions": ["1.2.5"],
+      Dependents: ["mkdirp@npm:0.5.5"],
+      ...extra,
+    },
+  });
+}
+
+describe("YarnAuditRunner", () => {
+  let runner: YarnAuditRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    runner = new YarnAuditRunner();
+    mockExistsSync.mockImplementation((p) => String(p).endsWith("yarn.lock"));
+  });
+
+  it("fails when yarn.lock does not exist", async () => {
+    mockExistsSync.mockReturnValue(false);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe("No yarn.lock found");
+  });
+
+  it("audits production dependencies only by default", async () => {
+    mockExeca.mockResolvedValue({ stdout: "", stderr: "", exitCode: 0 } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+    expect(mockExeca).toHaveBeenCalledWith(
+      "yarn",
+      ["npm", "audit", "--json", "--recursive", "--environment", "production"],
+      expect.objectContaining({ cwd: "/project" })
+    );
+  });
+
+  it("parses advisories into violations", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: `${advisory(1179, "critical")}\n`,
+      stderr: "",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(false);
+    expect(result.violations).toEqual([
+      {
+        rule: "code.security.yarnaudit",
+        tool: "yarnaudit",
+        file: "yarn.lock",
+        message:
+          "minimist@1.2.5: Prototype Pollution in minimist [GHSA-xvch-5gv4-984h] " +
+          "via mkdirp@npm:0.5.5>minimist (vulnerable: <1.2.6)",
+        code: "GHSA-xvch-5gv4-984h",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("filters advisories below min_severity", async () => {
+    runner.setConfig({ min_severity: "high" });
+    mockExeca.mockResolvedValue({
+      stdout: advisory(1179, "moderate"),
+      stderr: "",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.passed).toBe(true);
+  });
+
+  it("only treats advisories without a patched release as unfixable", async () => {
+    runner.setConfig({ allow_unfixable: true });
+    mockExeca.mockResolvedValue({
+      stdout: [
+        advisory(1, "high", { "Patched Versions": "<0.0.0" }),
+        advisory(2, "high", { "Patched Versions": ">=1.2.6" }),
+        advisory(3, "high"),
+      ].join("\n"),
+      stderr: "",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations.map((v) => v.message)).toEqual([
+      expect.stringMatching(/\[GHSA-xvch-5gv4-984h\] .* \(patched: >=1\.2\.6\)$/),
+      expect.stringMatching(/\(vulnerable: <1\.2\.6\)$/),
+    ]);
+  });
+
+  it("reports yarn errors", async () => {
+    mockExeca.mockResolvedValue({
+      stdout: "Usage Error: Couldn't find a script named \"npm\".",
+      stderr: "",
+      exitCode: 1,
+    } as any);
+
+    const result = await runner.run("/project");
+
+    expect(result.violations[0].message).toBe(
+      'yarn audit error: Usage Error: Couldn\'t find a script named "npm".'
+    );
+  });
+});
@@ -216,6 +216,31 @@ enabled = true
     expect(result.config.code?.linting?.eslint?.enabled).toBe(true);
     expect(result.config.process?.hooks?.enabled).toBe(false); // default
   });
+
+  it("reads TOML dates as YYYY-MM-DD strings", () => {
+    const mockExistsSync = vi.mocked(fs.existsSync);
+    const mockReadFileSync = vi.mocked(fs.readFileSync);
+    const mockLstatSync = vi.mocked(fs.lstatSync);
+
+    const configPath = "/test/project/standards.toml";
+
+    mockLstatSync.mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+    mockExistsSync.mockImplementation((p) => p === configPath);
+    mockReadFileSync.mockReturnValue(`
+[code.security.pnpmaudit]
+enabled = true
+
+[[code.security.pnpmaudit.ignore]]
+id = "GHSA-aaaa-bbbb-cccc"
+reason = "not reachable"
+expires = 2030-01-31
+`);
+
+    const result = loadConfig(configPath);
+    expect(result.config.code?.security?.pnpmaudit?.ignore?.[0].expires).toBe("2030-01-31");
+  });
 });
 
 describe("getProjectRoot", () => {
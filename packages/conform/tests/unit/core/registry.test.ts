@@ -321,6 +321,50 @@ describe("mergeConfigs", () => {
     expect(result.monorepo?.exclude).toEqual(["new/**"]);
   });
 
+  it("merges plugins by name and merges their config tables", () => {
+    const base: Config = {
+      plugins: {
+        license: { module: "@acme/conform-license", enabled: true, config: { year: 2024, org: "acme" } },
+        other: { module: "./other.mjs", enabled: true },
+      },
+    };
+    const override: Config = {
+      plugins: {
+        license: { enabled: true, config: { year: 2025 } },
+      },
+    };
+    const result = mergeConfigs(base, override);
+    expect(result.plugins?.license).toEqual({
+      module: "@acme/conform-license",
+      enabled: true,
+      config: { year: 2025, org: "acme" },
+    });
+    expect(result.plugins?.other?.module).toBe("./other.mjs");
+  });
+
+  it("merges custom tools by name", () => {
+    const parser = { type: "sarif" as const };
+    const tool = (command: string) => ({
+      enabled: true,
+      command,
+      args: [],
+      pass_exit_codes: [0],
+      fail_exit_codes: [1],
+      output: "stdout" as const,
+      parser,
+    });
+    const base: Config = {
+      code: { custom: { shellcheck: tool("shellcheck"), hadolint: tool("hadolint") } },
+    };
+    const override: Config = {
+      code: { custom: { shellcheck: { ...tool("shellcheck-v2"), enabled: false } } },
+    };
+    const result = mergeConfigs(base, override);
+    expect(result.code?.custom?.shellcheck.command).toBe("shellcheck-v2");
+    expect(result.code?.custom?.shellcheck.enabled).toBe(false);
+    expect(result.code?.custom?.hadolint.command).toBe("hadolint");
+  });
+
   it("merges code security section", () => {
     const base: Config = {
       code: {
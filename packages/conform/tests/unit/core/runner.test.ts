@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { runTools } from "../../../src/core/runner.js";
+import type { CheckResult, IToolRunner } from "../../../src/core/index.js";
+
+function makeTool(toolId: string, run: () => Promise<CheckResult>): IToolRunner {
+  return {
+    name: toolId,
+    rule: "code.linting",
+    toolId,
+    configFiles: [],
+    run: vi.fn(run),
+    audit: vi.fn(run),
+  };
+}
+
+const passed: CheckResult = {
+  name: "ok",
+  rule: "code.linting",
+  passed: true,
+  violations: [],
+  skipped: false,
+};
+
+describe("runTools", () => {
+  it("calls run or audit depending on the mode", async () => {
+    const tool = makeTool("ok", async () => passed);
+
+    await runTools([tool], "/project", "run");
+    await runTools([tool], "/project", "audit");
+
+    expect(tool.run).toHaveBeenCalledWith("/project");
+    expect(tool.audit).toHaveBeenCalledWith("/project");
+  });
+
+  it("tags results with the toolId and isolates thrown errors", async () => {
+    const ok = makeTool("ok", async () => passed);
+    const broken = makeTool("broken", async () => {
+      throw new Error("boom");
+    });
+
+    const results = await runTools([ok, broken], "/project", "run");
+
+    expect(results[0]).toEqual({ ...passed, toolId: "ok" });
+    expect(results[1]).toEqual({
+      name: "broken",
+      rule: "code.linting",
+      passed: false,
+      violations: [
+        { rule: "code.linting", tool: "broken", message: "Tool error: boom", severity: "error" },
+      ],
+      skipped: false,
+      duration: 0,
+      toolId: "broken",
+    });
+  });
+});
@@ -94,6 +94,27 @@ describe("configSchema", () => {
       expect(result.success).toBe(true);
     });
 
+    it("accepts code.types.tsc projects in build mode", () => {
+      const config = {
+        code: {
+          types: {
+            tsc: {
+              enabled: true,
+              projects: ["packages/core/tsconfig.build.json", "packages/cli"],
+              build: true,
+              require: { strict: true },
+            },
+          },
+        },
+      };
+      expect(configSchema.safeParse(config).success).toBe(true);
+    });
+
+    it("rejects an empty code.types.tsc projects list", () => {
+      const config = { code: { types: { tsc: { projects: [] } } } };
+      expect(configSchema.safeParse(config).success).toBe(false);
+    });
+
     it("accepts code.coverage_run configuration", () => {
       const config = {
         code: {
@@ -141,6 +162,66 @@ describe("configSchema", () => {
       expect(result.success).toBe(true);
     });
 
+    it("accepts code.naming identifier rules with a case or pattern", () => {
+      const config = {
+        code: {
+          naming: {
+            enabled: true,
+            identifier_rules: [
+              { extensions: ["ts"], kinds: ["constant"], case: "SCREAMING_SNAKE_CASE" },
+              { extensions: ["tsx"], kinds: ["hook"], pattern: "^use[A-Z]" },
+            ],
+            component_file_matches_export: true,
+          },
+        },
+      };
+      expect(configSchema.safeParse(config).success).toBe(true);
+    });
+
+    it("rejects code.naming identifier rules without a case or pattern", () => {
+      const config = {
+        code: {
+          naming: {
+            identifier_rules: [{ extensions: ["ts"], kinds: ["function"] }],
+          },
+        },
+      };
+      const result = configSchema.safeParse(config);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe("Identifier rule needs a case or a pattern");
+    });
+
+    it("accepts code.architecture layers and rules", () => {
+      const config = {
+        code: {
+          architecture: {
+            enabled: true,
+            layers: [
+              { name: "ui", files: ["src/ui/**"], allow: ["domain"] },
+              { name: "domain", files: ["src/domain/**"] },
+            ],
+            forbidden: [{ from: ["src/**"], to: ["lodash"], message: "Use the standard library" }],
+            no_cycles: true,
+            packages: ["packages/*"],
+          },
+        },
+      };
+      expect(configSchema.safeParse(config).success).toBe(true);
+    });
+
+    it("rejects code.architecture layers allowing an unknown layer", () => {
+      const config = {
+        code: {
+          architecture: {
+            layers: [{ name: "ui", files: ["src/ui/**"], allow: ["domian"] }],
+          },
+        },
+      };
+      const result = configSchema.safeParse(config);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe('Layer "ui" allows unknown layer "domian"');
+    });
+
     it("rejects invalid coverage threshold", () => {
       const config = {
         code: {
@@ -278,6 +359,82 @@ describe("configSchema", () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe("code.custom section", () => {
+    const shellcheck = {
+      enabled: true,
+      command: "shellcheck",
+      args: ["-f", "gcc", "run.sh"],
+      parser: { type: "regex", pattern: "^(?<file>[^:]+):(?<line>\\d+): (?<message>.+)$" },
+    };
+
+    it("accepts a custom tool and applies defaults", () => {
+      const result = configSchema.safeParse({ code: { custom: { shellcheck } } });
+      expect(result.success).toBe(true);
+      expect(result.data?.code?.custom?.shellcheck).toMatchObject({
+        pass_exit_codes: [0],
+        fail_exit_codes: [1],
+        output: "stdout",
+      });
+    });
+
+    it("accepts json and sarif parsers", () => {
+      const result = configSchema.safeParse({
+        code: {
+          custom: {
+            hadolint: {
+              command: "hadolint",
+              parser: { type: "json", fields: { file: "file", message: "message" } },
+            },
+            markdownlint: { command: "markdownlint", parser: { type: "sarif" } },
+          },
+        },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects a regex without a message group", () => {
+      const result = configSchema.safeParse({
+        code: { custom: { shellcheck: { ...shellcheck, parser: { type: "regex", pattern: ".+" } } } },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects an invalid regex", () => {
+      const result = configSchema.safeParse({
+        code: {
+          custom: { shellcheck: { ...shellcheck, parser: { type: "regex", pattern: "(?<message>" } } },
+        },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects an unknown parser type", () => {
+      const result = configSchema.safeParse({
+        code: { custom: { shellcheck: { ...shellcheck, parser: { type: "xml" } } } },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("plugins section", () => {
+    it("accepts plugins with free-form config", () => {
+      const result = configSchema.safeParse({
+        plugins: {
+          license: { module: "./plugins/license.mjs", domain: "legal", config: { year: 2024 } },
+        },
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.plugins?.license.enabled).toBe(true);
+    });
+
+    it("rejects unknown plugin keys", () => {
+      const result = configSchema.safeParse({
+        plugins: { license: { module: "./plugins/license.mjs", year: 2024 } },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
 
 describe("defaultConfig", () => {
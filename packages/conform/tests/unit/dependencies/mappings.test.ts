@@ -67,10 +67,30 @@ describe("BUILTIN_MAPPINGS", () => {
     expect(BUILTIN_MAPPINGS.pnpmaudit).toBeDefined();
   });
 
+  it("has npm and yarn audit mappings", () => {
+    expect(BUILTIN_MAPPINGS.npmaudit.configFiles).toContain("package-lock.json");
+    expect(BUILTIN_MAPPINGS.yarnaudit.configFiles).toContain("yarn.lock");
+  });
+
   it("has pipaudit mapping", () => {
     expect(BUILTIN_MAPPINGS.pipaudit).toBeDefined();
   });
 
+  it("has Go tool mappings", () => {
+    expect(BUILTIN_MAPPINGS["golangci-lint"].configFiles).toContain(".golangci.yml");
+    expect(BUILTIN_MAPPINGS.govet.configFiles).toContain("go.mod");
+    expect(BUILTIN_MAPPINGS.govulncheck.configFiles).toContain("go.sum");
+    expect(BUILTIN_MAPPINGS.go.configFiles).toContain("go.mod");
+  });
+
+  it("has Rust tool mappings", () => {
+    expect(BUILTIN_MAPPINGS.clippy.configFiles).toContain("clippy.toml");
+    expect(BUILTIN_MAPPINGS["cargo-check"].configFiles).toContain("Cargo.toml");
+    expect(BUILTIN_MAPPINGS["cargo-audit"].configFiles).toContain("Cargo.lock");
+    expect(BUILTIN_MAPPINGS["llvm-cov"].configFiles).toContain("Cargo.toml");
+    expect(BUILTIN_MAPPINGS.tarpaulin.configFiles).toContain("tarpaulin.toml");
+  });
+
   it("each mapping has toolId matching its key", () => {
     for (const [key, mapping] of Object.entries(BUILTIN_MAPPINGS)) {
       expect(mapping.toolId).toBe(key);
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+
+import { createUnifiedDiff } from "../../../src/fix/diff.js";
+
+describe("createUnifiedDiff", () => {
+  it("returns an empty string when nothing changes", () => {
+    expect(createUnifiedDiff({ file: "a.ts", before: "x\n", after: "x\n", description: "" })).toBe(
+      ""
+    );
+  });
+
+  it("shows changed lines with surrounding context", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9"].join("\n") + "\n";
+    const after = before.replace("5", "five");
+
+    const diff = createUnifiedDiff({ file: "a.ts", before, after, description: "" });
+
+    expect(diff).toBe(
+      [
+        "--- a/a.ts",
+        "+++ b/a.ts",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const before = lines.join("\n");
+    const after = lines.map((l, i) => (i === 0 || i === 19 ? `${l}!` : l)).join("\n");
+
+    const diff = createUnifiedDiff({ file: "a.ts", before, after, description: "" });
+
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain("@@ -1,4 +1,4 @@");
+    expect(diff).toContain("@@ -17,4 +17,4 @@");
+  });
+
+  it("diffs new files against /dev/null", () => {
+    const diff = createUnifiedDiff({ file: "new.yml", before: null, after: "a\nb\n", description: "" });
+
+    expect(diff).toBe(["--- /dev/null", "+++ b/new.yml", "@@ -0,0 +1,2 @@", "+a", "+b"].join("\n"));
+  });
+
+  it("shows rename headers for renames without content changes", () => {
+    const diff = createUnifiedDiff({
+      file: "src/MyFile.ts",
+      before: "x\n",
+      after: "x\n",
+      renameTo: "src/my-file.ts",
+      description: "",
+    });
+
+    expect(diff).toBe("rename from src/MyFile.ts\nrename to src/my-file.ts");
+  });
+});
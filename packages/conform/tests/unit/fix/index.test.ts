@@ -0,0 +1,119 @@
+vi.mock("../../../src/code/index.js", () => ({
+  fixCode: vi.fn(),
+}));
+
+vi.mock("../../../src/process/index.js", () => ({
+  fixProcess: vi.fn(),
+}));
+
+vi.mock("../../../src/plugins/index.js", () => ({
+  fixPlugins: vi.fn(),
+}));
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { fixCode } from "../../../src/code/index.js";
+import { type Config, type FixResult } from "../../../src/core/index.js";
+import { applyChanges, fixProject } from "../../../src/fix/index.js";
+import { fixPlugins } from "../../../src/plugins/index.js";
+import { fixProcess } from "../../../src/process/index.js";
+
+function makeFixResult(overrides: Partial<FixResult> = {}): FixResult {
+  return {
+    name: "ESLint",
+    rule: "code.linting",
+    changes: [],
+    remaining: [],
+    skipped: false,
+    ...overrides,
+  };
+}
+
+let projectRoot: string;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-fix-"));
+  vi.mocked(fixCode).mockResolvedValue([]);
+  vi.mocked(fixProcess).mockResolvedValue([]);
+  vi.mocked(fixPlugins).mockResolvedValue({});
+});
+
+afterEach(() => {
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("applyChanges", () => {
+  it("writes changed content and creates new files", () => {
+    fs.writeFileSync(path.join(projectRoot, "a.ts"), "old\n");
+
+    applyChanges(projectRoot, [
+      { file: "a.ts", before: "old\n", after: "new\n", description: "" },
+      { file: ".github/workflows/ci.yml", before: null, after: "on: push\n", description: "" },
+    ]);
+
+    expect(fs.readFileSync(path.join(projectRoot, "a.ts"), "utf-8")).toBe("new\n");
+    expect(fs.readFileSync(path.join(projectRoot, ".github/workflows/ci.yml"), "utf-8")).toBe(
+      "on: push\n"
+    );
+  });
+
+  it("renames files after writing their content", () => {
+    fs.writeFileSync(path.join(projectRoot, "MyFile.ts"), "old\n");
+
+    applyChanges(projectRoot, [
+      { file: "MyFile.ts", before: "old\n", after: "new\n", renameTo: "my-file.ts", description: "" },
+    ]);
+
+    expect(fs.existsSync(path.join(projectRoot, "MyFile.ts"))).toBe(false);
+    expect(fs.readFileSync(path.join(projectRoot, "my-file.ts"), "utf-8")).toBe("new\n");
+  });
+});
+
+describe("fixProject", () => {
+  const change = { file: "a.ts", before: "old\n", after: "new\n", description: "Fix" };
+
+  it("collects results from all domains and plugins", async () => {
+    vi.mocked(fixCode).mockResolvedValue([makeFixResult()]);
+    vi.mocked(fixProcess).mockResolvedValue([makeFixResult({ name: "Hooks" })]);
+    vi.mocked(fixPlugins).mockResolvedValue({ code: [makeFixResult({ name: "Plugin" })] });
+
+    const report = await fixProject(projectRoot, {} as Config);
+
+    expect(report.dryRun).toBe(false);
+    expect(report.domains.code.map((r) => r.name)).toEqual(["ESLint", "Plugin"]);
+    expect(report.domains.process.map((r) => r.name)).toEqual(["Hooks"]);
+  });
+
+  it("only fixes the requested domain", async () => {
+    const report = await fixProject(projectRoot, {} as Config, { domain: "process" });
+
+    expect(fixCode).not.toHaveBeenCalled();
+    expect(fixProcess).toHaveBeenCalled();
+    expect(fixPlugins).toHaveBeenCalledWith(projectRoot, {}, { domain: "process" });
+    expect(Object.keys(report.domains)).toEqual(["process"]);
+  });
+
+  it("applies changes", async () => {
+    fs.writeFileSync(path.join(projectRoot, "a.ts"), "old\n");
+    vi.mocked(fixCode).mockResolvedValue([makeFixResult({ changes: [change] })]);
+
+    await fixProject(projectRoot, {} as Config);
+
+    expect(fs.readFileSync(path.join(projectRoot, "a.ts"), "utf-8")).toBe("new\n");
+  });
+
+  it("does not write files in dry-run mode", async () => {
+    fs.writeFileSync(path.join(projectRoot, "a.ts"), "old\n");
+    vi.mocked(fixCode).mockResolvedValue([makeFixResult({ changes: [change] })]);
+
+    const report = await fixProject(projectRoot, {} as Config, { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(fs.readFileSync(path.join(projectRoot, "a.ts"), "utf-8")).toBe("old\n");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { type FixResult } from "../../../src/core/index.js";
+import { formatFixText } from "../../../src/fix/output.js";
+
+function makeFixResult(overrides: Partial<FixResult> = {}): FixResult {
+  return {
+    name: "ESLint",
+    rule: "code.linting",
+    changes: [],
+    remaining: [],
+    skipped: false,
+    ...overrides,
+  };
+}
+
+const change = { file: "src/a.ts", before: "let a\n", after: "const a\n", description: "Fix" };
+
+describe("formatFixText", () => {
+  it("lists changed files per tool", () => {
+    const output = formatFixText({
+      dryRun: false,
+      domains: { code: [makeFixResult({ changes: [change] })] },
+    });
+
+    expect(output).toContain("CODE");
+    expect(output).toContain("ESLint: 1 file(s) changed");
+    expect(output).toContain("src/a.ts");
+    expect(output).toContain("1 file(s) changed");
+    expect(output).not.toContain("+++");
+  });
+
+  it("shows diffs in dry-run mode", () => {
+    const output = formatFixText({
+      dryRun: true,
+      domains: { code: [makeFixResult({ changes: [change] })] },
+    });
+
+    expect(output).toContain("Dry run - no files were changed");
+    expect(output).toContain("-let a");
+    expect(output).toContain("+const a");
+    expect(output).toContain("1 file(s) would be changed");
+  });
+
+  it("reports violations that need manual work", () => {
+    const output = formatFixText({
+      dryRun: false,
+      domains: {
+        code: [
+          makeFixResult({
+            remaining: [
+              { rule: "code.linting", tool: "eslint", message: "Unsafe any", severity: "error" },
+            ],
+          }),
+        ],
+      },
+    });
+
+    expect(output).toContain("1 need manual work");
+    expect(output).toContain("Unsafe any");
+    expect(output).toContain("1 violation(s) need manual work");
+  });
+
+  it("shows skipped tools", () => {
+    const output = formatFixText({
+      dryRun: false,
+      domains: {
+        code: [makeFixResult({ name: "Ruff", skipped: true, skipReason: "Ruff not installed" })],
+      },
+    });
+
+    expect(output).toContain("skipped");
+    expect(output).toContain("Ruff not installed");
+  });
+
+  it("reports when no tools support autofix", () => {
+    const output = formatFixText({ dryRun: false, domains: { code: [] } });
+
+    expect(output).toContain("No enabled tools support autofix");
+  });
+});
+
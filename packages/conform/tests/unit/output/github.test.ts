@@ -0,0 +1,124 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, describe, it, expect } from "vitest";
+
+import { formatGitHub, formatStepSummary, writeStepSummary } from "../../../src/output/github.js";
+import type { CheckResult, FullResult } from "../../../src/core/index.js";
+
+function makeResult(checks: CheckResult[]): FullResult {
+  const totalViolations = checks.reduce((sum, c) => sum + c.violations.length, 0);
+  return {
+    version: "1.0.0",
+    configPath: "/project/standards.toml",
+    domains: {
+      code: {
+        domain: "code",
+        status: totalViolations > 0 ? "fail" : "pass",
+        checks,
+        violationCount: totalViolations,
+      },
+    },
+    summary: { totalViolations, exitCode: totalViolations > 0 ? 1 : 0 },
+  };
+}
+
+const failingCheck: CheckResult = {
+  name: "ESLint",
+  rule: "code.linting",
+  passed: false,
+  skipped: false,
+  violations: [
+    {
+      rule: "code.linting.eslint",
+      tool: "eslint",
+      file: "src/a.ts",
+      line: 10,
+      column: 5,
+      message: "Unexpected var",
+      code: "no-var",
+      severity: "error",
+    },
+    { rule: "code.linting.eslint", tool: "eslint", file: "src/b.ts", message: "50% done\nnext", severity: "warning" },
+  ],
+};
+
+describe("formatGitHub", () => {
+  it("prints error annotations with file, line and column", () => {
+    const output = formatGitHub(makeResult([failingCheck]));
+    expect(output).toContain("::error file=src/a.ts,line=10,col=5,title=eslint (no-var)::Unexpected var");
+  });
+
+  it("prints warnings and escapes message data", () => {
+    const output = formatGitHub(makeResult([failingCheck]));
+    expect(output).toContain("::warning file=src/b.ts,title=eslint::50%25 done%0Anext");
+  });
+
+  it("omits file properties for violations without a file", () => {
+    const output = formatGitHub(
+      makeResult([
+        {
+          name: "CI",
+          rule: "process.ci",
+          passed: false,
+          skipped: false,
+          violations: [{ rule: "process.ci", tool: "ci", message: "Missing ci.yml", severity: "error" }],
+        },
+      ])
+    );
+    expect(output).toContain("::error title=ci::Missing ci.yml");
+  });
+
+  it("ends with a summary line", () => {
+    expect(formatGitHub(makeResult([]))).toContain("conform v1.0.0: all checks passed");
+    expect(formatGitHub(makeResult([failingCheck]))).toContain("2 violation(s) found");
+  });
+});
+
+describe("formatStepSummary", () => {
+  it("renders a Markdown table per domain", () => {
+    const output = formatStepSummary(
+      makeResult([
+        failingCheck,
+        { name: "Ruff", rule: "code.linting", passed: true, skipped: true, skipReason: "No Python files", violations: [] },
+      ])
+    );
+    expect(output).toContain("## conform v1.0.0");
+    expect(output).toContain("### ❌ code");
+    expect(output).toContain("| Check | Status | Violations |");
+    expect(output).toContain("| ESLint | failed | 2 |");
+    expect(output).toContain("| Ruff | skipped - No Python files | 0 |");
+    expect(output).toContain("**2 violation(s) found**");
+  });
+});
+
+describe("writeStepSummary", () => {
+  const originalEnv = process.env.GITHUB_STEP_SUMMARY;
+
+  afterEach(() => {
+    if (originalEnv === undefined) {
+      delete process.env.GITHUB_STEP_SUMMARY;
+    } else {
+      process.env.GITHUB_STEP_SUMMARY = originalEnv;
+    }
+  });
+
+  it("appends the summary to $GITHUB_STEP_SUMMARY", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "conform-summary-"));
+    const summaryPath = path.join(dir, "summary.md");
+    fs.writeFileSync(summaryPath, "existing\n");
+    process.env.GITHUB_STEP_SUMMARY = summaryPath;
+
+    writeStepSummary(makeResult([]));
+
+    const content = fs.readFileSync(summaryPath, "utf-8");
+    expect(content).toMatch(/^existing\n## conform v1.0.0/);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("does nothing when $GITHUB_STEP_SUMMARY is not set", () => {
+    delete process.env.GITHUB_STEP_SUMMARY;
+    expect(() => writeStepSummary(makeResult([]))).not.toThrow();
+  });
+});
@@ -1,6 +1,13 @@
 import { describe, it, expect } from "vitest";
 
-import { formatJson, formatText, formatOutput } from "../../../src/output/index.js";
+import {
+  formatGitHub,
+  formatJson,
+  formatJUnit,
+  formatText,
+  formatOutput,
+  formatSarif,
+} from "../../../src/output/index.js";
 import type { FullResult, DomainResult } from "../../../src/core/index.js";
 
 function makeResult(overrides: Partial<FullResult> = {}): FullResult {
@@ -182,6 +189,47 @@ describe("formatText", () => {
     const output = formatText(makeResult({ domains: { code: domain } }));
     expect(output).toContain("500ms");
   });
+
+  it("shows baseline suppressed count", () => {
+    const output = formatText(
+      makeResult({ baseline: { path: ".conform-baseline.json", suppressed: 4, fixed: [] } })
+    );
+    expect(output).toContain("Baseline: 4 existing violation(s) suppressed");
+    expect(output).not.toContain("fixed");
+  });
+
+  it("lists fixed baseline entries", () => {
+    const output = formatText(
+      makeResult({
+        baseline: {
+          path: ".conform-baseline.json",
+          suppressed: 0,
+          fixed: [
+            {
+              fingerprint: "abc",
+              tool: "eslint",
+              rule: "code.linting.eslint",
+              code: "no-console",
+              file: "src/a.ts",
+              message: "Unexpected console statement",
+              count: 2,
+            },
+          ],
+        },
+      })
+    );
+    expect(output).toContain("2 baselined violation(s) fixed");
+    expect(output).toContain("--update-baseline");
+    expect(output).toContain("src/a.ts");
+    expect(output).toContain("[no-console]");
+  });
+
+  it("shows cache stats", () => {
+    const output = formatText(
+      makeResult({ cache: { dir: "/project/.conform-cache", hits: 3, misses: 1 } })
+    );
+    expect(output).toContain("Cache: 3 hit(s), 1 miss(es) (/project/.conform-cache)");
+  });
 });
 
 describe("formatOutput", () => {
@@ -194,4 +242,19 @@ describe("formatOutput", () => {
     const result = makeResult();
     expect(formatOutput(result, "text")).toBe(formatText(result));
   });
+
+  it("delegates to formatSarif for sarif format", () => {
+    const result = makeResult();
+    expect(formatOutput(result, "sarif")).toBe(formatSarif(result));
+  });
+
+  it("delegates to formatJUnit for junit format", () => {
+    const result = makeResult();
+    expect(formatOutput(result, "junit")).toBe(formatJUnit(result));
+  });
+
+  it("delegates to formatGitHub for github format", () => {
+    const result = makeResult();
+    expect(formatOutput(result, "github")).toBe(formatGitHub(result));
+  });
 });
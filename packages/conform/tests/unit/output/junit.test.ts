@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+
+import { formatJUnit } from "../../../src/output/junit.js";
+import type { CheckResult, DomainResult, FullResult } from "../../../src/core/index.js";
+
+function makeDomain(domain: string, checks: CheckResult[]): DomainResult {
+  const violationCount = checks.reduce((sum, c) => sum + c.violations.length, 0);
+  return { domain, status: violationCount > 0 ? "fail" : "pass", checks, violationCount };
+}
+
+function makeResult(domains: Record<string, DomainResult>): FullResult {
+  const totalViolations = Object.values(domains).reduce((sum, d) => sum + d.violationCount, 0);
+  return {
+    version: "1.0.0",
+    configPath: "/project/standards.toml",
+    domains,
+    summary: { totalViolations, exitCode: totalViolations > 0 ? 1 : 0 },
+  };
+}
+
+describe("formatJUnit", () => {
+  it("emits an XML declaration and testsuites root", () => {
+    const output = formatJUnit(makeResult({}));
+    expect(output).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(output).toContain('<testsuites name="conform v1.0.0" tests="0"');
+    expect(output).toContain("</testsuites>");
+  });
+
+  it("creates a testsuite per domain and a testcase per check", () => {
+    const output = formatJUnit(
+      makeResult({
+        code: makeDomain("code", [
+          { name: "ESLint", rule: "code.linting", passed: true, skipped: false, violations: [], duration: 1500 },
+        ]),
+        process: makeDomain("process", []),
+      })
+    );
+    expect(output).toContain('<testsuite name="code" tests="1" failures="0" errors="0" skipped="0" time="1.500">');
+    expect(output).toContain('<testcase name="ESLint" classname="code.code.linting" time="1.500"/>');
+    expect(output).toContain('<testsuite name="process" tests="0"');
+  });
+
+  it("maps skipped checks to skipped elements with the reason", () => {
+    const output = formatJUnit(
+      makeResult({
+        code: makeDomain("code", [
+          {
+            name: "Ruff",
+            rule: "code.linting",
+            passed: true,
+            skipped: true,
+            skipReason: "No Python files found",
+            violations: [],
+          },
+        ]),
+      })
+    );
+    expect(output).toContain('skipped="1"');
+    expect(output).toContain('<skipped message="No Python files found"/>');
+  });
+
+  it("maps each violation to a failure element", () => {
+    const output = formatJUnit(
+      makeResult({
+        code: makeDomain("code", [
+          {
+            name: "ESLint",
+            rule: "code.linting",
+            passed: false,
+            skipped: false,
+            violations: [
+              {
+                rule: "code.linting.eslint",
+                tool: "eslint",
+                file: "src/a.ts",
+                line: 3,
+                column: 7,
+                message: "Unexpected var",
+                code: "no-var",
+                severity: "error",
+              },
+              { rule: "code.linting.eslint", tool: "eslint", message: "Config broken", severity: "warning" },
+            ],
+          },
+        ]),
+      })
+    );
+    expect(output).toContain('failures="1"');
+    expect(output).toContain(
+      '<failure message="Unexpected var" type="no-var">src/a.ts:3:7 error Unexpected var</failure>'
+    );
+    expect(output).toContain(
+      '<failure message="Config broken" type="code.linting.eslint">warning Config broken</failure>'
+    );
+  });
+
+  it("escapes XML special characters", () => {
+    const output = formatJUnit(
+      makeResult({
+        code: makeDomain("code", [
+          {
+            name: "Check <A & B>",
+            rule: "code.quality",
+            passed: false,
+            skipped: false,
+            violations: [{ rule: "code.quality", tool: "x", message: 'Found "x" < y', severity: "error" }],
+          },
+        ]),
+      })
+    );
+    expect(output).toContain('name="Check &lt;A &amp; B&gt;"');
+    expect(output).toContain('message="Found &quot;x&quot; &lt; y"');
+  });
+});
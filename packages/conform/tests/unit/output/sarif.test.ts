@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+
+import { formatSarif } from "../../../src/output/sarif.js";
+import type { CheckResult, FullResult, Violation } from "../../../src/core/index.js";
+
+function makeCheck(violations: Violation[]): CheckResult {
+  return {
+    name: "check",
+    rule: "code.linting",
+    passed: violations.length === 0,
+    skipped: false,
+    violations,
+  };
+}
+
+function makeResult(checks: CheckResult[]): FullResult {
+  const totalViolations = checks.reduce((sum, c) => sum + c.violations.length, 0);
+  return {
+    version: "1.0.0",
+    configPath: "/project/standards.toml",
+    domains: {
+      code: { domain: "code", status: "fail", checks, violationCount: totalViolations },
+    },
+    summary: { totalViolations, exitCode: totalViolations > 0 ? 1 : 0 },
+  };
+}
+
+function parse(result: FullResult): any {
+  return JSON.parse(formatSarif(result));
+}
+
+describe("formatSarif", () => {
+  it("emits a SARIF 2.1.0 log", () => {
+    const sarif = parse(makeResult([]));
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.$schema).toContain("sarif-2.1.0");
+  });
+
+  it("emits a single empty run when there are no violations", () => {
+    const sarif = parse(makeResult([makeCheck([])]));
+    expect(sarif.runs).toHaveLength(1);
+    expect(sarif.runs[0].tool.driver.name).toBe("conform");
+    expect(sarif.runs[0].results).toEqual([]);
+  });
+
+  it("creates one run per tool with its rules listed", () => {
+    const sarif = parse(
+      makeResult([
+        makeCheck([
+          { rule: "code.linting.eslint", tool: "eslint", message: "a", code: "no-var", severity: "error" },
+          { rule: "code.linting.eslint", tool: "eslint", message: "b", code: "no-var", severity: "error" },
+          { rule: "code.linting.eslint", tool: "eslint", message: "c", code: "eqeqeq", severity: "warning" },
+        ]),
+        makeCheck([{ rule: "code.types.tsc", tool: "tsc", message: "d", code: "TS2322", severity: "error" }]),
+      ])
+    );
+
+    expect(sarif.runs.map((r: any) => r.tool.driver.name)).toEqual(["eslint", "tsc"]);
+    const eslintRun = sarif.runs[0];
+    expect(eslintRun.tool.driver.rules.map((r: any) => r.id)).toEqual(["no-var", "eqeqeq"]);
+    expect(eslintRun.results.map((r: any) => r.ruleIndex)).toEqual([0, 0, 1]);
+    expect(eslintRun.results[2].level).toBe("warning");
+  });
+
+  it("maps file, line and column to a physical location", () => {
+    const sarif = parse(
+      makeResult([
+        makeCheck([
+          {
+            rule: "code.linting.eslint",
+            tool: "eslint",
+            file: "src/index.ts",
+            line: 10,
+            column: 5,
+            message: "unused",
+            code: "no-unused-vars",
+            severity: "error",
+          },
+        ]),
+      ])
+    );
+
+    const location = sarif.runs[0].results[0].locations[0].physicalLocation;
+    expect(location.artifactLocation.uri).toBe("src/index.ts");
+    expect(location.region).toEqual({ startLine: 10, startColumn: 5 });
+    expect(sarif.runs[0].results[0].message.text).toBe("unused");
+  });
+
+  it("falls back to the conform rule when no code is present", () => {
+    const sarif = parse(
+      makeResult([
+        makeCheck([{ rule: "process.hooks", tool: "hooks", message: "missing", severity: "error" }]),
+      ])
+    );
+    expect(sarif.runs[0].results[0].ruleId).toBe("process.hooks");
+  });
+
+  it("reports violations without a file against the config file", () => {
+    const sarif = parse(
+      makeResult([
+        makeCheck([{ rule: "process.ci", tool: "ci", message: "missing workflow", severity: "error" }]),
+      ])
+    );
+    const location = sarif.runs[0].results[0].locations[0].physicalLocation;
+    expect(location.artifactLocation.uri).toBe("standards.toml");
+    expect(location.region).toBeUndefined();
+  });
+
+  it("lists a driver for every tool that ran, including clean ones", () => {
+    const sarif = parse(
+      makeResult([
+        { ...makeCheck([]), toolId: "eslint" },
+        {
+          ...makeCheck([{ rule: "code.types", tool: "audit", message: "strict", severity: "error" }]),
+          toolId: "tsc",
+        },
+        { ...makeCheck([]), toolId: "ruff", skipped: true },
+      ])
+    );
+
+    expect(sarif.runs.map((r: any) => [r.tool.driver.name, r.results.length])).toEqual([
+      ["eslint", 0],
+      ["tsc", 1],
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+vi.mock("../../../src/plugins/loader.js", () => ({
+  loadPlugins: vi.fn(),
+}));
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { auditPluginConfig, runPluginChecks } from "../../../src/plugins/index.js";
+import { loadPlugins } from "../../../src/plugins/loader.js";
+import type { CheckResult, Config, IToolRunner } from "../../../src/core/index.js";
+
+const mocked = vi.mocked;
+
+function passResult(name: string): CheckResult {
+  return { name, rule: "acme", passed: true, violations: [], skipped: false };
+}
+
+function makeRunner(name: string, overrides: Partial<IToolRunner> = {}): IToolRunner {
+  return {
+    name,
+    rule: "acme",
+    toolId: name.toLowerCase(),
+    configFiles: [],
+    run: vi.fn().mockResolvedValue(passResult(name)),
+    audit: vi.fn().mockResolvedValue(passResult(`${name} Config`)),
+    ...overrides,
+  };
+}
+
+beforeEach(() => vi.clearAllMocks());
+
+describe("runPluginChecks", () => {
+  it("returns no domains when no plugins are loaded", async () => {
+    mocked(loadPlugins).mockResolvedValue([]);
+    expect(await runPluginChecks("/project", {} as Config)).toEqual({});
+  });
+
+  it("groups plugin runners by domain", async () => {
+    mocked(loadPlugins).mockResolvedValue([
+      { name: "a", domain: "acme", runners: [makeRunner("A")] },
+      { name: "b", domain: "acme", runners: [makeRunner("B")] },
+      { name: "c", domain: "legal", runners: [makeRunner("C")] },
+    ]);
+
+    const domains = await runPluginChecks("/project", {} as Config);
+
+    expect(Object.keys(domains)).toEqual(["acme", "legal"]);
+    expect(domains.acme.checks.map((c) => c.name)).toEqual(["A", "B"]);
+    expect(domains.legal.status).toBe("pass");
+  });
+
+  it("only runs plugins in the requested domain", async () => {
+    const other = makeRunner("Other");
+    mocked(loadPlugins).mockResolvedValue([
+      { name: "a", domain: "code", runners: [makeRunner("A")] },
+      { name: "b", domain: "legal", runners: [other] },
+    ]);
+
+    const domains = await runPluginChecks("/project", {} as Config, { domain: "code" });
+
+    expect(Object.keys(domains)).toEqual(["code"]);
+    expect(other.run).not.toHaveBeenCalled();
+  });
+
+  it("passes changed files to runners that support them", async () => {
+    const runner = makeRunner("A", { setTargetFiles: vi.fn() });
+    mocked(loadPlugins).mockResolvedValue([{ name: "a", domain: "acme", runners: [runner] }]);
+
+    await runPluginChecks("/project", {} as Config, { changedFiles: ["src/a.ts"] });
+
+    expect(runner.setTargetFiles).toHaveBeenCalledWith(["src/a.ts"]);
+  });
+
+  it("isolates runner errors", async () => {
+    const runner = makeRunner("A", { run: vi.fn().mockRejectedValue(new Error("boom")) });
+    mocked(loadPlugins).mockResolvedValue([{ name: "a", domain: "acme", runners: [runner] }]);
+
+    const domains = await runPluginChecks("/project", {} as Config);
+
+    expect(domains.acme.status).toBe("fail");
+    expect(domains.acme.checks[0].violations[0].message).toBe("Tool error: boom");
+  });
+});
+
+describe("auditPluginConfig", () => {
+  it("calls audit instead of run", async () => {
+    const runner = makeRunner("A");
+    mocked(loadPlugins).mockResolvedValue([{ name: "a", domain: "acme", runners: [runner] }]);
+
+    const domains = await auditPluginConfig("/project", {} as Config);
+
+    expect(runner.audit).toHaveBeenCalledWith("/project");
+    expect(runner.run).not.toHaveBeenCalled();
+    expect(domains.acme.checks[0].name).toBe("A Config");
+  });
+});
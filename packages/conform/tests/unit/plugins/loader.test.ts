@@ -0,0 +1,132 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { ConfigError, type Config } from "../../../src/core/index.js";
+import { loadPlugins } from "../../../src/plugins/loader.js";
+
+const PLUGIN_SOURCE = `
+export default {
+  domain: "acme",
+  configSchema: globalThis.__conformTestSchema,
+  createRunners(config) {
+    return [
+      {
+        name: "Acme Check",
+        rule: "acme.check",
+        toolId: "acme",
+        configFiles: [],
+        config,
+        run: async () => ({ name: "Acme Check", rule: "acme.check", passed: true, violations: [], skipped: false }),
+        audit: async () => ({ name: "Acme Check", rule: "acme.check", passed: true, violations: [], skipped: false }),
+      },
+    ];
+  },
+};
+`;
+
+describe("loadPlugins", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "conform-plugins-"));
+    fs.writeFileSync(path.join(tempDir, "acme.mjs"), PLUGIN_SOURCE);
+    (globalThis as Record<string, unknown>).__conformTestSchema = z.object({
+      max: z.number().default(10),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    delete (globalThis as Record<string, unknown>).__conformTestSchema;
+  });
+
+  function pluginConfig(plugins: NonNullable<Config["plugins"]>): Config {
+    return { plugins };
+  }
+
+  it("returns no plugins when none are configured", async () => {
+    expect(await loadPlugins({}, tempDir)).toEqual([]);
+  });
+
+  it("loads a local plugin module relative to the project root", async () => {
+    const plugins = await loadPlugins(
+      pluginConfig({ acme: { module: "./acme.mjs", enabled: true, config: { max: 3 } } }),
+      tempDir
+    );
+
+    expect(plugins).toHaveLength(1);
+    expect(plugins[0].name).toBe("acme");
+    expect(plugins[0].domain).toBe("acme");
+    expect(plugins[0].runners[0].name).toBe("Acme Check");
+    expect((plugins[0].runners[0] as unknown as { config: unknown }).config).toEqual({ max: 3 });
+  });
+
+  it("applies schema defaults to plugin config", async () => {
+    const plugins = await loadPlugins(
+      pluginConfig({ acme: { module: "./acme.mjs", enabled: true } }),
+      tempDir
+    );
+    expect((plugins[0].runners[0] as unknown as { config: unknown }).config).toEqual({ max: 10 });
+  });
+
+  it("lets standards.toml override the plugin domain", async () => {
+    const plugins = await loadPlugins(
+      pluginConfig({ acme: { module: "./acme.mjs", enabled: true, domain: "code" } }),
+      tempDir
+    );
+    expect(plugins[0].domain).toBe("code");
+  });
+
+  it("skips disabled plugins without importing them", async () => {
+    const plugins = await loadPlugins(
+      pluginConfig({ acme: { module: "./missing.mjs", enabled: false } }),
+      tempDir
+    );
+    expect(plugins).toEqual([]);
+  });
+
+  it("throws ConfigError for invalid plugin config", async () => {
+    await expect(
+      loadPlugins(
+        pluginConfig({ acme: { module: "./acme.mjs", enabled: true, config: { max: "many" } } }),
+        tempDir
+      )
+    ).rejects.toThrow(/plugins\.acme\.config\.max/);
+  });
+
+  it("throws ConfigError when the module cannot be loaded", async () => {
+    await expect(
+      loadPlugins(pluginConfig({ acme: { module: "./missing.mjs", enabled: true } }), tempDir)
+    ).rejects.toThrow(ConfigError);
+    await expect(
+      loadPlugins(pluginConfig({ acme: { module: "@acme/not-installed", enabled: true } }), tempDir)
+    ).rejects.toThrow(/Failed to load plugin "acme"/);
+  });
+
+  it("throws ConfigError when no module is configured", async () => {
+    await expect(
+      loadPlugins(pluginConfig({ acme: { enabled: true } }), tempDir)
+    ).rejects.toThrow('Plugin "acme" has no module configured');
+  });
+
+  it("throws ConfigError when the module does not export a plugin", async () => {
+    fs.writeFileSync(path.join(tempDir, "bad.mjs"), "export const foo = 1;\n");
+    await expect(
+      loadPlugins(pluginConfig({ bad: { module: "./bad.mjs", enabled: true } }), tempDir)
+    ).rejects.toThrow(/createRunners/);
+  });
+
+  it("throws ConfigError when a runner is incomplete", async () => {
+    fs.writeFileSync(
+      path.join(tempDir, "broken.mjs"),
+      "export function createRunners() { return [{ name: 'Broken' }]; }\n"
+    );
+    await expect(
+      loadPlugins(pluginConfig({ broken: { module: "./broken.mjs", enabled: true } }), tempDir)
+    ).rejects.toThrow(/returned a tool runner without/);
+  });
+});
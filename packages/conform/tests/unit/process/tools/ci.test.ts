@@ -414,4 +414,63 @@ jobs:
       expect(result.violations.some((v) => v.rule.includes("yaml"))).toBe(true);
     });
   });
+
+  describe("fix", () => {
+    it("generates missing workflows that pass the configured checks", async () => {
+      runner.setConfig({
+        enabled: true,
+        require_workflows: ["ci.yml"],
+        jobs: { "ci.yml": ["lint", "test"] },
+        commands: { "ci.yml": { lint: ["pnpm lint"], test: ["pnpm test"] } },
+        actions: { "ci.yml": ["actions/checkout"] },
+      });
+      setupFs(new Set(), new Map());
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes).toHaveLength(1);
+      expect(result.changes[0].file).toBe(".github/workflows/ci.yml");
+      expect(result.changes[0].before).toBeNull();
+      expect(result.remaining).toEqual([]);
+
+      setupFs(
+        new Set(["/root/.github/workflows"]),
+        new Map([["/root/.github/workflows/ci.yml", result.changes[0].after]])
+      );
+      const check = await runner.run("/root");
+      expect(check.passed).toBe(true);
+    });
+
+    it("puts workflow-level commands in a ci job", async () => {
+      runner.setConfig({ enabled: true, commands: { "build.yml": ["pnpm build"] } });
+      setupFs(new Set(["/root/.github/workflows"]), new Map());
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes[0].after).toContain("ci:");
+      expect(result.changes[0].after).toContain("run: pnpm build");
+      expect(result.remaining).toEqual([]);
+    });
+
+    it("leaves non-checkout actions and existing workflow issues as remaining", async () => {
+      runner.setConfig({
+        enabled: true,
+        require_workflows: ["ci.yml", "release.yml"],
+        actions: { "release.yml": ["changesets/action"] },
+        jobs: { "ci.yml": ["lint"] },
+      });
+      setupFs(
+        new Set(["/root/.github/workflows"]),
+        new Map([["/root/.github/workflows/ci.yml", "on: push\njobs:\n  test: {}\n"]])
+      );
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes.map((c) => c.file)).toEqual([".github/workflows/release.yml"]);
+      expect(result.remaining.map((v) => v.message)).toEqual([
+        "Workflow 'ci.yml' missing required job: lint",
+        "Workflow 'release.yml' missing required action: changesets/action",
+      ]);
+    });
+  });
 });
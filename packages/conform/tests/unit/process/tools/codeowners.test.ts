@@ -187,4 +187,55 @@ describe("CodeownersRunner", () => {
       expect(result.passed).toBe(false);
     });
   });
+
+  describe("fix", () => {
+    const rules = [
+      { pattern: "*", owners: ["@org/team"] },
+      { pattern: "/docs/", owners: ["@org/docs"] },
+    ];
+
+    it("appends missing rules to the existing file", async () => {
+      runner.setConfig({ enabled: true, rules });
+      setupFs(new Map([["/root/.github/CODEOWNERS", "* @org/team"]]));
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes).toEqual([
+        {
+          file: ".github/CODEOWNERS",
+          before: "* @org/team",
+          after: "* @org/team\n/docs/ @org/docs\n",
+          description: "Add 1 missing rule(s)",
+        },
+      ]);
+      expect(result.remaining).toEqual([]);
+    });
+
+    it("creates .github/CODEOWNERS when no file exists", async () => {
+      runner.setConfig({ enabled: true, rules });
+      setupFs(new Map());
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes[0].file).toBe(".github/CODEOWNERS");
+      expect(result.changes[0].before).toBeNull();
+      expect(result.changes[0].after).toBe("* @org/team\n/docs/ @org/docs\n");
+      expect(result.remaining).toEqual([]);
+    });
+
+    it("leaves owner mismatches and extra rules as remaining", async () => {
+      runner.setConfig({ enabled: true, rules });
+      setupFs(
+        new Map([["/root/CODEOWNERS", "* @someone\n/docs/ @org/docs\n/src/ @org/dev\n"]])
+      );
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes).toHaveLength(0);
+      expect(result.remaining.map((v) => v.rule)).toEqual([
+        "process.codeowners.owners",
+        "process.codeowners.extra",
+      ]);
+    });
+  });
 });
@@ -111,6 +111,27 @@ describe("DocsRunner", () => {
     });
   });
 
+  describe("suppressions", () => {
+    it("accepts violations with a conform-allow comment in the file", async () => {
+      runner.setConfig({ enabled: true, path: "docs/" });
+      mockedGlob.mockResolvedValue(["CHANGELOG.md", "NOTES.md"] as never);
+      setupFs(
+        new Map([
+          [
+            "/root/CHANGELOG.md",
+            "<!-- conform-allow: docs.structure -- generated by changesets -->\n",
+          ],
+          ["/root/NOTES.md", "# Notes\n"],
+        ])
+      );
+
+      const result = await runner.run("/root");
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].file).toBe("NOTES.md");
+    });
+  });
+
   describe("content validation", () => {
     it("reports missing required frontmatter fields", async () => {
       runner.setConfig({
@@ -283,4 +283,72 @@ describe("HooksRunner", () => {
       expect(result.passed).toBe(true);
     });
   });
+
+  describe("fix", () => {
+    const template = "#!/bin/sh\npnpm lint-staged\n";
+
+    it("creates missing hooks and replaces hooks that differ from the template", async () => {
+      runner.setConfig({
+        enabled: true,
+        require_hooks: ["pre-commit", "commit-msg"],
+        templates: { "pre-commit": template, "commit-msg": "npx commitlint --edit $1" },
+      });
+      setupFs(
+        new Set(["/root/.husky"]),
+        new Map([["/root/.husky/commit-msg", "echo old\n"]])
+      );
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes).toEqual([
+        {
+          file: ".husky/pre-commit",
+          before: null,
+          after: template,
+          description: "Create pre-commit hook",
+        },
+        {
+          file: ".husky/commit-msg",
+          before: "echo old\n",
+          after: "npx commitlint --edit $1\n",
+          description: "Replace commit-msg hook with template",
+        },
+      ]);
+      expect(result.remaining).toEqual([]);
+    });
+
+    it("keeps required hooks without a template as remaining", async () => {
+      runner.setConfig({ enabled: true, require_hooks: ["pre-push"] });
+      setupFs(new Set(["/root/.husky"]), new Map());
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes).toHaveLength(0);
+      expect(result.remaining[0].rule).toBe("process.hooks.pre-push");
+    });
+
+    it("reports required commands missing from the template", async () => {
+      runner.setConfig({
+        enabled: true,
+        templates: { "pre-commit": template },
+        commands: { "pre-commit": ["pnpm typecheck"] },
+      });
+      setupFs(new Set(["/root/.husky"]), new Map());
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes).toHaveLength(1);
+      expect(result.remaining[0].message).toContain("pnpm typecheck");
+    });
+
+    it("does not write hooks when husky is not installed", async () => {
+      runner.setConfig({ enabled: true, templates: { "pre-commit": template } });
+      setupFs(new Set(), new Map());
+
+      const result = await runner.fix("/root");
+
+      expect(result.changes).toHaveLength(0);
+      expect(result.remaining[0].message).toContain("Husky not installed");
+    });
+  });
 });
@@ -73,6 +73,58 @@ describe("detectProjects", () => {
     expect(result.projects[0].hasCheckToml).toBe(false);
   });
 
+  it("detects Go modules and skips go.work workspace roots", async () => {
+    mockedGlob.mockImplementation(async (pattern: any) => {
+      const p = String(pattern);
+      if (p.includes("go.work")) {
+        return ["go.work"];
+      }
+      if (p.includes("go.mod")) {
+        return ["go.mod", "services/api/go.mod", "tools/go.mod"];
+      }
+      return [];
+    });
+
+    mockedFs.existsSync.mockReturnValue(false);
+
+    const result = await detectProjects("/root");
+
+    expect(result.projects.map((p) => [p.path, p.type, p.markerFile])).toEqual([
+      ["services/api", "go", "go.mod"],
+      ["tools", "go", "go.mod"],
+    ]);
+    expect(result.workspaceRoots).toEqual(["."]);
+  });
+
+  it("detects Rust crates and skips virtual Cargo workspace manifests", async () => {
+    mockedGlob.mockImplementation(async (pattern: any) => {
+      const p = String(pattern);
+      if (p.includes("Cargo.toml")) {
+        return ["Cargo.toml", "crates/core/Cargo.toml", "crates/cli/Cargo.toml"];
+      }
+      return [];
+    });
+
+    mockedFs.existsSync.mockReturnValue(false);
+    mockedFs.readFileSync.mockImplementation((p: any) => {
+      if (String(p) === "/root/Cargo.toml") {
+        return '[workspace]\nmembers = ["crates/*"]\n';
+      }
+      // A root package may also declare [workspace]; it is still a crate
+      return String(p).includes("cli")
+        ? '[package]\nname = "cli"\n\n[workspace]\n'
+        : '[package]\nname = "core"\n';
+    });
+
+    const result = await detectProjects("/root");
+
+    expect(result.projects.map((p) => [p.path, p.type])).toEqual([
+      ["crates/cli", "rust"],
+      ["crates/core", "rust"],
+    ]);
+    expect(result.workspaceRoots).toEqual(["."]);
+  });
+
   it("skips workspace roots (package.json with workspaces)", async () => {
     mockedGlob.mockImplementation(async (pattern: any) => {
       const p = String(pattern);
@@ -50,6 +50,28 @@ describe("createCheckToml", () => {
     );
   });
 
+  it("creates Go template", () => {
+    mockedFs.existsSync.mockReturnValue(false);
+    const result = createCheckToml("/project", "go", false);
+    expect(result).toBe(true);
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+      "/project/standards.toml",
+      expect.stringContaining("[code.linting.golangci-lint]"),
+      "utf-8"
+    );
+  });
+
+  it("creates Rust template", () => {
+    mockedFs.existsSync.mockReturnValue(false);
+    const result = createCheckToml("/project", "rust", false);
+    expect(result).toBe(true);
+    expect(mockedFs.writeFileSync).toHaveBeenCalledWith(
+      "/project/standards.toml",
+      expect.stringContaining("[code.linting.clippy]"),
+      "utf-8"
+    );
+  });
+
   it("skips writing in dry-run mode", () => {
     mockedFs.existsSync.mockReturnValue(false);
     const result = createCheckToml("/project", "typescript", true);
@@ -0,0 +1,271 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { Violation } from "../../../src/core/index.js";
+import {
+  applySuppressions,
+  findSuppressions,
+  parseSuppressions,
+  type Suppression,
+} from "../../../src/suppressions/index.js";
+import {
+  formatSuppressionsJson,
+  formatSuppressionsText,
+} from "../../../src/suppressions/output.js";
+
+const OWNER = { tool: "disable-comments", rule: "code.quality.disable-comments" };
+
+function violation(overrides: Partial<Violation> = {}): Violation {
+  return {
+    rule: "code.quality.disable-comments",
+    tool: "disable-comments",
+    file: "src/a.ts",
+    line: 2,
+    message: "Disable comment found: eslint-disable",
+    severity: "error",
+    ...overrides,
+  };
+}
+
+function allow(overrides: Partial<Suppression> = {}): Suppression {
+  return {
+    file: "src/a.ts",
+    line: 1,
+    rule: "disable-comments",
+    reason: "upstream types are wrong",
+    ...overrides,
+  };
+}
+
+describe("parseSuppressions", () => {
+  it("parses the rule, reason, expiry and ticket", () => {
+    const content = [
+      "const a = 1;",
+      "// conform-allow: disable-comments -- upstream types are wrong (expires 2026-12-31, ABC-123)",
+      "# conform-allow: naming -- matches the Django app name",
+      "/* conform-allow: docs.links -- flaky external site (temporary) */",
+    ].join("\n");
+
+    expect(parseSuppressions("src/a.ts", content)).toEqual([
+      {
+        file: "src/a.ts",
+        line: 2,
+        rule: "disable-comments",
+        reason: "upstream types are wrong",
+        expires: "2026-12-31",
+        ticket: "ABC-123",
+      },
+      { file: "src/a.ts", line: 3, rule: "naming", reason: "matches the Django app name" },
+      { file: "src/a.ts", line: 4, rule: "docs.links", reason: "flaky external site (temporary)" },
+    ]);
+  });
+
+  it("leaves the reason empty when there's no separator", () => {
+    expect(parseSuppressions("a.py", "# conform-allow: naming")).toEqual([
+      { file: "a.py", line: 1, rule: "naming" },
+    ]);
+  });
+
+  it("only reads HTML comments in markdown", () => {
+    const content = [
+      "<!-- conform-allow: docs.structure -- generated by changesets -->",
+      "```ts",
+      "// conform-allow: disable-comments -- example",
+      "```",
+    ].join("\n");
+
+    expect(parseSuppressions("CHANGELOG.md", content)).toEqual([
+      { file: "CHANGELOG.md", line: 1, rule: "docs.structure", reason: "generated by changesets" },
+    ]);
+  });
+});
+
+describe("applySuppressions", () => {
+  it("drops violations on the allowance's line and the line after", () => {
+    const violations = [violation({ line: 1 }), violation({ line: 2 }), violation({ line: 3 })];
+
+    const result = applySuppressions(violations, [allow()], OWNER);
+
+    expect(result.map((v) => v.line)).toEqual([3]);
+  });
+
+  it("drops violations without a line anywhere in the file", () => {
+    const result = applySuppressions(
+      [violation({ line: undefined }), violation({ file: "src/b.ts", line: undefined })],
+      [allow({ line: 10 })],
+      OWNER
+    );
+
+    expect(result.map((v) => v.file)).toEqual(["src/b.ts"]);
+  });
+
+  it("matches full rule IDs and sub-rules", () => {
+    const violations = [
+      violation({ rule: "process.docs.links", tool: "docs", line: undefined }),
+      violation({ rule: "process.docs.structure", tool: "docs", line: undefined }),
+    ];
+
+    const result = applySuppressions(violations, [allow({ rule: "docs.links" })], {
+      tool: "docs",
+      rule: "process.docs",
+    });
+
+    expect(result.map((v) => v.rule)).toEqual(["process.docs.structure"]);
+  });
+
+  it("reports allowances without a reason and keeps the violation", () => {
+    const result = applySuppressions([violation()], [allow({ reason: undefined })], OWNER);
+
+    expect(result).toEqual([
+      violation(),
+      {
+        rule: "code.quality.disable-comments",
+        tool: "disable-comments",
+        file: "src/a.ts",
+        line: 1,
+        message: "conform-allow for disable-comments needs a reason: disable-comments -- <reason>",
+        code: "conform-allow",
+        severity: "error",
+      },
+    ]);
+  });
+
+  it("reports expired allowances", () => {
+    const result = applySuppressions([violation()], [allow({ expires: "2000-01-31" })], OWNER);
+
+    expect(result.map((v) => v.message)).toEqual([
+      "Disable comment found: eslint-disable",
+      "conform-allow for disable-comments expired on 2000-01-31 (upstream types are wrong)",
+    ]);
+  });
+
+  it("reports tickets that don't match the ticket pattern", () => {
+    const suppressions = [allow({ ticket: "ABC-1" }), allow({ line: 5, ticket: "#42" })];
+
+    const result = applySuppressions([], suppressions, OWNER, { ticketPattern: "^ABC-\\d+$" });
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      line: 5,
+      message: "conform-allow for disable-comments: ticket #42 doesn't match ^ABC-\\d+$",
+    });
+  });
+
+  it("ignores other checks' allowances", () => {
+    const result = applySuppressions(
+      [violation()],
+      [allow({ rule: "naming", reason: undefined })],
+      OWNER
+    );
+
+    expect(result).toEqual([violation()]);
+  });
+});
+
+describe("findSuppressions", () => {
+  let projectRoot: string;
+
+  function write(file: string, content: string): void {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, file), content);
+  }
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "conform-suppressions-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("lists every allowance in the project with its status", async () => {
+    write(
+      "src/a.ts",
+      "// conform-allow: disable-comments -- upstream types (expires 2000-01-31)\n"
+    );
+    write("scripts/b.py", "x = 1\n# conform-allow: naming\n");
+    write("node_modules/pkg/index.js", "// conform-allow: naming -- vendored\n");
+    write("src/c.ts", "export const c = 1;\n");
+
+    const entries = await findSuppressions(projectRoot);
+
+    expect(entries).toEqual([
+      {
+        file: "scripts/b.py",
+        line: 2,
+        rule: "naming",
+        status: "invalid",
+        problem: "conform-allow for naming needs a reason: naming -- <reason>",
+      },
+      {
+        file: "src/a.ts",
+        line: 1,
+        rule: "disable-comments",
+        reason: "upstream types",
+        expires: "2000-01-31",
+        status: "expired",
+        problem: "conform-allow for disable-comments expired on 2000-01-31 (upstream types)",
+      },
+    ]);
+  });
+
+  it("skips binary files and files it can't read", async () => {
+    write("src/a.ts", "// conform-allow: naming -- generated\n");
+    write("assets/logo.bin", "\0// conform-allow: naming\n");
+    fs.symlinkSync(path.join(projectRoot, "missing.ts"), path.join(projectRoot, "src/broken.ts"));
+
+    const entries = await findSuppressions(projectRoot);
+
+    expect(entries.map((e) => e.file)).toEqual(["src/a.ts"]);
+  });
+});
+
+describe("output", () => {
+  const entries = [
+    {
+      file: "src/a.ts",
+      line: 4,
+      rule: "disable-comments",
+      reason: "upstream types",
+      ticket: "ABC-1",
+      status: "active" as const,
+    },
+    {
+      file: "src/b.ts",
+      line: 9,
+      rule: "disable-comments",
+      reason: "legacy",
+      expires: "2000-01-31",
+      status: "expired" as const,
+      problem: "conform-allow for disable-comments expired on 2000-01-31 (legacy)",
+    },
+    { file: "a.py", line: 1, rule: "naming", reason: "Django app", status: "active" as const },
+  ];
+
+  it("groups text output by rule", () => {
+    expect(formatSuppressionsText(entries)).toBe(
+      [
+        "3 suppressions (1 expired, 0 invalid)",
+        "",
+        "disable-comments (2):",
+        "  src/a.ts:4  upstream types (ABC-1)",
+        "  src/b.ts:9  legacy (expires 2000-01-31)",
+        "    EXPIRED: conform-allow for disable-comments expired on 2000-01-31 (legacy)",
+        "",
+        "naming (1):",
+        "  a.py:1  Django app",
+      ].join("\n")
+    );
+  });
+
+  it("reports when there are no suppressions", () => {
+    expect(formatSuppressionsText([])).toBe("No conform-allow suppressions found");
+  });
+
+  it("formats JSON", () => {
+    expect(JSON.parse(formatSuppressionsJson(entries))).toEqual({ suppressions: entries });
+  });
+});
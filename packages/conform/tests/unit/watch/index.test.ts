@@ -0,0 +1,221 @@
+vi.mock("../../../src/code/index.js", () => ({
+  getCodeTools: vi.fn(),
+}));
+
+vi.mock("../../../src/process/index.js", () => ({
+  getProcessTools: vi.fn(),
+}));
+
+vi.mock("../../../src/plugins/index.js", () => ({
+  getPluginTools: vi.fn(),
+}));
+
+vi.mock("../../../src/core/index.js", async () => {
+  const actual = await vi.importActual("../../../src/core/index.js");
+  return { ...actual, loadConfigAsync: vi.fn() };
+});
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getCodeTools } from "../../../src/code/index.js";
+import {
+  CheckResultBuilder,
+  type Config,
+  ConfigError,
+  type IToolRunner,
+  loadConfigAsync,
+  type Violation,
+} from "../../../src/core/index.js";
+import { getPluginTools } from "../../../src/plugins/index.js";
+import { getProcessTools } from "../../../src/process/index.js";
+import { diffViolations, isToolInput, WatchSession } from "../../../src/watch/index.js";
+
+function makeViolation(overrides: Partial<Violation> = {}): Violation {
+  return {
+    rule: "code.linting",
+    tool: "eslint",
+    file: "src/a.ts",
+    line: 1,
+    message: "Unexpected any",
+    severity: "error",
+    ...overrides,
+  };
+}
+
+function makeTool(name: string, overrides: Partial<IToolRunner> = {}): IToolRunner {
+  return {
+    name,
+    rule: "code.linting",
+    toolId: name.toLowerCase(),
+    configFiles: [],
+    run: vi.fn().mockResolvedValue(CheckResultBuilder.pass(name, "code.linting")),
+    audit: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe("isToolInput", () => {
+  it("matches config files anywhere in the project", () => {
+    const tool = makeTool("ESLint", { configFiles: ["eslint.config.js"], sourcePatterns: [] });
+
+    expect(isToolInput(tool, "eslint.config.js")).toBe(true);
+    expect(isToolInput(tool, "packages/a/eslint.config.js")).toBe(true);
+    expect(isToolInput(tool, "src/a.ts")).toBe(false);
+  });
+
+  it("matches source patterns", () => {
+    const tool = makeTool("Tsc", { sourcePatterns: ["**/*.{ts,tsx}"] });
+
+    expect(isToolInput(tool, "a.ts")).toBe(true);
+    expect(isToolInput(tool, ".storybook/main.tsx")).toBe(true);
+    expect(isToolInput(tool, "README.md")).toBe(false);
+  });
+
+  it("treats every file as an input when no source patterns are declared", () => {
+    expect(isToolInput(makeTool("Gitleaks"), "README.md")).toBe(true);
+  });
+
+  it("never treats the tool's own output as an input", () => {
+    const tool = makeTool("Coverage", {
+      sourcePatterns: ["**/*"],
+      outputPatterns: ["coverage.out"],
+    });
+
+    expect(isToolInput(tool, "coverage.out")).toBe(false);
+    expect(isToolInput(tool, "main.go")).toBe(true);
+  });
+});
+
+describe("diffViolations", () => {
+  it("reports added and fixed violations", () => {
+    const kept = makeViolation();
+    const fixed = makeViolation({ message: "Missing return type" });
+    const added = makeViolation({ file: "src/b.ts" });
+
+    expect(diffViolations([kept, fixed], [kept, added])).toEqual({
+      added: [added],
+      fixed: [fixed],
+    });
+  });
+
+  it("ignores violations that only moved lines", () => {
+    const diff = diffViolations([makeViolation({ line: 1 })], [makeViolation({ line: 5 })]);
+
+    expect(diff).toEqual({ added: [], fixed: [] });
+  });
+
+  it("counts duplicate violations", () => {
+    const diff = diffViolations([makeViolation()], [makeViolation(), makeViolation({ line: 9 })]);
+
+    expect(diff.added).toHaveLength(1);
+    expect(diff.fixed).toHaveLength(0);
+  });
+});
+
+describe("WatchSession", () => {
+  let eslint: IToolRunner;
+  let hooks: IToolRunner;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    eslint = makeTool("ESLint", { sourcePatterns: ["**/*.ts"] });
+    hooks = makeTool("Hooks", { sourcePatterns: [".husky/**"] });
+    vi.mocked(loadConfigAsync).mockResolvedValue({
+      config: {} as Config,
+      configPath: "/project/standards.toml",
+    });
+    vi.mocked(getCodeTools).mockReturnValue([eslint]);
+    vi.mocked(getProcessTools).mockReturnValue([hooks]);
+    vi.mocked(getPluginTools).mockResolvedValue(new Map());
+  });
+
+  it("runs every tool on start", async () => {
+    vi.mocked(eslint.run).mockResolvedValue(
+      CheckResultBuilder.fromViolations("ESLint", "code.linting", [makeViolation()])
+    );
+    const session = new WatchSession("/project", "/project/standards.toml");
+
+    const output = await session.start();
+
+    expect(output).toContain("Watching 2 tool(s)");
+    expect(output).toContain("+ src/a.ts:1 Unexpected any");
+    expect(output).toContain("1 violation(s)");
+  });
+
+  it("only re-runs tools whose inputs changed", async () => {
+    const session = new WatchSession("/project", "/project/standards.toml");
+    await session.start();
+    vi.mocked(eslint.run).mockResolvedValue(
+      CheckResultBuilder.fromViolations("ESLint", "code.linting", [makeViolation()])
+    );
+
+    const output = await session.update(["src/a.ts"]);
+
+    expect(eslint.run).toHaveBeenCalledTimes(2);
+    expect(hooks.run).toHaveBeenCalledTimes(1);
+    expect(output).toContain("ran ESLint");
+    expect(output).toContain("+ src/a.ts:1 Unexpected any");
+  });
+
+  it("reports fixed violations", async () => {
+    vi.mocked(eslint.run).mockResolvedValueOnce(
+      CheckResultBuilder.fromViolations("ESLint", "code.linting", [makeViolation()])
+    );
+    const session = new WatchSession("/project", "/project/standards.toml");
+    await session.start();
+
+    const output = await session.update(["src/a.ts"]);
+
+    expect(output).toContain("- src/a.ts:1 Unexpected any");
+    expect(output).toContain("No violations");
+  });
+
+  it("returns nothing when no tool is affected", async () => {
+    const session = new WatchSession("/project", "/project/standards.toml");
+    await session.start();
+
+    expect(await session.update(["README.md", "node_modules/x/index.ts"])).toBe("");
+    expect(eslint.run).toHaveBeenCalledTimes(1);
+  });
+
+  it("reloads config and re-runs all tools when the config changes", async () => {
+    const session = new WatchSession("/project", "/project/standards.toml");
+    await session.start();
+
+    const output = await session.update(["standards.toml"]);
+
+    expect(loadConfigAsync).toHaveBeenCalledTimes(2);
+    expect(getCodeTools).toHaveBeenCalledTimes(2);
+    expect(output).toContain("standards.toml changed");
+  });
+
+  it("keeps the previous config when the new one is invalid", async () => {
+    const session = new WatchSession("/project", "/project/standards.toml");
+    await session.start();
+    vi.mocked(loadConfigAsync).mockRejectedValue(new ConfigError("bad toml"));
+
+    const output = await session.update(["standards.toml"]);
+
+    expect(output).toContain("keeping previous config: bad toml");
+    await session.update(["src/a.ts"]);
+    expect(eslint.run).toHaveBeenCalledTimes(2);
+  });
+
+  it("only loads tools for the requested domain", async () => {
+    const session = new WatchSession("/project", "/project/standards.toml", "code");
+
+    await session.start();
+
+    expect(getProcessTools).not.toHaveBeenCalled();
+    expect(getPluginTools).toHaveBeenCalledWith("/project", {}, { domain: "code" });
+  });
+
+  it("reports tool errors as violations", async () => {
+    vi.mocked(eslint.run).mockRejectedValue(new Error("crashed"));
+    const session = new WatchSession("/project", "/project/standards.toml");
+
+    const output = await session.start();
+
+    expect(output).toContain("Tool error: crashed");
+  });
+});